@@ -9,6 +9,8 @@ import { NetworkStatusProvider } from "@/context/network-status-context";
 import { SyncProvider } from "@/context/sync-context";
 import OfflineIndicator from "@/components/ui/offline-indicator";
 import { SyncIndicator } from "@/components/ui/sync-indicator";
+import { SyncConflictDialog } from "@/components/ui/sync-conflict-dialog";
+import ScheduledPostReminder from "@/components/posts/scheduled-post-reminder";
 import Home from "@/pages/home";
 import Twitter from "@/pages/twitter";
 import LinkedIn from "@/pages/linkedin";
@@ -18,7 +20,12 @@ import Facebook from "@/pages/facebook";
 import WhatsApp from "@/pages/whatsapp";
 import Notes from "@/pages/notes";
 import Journal from "@/pages/journal";
+import JournalInsights from "@/pages/journal-insights";
 import Documentation from "@/pages/documentation";
+import Calendar from "@/pages/calendar";
+import Drafts from "@/pages/drafts";
+import Search from "@/pages/search";
+import Trash from "@/pages/trash";
 import Profile from "@/pages/profile";
 import Checkout from "@/pages/checkout";
 import Login from "@/pages/login";
@@ -36,7 +43,12 @@ function Router() {
       <Route path="/whatsapp" component={WhatsApp}/>
       <Route path="/notes" component={Notes}/>
       <Route path="/journal" component={Journal}/>
+      <Route path="/journal/insights" component={JournalInsights}/>
       <Route path="/docs" component={Documentation}/>
+      <Route path="/calendar" component={Calendar}/>
+      <Route path="/drafts" component={Drafts}/>
+      <Route path="/search/:filterId?" component={Search}/>
+      <Route path="/trash" component={Trash}/>
       <Route path="/profile" component={Profile}/>
       <Route path="/checkout" component={Checkout}/>
       <Route path="/login" component={Login}/>
@@ -60,6 +72,8 @@ function App() {
               <div className="fixed bottom-4 right-4 flex flex-col gap-2 z-30">
                 <OfflineIndicator />
               </div>
+              <SyncConflictDialog />
+              <ScheduledPostReminder />
               <Toaster />
             </div>
           </SyncProvider>
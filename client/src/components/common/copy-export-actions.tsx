@@ -7,7 +7,9 @@ import {
   CheckIcon, 
   MoreVertical,
   Type,
-  Image
+  Image,
+  FileCode,
+  Upload
 } from 'lucide-react';
 import { 
   copyPostToClipboard, 
@@ -16,7 +18,8 @@ import {
   copyPostTextOnly, 
   copyPostMediaOnly 
 } from '@/lib/copy-utils';
-import { exportContent } from '@/lib/export-utils';
+import { exportContent, downloadAsMarkdown } from '@/lib/export-utils';
+import { readMarkdownFiles, type FrontMatter, type ImportedMarkdown } from '@/lib/markdown';
 import { useToast } from '@/hooks/use-toast';
 import {
   DropdownMenu,
@@ -47,6 +50,8 @@ interface CopyExportActionsProps {
   size?: 'sm' | 'md' | 'lg';
   iconOnly?: boolean;
   onCopy?: () => void; // Callback function to execute after successful copy
+  markdownFrontMatter?: FrontMatter; // Extra fields for the front matter of Markdown exports
+  onImportMarkdown?: (imported: ImportedMarkdown) => void; // Shows "Import Markdown" when set
 }
 
 export function CopyExportActions({
@@ -61,9 +66,12 @@ export function CopyExportActions({
   size = 'md',
   iconOnly = false,
   onCopy,
+  markdownFrontMatter,
+  onImportMarkdown,
 }: CopyExportActionsProps) {
   const { toast } = useToast();
   const [copied, setCopied] = React.useState(false);
+  const markdownInputRef = React.useRef<HTMLInputElement>(null);
 
   // Size-specific classes
   const buttonSizeClasses = {
@@ -246,29 +254,61 @@ export function CopyExportActions({
     }
   };
 
-  const handleExport = async (format: 'pdf' | 'docx') => {
+  const handleExport = async (format: 'pdf' | 'docx' | 'md') => {
+    const exportFileName = fileName || title.toLowerCase().replace(/[^a-z0-9]/g, '_');
+    const exportHtml = post?.formattedContent?.html || content;
+    const formatName = format === 'md' ? 'Markdown' : format.toUpperCase();
+
     try {
-      await exportContent(
-        title, 
-        post?.formattedContent?.html || content, 
-        format,
-        fileName || title.toLowerCase().replace(/[^a-z0-9]/g, '_')
-      );
+      if (format === 'md') {
+        await downloadAsMarkdown(title, exportHtml, exportFileName, markdownFrontMatter);
+      } else {
+        await exportContent(title, exportHtml, format, exportFileName);
+      }
       
       toast({
-        title: `Export as ${format.toUpperCase()} successful`,
+        title: `Export as ${formatName} successful`,
         description: `File has been downloaded successfully`,
       });
     } catch (error) {
       console.error(`Error exporting as ${format}:`, error);
       toast({
         title: `Export failed`,
-        description: `Unable to export content as ${format.toUpperCase()}`,
+        description: `Unable to export content as ${formatName}`,
         variant: "destructive",
       });
     }
   };
 
+  // Read the picked Markdown file and hand it to the parent to replace the content with
+  const handleImportMarkdown = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImportMarkdown) return;
+
+    try {
+      const [imported] = await readMarkdownFiles([file]);
+      if (imported) onImportMarkdown(imported);
+    } catch (error) {
+      console.error('Error importing Markdown:', error);
+      toast({
+        title: "Import failed",
+        description: "Unable to read this Markdown file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const markdownInput = onImportMarkdown && (
+    <input
+      ref={markdownInputRef}
+      type="file"
+      accept=".md,.markdown,text/markdown"
+      className="hidden"
+      onChange={handleImportMarkdown}
+    />
+  );
+
   if (iconOnly) {
     return (
       <DropdownMenu>
@@ -318,9 +358,24 @@ export function CopyExportActions({
                 <FileText className="mr-2 h-4 w-4" />
                 Export as Word
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('md')}>
+                <FileCode className="mr-2 h-4 w-4" />
+                Export as Markdown
+              </DropdownMenuItem>
+            </>
+          )}
+
+          {onImportMarkdown && (
+            <>
+              {(showCopy || showExport) && <DropdownMenuSeparator />}
+              <DropdownMenuItem onClick={() => markdownInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import Markdown
+              </DropdownMenuItem>
             </>
           )}
         </DropdownMenuContent>
+        {markdownInput}
       </DropdownMenu>
     );
   }
@@ -404,9 +459,23 @@ export function CopyExportActions({
               <FileText className="mr-2 h-4 w-4" />
               Export as Word
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('md')}>
+              <FileCode className="mr-2 h-4 w-4" />
+              Export as Markdown
+            </DropdownMenuItem>
+            {onImportMarkdown && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => markdownInputRef.current?.click()}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import Markdown
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       )}
+      {markdownInput}
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { FiCheck, FiCopy } from 'react-icons/fi';
+import { isMediaReference, resolveMediaUrl } from '@/lib/media-store';
 
 interface MediaContentProps {
   src: string;
@@ -32,6 +33,21 @@ export function MediaContent({
   const [isPressed, setIsPressed] = useState(false);
   const pressTimer = useRef<NodeJS.Timeout | null>(null);
   const mediaRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
+  // media:// references are shown through an object URL once the file is read from the store
+  const [resolvedSrc, setResolvedSrc] = useState(isMediaReference(src) ? '' : src);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResolvedSrc(isMediaReference(src) ? '' : src);
+    resolveMediaUrl(src)
+      .then(url => {
+        if (!cancelled) setResolvedSrc(url);
+      })
+      .catch(error => console.error('Error resolving media:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
   
   // Determine size-based styling with better responsiveness
   const sizeStyles = {
@@ -170,7 +186,7 @@ export function MediaContent({
         return (
           <img
             ref={mediaRef as React.RefObject<HTMLImageElement>}
-            src={src}
+            src={resolvedSrc || undefined}
             alt={alt}
             className={`object-cover ${sizeStyles[size]} ${className} ${isPressed ? 'scale-95 opacity-80' : ''} transition-all`}
             onDoubleClick={handleDoubleClick}
@@ -183,7 +199,7 @@ export function MediaContent({
         return (
           <video
             ref={mediaRef as React.RefObject<HTMLVideoElement>}
-            src={src}
+            src={resolvedSrc || undefined}
             className={`object-cover ${sizeStyles[size]} ${className} ${isPressed ? 'scale-95 opacity-80' : ''} transition-all`}
             controls
             onDoubleClick={handleDoubleClick}
@@ -195,7 +211,7 @@ export function MediaContent({
       case 'audio':
         return (
           <audio
-            src={src}
+            src={resolvedSrc || undefined}
             className={`w-full ${className}`}
             controls
           />
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { onStoreChange } from '@/lib/offline-storage';
+import { diffHtml } from '@/lib/merge-utils';
+import { getRevisions, getRevisionHtml, restoreRevision } from '@/lib/revisions';
+import type { Note, Document, Revision, RevisionEntityType, EntityId } from '@shared/schema';
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId: EntityId;
+  // What the editor holds now, which revisions are compared against
+  currentTitle: string;
+  currentHtml: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (restored: Note | Document) => void;
+}
+
+/**
+ * Side panel listing the earlier versions of a note or document, with the words changed
+ * since each one and a button to go back to it
+ */
+export function RevisionHistory({
+  entityType,
+  entityId,
+  currentTitle,
+  currentHtml,
+  open,
+  onOpenChange,
+  onRestore,
+}: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedId, setSelectedId] = useState<EntityId | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadRevisions = () => {
+      getRevisions(entityType, entityId)
+        .then(setRevisions)
+        .catch(error => console.error('Error loading revisions:', error));
+    };
+
+    loadRevisions();
+    // Revisions synced from other devices show up while the panel is open
+    return onStoreChange(store => {
+      if (store === 'revisions') loadRevisions();
+    });
+  }, [open, entityType, entityId]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || revisions[0];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await restoreRevision(selected);
+      if (!restored) {
+        toast({
+          title: 'Nothing to restore',
+          description: `This ${entityType} no longer exists.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Version restored',
+        description: `The version from ${format(new Date(selected.createdAt), 'MMM d, h:mm a')} is back. The one it replaced is in the history.`,
+      });
+      onRestore(restored);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to restore this version. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>
+            Earlier versions are kept as you save. Pick one to see what has changed since.
+          </SheetDescription>
+        </SheetHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No earlier versions yet. They appear here once this {entityType} has been saved over.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-1 sm:grid-cols-[200px_1fr] gap-3">
+            <ul className="overflow-y-auto space-y-1 max-h-40 sm:max-h-none">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left rounded-md px-2 py-1.5 text-sm hover:bg-gray-100 ${
+                      revision.id === selected?.id ? 'bg-gray-100 font-medium' : ''
+                    }`}
+                  >
+                    <div>{format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex flex-col min-h-0 gap-2">
+                {selected.title !== currentTitle && (
+                  <p className="text-sm">
+                    <span className="text-gray-500">Title: </span>
+                    <del className="bg-red-100 text-red-800">{selected.title}</del>{' '}
+                    <ins className="bg-green-100 text-green-800 no-underline">{currentTitle}</ins>
+                  </p>
+                )}
+                <div
+                  className="flex-1 overflow-y-auto border rounded-md p-3 prose prose-sm max-w-none [&_ins]:bg-green-100 [&_ins]:text-green-800 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-800"
+                  dangerouslySetInnerHTML={{ __html: diffHtml(getRevisionHtml(selected), currentHtml) }}
+                />
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-500">
+                    <del className="bg-red-100 text-red-800">Removed</del> and{' '}
+                    <ins className="bg-green-100 text-green-800 no-underline">added</ins> since this version
+                  </span>
+                  <Button size="sm" onClick={handleRestore} disabled={isRestoring}>
+                    {isRestoring ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
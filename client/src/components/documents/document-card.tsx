@@ -4,11 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { DeleteButton } from '@/components/ui/delete-button';
+import { getDocumentFrontMatter } from '@/lib/export-utils';
+import type { ImportedMarkdown } from '@/lib/markdown';
 
 interface DocumentCardProps {
   document: Document;
   onEdit: (document: Document) => void;
-  onDelete: (documentId: number) => void;
+  onDelete: (documentId: string) => void;
+  onImportMarkdown?: (document: Document, imported: ImportedMarkdown) => void;
 }
 
 // Predefined categories - matching the ones in document-editor.tsx
@@ -28,7 +31,7 @@ const stripHtml = (html: string) => {
   return div.textContent || div.innerText || '';
 };
 
-export default function DocumentCard({ document: doc, onEdit, onDelete }: DocumentCardProps) {
+export default function DocumentCard({ document: doc, onEdit, onDelete, onImportMarkdown }: DocumentCardProps) {
 
   const getCategoryColor = (categoryId: string) => {
     switch (categoryId) {
@@ -97,6 +100,8 @@ export default function DocumentCard({ document: doc, onEdit, onDelete }: Docume
               fileName={`document_${doc.id}_${doc.title.toLowerCase().replace(/[^a-z0-9]/g, '_')}`}
               size="sm"
               iconOnly={true}
+              markdownFrontMatter={getDocumentFrontMatter(doc)}
+              onImportMarkdown={onImportMarkdown ? (imported) => onImportMarkdown(doc, imported) : undefined}
             />
           </div>
         </div>
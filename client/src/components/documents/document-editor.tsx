@@ -5,6 +5,7 @@ import TagInput from '@/components/ui/tag-input';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { RevisionHistory } from '@/components/common/revision-history';
 import { createDocument, updateDocument } from '@/lib/storage';
 import { Document } from '@shared/schema';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -36,6 +37,7 @@ export default function DocumentEditor({ document, onSave, onDiscard }: Document
   
   // UI state
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   useEffect(() => {
     // Reset form when a new document is loaded for editing
@@ -221,6 +223,12 @@ export default function DocumentEditor({ document, onSave, onDiscard }: Document
       </div>
       
       <div className="flex justify-end space-x-2">
+        {document?.id && (
+          <Button variant="ghost" onClick={() => setIsHistoryOpen(true)}>
+            <i className="ri-history-line mr-1"></i>
+            History
+          </Button>
+        )}
         <Button 
           variant="outline" 
           onClick={() => {
@@ -250,6 +258,21 @@ export default function DocumentEditor({ document, onSave, onDiscard }: Document
           ) : 'Save Document'}
         </Button>
       </div>
+      
+      {document?.id && (
+        <RevisionHistory
+          entityType="document"
+          entityId={document.id}
+          currentTitle={title}
+          currentHtml={content}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          onRestore={(restored) => {
+            setTitle(restored.title);
+            setContent(restored.formattedContent?.html || restored.content);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
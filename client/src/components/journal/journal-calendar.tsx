@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { JournalEntry } from '@shared/schema';
+import { getDayKey, getDayMood, groupEntriesByDay } from '@/lib/journal-calendar';
+import { MOODS, getMood } from '@/lib/journal-moods';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+interface JournalCalendarProps {
+  entries: JournalEntry[];
+  onOpenEntry: (entry: JournalEntry) => void;
+  // Start a new entry for a day, given as yyyy-MM-dd
+  onCreateEntry: (day: string) => void;
+}
+
+export default function JournalCalendar({ entries, onOpenEntry, onCreateEntry }: JournalCalendarProps) {
+  const [cursor, setCursor] = useState(new Date());
+  // Day with several entries whose list is open
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const entriesByDay = useMemo(() => groupEntriesByDay(entries), [entries]);
+  const days = eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) });
+  const selectedEntries = selectedDay ? entriesByDay.get(selectedDay) || [] : [];
+
+  const step = (direction: 1 | -1) => {
+    setCursor(addMonths(cursor, direction));
+    setSelectedDay(null);
+  };
+
+  // One entry opens, none starts one, several are listed to pick from
+  const handleDayClick = (day: string) => {
+    const dayEntries = entriesByDay.get(day) || [];
+    if (dayEntries.length === 0) onCreateEntry(day);
+    else if (dayEntries.length === 1) onOpenEntry(dayEntries[0]);
+    else setSelectedDay(selectedDay === day ? null : day);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => step(-1)} title="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => step(1)} title="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-base font-medium text-gray-800 ml-1">{format(cursor, 'MMMM yyyy')}</h3>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => { setCursor(new Date()); setSelectedDay(null); }}>
+          Today
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-7 bg-gray-50 border-b">
+          {days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="text-xs font-medium text-gray-500 p-2 text-center">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const key = getDayKey(day);
+            const dayEntries = entriesByDay.get(key) || [];
+            const mood = getDayMood(dayEntries);
+            return (
+              <button
+                key={key}
+                className={`border-b border-r h-16 p-1 flex flex-col items-start text-left hover:ring-2 hover:ring-inset hover:ring-gray-300 ${
+                  !isSameMonth(day, cursor) ? 'opacity-40' : ''
+                } ${dayEntries.length > 0 && !mood ? 'bg-gray-100' : ''} ${selectedDay === key ? 'ring-2 ring-inset ring-[#022958]' : ''}`}
+                style={mood ? { backgroundColor: `${mood.color}33` } : undefined}
+                onClick={() => handleDayClick(key)}
+                title={dayEntries.length === 0
+                  ? `Write an entry for ${format(day, 'MMMM d')}`
+                  : dayEntries.map(entry => entry.title || 'Untitled entry').join('\n')}
+              >
+                <span className={`text-xs px-1.5 rounded-full ${isToday(day) ? 'bg-[#022958] text-white' : 'text-gray-700'}`}>
+                  {format(day, 'd')}
+                </span>
+                {dayEntries.length > 0 && (
+                  <span className="mt-auto flex items-center gap-1 text-xs text-gray-700">
+                    {mood && <i className={mood.icon} style={{ color: mood.color }}></i>}
+                    {dayEntries.length > 1 && <span>{dayEntries.length}</span>}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {MOODS.map(mood => (
+          <span key={mood.value} className="flex items-center">
+            <span className="h-3 w-3 rounded-sm mr-1" style={{ backgroundColor: `${mood.color}66` }}></span>
+            {mood.label}
+          </span>
+        ))}
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded-sm mr-1 bg-gray-200"></span>
+          No mood
+        </span>
+      </div>
+
+      {selectedDay && (
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium text-gray-800">{format(parseISO(selectedDay), 'EEEE, MMMM d, yyyy')}</h4>
+            <Button variant="ghost" size="sm" onClick={() => onCreateEntry(selectedDay)}>
+              <i className="ri-add-line mr-1"></i>
+              Write another
+            </Button>
+          </div>
+          {selectedEntries.map(entry => {
+            const entryMood = getMood(entry.mood);
+            return (
+              <button
+                key={entry.id}
+                className="w-full flex items-center gap-2 text-left text-sm p-2 rounded hover:bg-gray-50"
+                onClick={() => onOpenEntry(entry)}
+              >
+                {entryMood && <i className={entryMood.icon} style={{ color: entryMood.color }}></i>}
+                <span className="truncate">{entry.title || 'Untitled entry'}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,48 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useUser } from '@/context/new-user-context';
 import RichTextEditor from '@/components/ui/rich-text-editor';
 import TagInput from '@/components/ui/tag-input';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import TrackerInputs from '@/components/journal/tracker-inputs';
+import TrackerManagerDialog from '@/components/journal/tracker-manager-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { createJournalEntry, updateJournalEntry } from '@/lib/storage';
-import { JournalEntry } from '@shared/schema';
-import { format } from 'date-fns';
+import { getDayKey, getEntryDay, toEntryDate } from '@/lib/journal-calendar';
+import {
+  getDailyPrompt,
+  getJournalTemplate,
+  getJournalTemplates,
+  renderSections,
+  subscribeToTemplates,
+  toSections,
+} from '@/lib/journal-templates';
+import { getJournalTrackers, subscribeToTrackers } from '@/lib/journal-trackers';
+import { JournalEntry, JournalSection, TrackerValue } from '@shared/schema';
+import { htmlToText } from '@shared/search';
+import { parseISO } from 'date-fns';
+
+// Select value for writing without a template
+const NO_TEMPLATE = 'none';
 
 interface JournalEditorProps {
   entry?: JournalEntry;
+  // Day a new entry is for, as yyyy-MM-dd; today when not given
+  initialDate?: string;
+  // Notebook a new entry goes in, and the template it starts from
+  notebookId?: string | null;
+  defaultTemplateId?: string | null;
   onSave?: (entry: JournalEntry) => void;
   onDiscard?: () => void;
 }
 
-export default function JournalEditor({ entry, onSave, onDiscard }: JournalEditorProps) {
+export default function JournalEditor({ entry, initialDate, notebookId, defaultTemplateId, onSave, onDiscard }: JournalEditorProps) {
   const { user } = useUser();
   const { toast } = useToast();
+  // Only looked up once; a default template deleted since is skipped
+  const [defaultTemplate] = useState(() => (entry ? undefined : getJournalTemplate(defaultTemplateId)));
   
   // Data for the journal entry
   const [title, setTitle] = useState(entry?.title || '');
@@ -26,14 +51,41 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
   const [weather, setWeather] = useState(entry?.weather || '');
   const [location, setLocation] = useState(entry?.location || '');
   const [entryDate, setEntryDate] = useState(
-    entry?.date ? format(new Date(entry.date), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd')
+    entry?.date ? getEntryDay(entry) : initialDate || getDayKey(new Date())
   );
   const [tags, setTags] = useState<string[]>(entry?.tags || []);
+  const [templateId, setTemplateId] = useState(entry?.templateId || defaultTemplate?.id || '');
+  // Answers to the template's sections; empty when writing freely
+  const [sections, setSections] = useState<JournalSection[]>(
+    entry?.sections || (defaultTemplate ? toSections(defaultTemplate) : [])
+  );
+  // Values of trackers that have since been removed are kept as they are
+  const [trackerValues, setTrackerValues] = useState<Record<string, TrackerValue>>(entry?.trackers || {});
   
   // UI state
   const [isSaving, setIsSaving] = useState(false);
   const [showMoodSelector, setShowMoodSelector] = useState(false);
   const [showWeatherSelector, setShowWeatherSelector] = useState(false);
+  const [templates, setTemplates] = useState(getJournalTemplates);
+  const [trackers, setTrackers] = useState(getJournalTrackers);
+  const [showTrackerManager, setShowTrackerManager] = useState(false);
+  // How many prompts past the day's one to show, or null once it's been used or dismissed
+  const [promptOffset, setPromptOffset] = useState<number | null>(entry ? null : 0);
+
+  // The rich text editor looks for a draft whenever it mounts, which it does again when
+  // switching from a template back to a blank page. Only the first look counts; child effects
+  // run before this one, so it has happened by the time this is set.
+  const draftChecked = useRef(false);
+  useEffect(() => {
+    draftChecked.current = true;
+  }, []);
+
+  useEffect(() => subscribeToTemplates(() => setTemplates(getJournalTemplates())), []);
+  useEffect(() => subscribeToTrackers(() => setTrackers(getJournalTrackers())), []);
+
+  const isTemplated = sections.length > 0;
+  const activeTemplate = templates.find(template => template.id === templateId);
+  const hasBody = isTemplated ? sections.some(section => section.text.trim()) : !!content.trim();
 
   const moodOptions = [
     { value: 'happy', icon: 'ri-emotion-happy-line', label: 'Happy' },
@@ -63,7 +115,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
       return;
     }
 
-    if (!title.trim() && !content.trim()) {
+    if (!title.trim() && !hasBody) {
       toast({
         title: "Content required",
         description: "Please add either a title or some content for your journal entry.",
@@ -74,16 +126,22 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
 
     setIsSaving(true);
     try {
+      // A templated entry's sections are rendered into its content, so it reads, searches
+      // and exports like any other entry
+      const html = isTemplated ? renderSections(sections) : content;
       const entryData = {
         userId: user.id,
         title,
-        content,
-        formattedContent: { html: content },
-        date: new Date(entryDate),
+        content: html,
+        formattedContent: { html },
+        date: toEntryDate(entryDate),
         mood,
         weather,
         location,
-        tags
+        tags,
+        templateId: isTemplated ? templateId || null : null,
+        sections: isTemplated ? sections : null,
+        trackers: Object.keys(trackerValues).length > 0 ? trackerValues : null
       };
 
       let savedEntry;
@@ -92,7 +150,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
         savedEntry = await updateJournalEntry(entry.id, entryData);
       } else {
         // Create new entry
-        savedEntry = await createJournalEntry(entryData);
+        savedEntry = await createJournalEntry({ ...entryData, notebookId: notebookId || null });
       }
 
       if (savedEntry) {
@@ -130,6 +188,38 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
     setShowWeatherSelector(false);
   };
 
+  // Switching templates keeps the answers to sections the two share. Going to a blank page
+  // turns the answers into rich text, and the first section takes any free text written so far.
+  const selectTemplate = (value: string) => {
+    const template = templates.find(option => option.id === value);
+    if (!template) {
+      if (isTemplated) setContent(renderSections(sections));
+      setTemplateId('');
+      setSections([]);
+      return;
+    }
+
+    const nextSections = toSections(template, sections);
+    const freeText = isTemplated ? '' : htmlToText(content).trim();
+    if (freeText && !nextSections[0].text) nextSections[0] = { ...nextSections[0], text: freeText };
+    setTemplateId(template.id);
+    setSections(nextSections);
+    setContent('');
+  };
+
+  const updateSection = (id: string, text: string) => {
+    setSections(sections.map(section => (section.id === id ? { ...section, text } : section)));
+  };
+
+  const prompt = promptOffset === null ? null : getDailyPrompt(parseISO(entryDate), promptOffset);
+
+  // The prompt becomes the title, or a heading to write under when there already is one
+  const usePrompt = (text: string) => {
+    if (!title.trim()) setTitle(text);
+    else setContent(`<h3>${text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</h3><p></p>${content}`);
+    setPromptOffset(null);
+  };
+
   // Helper to get the selected mood or weather icon
   const getSelectedIcon = (value: string, options: any[]) => {
     const option = options.find(o => o.value === value);
@@ -138,7 +228,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
   
   // Autosave effect for all fields
   useEffect(() => {
-    if (!entry?.id && (title.trim() || content.trim() || tags.length > 0 || mood || weather || location)) {
+    if (!entry?.id && (title.trim() || hasBody || tags.length > 0 || mood || weather || location || Object.keys(trackerValues).length > 0)) {
       const draftId = entry?.id?.toString() || 'new';
       const saveTimeout = setTimeout(() => {
         // Save to local draft
@@ -150,7 +240,10 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
             mood,
             weather,
             location,
-            entryDate
+            entryDate,
+            templateId,
+            sections,
+            trackers: trackerValues
           });
           saveDraft('journal', draftId, draftData);
         });
@@ -158,7 +251,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
       
       return () => clearTimeout(saveTimeout);
     }
-  }, [title, content, tags, mood, weather, location, entryDate, entry?.id]);
+  }, [title, content, tags, mood, weather, location, entryDate, templateId, sections, trackerValues, entry?.id]);
 
   // Handle discard to clear any drafts
   const handleDiscard = () => {
@@ -174,12 +267,38 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
   return (
     <div className="bg-white rounded-lg shadow-md p-4">
       <div className="flex justify-between items-center mb-3">
-        <Input
-          type="date"
-          value={entryDate}
-          onChange={(e) => setEntryDate(e.target.value)}
-          className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
-        />
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={entryDate}
+            onChange={(e) => setEntryDate(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+          />
+          <Select value={isTemplated ? templateId : NO_TEMPLATE} onValueChange={selectTemplate}>
+            <SelectTrigger className="w-48 h-9 text-sm" title="Template">
+              <SelectValue placeholder="Template" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TEMPLATE}>
+                <i className="ri-file-line mr-2"></i>
+                Blank page
+              </SelectItem>
+              {isTemplated && !activeTemplate && (
+                // Written from a template that has since been deleted, or lives on another device
+                <SelectItem value={templateId} disabled>
+                  <i className="ri-file-list-3-line mr-2"></i>
+                  Other template
+                </SelectItem>
+              )}
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>
+                  <i className={`${template.icon} mr-2`}></i>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex space-x-1">
           {/* Mood selector */}
           <div className="relative">
@@ -289,7 +408,62 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
         value={title}
         onChange={(e) => setTitle(e.target.value)}
       />
+
+      <TrackerInputs
+        trackers={trackers}
+        values={trackerValues}
+        onChange={setTrackerValues}
+        onManage={() => setShowTrackerManager(true)}
+      />
       
+      {prompt && !isTemplated && (
+        <div className="flex items-center gap-2 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2 mb-3 text-sm text-yellow-900">
+          <i className="ri-lightbulb-line"></i>
+          <span className="flex-1">{prompt}</span>
+          <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => usePrompt(prompt)}>
+            Write about this
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setPromptOffset((promptOffset ?? 0) + 1)}
+            title="Another prompt"
+          >
+            <i className="ri-refresh-line"></i>
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setPromptOffset(null)}
+            title="Hide prompt"
+          >
+            <i className="ri-close-line"></i>
+          </Button>
+        </div>
+      )}
+
+      {isTemplated ? (
+        <div className="space-y-4">
+          {sections.map(section => (
+            <div key={section.id}>
+              <label htmlFor={`section-${section.id}`} className="block text-sm font-medium text-gray-800 mb-1">
+                {section.label}
+              </label>
+              <Textarea
+                id={`section-${section.id}`}
+                value={section.text}
+                onChange={(e) => updateSection(section.id, e.target.value)}
+                placeholder={activeTemplate?.sections.find(option => option.id === section.id)?.prompt}
+                className="min-h-[80px]"
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
       <RichTextEditor
         value={content}
         onChange={setContent}
@@ -300,6 +474,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
         draftType="journal"
         draftId={entry?.id?.toString() || 'new'}
         onDraftFound={(draftContent) => {
+          if (draftChecked.current) return;
           try {
             // Try to parse as JSON for drafts with additional data
             const draftData = JSON.parse(draftContent);
@@ -310,7 +485,13 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
             if (draftData.mood) setMood(draftData.mood);
             if (draftData.weather) setWeather(draftData.weather);
             if (draftData.location) setLocation(draftData.location);
-            if (draftData.entryDate) setEntryDate(draftData.entryDate);
+            if (draftData.trackers && typeof draftData.trackers === 'object') setTrackerValues(draftData.trackers);
+            if (Array.isArray(draftData.sections) && draftData.sections.length > 0) {
+              setTemplateId(draftData.templateId || '');
+              setSections(draftData.sections);
+            }
+            // A day picked on the calendar wins over the draft's
+            if (draftData.entryDate && !initialDate) setEntryDate(draftData.entryDate);
           } catch (e) {
             // For older drafts or simple string content
             setContent(draftContent);
@@ -322,6 +503,7 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
           });
         }}
       />
+      )}
       
       {/* Tags and mood display */}
       <div className="flex flex-wrap justify-between items-center mt-3 pt-3 border-t border-gray-200">
@@ -369,13 +551,15 @@ export default function JournalEditor({ entry, onSave, onDiscard }: JournalEdito
           <Button 
             size="sm" 
             onClick={handleSave}
-            disabled={isSaving || (!title.trim() && !content.trim())}
+            disabled={isSaving || (!title.trim() && !hasBody)}
             className="bg-yellow-500 hover:bg-yellow-600 text-white"
           >
             {isSaving ? 'Saving...' : 'Save'}
           </Button>
         </div>
       </div>
+
+      <TrackerManagerDialog isOpen={showTrackerManager} onClose={() => setShowTrackerManager(false)} />
     </div>
   );
 }
@@ -1,21 +1,46 @@
-import { JournalEntry } from '@shared/schema';
-import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { JournalEntry, Notebook } from '@shared/schema';
+import { format, parseISO } from 'date-fns';
+import { getEntryDay } from '@/lib/journal-calendar';
+import { DEFAULT_NOTEBOOK_COLOR, DEFAULT_NOTEBOOK_NAME, getEntryNotebookId, getNotebookColor } from '@/lib/journal-notebooks';
+import { formatTrackerValue, getJournalTrackers, getTrackerValue, subscribeToTrackers } from '@/lib/journal-trackers';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { DeleteButton } from '@/components/ui/delete-button';
 
 interface JournalEntryProps {
   entry: JournalEntry;
   onEdit: (entry: JournalEntry) => void;
-  onDelete: (entryId: number) => void;
+  onDelete: (entryId: string) => void;
+  // Notebooks the entry can be moved to; without them there's nowhere to move it
+  notebooks?: Notebook[];
+  onMove?: (entryId: string, notebookId: string | null) => void;
 }
 
-export default function JournalEntryComponent({ entry, onEdit, onDelete }: JournalEntryProps) {
+export default function JournalEntryComponent({ entry, onEdit, onDelete, notebooks = [], onMove }: JournalEntryProps) {
   // Format date as "Friday, November 10, 2023"
-  const formattedDate = format(new Date(entry.date), 'EEEE, MMMM d, yyyy');
+  const formattedDate = format(parseISO(getEntryDay(entry)), 'EEEE, MMMM d, yyyy');
   // Format time as "10:30 AM"
   const formattedTime = format(new Date(entry.createdAt), 'h:mm a');
+  const [trackers, setTrackers] = useState(getJournalTrackers);
+  useEffect(() => subscribeToTrackers(() => setTrackers(getJournalTrackers())), []);
+  const trackerValues = trackers.flatMap(tracker => {
+    const value = getTrackerValue(entry, tracker);
+    return value === undefined ? [] : [{ tracker, value }];
+  });
+  const notebookId = getEntryNotebookId(entry, notebooks);
+  const moveTargets = [
+    { id: null, name: DEFAULT_NOTEBOOK_NAME, color: DEFAULT_NOTEBOOK_COLOR },
+    ...notebooks.map(notebook => ({ id: notebook.id, name: notebook.name, color: getNotebookColor(notebook) }))
+  ].filter(target => target.id !== notebookId);
   
   // Helper to get mood icon
   const getMoodIcon = (mood: string) => {
@@ -73,6 +98,31 @@ export default function JournalEntryComponent({ entry, onEdit, onDelete }: Journ
           </div>
         </div>
         <div className="flex items-center space-x-1">
+          {onMove && notebooks.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-gray-900"
+                  onClick={(e) => e.stopPropagation()}
+                  title="Move to notebook"
+                >
+                  <i className="ri-folder-transfer-line"></i>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                {moveTargets.map(target => (
+                  <DropdownMenuItem key={target.id ?? 'default'} onClick={() => onMove(entry.id, target.id)}>
+                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: target.color }}></span>
+                    {target.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Delete Button with Confirmation */}
           <DeleteButton 
             onDelete={() => onDelete(entry.id)}
@@ -85,7 +135,7 @@ export default function JournalEntryComponent({ entry, onEdit, onDelete }: Journ
             title={entry.title}
             content={entry.formattedContent?.html || entry.content}
             isHtml={!!entry.formattedContent?.html}
-            fileName={`journal_${format(new Date(entry.date), 'yyyy_MM_dd')}`}
+            fileName={`journal_${format(parseISO(getEntryDay(entry)), 'yyyy_MM_dd')}`}
             size="sm"
             iconOnly={true}
           />
@@ -107,6 +157,16 @@ export default function JournalEntryComponent({ entry, onEdit, onDelete }: Journ
               #{tag}
             </span>
           ))}
+          {trackerValues.map(({ tracker, value }) => (
+            <span
+              key={tracker.id}
+              className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs"
+              title={tracker.name}
+            >
+              <i className={`${tracker.icon} mr-1`}></i>
+              {formatTrackerValue(tracker, value)}
+            </span>
+          ))}
         </div>
         <span className="text-xs text-gray-500">{formattedTime}</span>
       </div>
@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { useUser } from '@/context/new-user-context';
+import { useToast } from '@/hooks/use-toast';
+import { createNotebook, deleteNotebook, updateNotebook } from '@/lib/storage';
+import { DEFAULT_NOTEBOOK_NAME, NOTEBOOK_COLORS } from '@/lib/journal-notebooks';
+import { getJournalTemplates, subscribeToTemplates } from '@/lib/journal-templates';
+import { Notebook } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface NotebookSettingsDialogProps {
+  isOpen: boolean;
+  // The notebook to change, or null to set up a new one
+  notebook: Notebook | null;
+  onClose: () => void;
+  onSaved: (notebook: Notebook) => void;
+  onDeleted: () => void;
+}
+
+// Select value for starting entries on a blank page
+const NO_TEMPLATE = 'none';
+
+export default function NotebookSettingsDialog({ isOpen, notebook, onClose, onSaved, onDeleted }: NotebookSettingsDialogProps) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(NOTEBOOK_COLORS[0]);
+  const [defaultTemplateId, setDefaultTemplateId] = useState(NO_TEMPLATE);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [templates, setTemplates] = useState(getJournalTemplates);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => subscribeToTemplates(() => setTemplates(getJournalTemplates())), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(notebook?.name || '');
+    setColor(notebook?.color || NOTEBOOK_COLORS[(Math.random() * NOTEBOOK_COLORS.length) | 0]);
+    setDefaultTemplateId(notebook?.defaultTemplateId || NO_TEMPLATE);
+    setIsPrivate(notebook?.isPrivate ?? false);
+  }, [isOpen, notebook]);
+
+  const hasMissingTemplate = defaultTemplateId !== NO_TEMPLATE && !templates.some(template => template.id === defaultTemplateId);
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const settings = {
+        name: name.trim(),
+        color,
+        defaultTemplateId: defaultTemplateId === NO_TEMPLATE ? null : defaultTemplateId,
+        isPrivate
+      };
+      const saved = notebook
+        ? await updateNotebook(notebook.id, settings)
+        : await createNotebook({ ...settings, userId: user.id });
+      if (saved) onSaved(saved);
+    } catch (error) {
+      console.error('Error saving notebook:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the notebook. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!notebook) return;
+    try {
+      await deleteNotebook(notebook.id);
+      toast({
+        title: 'Notebook deleted',
+        description: `Its entries were moved to ${DEFAULT_NOTEBOOK_NAME}.`,
+      });
+      setConfirmDelete(false);
+      onDeleted();
+    } catch (error) {
+      console.error('Error deleting notebook:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the notebook. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{notebook ? 'Notebook settings' : 'New notebook'}</DialogTitle>
+            <DialogDescription>
+              Keep entries about one part of your life together, like therapy, work or travel.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="notebook-name">Name</Label>
+              <Input
+                id="notebook-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Travel"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Cover color</Label>
+              <div className="flex flex-wrap gap-2">
+                {NOTEBOOK_COLORS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    className={`w-7 h-7 rounded-full border-2 ${color === option ? 'border-gray-800' : 'border-transparent'}`}
+                    style={{ backgroundColor: option }}
+                    onClick={() => setColor(option)}
+                    aria-label={`Cover color ${option}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>New entries start from</Label>
+              <Select value={defaultTemplateId} onValueChange={setDefaultTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>
+                    <i className="ri-file-line mr-2"></i>
+                    Blank page
+                  </SelectItem>
+                  {hasMissingTemplate && (
+                    // Deleted since, or not synced to this device yet
+                    <SelectItem value={defaultTemplateId} disabled>
+                      <i className="ri-file-list-3-line mr-2"></i>
+                      Template not found
+                    </SelectItem>
+                  )}
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      <i className={`${template.icon} mr-2`}></i>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="notebook-private">Private</Label>
+                <p className="text-xs text-gray-500">
+                  Entries stay out of search, the command palette and journal insights.
+                </p>
+              </div>
+              <Switch id="notebook-private" checked={isPrivate} onCheckedChange={setIsPrivate} />
+            </div>
+          </div>
+
+          <DialogFooter className="sm:justify-between">
+            {notebook ? (
+              <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => setConfirmDelete(true)}>
+                <i className="ri-delete-bin-line mr-1"></i>
+                Delete
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+                {notebook ? 'Save' : 'Create notebook'}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete notebook"
+        description={`Delete "${notebook?.name}"? Its entries are kept and move to ${DEFAULT_NOTEBOOK_NAME}.`}
+        confirmText="Delete"
+      />
+    </>
+  );
+}
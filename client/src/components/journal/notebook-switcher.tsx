@@ -0,0 +1,75 @@
+import { Notebook } from '@shared/schema';
+import { DEFAULT_NOTEBOOK_COLOR, DEFAULT_NOTEBOOK_NAME, getNotebookColor } from '@/lib/journal-notebooks';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface NotebookSwitcherProps {
+  notebooks: Notebook[];
+  // The open notebook, or null for the default one
+  currentId: string | null;
+  onSelect: (notebookId: string | null) => void;
+  onCreate: () => void;
+  onEdit: (notebook: Notebook) => void;
+}
+
+// Select values for the default notebook and for setting up a new one; IDs never look like these
+const DEFAULT_NOTEBOOK = '__default';
+const NEW_NOTEBOOK = '__new';
+
+const CoverDot = ({ color }: { color: string }) => (
+  <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 shrink-0" style={{ backgroundColor: color }}></span>
+);
+
+export default function NotebookSwitcher({ notebooks, currentId, onSelect, onCreate, onEdit }: NotebookSwitcherProps) {
+  const current = notebooks.find(notebook => notebook.id === currentId);
+
+  const handleChange = (value: string) => {
+    if (value === NEW_NOTEBOOK) onCreate();
+    else onSelect(value === DEFAULT_NOTEBOOK ? null : value);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={current ? current.id : DEFAULT_NOTEBOOK} onValueChange={handleChange}>
+        <SelectTrigger className="w-48 h-9 text-base font-semibold text-gray-800 border-none shadow-none px-2" title="Notebook">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_NOTEBOOK}>
+            <span className="flex items-center">
+              <CoverDot color={DEFAULT_NOTEBOOK_COLOR} />
+              {DEFAULT_NOTEBOOK_NAME}
+            </span>
+          </SelectItem>
+          {notebooks.map(notebook => (
+            <SelectItem key={notebook.id} value={notebook.id}>
+              <span className="flex items-center">
+                <CoverDot color={getNotebookColor(notebook)} />
+                {notebook.name}
+                {notebook.isPrivate && <i className="ri-lock-line ml-1 text-gray-400"></i>}
+              </span>
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_NOTEBOOK}>
+            <span className="flex items-center">
+              <i className="ri-add-line mr-2"></i>
+              New notebook
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      {current && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-gray-500 hover:text-gray-900"
+          onClick={() => onEdit(current)}
+          title="Notebook settings"
+        >
+          <i className="ri-settings-3-line"></i>
+        </Button>
+      )}
+    </div>
+  );
+}
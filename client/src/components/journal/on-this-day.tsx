@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { JournalEntry } from '@shared/schema';
+import { getOnThisDay } from '@/lib/journal-calendar';
+import { getMood } from '@/lib/journal-moods';
+import { htmlToText } from '@shared/search';
+
+interface OnThisDayProps {
+  entries: JournalEntry[];
+  onOpenEntry: (entry: JournalEntry) => void;
+}
+
+// How much of each entry to show
+const PREVIEW_LENGTH = 140;
+
+export default function OnThisDay({ entries, onOpenEntry }: OnThisDayProps) {
+  const memories = useMemo(() => getOnThisDay(entries), [entries]);
+  if (memories.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4">
+      <h3 className="text-sm font-semibold text-amber-800 mb-2">
+        <i className="ri-history-line mr-1"></i>
+        On this day
+      </h3>
+      <div className="space-y-2">
+        {memories.map(({ yearsAgo, entry }) => {
+          const mood = getMood(entry.mood);
+          const preview = htmlToText(entry.formattedContent?.html || entry.content);
+          return (
+            <button
+              key={entry.id}
+              className="w-full text-left rounded p-2 hover:bg-amber-100"
+              onClick={() => onOpenEntry(entry)}
+            >
+              <div className="flex items-center gap-2 text-xs text-amber-700">
+                <span>{yearsAgo === 1 ? 'A year ago' : `${yearsAgo} years ago`}</span>
+                {mood && (
+                  <span style={{ color: mood.color }}>
+                    <i className={`${mood.icon} mr-0.5`}></i>
+                    {mood.label}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm font-medium text-gray-800">{entry.title || 'Untitled entry'}</p>
+              {preview && (
+                <p className="text-sm text-gray-600">
+                  {preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH).trimEnd()}…` : preview}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
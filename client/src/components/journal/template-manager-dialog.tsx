@@ -0,0 +1,332 @@
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteCustomTemplate,
+  exportTemplate,
+  getJournalTemplates,
+  importTemplateFile,
+  saveCustomTemplate,
+  subscribeToTemplates,
+  type JournalTemplate,
+  type TemplateSection
+} from '@/lib/journal-templates';
+import { createId } from '@shared/ids';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface TemplateManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A template being written or changed; no ID until it's first saved
+type TemplateDraft = Omit<JournalTemplate, 'id' | 'builtIn'> & { id?: string };
+
+const TEMPLATE_ICONS = [
+  'ri-file-list-3-line',
+  'ri-heart-line',
+  'ri-sun-line',
+  'ri-moon-line',
+  'ri-leaf-line',
+  'ri-flag-line',
+  'ri-focus-3-line',
+  'ri-book-open-line',
+];
+
+const emptySection = (): TemplateSection => ({ id: createId(), label: '', prompt: '' });
+
+export default function TemplateManagerDialog({ isOpen, onClose }: TemplateManagerDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [templates, setTemplates] = useState(getJournalTemplates);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<JournalTemplate | null>(null);
+
+  useEffect(() => subscribeToTemplates(() => setTemplates(getJournalTemplates())), []);
+
+  useEffect(() => {
+    if (!isOpen) setDraft(null);
+  }, [isOpen]);
+
+  const canSave = !!draft && !!draft.name.trim() && draft.sections.length > 0 && draft.sections.every(section => section.label.trim());
+
+  const startNew = () => {
+    setDraft({ name: '', description: '', icon: TEMPLATE_ICONS[0], sections: [emptySection()] });
+  };
+
+  // Built-in templates can't be changed, so they're copied into a template of the user's own
+  const startCopy = (template: JournalTemplate) => {
+    setDraft({
+      name: `${template.name} (copy)`,
+      description: template.description,
+      icon: template.icon,
+      sections: template.sections.map(section => ({ ...section }))
+    });
+  };
+
+  const updateSection = (index: number, updates: Partial<TemplateSection>) => {
+    if (!draft) return;
+    setDraft({ ...draft, sections: draft.sections.map((section, i) => (i === index ? { ...section, ...updates } : section)) });
+  };
+
+  const moveSection = (index: number, direction: 1 | -1) => {
+    if (!draft) return;
+    const sections = [...draft.sections];
+    [sections[index], sections[index + direction]] = [sections[index + direction], sections[index]];
+    setDraft({ ...draft, sections });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !canSave) return;
+    try {
+      const saved = await saveCustomTemplate(draft);
+      toast({ title: 'Template saved', description: `"${saved.name}" is ready to write with.` });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the template. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const template = await importTemplateFile(file);
+      toast({ title: 'Template imported', description: `"${template.name}" was added to your templates.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import the template.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+    try {
+      await deleteCustomTemplate(templateToDelete.id);
+      toast({
+        title: 'Template deleted',
+        description: 'Entries written with it keep their sections.',
+      });
+      setTemplateToDelete(null);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the template. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft ? (draft.id ? 'Edit template' : 'New template') : 'Journal templates'}</DialogTitle>
+            <DialogDescription>
+              {draft
+                ? 'Each section gets its own box in the editor, with the prompt shown until you start writing.'
+                : 'Guided pages to start an entry from. Share your own as a file, or find them in your backups.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft ? (
+            <div className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Evening check-in"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Input
+                    id="template-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="What it's for"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Icon</Label>
+                <div className="flex flex-wrap gap-1">
+                  {TEMPLATE_ICONS.map(icon => (
+                    <Button
+                      key={icon}
+                      type="button"
+                      variant={draft.icon === icon ? 'secondary' : 'ghost'}
+                      size="icon"
+                      onClick={() => setDraft({ ...draft, icon })}
+                    >
+                      <i className={icon}></i>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Sections</Label>
+                {draft.sections.map((section, index) => (
+                  <div key={section.id} className="flex items-start gap-2 border rounded-md p-2">
+                    <div className="flex-1 space-y-2">
+                      <Input
+                        value={section.label}
+                        onChange={(e) => updateSection(index, { label: e.target.value })}
+                        placeholder="Heading"
+                        aria-label="Section heading"
+                      />
+                      <Input
+                        value={section.prompt}
+                        onChange={(e) => updateSection(index, { prompt: e.target.value })}
+                        placeholder="Prompt shown in the empty section (optional)"
+                        aria-label="Section prompt"
+                      />
+                    </div>
+                    <div className="flex flex-col">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => moveSection(index, -1)}
+                        title="Move up"
+                      >
+                        <i className="ri-arrow-up-line"></i>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === draft.sections.length - 1}
+                        onClick={() => moveSection(index, 1)}
+                        title="Move down"
+                      >
+                        <i className="ri-arrow-down-line"></i>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={draft.sections.length === 1}
+                        onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+                        title="Remove section"
+                      >
+                        <i className="ri-delete-bin-line"></i>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, sections: [...draft.sections, emptySection()] })}
+                >
+                  <i className="ri-add-line mr-1"></i>
+                  Add section
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {templates.map(template => (
+                <div key={template.id} className="flex items-center gap-3 py-2">
+                  <i className={`${template.icon} text-lg text-gray-600`}></i>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800">
+                      {template.name}
+                      {template.builtIn && <span className="ml-2 text-xs font-normal text-gray-400">Built in</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {template.description || `${template.sections.length} ${template.sections.length === 1 ? 'section' : 'sections'}`}
+                    </p>
+                  </div>
+                  {template.builtIn ? (
+                    <Button variant="ghost" size="icon" onClick={() => startCopy(template)} title="Copy to edit">
+                      <i className="ri-file-copy-line"></i>
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => setDraft(template)} title="Edit">
+                        <i className="ri-edit-line"></i>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => exportTemplate(template)} title="Share as a file">
+                        <i className="ri-share-line"></i>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setTemplateToDelete(template)} title="Delete">
+                        <i className="ri-delete-bin-line"></i>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            {draft ? (
+              <>
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={!canSave}>
+                  Save template
+                </Button>
+              </>
+            ) : (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleFileSelected}
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <i className="ri-upload-2-line mr-1"></i>
+                  Import
+                </Button>
+                <Button onClick={startNew}>
+                  <i className="ri-add-line mr-1"></i>
+                  New template
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={!!templateToDelete}
+        onClose={() => setTemplateToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete template"
+        description={`Delete "${templateToDelete?.name}"? Entries already written with it are kept as they are.`}
+        confirmText="Delete"
+      />
+    </>
+  );
+}
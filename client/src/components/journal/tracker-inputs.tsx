@@ -0,0 +1,152 @@
+import { TrackerValue } from '@shared/schema';
+import { getScaleRange, type JournalTracker } from '@/lib/journal-trackers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface TrackerInputsProps {
+  trackers: JournalTracker[];
+  values: Record<string, TrackerValue>;
+  onChange: (values: Record<string, TrackerValue>) => void;
+  onManage: () => void;
+}
+
+// Longer scales get a number box rather than a button per value
+const MAX_SCALE_BUTTONS = 10;
+
+export default function TrackerInputs({ trackers, values, onChange, onManage }: TrackerInputsProps) {
+  // Picking the value that's already set clears it, so an entry can leave a tracker unrecorded
+  const setValue = (id: string, value: TrackerValue | undefined) => {
+    const { [id]: _previous, ...rest } = values;
+    onChange(value === undefined || value === values[id] ? rest : { ...rest, [id]: value });
+  };
+
+  // Rounded, so steps like 0.1 don't pile up floating point noise
+  const stepCounter = (tracker: JournalTracker, direction: 1 | -1) => {
+    const current = values[tracker.id];
+    const next = (typeof current === 'number' ? current : 0) + direction * (tracker.step || 1);
+    setValue(tracker.id, Math.max(0, Math.round(next * 1000) / 1000));
+  };
+
+  const setNumber = (id: string, text: string) => {
+    const { [id]: _previous, ...rest } = values;
+    const value = parseFloat(text);
+    onChange(text.trim() === '' || isNaN(value) ? rest : { ...rest, [id]: value });
+  };
+
+  if (trackers.length === 0) {
+    return (
+      <button type="button" className="text-xs text-gray-500 hover:text-gray-700 mb-3" onClick={onManage}>
+        <i className="ri-add-circle-line mr-1"></i>
+        Track sleep, energy or habits with each entry
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-3 text-sm">
+      {trackers.map(tracker => {
+        const value = values[tracker.id];
+        return (
+          <div key={tracker.id} className="flex items-center gap-1">
+            <span className="text-gray-600 mr-1" title={tracker.name}>
+              <i className={`${tracker.icon} mr-1`}></i>
+              {tracker.name}
+            </span>
+
+            {tracker.kind === 'boolean' && (
+              <>
+                <Button
+                  type="button"
+                  variant={value === true ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => setValue(tracker.id, true)}
+                >
+                  Yes
+                </Button>
+                <Button
+                  type="button"
+                  variant={value === false ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => setValue(tracker.id, false)}
+                >
+                  No
+                </Button>
+              </>
+            )}
+
+            {tracker.kind === 'scale' && (() => {
+              const { min, max } = getScaleRange(tracker);
+              if (max - min + 1 > MAX_SCALE_BUTTONS) {
+                return (
+                  <Input
+                    type="number"
+                    min={min}
+                    max={max}
+                    value={typeof value === 'number' ? value : ''}
+                    onChange={(e) => setNumber(tracker.id, e.target.value)}
+                    className="h-7 w-16 px-2"
+                    aria-label={tracker.name}
+                  />
+                );
+              }
+              return Array.from({ length: max - min + 1 }, (_, i) => min + i).map(option => (
+                <Button
+                  key={option}
+                  type="button"
+                  variant={value === option ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setValue(tracker.id, option)}
+                >
+                  {option}
+                </Button>
+              ));
+            })()}
+
+            {tracker.kind === 'counter' && (
+              <>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={typeof value !== 'number' || value <= 0}
+                  onClick={() => stepCounter(tracker, -1)}
+                  title="Less"
+                >
+                  <i className="ri-subtract-line"></i>
+                </Button>
+                <Input
+                  type="number"
+                  min={0}
+                  step={tracker.step || 1}
+                  value={typeof value === 'number' ? value : ''}
+                  onChange={(e) => setNumber(tracker.id, e.target.value)}
+                  placeholder="—"
+                  className="h-7 w-16 px-2 text-center"
+                  aria-label={tracker.name}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => stepCounter(tracker, 1)}
+                  title="More"
+                >
+                  <i className="ri-add-line"></i>
+                </Button>
+                {tracker.unit && <span className="text-xs text-gray-500">{tracker.unit}</span>}
+              </>
+            )}
+          </div>
+        );
+      })}
+      <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0 text-gray-500" onClick={onManage} title="Set up trackers">
+        <i className="ri-settings-3-line"></i>
+      </Button>
+    </div>
+  );
+}
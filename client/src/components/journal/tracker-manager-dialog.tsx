@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TRACKER_KINDS,
+  TRACKER_PRESETS,
+  deleteJournalTracker,
+  getJournalTrackers,
+  getScaleRange,
+  moveJournalTracker,
+  saveJournalTracker,
+  subscribeToTrackers,
+  type JournalTracker,
+  type TrackerKind
+} from '@/lib/journal-trackers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TrackerManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A tracker being set up or changed; no ID until it's first saved
+type TrackerDraft = Omit<JournalTracker, 'id'> & { id?: string };
+
+const TRACKER_ICONS = [
+  'ri-checkbox-circle-line',
+  'ri-moon-line',
+  'ri-flashlight-line',
+  'ri-pulse-line',
+  'ri-run-line',
+  'ri-cup-line',
+  'ri-restaurant-line',
+  'ri-capsule-line',
+  'ri-book-open-line',
+  'ri-smartphone-line',
+];
+
+const describeTracker = (tracker: JournalTracker): string => {
+  if (tracker.kind === 'boolean') return 'Yes or no';
+  if (tracker.kind === 'scale') {
+    const { min, max } = getScaleRange(tracker);
+    return `Scale from ${min} to ${max}`;
+  }
+  return `Counter${tracker.unit ? ` in ${tracker.unit}` : ''}, in steps of ${tracker.step || 1}`;
+};
+
+export default function TrackerManagerDialog({ isOpen, onClose }: TrackerManagerDialogProps) {
+  const { toast } = useToast();
+  const [trackers, setTrackers] = useState(getJournalTrackers);
+  const [draft, setDraft] = useState<TrackerDraft | null>(null);
+  const [trackerToDelete, setTrackerToDelete] = useState<JournalTracker | null>(null);
+
+  useEffect(() => subscribeToTrackers(() => setTrackers(getJournalTrackers())), []);
+
+  useEffect(() => {
+    if (!isOpen) setDraft(null);
+  }, [isOpen]);
+
+  const presets = TRACKER_PRESETS.filter(preset =>
+    !trackers.some(tracker => tracker.name.toLowerCase() === preset.name.toLowerCase())
+  );
+
+  const scale = draft ? getScaleRange(draft) : null;
+  const canSave = !!draft && !!draft.name.trim()
+    && (draft.kind !== 'scale' || (!!scale && scale.min < scale.max))
+    && (draft.kind !== 'counter' || draft.step === undefined || draft.step > 0);
+
+  const setKind = (kind: TrackerKind) => {
+    if (!draft) return;
+    // Only keep the settings that go with the kind
+    const { min, max, step, unit, ...rest } = draft;
+    setDraft({
+      ...rest,
+      kind,
+      ...(kind === 'scale' ? { min: min ?? 1, max: max ?? 5 } : {}),
+      ...(kind === 'counter' ? { step: step ?? 1, unit: unit ?? '' } : {})
+    });
+  };
+
+  // Empty number boxes are left unset, and fall back to the defaults. Scales only have whole numbers.
+  const parseNumber = (text: string, whole = false): number | undefined => {
+    const value = whole ? parseInt(text, 10) : parseFloat(text);
+    return isNaN(value) ? undefined : value;
+  };
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !canSave) return;
+    try {
+      const saved = await saveJournalTracker({ ...draft, unit: draft.unit?.trim() || undefined });
+      toast({ title: 'Tracker saved', description: `"${saved.name}" now shows up in the journal editor.` });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving tracker:', error);
+      showError('Failed to save the tracker. Please try again.');
+    }
+  };
+
+  const handleAddPreset = async (preset: Omit<JournalTracker, 'id'>) => {
+    try {
+      await saveJournalTracker(preset);
+    } catch (error) {
+      console.error('Error adding tracker:', error);
+      showError('Failed to add the tracker. Please try again.');
+    }
+  };
+
+  const handleMove = async (id: string, direction: 1 | -1) => {
+    try {
+      await moveJournalTracker(id, direction);
+    } catch (error) {
+      console.error('Error moving tracker:', error);
+      showError('Failed to move the tracker. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!trackerToDelete) return;
+    try {
+      await deleteJournalTracker(trackerToDelete.id);
+      toast({
+        title: 'Tracker removed',
+        description: 'Values already recorded are kept on their entries.',
+      });
+      setTrackerToDelete(null);
+    } catch (error) {
+      console.error('Error removing tracker:', error);
+      showError('Failed to remove the tracker. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft ? (draft.id ? 'Edit tracker' : 'New tracker') : 'Journal trackers'}</DialogTitle>
+            <DialogDescription>
+              {draft
+                ? 'Scales are rated, yes or no trackers are ticked, and counters add up.'
+                : 'Record things like sleep, energy or habits with each entry, and follow them on the insights page.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft ? (
+            <div className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="tracker-name">Name</Label>
+                  <Input
+                    id="tracker-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Hours slept"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Kind</Label>
+                  <Select value={draft.kind} onValueChange={(value) => setKind(value as TrackerKind)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRACKER_KINDS.map(kind => (
+                        <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {draft.kind === 'scale' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="tracker-min">Lowest</Label>
+                    <Input
+                      id="tracker-min"
+                      type="number"
+                      step={1}
+                      value={draft.min ?? ''}
+                      onChange={(e) => setDraft({ ...draft, min: parseNumber(e.target.value, true) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tracker-max">Highest</Label>
+                    <Input
+                      id="tracker-max"
+                      type="number"
+                      step={1}
+                      value={draft.max ?? ''}
+                      onChange={(e) => setDraft({ ...draft, max: parseNumber(e.target.value, true) })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {draft.kind === 'counter' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="tracker-unit">Unit</Label>
+                    <Input
+                      id="tracker-unit"
+                      value={draft.unit ?? ''}
+                      onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                      placeholder="glasses"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tracker-step">Step</Label>
+                    <Input
+                      id="tracker-step"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.step ?? ''}
+                      onChange={(e) => setDraft({ ...draft, step: parseNumber(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Icon</Label>
+                <div className="flex flex-wrap gap-1">
+                  {TRACKER_ICONS.map(icon => (
+                    <Button
+                      key={icon}
+                      type="button"
+                      variant={draft.icon === icon ? 'secondary' : 'ghost'}
+                      size="icon"
+                      onClick={() => setDraft({ ...draft, icon })}
+                    >
+                      <i className={icon}></i>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {trackers.length === 0 ? (
+                <p className="text-sm text-gray-500">No trackers yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {trackers.map((tracker, index) => (
+                    <div key={tracker.id} className="flex items-center gap-3 py-2">
+                      <i className={`${tracker.icon} text-lg text-gray-600`}></i>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-800">{tracker.name}</p>
+                        <p className="text-xs text-gray-500">{describeTracker(tracker)}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === 0}
+                        onClick={() => handleMove(tracker.id, -1)}
+                        title="Move up"
+                      >
+                        <i className="ri-arrow-up-line"></i>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDraft(tracker)} title="Edit">
+                        <i className="ri-edit-line"></i>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setTrackerToDelete(tracker)} title="Remove">
+                        <i className="ri-delete-bin-line"></i>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {presets.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-gray-500">Suggestions</p>
+                  <div className="flex flex-wrap gap-2">
+                    {presets.map(preset => (
+                      <Button key={preset.name} variant="outline" size="sm" onClick={() => handleAddPreset(preset)}>
+                        <i className={`${preset.icon} mr-1`}></i>
+                        {preset.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {draft ? (
+              <>
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={!canSave}>
+                  Save tracker
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => setDraft({ name: '', kind: 'scale', icon: TRACKER_ICONS[0], min: 1, max: 5 })}>
+                <i className="ri-add-line mr-1"></i>
+                New tracker
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={!!trackerToDelete}
+        onClose={() => setTrackerToDelete(null)}
+        onConfirm={handleDelete}
+        title="Remove tracker"
+        description={`Stop tracking "${trackerToDelete?.name}"? Values already recorded are kept on their entries.`}
+        confirmText="Remove"
+      />
+    </>
+  );
+}
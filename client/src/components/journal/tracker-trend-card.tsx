@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { JournalEntry } from '@shared/schema';
+import { getTrackerTrend } from '@/lib/journal-insights';
+import { downloadTrackerCsv, formatTrackerValue, getScaleRange, type JournalTracker } from '@/lib/journal-trackers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+interface TrackerTrendCardProps {
+  tracker: JournalTracker;
+  // Every entry; the trend covers the ones in range, the CSV all of them
+  entries: JournalEntry[];
+  days: number;
+}
+
+const chartConfig = {
+  value: { label: 'Value', color: '#8b5cf6' },
+} satisfies ChartConfig;
+
+export default function TrackerTrendCard({ tracker, entries, days }: TrackerTrendCardProps) {
+  const trend = useMemo(() => getTrackerTrend(entries, tracker, days), [entries, tracker, days]);
+  const isBoolean = tracker.kind === 'boolean';
+  const config = { value: { ...chartConfig.value, label: isBoolean ? 'Yes' : tracker.name } };
+  const formatValue = (value: number) => isBoolean ? `${value}%` : formatTrackerValue(tracker, value);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">
+            <i className={`${tracker.icon} mr-1`}></i>
+            {tracker.name}
+          </CardTitle>
+          <CardDescription>
+            {trend.entries === 0
+              ? 'Nothing recorded in this period.'
+              : isBoolean
+                ? `Yes on ${trend.average}% of ${trend.entries} ${trend.entries === 1 ? 'entry' : 'entries'}, per ${trend.unit}.`
+                : `Averaging ${formatValue(trend.average as number)} over ${trend.entries} ${trend.entries === 1 ? 'entry' : 'entries'}, per ${trend.unit}.`}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => downloadTrackerCsv(tracker, entries)} title="Export as CSV">
+          <i className="ri-file-download-line"></i>
+        </Button>
+      </CardHeader>
+      {trend.entries > 0 && (
+        <CardContent>
+          <ChartContainer config={config} className="w-full">
+            {isBoolean ? (
+              <BarChart data={trend.timeline}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatValue(Number(value))} />} />
+                <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+              </BarChart>
+            ) : (
+              <LineChart data={trend.timeline} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis
+                  domain={tracker.kind === 'scale' ? [getScaleRange(tracker).min, getScaleRange(tracker).max] : [0, 'auto']}
+                  allowDecimals={tracker.kind !== 'scale'}
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatValue(Number(value))} />} />
+                <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} connectNulls />
+              </LineChart>
+            )}
+          </ChartContainer>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { FaLinkedin, FaYoutube, FaInstagram, FaFacebook, FaWhatsapp } from 'react-icons/fa';
+import { FaXTwitter } from 'react-icons/fa6';
+import { MdStickyNote2, MdBook, MdDescription, MdEditNote, MdFilterList } from 'react-icons/md';
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { getOpenPath } from '@/hooks/use-open-param';
+import {
+  search,
+  ensureSearchIndex,
+  subscribeToSearchIndex,
+  type HighlightPart,
+  type SearchDocument,
+  type SearchEntity,
+  type SearchResult,
+} from '@/lib/search-index';
+import { format } from 'date-fns';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPS: Array<{ entity: SearchEntity; heading: string }> = [
+  { entity: 'post', heading: 'Posts' },
+  { entity: 'note', heading: 'Notes' },
+  { entity: 'journal', heading: 'Journal' },
+  { entity: 'document', heading: 'Documents' },
+];
+
+const POST_ICONS: Record<string, React.ReactNode> = {
+  twitter: <FaXTwitter />,
+  linkedin: <FaLinkedin className="text-[#0A66C2]" />,
+  youtube: <FaYoutube className="text-[#FF0000]" />,
+  instagram: <FaInstagram className="text-[#E4405F]" />,
+  facebook: <FaFacebook className="text-[#1877F2]" />,
+  whatsapp: <FaWhatsapp className="text-[#25D366]" />,
+  master: <MdEditNote className="text-[#8B5CF6]" />,
+};
+
+const ENTITY_ICONS: Record<Exclude<SearchEntity, 'post'>, React.ReactNode> = {
+  note: <MdStickyNote2 className="text-[#F59E0B]" />,
+  journal: <MdBook className="text-[#6B7280]" />,
+  document: <MdDescription className="text-[#6366F1]" />,
+};
+
+// The page a result opens on
+export const getResultPath = (document: SearchDocument): string => {
+  switch (document.entity) {
+    case 'note':
+      return '/notes';
+    case 'journal':
+      return '/journal';
+    case 'document':
+      return '/docs';
+    default:
+      return document.platform === 'master' ? '/drafts' : `/${document.platform}`;
+  }
+};
+
+export const Highlighted = ({ parts }: { parts: HighlightPart[] }) => (
+  <>
+    {parts.map((part, index) => part.match ? (
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{part.text}</mark>
+    ) : (
+      <span key={index}>{part.text}</span>
+    ))}
+  </>
+);
+
+export const ResultIcon = ({ document }: { document: SearchDocument }) => (
+  <>
+    {document.entity === 'post'
+      ? POST_ICONS[document.platform || ''] || <MdDescription />
+      : ENTITY_ICONS[document.entity]}
+  </>
+);
+
+/**
+ * Search everything from anywhere with Ctrl/Cmd+K, and jump straight into the editor
+ * of the item picked
+ */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [, navigate] = useLocation();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (open) {
+      // Start building the index while the user types
+      ensureSearchIndex();
+    } else {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const runSearch = async () => {
+      if (!query.trim()) {
+        setResults([]);
+        return;
+      }
+      setIsSearching(true);
+      try {
+        const found = await search(query, { limit: 30 });
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    };
+
+    runSearch();
+    // Keep results current if something is saved or synced while the palette is open
+    const unsubscribe = subscribeToSearchIndex(runSearch);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [open, query]);
+
+  const handleOpenSearchPage = () => {
+    onOpenChange(false);
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
+
+  const handleSelect = (document: SearchDocument) => {
+    onOpenChange(false);
+    navigate(getOpenPath(getResultPath(document), document.id));
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search posts, notes, journal and docs..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {query.trim() && !isSearching && results.length === 0 && (
+          <div className="py-6 text-center text-sm">No results for "{query.trim()}".</div>
+        )}
+        {!query.trim() && (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            Type to search everything on this device.
+            <div className="mt-1 text-xs">Try tag:launch, platform:linkedin, mood:happy or has:image.</div>
+          </div>
+        )}
+        {query.trim() && (
+          <CommandGroup>
+            <CommandItem value="search-page" onSelect={handleOpenSearchPage}>
+              <MdFilterList className="text-[#FF9C6B]" />
+              <span>See all results or save as a smart filter</span>
+            </CommandItem>
+          </CommandGroup>
+        )}
+        {GROUPS.map(({ entity, heading }) => {
+          const groupResults = results.filter(result => result.document.entity === entity);
+          if (groupResults.length === 0) return null;
+
+          return (
+            <CommandGroup key={entity} heading={heading}>
+              {groupResults.map(result => {
+                const { document } = result;
+                return (
+                  <CommandItem
+                    key={document.key}
+                    value={document.key}
+                    onSelect={() => handleSelect(document)}
+                    className="items-start gap-3"
+                  >
+                    <span className="mt-0.5 flex-shrink-0">
+                      <ResultIcon document={document} />
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      {result.title.length > 0 && (
+                        <div className="truncate font-medium">
+                          <Highlighted parts={result.title} />
+                        </div>
+                      )}
+                      <div className="line-clamp-2 text-xs text-muted-foreground">
+                        <Highlighted parts={result.snippet} />
+                      </div>
+                    </div>
+                    <CommandShortcut>{format(new Date(document.updatedAt), 'MMM d')}</CommandShortcut>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
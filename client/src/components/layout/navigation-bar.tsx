@@ -1,4 +1,5 @@
 // React imports
+import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useUser } from '@/context/new-user-context';
 import { Button } from '@/components/ui/button';
@@ -7,7 +8,8 @@ import {
   LogIn, 
   LogOut, 
   User, 
-  CreditCard
+  CreditCard,
+  Trash2
 } from 'lucide-react';
 
 import { 
@@ -20,10 +22,12 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useToast } from '@/hooks/use-toast';
 import { SyncIndicator } from '@/components/ui/sync-indicator';
+import { CommandPalette } from '@/components/layout/command-palette';
 
 export function NavigationBar() {
   const [location, navigate] = useLocation();
   const { user, isLoading, logout } = useUser();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   const handleBack = () => {
     if (window.history.length > 1) {
@@ -82,6 +86,14 @@ export function NavigationBar() {
       </div>
       
       <div className="flex items-center space-x-1 sm:space-x-2 flex-shrink-0">
+        <button 
+          className="p-2 text-gray-600 hover:text-gray-900"
+          onClick={() => setIsSearchOpen(true)}
+          aria-label="Search"
+          title="Search (Ctrl+K)"
+        >
+          <i className="ri-search-line text-xl"></i>
+        </button>
         <button 
           className="p-2 text-gray-600 hover:text-gray-900"
           onClick={navigateHome}
@@ -122,6 +134,10 @@ export function NavigationBar() {
                   <User className="mr-2 h-4 w-4" />
                   <span>Profile</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/trash')}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  <span>Trash</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => navigate('/checkout')}>
                   <CreditCard className="mr-2 h-4 w-4" />
                   <span>Subscription</span>
@@ -230,6 +246,8 @@ export function NavigationBar() {
           </div>
         )}
       </div>
+
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </header>
   );
 }
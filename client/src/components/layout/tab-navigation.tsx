@@ -2,7 +2,8 @@ import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { FaTwitter, FaLinkedin, FaYoutube, FaInstagram, FaFacebook, FaWhatsapp } from 'react-icons/fa';
 import { FaXTwitter } from 'react-icons/fa6';
-import { MdStickyNote2, MdBook, MdDescription } from 'react-icons/md';
+import { MdStickyNote2, MdBook, MdDescription, MdCalendarMonth, MdEditNote, MdFilterList } from 'react-icons/md';
+import { useSmartFilters } from '@/hooks/use-smart-filters';
 
 interface TabItem {
   id: string;
@@ -10,6 +11,8 @@ interface TabItem {
   icon: React.ReactNode;
   iconColor?: string;
   path: string;
+  // Number of matching items, shown on smart filter tabs
+  count?: number;
 }
 
 interface TabNavigationProps {
@@ -19,6 +22,7 @@ interface TabNavigationProps {
 export default function TabNavigation({ activeTab }: TabNavigationProps) {
   const [location, navigate] = useLocation();
   const [active, setActive] = useState<string>(activeTab || 'notes');
+  const { filters, counts } = useSmartFilters();
   
   useEffect(() => {
     // Extract tab from the location path
@@ -36,6 +40,17 @@ export default function TabNavigation({ activeTab }: TabNavigationProps) {
     { id: 'notes', label: 'Notes', icon: <MdStickyNote2 size={18} />, iconColor: '#F59E0B', path: '/notes' },
     { id: 'journal', label: 'Journal', icon: <MdBook size={18} />, iconColor: '#6B7280', path: '/journal' },
     { id: 'docs', label: 'Docs', icon: <MdDescription size={18} />, iconColor: '#6366F1', path: '/docs' },
+    { id: 'calendar', label: 'Calendar', icon: <MdCalendarMonth size={18} />, iconColor: '#10B981', path: '/calendar' },
+    { id: 'drafts', label: 'Drafts', icon: <MdEditNote size={18} />, iconColor: '#8B5CF6', path: '/drafts' },
+    // Saved searches, as virtual tabs after the built-in ones
+    ...filters.map(filter => ({
+      id: `search/${filter.id}`,
+      label: filter.name,
+      icon: <MdFilterList size={18} />,
+      iconColor: '#FF9C6B',
+      path: `/search/${filter.id}`,
+      count: counts[filter.id],
+    })),
   ];
 
   const handleTabClick = (tabId: string, path: string) => {
@@ -63,6 +78,9 @@ export default function TabNavigation({ activeTab }: TabNavigationProps) {
                   {tab.icon}
                 </span>
                 <span className="text-[10px] sm:text-sm">{tab.label}</span>
+                {tab.count !== undefined && (
+                  <span className="sm:ml-1.5 px-1.5 rounded-full bg-white/15 text-[10px] sm:text-xs">{tab.count}</span>
+                )}
               </div>
               <div 
                 className={`absolute bottom-0 left-0 h-0.5 w-full bg-[#FF9C6B] transition-transform duration-300 ease-in-out ${
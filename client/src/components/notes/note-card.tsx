@@ -4,12 +4,14 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { Button } from '@/components/ui/button';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { DeleteButton } from '@/components/ui/delete-button';
+import type { ImportedMarkdown } from '@/lib/markdown';
 
 interface NoteCardProps {
   note: Note;
   onEdit: (note: Note) => void;
-  onDelete: (noteId: number) => void;
+  onDelete: (noteId: string) => void;
   onCopy?: (note: Note) => void;
+  onImportMarkdown?: (note: Note, imported: ImportedMarkdown) => void;
 }
 
 const colorVariants = {
@@ -29,7 +31,7 @@ const stripHtml = (html: string) => {
   return div.textContent || div.innerText || '';
 };
 
-export default function NoteCard({ note, onEdit, onDelete, onCopy }: NoteCardProps) {
+export default function NoteCard({ note, onEdit, onDelete, onCopy, onImportMarkdown }: NoteCardProps) {
   // Get color class based on note color, default to yellow
   const colorClass = note.color && colorVariants[note.color as keyof typeof colorVariants] 
     ? colorVariants[note.color as keyof typeof colorVariants] 
@@ -82,6 +84,8 @@ export default function NoteCard({ note, onEdit, onDelete, onCopy }: NoteCardPro
             size="sm"
             iconOnly={true}
             onCopy={onCopy ? () => onCopy(note) : undefined}
+            markdownFrontMatter={{ tags: note.tags }}
+            onImportMarkdown={onImportMarkdown ? (imported) => onImportMarkdown(note, imported) : undefined}
           />
         </div>
       </div>
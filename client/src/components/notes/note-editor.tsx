@@ -5,6 +5,7 @@ import TagInput from '@/components/ui/tag-input';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { RevisionHistory } from '@/components/common/revision-history';
 import { createNote, updateNote } from '@/lib/storage';
 import { Note } from '@shared/schema';
 
@@ -22,6 +23,7 @@ export default function NoteEditor({ note, onSave, onDiscard }: NoteEditorProps)
   const [tags, setTags] = useState<string[]>(note?.tags || []);
   const [isSaving, setIsSaving] = useState(false);
   const [lastEdited, setLastEdited] = useState<Date | null>(note ? new Date(note.updatedAt) : null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Update the lastEdited timestamp every minute when actively editing
   useEffect(() => {
@@ -196,6 +198,17 @@ export default function NoteEditor({ note, onSave, onDiscard }: NoteEditorProps)
           {lastEdited ? `Last edited: ${formatLastEdited()}` : ''}
         </span>
         <div>
+          {note?.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsHistoryOpen(true)}
+              className="mr-2"
+            >
+              <i className="ri-history-line mr-1"></i>
+              History
+            </Button>
+          )}
           <Button 
             variant="outline" 
             size="sm" 
@@ -221,6 +234,22 @@ export default function NoteEditor({ note, onSave, onDiscard }: NoteEditorProps)
           </Button>
         </div>
       </div>
+      
+      {note?.id && (
+        <RevisionHistory
+          entityType="note"
+          entityId={note.id}
+          currentTitle={title}
+          currentHtml={content}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          onRestore={(restored) => {
+            setTitle(restored.title);
+            setContent(restored.formattedContent?.html || restored.content);
+            setLastEdited(new Date(restored.updatedAt));
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { useUser } from '@/context/new-user-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  findNewPosts,
+  importPosts,
+  readPlatformExport,
+  type ImportPlatform,
+  type ImportedPost
+} from '@/lib/platform-import';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+
+interface PlatformImportDialogProps {
+  platform: ImportPlatform;
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const EXPORTS: Record<ImportPlatform, { title: string; help: string; accept: string; noun: string }> = {
+  twitter: {
+    title: 'Import your X archive',
+    help: 'Pick the archive zip from Settings → Your account → Download an archive of your data, or the tweets.js in its data folder.',
+    accept: '.zip,.js',
+    noun: 'tweets',
+  },
+  linkedin: {
+    title: 'Import your LinkedIn posts',
+    help: 'Pick the export zip from Settings → Data privacy → Get a copy of your data, or the Shares.csv inside it.',
+    accept: '.zip,.csv',
+    noun: 'posts',
+  },
+  whatsapp: {
+    title: 'Import a WhatsApp chat',
+    help: 'In the chat, choose More → Export chat and pick the zip or .txt it makes. Export with media to bring the photos along.',
+    accept: '.zip,.txt',
+    noun: 'messages',
+  },
+};
+
+// Value of the sender option that imports every message in a chat
+const EVERYONE = '__everyone__';
+
+export default function PlatformImportDialog({ platform, isOpen, onClose, onImported }: PlatformImportDialogProps) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [posts, setPosts] = useState<ImportedPost[] | null>(null);
+  const [author, setAuthor] = useState(EVERYONE);
+  const [newCount, setNewCount] = useState(0);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const details = EXPORTS[platform];
+
+  const authors = Array.from(new Set((posts || []).map(post => post.author).filter((name): name is string => !!name)));
+  const selected = (posts || []).filter(post => author === EVERYONE || post.author === author);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPosts(null);
+      setAuthor(EVERYONE);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    findNewPosts(platform, selected)
+      .then(fresh => setNewCount(fresh.length))
+      .catch(error => console.error('Error checking for imported posts:', error));
+  }, [posts, author, platform]);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    try {
+      setPosts(await readPlatformExport(platform, files));
+      setAuthor(EVERYONE);
+    } catch (error) {
+      toast({
+        title: 'Can\'t import this file',
+        description: error instanceof Error ? error.message : 'The export could not be read.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+    setIsImporting(true);
+    try {
+      const created = await importPosts(platform, selected, user);
+      toast({
+        title: 'Import finished',
+        description: `${created.length} ${details.noun} imported${selected.length > created.length ? `, ${selected.length - created.length} were already here` : ''}.`,
+      });
+      onImported?.();
+      onClose();
+    } catch (error) {
+      console.error('Error importing posts:', error);
+      toast({
+        title: 'Error',
+        description: 'The import stopped partway. Run it again to pick up where it left off.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{details.title}</DialogTitle>
+          <DialogDescription>{details.help}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isReading || isImporting}>
+            <i className="ri-upload-2-line mr-1"></i>
+            {isReading ? 'Reading...' : posts ? 'Pick another file' : 'Choose file'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={details.accept}
+            multiple
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+
+          {posts && (
+            posts.length === 0 ? (
+              <p className="text-sm text-gray-600">There are no {details.noun} in this export.</p>
+            ) : (
+              <>
+                {authors.length > 1 && (
+                  <div className="space-y-1">
+                    <Label htmlFor="import-author">Whose messages to import</Label>
+                    <Select value={author} onValueChange={setAuthor}>
+                      <SelectTrigger id="import-author">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={EVERYONE}>Everyone in the chat</SelectItem>
+                        {authors.map(name => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <p className="text-sm text-gray-600">
+                  Found {selected.length} {details.noun}
+                  {selected.length > 0 && ` from ${format(selected[0].createdAt, 'MMM d, yyyy')} to ${format(selected[selected.length - 1].createdAt, 'MMM d, yyyy')}`}.
+                  {selected.length > newCount && ` ${selected.length - newCount} were imported before and will be skipped.`}
+                </p>
+              </>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!posts || newCount === 0 || isImporting}>
+            {isImporting ? 'Importing...' : `Import ${newCount} ${details.noun}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
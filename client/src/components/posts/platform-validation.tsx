@@ -0,0 +1,49 @@
+import { getTextLength, platformRules, toPlainText, type ValidationIssue } from '@shared/platform-rules';
+import { FaExclamationCircle, FaExclamationTriangle, FaInfoCircle } from 'react-icons/fa';
+
+interface PlatformValidationProps {
+  platform: string;
+  content: string;
+  issues: ValidationIssue[];
+  // Threads count each tweet separately, so they show their own counters
+  showCounter?: boolean;
+}
+
+const severityStyles = {
+  error: { icon: FaExclamationCircle, className: 'text-red-600' },
+  warning: { icon: FaExclamationTriangle, className: 'text-amber-600' },
+  info: { icon: FaInfoCircle, className: 'text-gray-500' },
+};
+
+/**
+ * Character counter and live list of rule problems for the post being written
+ */
+export default function PlatformValidation({ platform, content, issues, showCounter: counterEnabled = true }: PlatformValidationProps) {
+  const maxLength = platformRules[platform]?.maxLength;
+  const length = getTextLength(platform, toPlainText(content));
+  // Only show the counter once it matters, so long-form platforms stay uncluttered
+  const showCounter = counterEnabled && maxLength !== undefined && length > maxLength * 0.8;
+
+  if (issues.length === 0 && !showCounter) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      {showCounter && (
+        <div className={`text-xs text-right ${length > maxLength! ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+          {length} / {maxLength}
+        </div>
+      )}
+      {issues.map((issue, index) => {
+        const { icon: Icon, className } = severityStyles[issue.severity];
+        return (
+          <div key={`${issue.rule}-${index}`} className={`flex items-start text-xs ${className}`}>
+            <Icon className="mr-1.5 mt-0.5 shrink-0" size={12} />
+            <span>{issue.message}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import type { Post } from '@shared/schema';
 interface PostCardProps {
   post: Post;
   onEdit?: (post: Post) => void;
-  onDelete?: (postId: number) => void;
+  onDelete?: (postId: string) => void;
   showActions?: boolean;
   compact?: boolean;
 }
@@ -5,8 +5,12 @@ import TagInput from '@/components/ui/tag-input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
+import { storeMedia } from '@/lib/media-store';
 import { createPost } from '@/lib/storage';
-import { FaTimes, FaImage, FaVideo, FaChartBar, FaSmile, FaHashtag } from 'react-icons/fa';
+import { usePlatformValidation } from '@/hooks/use-platform-validation';
+import PlatformValidation from './platform-validation';
+import { FaTimes, FaImage, FaVideo, FaChartBar, FaSmile, FaHashtag, FaRegClock } from 'react-icons/fa';
+import { PostStatus } from '@shared/schema';
 
 interface PostComposerProps {
   platform: string;
@@ -32,14 +36,22 @@ export default function PostComposer({
   const [attachments, setAttachments] = useState<string[]>([]);
   const [tags, setTags] = useState<string[]>([]);
   const [showTagInput, setShowTagInput] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState('');
   const imageInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const { issues, hasErrors } = usePlatformValidation({
+    platform,
+    content,
+    mediaUrls: attachments,
+    status: showSchedule && scheduledFor ? 'scheduled' : 'published'
+  });
 
   if (!user) {
     return <div className="text-center p-4">Please log in to post</div>;
   }
 
-  const handlePost = async () => {
+  const handlePost = async (asDraft: boolean = false) => {
     if (!content.trim()) {
       toast({
         title: "Cannot post empty content",
@@ -49,6 +61,28 @@ export default function PostComposer({
       return;
     }
 
+    // Posts with a time set go to the calendar instead of being published now
+    const scheduleDate = showSchedule && scheduledFor ? new Date(scheduledFor) : null;
+    if (!asDraft && scheduleDate && scheduleDate < new Date()) {
+      toast({
+        title: "Pick a time in the future",
+        description: "Scheduled posts need a date and time that hasn't passed yet.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const status: PostStatus = asDraft ? 'draft' : scheduleDate ? 'scheduled' : 'published';
+
+    // Drafts may break the platform rules until they're scheduled or published
+    if (!asDraft && hasErrors) {
+      toast({
+        title: "Post can't be published yet",
+        description: issues.find(issue => issue.severity === 'error')?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsPosting(true);
     try {
       // Prepare HTML content differently based on platform
@@ -75,12 +109,20 @@ export default function PostComposer({
           userProfilePic: user.profilePicture || ''
         },
         mediaUrls: attachments,
-        tags: tags
+        tags: tags,
+        status,
+        scheduledFor: scheduleDate
       });
       
       // Only proceed if post creation was successful
       if (result) {
-        toast({
+        toast(status === 'draft' ? {
+          title: "Draft saved",
+          description: "Your draft has been saved to the calendar.",
+        } : status === 'scheduled' ? {
+          title: "Post scheduled",
+          description: `You'll be reminded to publish it on ${scheduleDate!.toLocaleString()}.`,
+        } : {
           title: "Post created!",
           description: "Your post has been successfully published.",
         });
@@ -90,6 +132,8 @@ export default function PostComposer({
         setAttachments([]);
         setTags([]);
         setShowTagInput(false);
+        setShowSchedule(false);
+        setScheduledFor('');
         
         // Clear draft after successful post
         import('@/lib/draft-utils').then(({ clearDraft }) => {
@@ -131,27 +175,21 @@ export default function PostComposer({
     const file = e.target.files?.[0];
     if (!file) return;
     
-    // Use FileReader to convert to base64 for reliable storage
-    const reader = new FileReader();
-    reader.onload = (event: ProgressEvent<FileReader>) => {
-      if (reader.result) {
-        const resultString = reader.result.toString();
-        
-        // Add the new attachment
-        setAttachments([...attachments, resultString]);
-        
-        // Save current content, attachments, and tags to draft
-        import('@/lib/draft-utils').then(({ saveDraft }) => {
-          const draftData = JSON.stringify({
-            content,
-            attachments: [...attachments, resultString],
-            tags
-          });
-          saveDraft('platform', platform, draftData);
+    // Keep the file in the media store and attach a reference to it
+    storeMedia(file).then(mediaUrl => {
+      // Add the new attachment
+      setAttachments([...attachments, mediaUrl]);
+      
+      // Save current content, attachments, and tags to draft
+      import('@/lib/draft-utils').then(({ saveDraft }) => {
+        const draftData = JSON.stringify({
+          content,
+          attachments: [...attachments, mediaUrl],
+          tags
         });
-      }
-    };
-    reader.readAsDataURL(file);
+        saveDraft('platform', platform, draftData);
+      });
+    }).catch(error => console.error('Error storing attachment:', error));
     
     // Reset the input value so the same file can be selected again
     e.target.value = '';
@@ -210,6 +248,8 @@ export default function PostComposer({
             }}
           />
           
+          <PlatformValidation platform={platform} content={content} issues={issues} />
+          
           {/* Attachment previews */}
           {attachments.length > 0 && (
             <div className="flex flex-wrap gap-2 mt-2">
@@ -231,6 +271,27 @@ export default function PostComposer({
             </div>
           )}
           
+          {/* Schedule picker */}
+          {showSchedule && (
+            <div className="my-3 flex items-center gap-2">
+              <input
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+                className="border rounded-md px-2 py-1 text-sm"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={isPosting || !content.trim()}
+                onClick={() => handlePost(true)}
+              >
+                Save as draft
+              </Button>
+            </div>
+          )}
+          
           {/* Tag input */}
           {(showTagInput || tags.length > 0) && (
             <div className="my-3">
@@ -272,10 +333,20 @@ export default function PostComposer({
                 <FaHashtag size={14} />
                 <span>Tags</span>
               </Button>
+              <Button
+                type="button"
+                variant={showSchedule ? "default" : "outline"}
+                size="sm"
+                className="flex items-center gap-1"
+                onClick={() => setShowSchedule(!showSchedule)}
+              >
+                <FaRegClock size={14} />
+                <span>Schedule</span>
+              </Button>
             </div>
             <Button
-              onClick={handlePost}
-              disabled={isPosting || !content.trim()}
+              onClick={() => handlePost()}
+              disabled={isPosting || !content.trim() || hasErrors}
               className="px-4 py-2 rounded-full font-medium flex items-center"
               style={{ backgroundColor: buttonColor }}
             >
@@ -284,7 +355,7 @@ export default function PostComposer({
               ) : buttonIcon && (
                 <i className={`${buttonIcon} mr-2`}></i>
               )}
-              {buttonText}
+              {showSchedule && scheduledFor ? 'Schedule' : buttonText}
             </Button>
           </div>
         </div>
@@ -3,9 +3,12 @@ import { useUser } from '@/context/new-user-context';
 import RichTextEditor from '@/components/ui/rich-text-editor';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { storeMedia } from '@/lib/media-store';
 import { updatePost } from '@/lib/storage';
 import { Post } from '@shared/schema';
 import PostTags from './post-tags';
+import PlatformValidation from './platform-validation';
+import { usePlatformValidation } from '@/hooks/use-platform-validation';
 import { clearDraft } from '@/lib/draft-utils';
 import { FaPen, FaTags, FaImage, FaVideo, FaSave, FaTimes, FaLink, FaPlus } from 'react-icons/fa';
 import { 
@@ -38,6 +41,13 @@ export default function PostEditor({
   const [isUpdating, setIsUpdating] = useState(false);
   const [attachments, setAttachments] = useState<string[]>([]);
   const [tags, setTags] = useState<string[]>([]);
+  const { issues, hasErrors } = usePlatformValidation({
+    platform,
+    content,
+    mediaUrls: attachments,
+    status: post?.status,
+    formattedContent: { title: post?.formattedContent?.title }
+  });
 
   useEffect(() => {
     if (post && isOpen) {
@@ -88,6 +98,15 @@ export default function PostEditor({
       return;
     }
 
+    if (hasErrors) {
+      toast({
+        title: "Post breaks the platform's rules",
+        description: issues.find(issue => issue.severity === 'error')?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsUpdating(true);
     try {
       // Get the existing user profile info from the post if available
@@ -216,6 +235,7 @@ export default function PostEditor({
                 });
               }}
             />
+            <PlatformValidation platform={platform} content={content} issues={issues} />
           </div>
           
           {/* Link section - especially for YouTube */}
@@ -317,15 +337,9 @@ export default function PostEditor({
                   onChange={(e) => {
                     const file = e.target.files?.[0];
                     if (file) {
-                      // Use FileReader for more reliable base64 encoding
-                      const reader = new FileReader();
-                      reader.onload = (event) => {
-                        if (event.target && event.target.result) {
-                          const dataUrl = event.target.result as string;
-                          setAttachments([...attachments, dataUrl]);
-                        }
-                      };
-                      reader.readAsDataURL(file);
+                      storeMedia(file)
+                        .then(mediaUrl => setAttachments([...attachments, mediaUrl]))
+                        .catch(error => console.error('Error storing attachment:', error));
                     }
                   }}
                 />
@@ -411,7 +425,7 @@ export default function PostEditor({
             </Button>
             <Button 
               onClick={handleUpdate} 
-              disabled={isUpdating || !content.trim()}
+              disabled={isUpdating || !content.trim() || hasErrors}
               className="bg-primary hover:bg-primary/90 text-white text-sm h-9 px-3"
               size="sm"
             >
@@ -0,0 +1,98 @@
+import { useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { updatePost } from '@/lib/storage';
+import { copyPostToClipboard } from '@/lib/copy-utils';
+import { getCalendarPosts, getCalendarPlatform, getDuePosts, markReminded } from '@/lib/schedule-utils';
+import { Post } from '@shared/schema';
+
+// How often to look for posts that have become due
+const CHECK_INTERVAL = 30 * 1000;
+
+// Short plain text preview of a post for notifications
+const previewText = (post: Post): string => {
+  const text = post.content.replace(/<[^>]*>/g, '').trim();
+  return text.length > 80 ? `${text.substring(0, 80)}...` : text;
+};
+
+/**
+ * Announces scheduled posts when their time arrives. Nothing is published
+ * automatically: the reminder lets the user copy the post and paste it into
+ * the platform, which marks it as published.
+ */
+export default function ScheduledPostReminder() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    const publishByCopy = async (post: Post) => {
+      const success = await copyPostToClipboard(post);
+      if (!success) {
+        toast({
+          title: 'Error',
+          description: 'Failed to copy post. Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      await updatePost(post.platform, post.id, { status: 'published' });
+      toast({
+        title: 'Copied',
+        description: 'Paste it into the app to publish. The post is now marked as published.',
+      });
+    };
+
+    const checkDuePosts = async () => {
+      try {
+        const posts = await getCalendarPosts();
+        const due = getDuePosts(posts);
+        if (due.length === 0) return;
+        markReminded(due, posts);
+
+        if (due.length === 1) {
+          const post = due[0];
+          const platformName = getCalendarPlatform(post.platform)?.label || post.platform;
+          toast({
+            title: `Time to post on ${platformName}`,
+            description: previewText(post),
+            duration: Infinity,
+            action: (
+              <ToastAction altText="Copy post" onClick={() => publishByCopy(post)}>
+                Copy
+              </ToastAction>
+            ),
+          });
+        } else {
+          toast({
+            title: `${due.length} scheduled posts are due`,
+            description: 'Open the calendar to copy and publish them.',
+            duration: Infinity,
+            action: (
+              <ToastAction altText="Open calendar" onClick={() => navigate('/calendar')}>
+                Open
+              </ToastAction>
+            ),
+          });
+        }
+
+        // Also notify outside the tab if the user has allowed it
+        if ('Notification' in window && Notification.permission === 'granted') {
+          due.forEach(post => {
+            const platformName = getCalendarPlatform(post.platform)?.label || post.platform;
+            new Notification(`Time to post on ${platformName}`, { body: previewText(post), tag: post.id });
+          });
+        }
+      } catch (error) {
+        console.error('Error checking scheduled posts:', error);
+      }
+    };
+
+    checkDuePosts();
+    const interval = setInterval(checkDuePosts, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  return null;
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useUser } from '@/context/new-user-context';
 import { useToast } from '@/hooks/use-toast';
+import { storeMedia } from '@/lib/media-store';
 import { updatePost } from '@/lib/storage';
 import { Post } from '@shared/schema';
 import { clearDraft, saveDraft, getDraft } from '@/lib/draft-utils';
@@ -16,6 +17,8 @@ import { CustomTextarea } from '@/components/ui/custom-textarea';
 import { CustomInput } from '@/components/ui/custom-input';
 import { FaYoutube, FaInstagram, FaSave, FaTimes, FaLink, FaImage, FaTag, FaHistory } from 'react-icons/fa';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePlatformValidation } from '@/hooks/use-platform-validation';
+import PlatformValidation from './platform-validation';
 
 interface SimplePostEditorProps {
   post: Post;
@@ -41,6 +44,13 @@ export default function SimplePostEditor({
   const [tagInput, setTagInput] = useState('');
   const [hasDraft, setHasDraft] = useState(false);
   const autosaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const { issues, hasErrors } = usePlatformValidation({
+    platform,
+    content,
+    mediaUrls: attachments,
+    status: post?.status,
+    formattedContent: { title: post?.formattedContent?.title }
+  });
 
   // Check for draft on open
   useEffect(() => {
@@ -183,6 +193,15 @@ export default function SimplePostEditor({
       return;
     }
 
+    if (hasErrors) {
+      toast({
+        title: "Post breaks the platform's rules",
+        description: issues.find(issue => issue.severity === 'error')?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsUpdating(true);
     try {
       // Get the existing user profile info from the post if available
@@ -296,6 +315,7 @@ export default function SimplePostEditor({
               placeholder="Enter post content..."
               className="min-h-[100px] resize-none"
             />
+            <PlatformValidation platform={platform} content={content} issues={issues} />
           </div>
           
           {/* YouTube link input */}
@@ -348,16 +368,9 @@ export default function SimplePostEditor({
                     onChange={(e) => {
                       const file = e.target.files?.[0];
                       if (file) {
-                        // Create a FileReader to read the file as data URL (base64)
-                        const reader = new FileReader();
-                        reader.onload = (event) => {
-                          if (event.target && event.target.result) {
-                            // Use the base64 data URL which is more reliable than createObjectURL
-                            const dataUrl = event.target.result as string;
-                            setAttachments([...attachments, dataUrl]);
-                          }
-                        };
-                        reader.readAsDataURL(file);
+                        storeMedia(file)
+                          .then(mediaUrl => setAttachments([...attachments, mediaUrl]))
+                          .catch(error => console.error('Error storing attachment:', error));
                       }
                     }}
                   />
@@ -404,7 +417,7 @@ export default function SimplePostEditor({
           </Button>
           <Button 
             onClick={handleUpdate} 
-            disabled={isUpdating || !content.trim()}
+            disabled={isUpdating || !content.trim() || hasErrors}
             size="sm"
           >
             {isUpdating ? (
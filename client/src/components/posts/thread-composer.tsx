@@ -0,0 +1,218 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useUser } from '@/context/new-user-context';
+import RichTextEditor from '@/components/ui/rich-text-editor';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { usePlatformValidation } from '@/hooks/use-platform-validation';
+import { createPost, updatePost } from '@/lib/storage';
+import { copyToClipboard } from '@/lib/copy-utils';
+import { splitIntoThread, threadToDraftHtml, threadToHtml, threadToText } from '@/lib/thread-utils';
+import { getTextLength, platformRules } from '@shared/platform-rules';
+import { Post } from '@shared/schema';
+import PlatformValidation from './platform-validation';
+import { FaCopy, FaListOl } from 'react-icons/fa';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+
+interface ThreadComposerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  // Thread to edit; a new thread is started when this is missing
+  post?: Post | null;
+}
+
+const TWEET_LENGTH = platformRules.twitter.maxLength!;
+
+export default function ThreadComposer({ isOpen, onClose, onSaved, post }: ThreadComposerProps) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [content, setContent] = useState('');
+  const [numbered, setNumbered] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setContent(post?.thread ? threadToDraftHtml(post.thread) : '');
+      // Keep numbering the way the thread was saved
+      setNumbered(post?.thread && post.thread.length > 1 ? /\s\d+\/\d+$/.test(post.thread[0].content) : true);
+    }
+  }, [isOpen, post]);
+
+  const thread = useMemo(() => splitIntoThread(content, { numbered }), [content, numbered]);
+  const threadText = threadToText(thread);
+  const threadMedia = thread.flatMap(segment => segment.mediaUrls);
+  const { issues, hasErrors } = usePlatformValidation({
+    platform: 'twitter',
+    content: threadText,
+    mediaUrls: threadMedia,
+    status: post?.status,
+    thread
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const initials = user.displayName
+    ? user.displayName.split(' ').map(n => n[0]).join('').toUpperCase()
+    : user.username?.substring(0, 2).toUpperCase() || 'U';
+
+  const handleCopyTweet = async (text: string, index: number) => {
+    const success = await copyToClipboard(text);
+    toast(success
+      ? { title: 'Copied', description: `Tweet ${index + 1} of ${thread.length} copied to clipboard.` }
+      : { title: 'Copy failed', description: 'Unable to copy to clipboard.', variant: 'destructive' });
+  };
+
+  const handleSave = async () => {
+    if (thread.length === 0) {
+      toast({
+        title: "Cannot post empty content",
+        description: "Please write something before posting.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const formattedContent = {
+        ...post?.formattedContent,
+        html: threadToHtml(thread),
+        userName: post?.formattedContent?.userName || user.displayName || user.username || '',
+        userDesignation: post?.formattedContent?.userDesignation || user.designation || '',
+        userProfilePic: post?.formattedContent?.userProfilePic || user.profilePicture || ''
+      };
+
+      const result = post
+        ? await updatePost('twitter', post.id, { content: threadText, formattedContent, mediaUrls: threadMedia, thread })
+        : await createPost('twitter', {
+            userId: user.id,
+            platform: 'twitter',
+            content: threadText,
+            formattedContent,
+            mediaUrls: threadMedia,
+            tags: [],
+            thread
+          });
+
+      if (!result) {
+        throw new Error('Thread could not be saved');
+      }
+
+      toast({
+        title: post ? "Thread updated" : "Thread created!",
+        description: `Your thread of ${thread.length} ${thread.length === 1 ? 'tweet' : 'tweets'} has been saved.`,
+      });
+      onClose();
+      onSaved();
+    } catch (error) {
+      console.error('Error saving thread:', error);
+      toast({
+        title: "Error saving thread",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="border-b pb-3">
+          <DialogTitle className="flex items-center text-lg font-semibold">
+            <FaListOl className="mr-2 text-primary" size={14} />
+            {post ? 'Edit thread' : 'New thread'}
+          </DialogTitle>
+          <DialogDescription className="text-gray-500 mt-1 text-sm">
+            Write as much as you like. It's split into tweets at sentence boundaries, with images kept next to their text.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-3 overflow-y-auto flex-1 grid gap-4 md:grid-cols-2">
+          <div>
+            <RichTextEditor
+              value={content}
+              onChange={setContent}
+              placeholder="Start your thread..."
+              minHeight="240px"
+              showSubmitButton={false}
+            />
+            <div className="flex items-center space-x-2 mt-3">
+              <Switch id="thread-numbered" checked={numbered} onCheckedChange={setNumbered} />
+              <Label htmlFor="thread-numbered" className="text-sm">Number tweets (1/{Math.max(thread.length, 1)})</Label>
+            </div>
+            <PlatformValidation platform="twitter" content={threadText} issues={issues} showCounter={false} />
+          </div>
+
+          {/* Thread preview, drawn as a chain of replies */}
+          <div className="space-y-0">
+            {thread.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center p-6">Your thread preview will appear here.</p>
+            ) : thread.map((segment, index) => {
+              const length = getTextLength('twitter', segment.content);
+              return (
+                <div key={index} className="flex space-x-3">
+                  <div className="flex flex-col items-center">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={user.profilePicture || ""} alt={user.displayName || "User"} className="object-cover" />
+                      <AvatarFallback className="text-xs bg-primary text-white">{initials}</AvatarFallback>
+                    </Avatar>
+                    {index < thread.length - 1 && <div className="w-0.5 flex-1 bg-gray-200 my-1"></div>}
+                  </div>
+                  <div className="flex-1 pb-4 min-w-0">
+                    <p className="text-sm whitespace-pre-wrap break-words">{segment.content}</p>
+                    {segment.mediaUrls.length > 0 && (
+                      <div className="grid grid-cols-2 gap-1 mt-2">
+                        {segment.mediaUrls.map((url, mediaIndex) => (
+                          <img key={mediaIndex} src={url} alt={`Tweet ${index + 1} image ${mediaIndex + 1}`} className="h-20 w-full object-cover rounded" />
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between mt-1">
+                      <span className={`text-xs ${length > TWEET_LENGTH ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                        {length} / {TWEET_LENGTH}
+                      </span>
+                      <button
+                        className="text-xs text-gray-500 hover:text-blue-500 flex items-center"
+                        onClick={() => handleCopyTweet(segment.content, index)}
+                        title="Copy this tweet"
+                      >
+                        <FaCopy className="mr-1" size={10} />
+                        Copy
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter className="border-t pt-3 mt-1">
+          <Button variant="outline" onClick={onClose} size="sm">Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || thread.length === 0 || hasErrors}
+            size="sm"
+            style={{ backgroundColor: '#1DA1F2' }}
+          >
+            {post ? 'Update thread' : `Post thread (${thread.length})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
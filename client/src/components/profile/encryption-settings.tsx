@@ -0,0 +1,403 @@
+import { useEffect, useState } from 'react';
+import { useUser } from '@/context/new-user-context';
+import { useSyncContext } from '@/context/sync-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getEncryptionStatus,
+  refreshKeyring,
+  enableEncryption,
+  unlockEncryption,
+  recoverEncryption,
+  changePassphrase,
+  rotateEncryptionKey,
+  lockEncryption,
+  disableEncryption,
+  MIN_PASSPHRASE_LENGTH,
+  type EncryptionStatus
+} from '@/lib/encryption';
+import { reuploadAll } from '@/lib/repository';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Lock, Unlock, KeyRound, RefreshCw, ShieldCheck, ShieldOff, Copy } from 'lucide-react';
+
+type DialogMode = 'enable' | 'recover' | 'change' | 'recoveryCode' | null;
+
+export default function EncryptionSettings() {
+  const { user } = useUser();
+  const { syncNow } = useSyncContext();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [confirmAction, setConfirmAction] = useState<'rotate' | 'disable' | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryCodeInput, setRecoveryCodeInput] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isSignedIn = !!user && user.id > 0;
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    refreshKeyring()
+      .catch(() => getEncryptionStatus())
+      .then(setStatus);
+  }, [isSignedIn]);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryCodeInput('');
+  };
+
+  const openDialog = (mode: DialogMode) => {
+    resetForm();
+    setDialogMode(mode);
+  };
+
+  // Check the new passphrase fields, showing a toast if they're not acceptable
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: 'Passphrase too short',
+        description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      toast({
+        title: 'Passphrases don\'t match',
+        description: 'Please type the same passphrase twice.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Run an encryption action, then refresh the status and report any error
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Encryption action failed:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setStatus(await getEncryptionStatus());
+      setIsWorking(false);
+    }
+  };
+
+  const showRecoveryCode = (code: string) => {
+    resetForm();
+    setRecoveryCode(code);
+    setDialogMode('recoveryCode');
+  };
+
+  const handleEnable = () => {
+    if (!validateNewPassphrase()) return;
+    run(async () => {
+      const code = await enableEncryption(newPassphrase);
+      // Replace the plaintext copies on the server with encrypted ones
+      await reuploadAll();
+      showRecoveryCode(code);
+      syncNow();
+    });
+  };
+
+  const handleUnlock = () => {
+    run(async () => {
+      await unlockEncryption(passphrase);
+      resetForm();
+      toast({ title: 'Unlocked', description: 'This device can sync your encrypted data again.' });
+      syncNow();
+    });
+  };
+
+  const handleRecover = () => {
+    if (!validateNewPassphrase()) return;
+    run(async () => {
+      const code = await recoverEncryption(recoveryCodeInput, newPassphrase);
+      showRecoveryCode(code);
+      syncNow();
+    });
+  };
+
+  const handleChangePassphrase = () => {
+    if (!validateNewPassphrase()) return;
+    run(async () => {
+      await changePassphrase(passphrase, newPassphrase);
+      setDialogMode(null);
+      resetForm();
+      toast({ title: 'Passphrase changed', description: 'Use the new passphrase to unlock your other devices.' });
+    });
+  };
+
+  const handleRotate = () => {
+    run(async () => {
+      await rotateEncryptionKey();
+      await reuploadAll();
+      toast({ title: 'Key rotated', description: 'Your data is being re-encrypted with a new key.' });
+      syncNow();
+    });
+  };
+
+  const handleDisable = () => {
+    run(async () => {
+      await disableEncryption();
+      await reuploadAll();
+      toast({ title: 'Encryption turned off', description: 'Your data will be stored on the server without end-to-end encryption.' });
+      syncNow();
+    });
+  };
+
+  const handleLock = () => {
+    run(async () => {
+      await lockEncryption();
+      toast({ title: 'Locked', description: 'Your passphrase will be needed to sync this device.' });
+    });
+  };
+
+  const handleCopyRecoveryCode = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCode);
+      toast({ title: 'Copied', description: 'Recovery code copied to clipboard.' });
+    } catch (error) {
+      console.error('Error copying recovery code:', error);
+    }
+  };
+
+  const newPassphraseFields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="newPassphrase">New passphrase</Label>
+        <Input
+          id="newPassphrase"
+          type="password"
+          autoComplete="new-password"
+          value={newPassphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassphrase">Confirm passphrase</Label>
+        <Input
+          id="confirmPassphrase"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>End-to-End Encryption</CardTitle>
+        <CardDescription>
+          Encrypt your posts, notes, journal and documents on this device before they are synced.
+          The server only ever stores data it can't read.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSignedIn ? (
+          <p className="text-sm text-gray-500">Sign in to sync your data and turn on end-to-end encryption.</p>
+        ) : status === null ? (
+          <p className="text-sm text-gray-500">Checking encryption status...</p>
+        ) : status === 'disabled' ? (
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium">Encryption is off</h4>
+              <p className="text-sm text-gray-500">Your synced data is readable by the server</p>
+            </div>
+            <Button onClick={() => openDialog('enable')} disabled={isWorking}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Turn On
+            </Button>
+          </div>
+        ) : status === 'locked' ? (
+          <div className="space-y-3">
+            <div>
+              <h4 className="font-medium">Locked on this device</h4>
+              <p className="text-sm text-gray-500">Enter your passphrase to read and sync your encrypted data here</p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+              />
+              <Button onClick={handleUnlock} disabled={isWorking || !passphrase}>
+                <Unlock className="mr-2 h-4 w-4" />
+                Unlock
+              </Button>
+            </div>
+            <Button variant="link" className="px-0" onClick={() => openDialog('recover')}>
+              Forgot your passphrase? Use your recovery code
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center text-sm text-green-700">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Encryption is on and unlocked on this device
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => openDialog('change')} disabled={isWorking}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Change Passphrase
+              </Button>
+              <Button variant="outline" onClick={() => setConfirmAction('rotate')} disabled={isWorking}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rotate Key
+              </Button>
+              <Button variant="outline" onClick={handleLock} disabled={isWorking}>
+                <Lock className="mr-2 h-4 w-4" />
+                Lock This Device
+              </Button>
+              <Button variant="destructive" onClick={() => setConfirmAction('disable')} disabled={isWorking}>
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && !isWorking && setDialogMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          {dialogMode === 'enable' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Turn On End-to-End Encryption</DialogTitle>
+                <DialogDescription>
+                  Choose a passphrase. You'll need it to unlock each of your devices. It is never sent to the server and can't be reset without your recovery code.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">{newPassphraseFields}</div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogMode(null)} disabled={isWorking}>Cancel</Button>
+                <Button onClick={handleEnable} disabled={isWorking}>Turn On</Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialogMode === 'recover' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Recover With Your Recovery Code</DialogTitle>
+                <DialogDescription>
+                  Enter the recovery code you saved when you turned on encryption, then choose a new passphrase.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    className="font-mono"
+                    placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                    value={recoveryCodeInput}
+                    onChange={(e) => setRecoveryCodeInput(e.target.value)}
+                  />
+                </div>
+                {newPassphraseFields}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogMode(null)} disabled={isWorking}>Cancel</Button>
+                <Button onClick={handleRecover} disabled={isWorking || !recoveryCodeInput}>Recover</Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialogMode === 'change' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Change Passphrase</DialogTitle>
+                <DialogDescription>
+                  Your other devices stay unlocked. The new passphrase is needed the next time one of them is locked.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <div className="space-y-2">
+                  <Label htmlFor="currentPassphrase">Current passphrase</Label>
+                  <Input
+                    id="currentPassphrase"
+                    type="password"
+                    autoComplete="current-password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                </div>
+                {newPassphraseFields}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogMode(null)} disabled={isWorking}>Cancel</Button>
+                <Button onClick={handleChangePassphrase} disabled={isWorking || !passphrase}>Change Passphrase</Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialogMode === 'recoveryCode' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save Your Recovery Code</DialogTitle>
+                <DialogDescription>
+                  This is the only way back into your encrypted data if you forget your passphrase. Store it somewhere safe; it won't be shown again.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex items-center gap-2 py-2">
+                <code className="flex-1 rounded-md border bg-gray-50 p-3 text-center font-mono text-sm break-all">
+                  {recoveryCode}
+                </code>
+                <Button variant="outline" size="icon" onClick={handleCopyRecoveryCode}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => { setRecoveryCode(''); setDialogMode(null); }}>
+                  I've Saved It
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={confirmAction === 'rotate'}
+        onClose={() => setConfirmAction(null)}
+        onConfirm={handleRotate}
+        title="Rotate encryption key?"
+        description="New changes will be encrypted with a fresh key and all your data will be re-uploaded. Your passphrase and recovery code stay the same."
+        confirmText="Rotate Key"
+        confirmVariant="default"
+      />
+      <ConfirmDialog
+        isOpen={confirmAction === 'disable'}
+        onClose={() => setConfirmAction(null)}
+        onConfirm={handleDisable}
+        title="Turn off end-to-end encryption?"
+        description="All your data will be re-uploaded without encryption, and the server will be able to read it."
+        confirmText="Turn Off"
+      />
+    </Card>
+  );
+}
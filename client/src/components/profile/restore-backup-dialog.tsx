@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { useUser } from '@/context/new-user-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  previewRestore,
+  restoreBackup,
+  type Backup,
+  type BackupKind,
+  type RestoreMode,
+  type RestoreSummary
+} from '@/lib/backup';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+
+interface RestoreBackupDialogProps {
+  backup: Backup | null;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<BackupKind, string> = {
+  post: 'Posts',
+  note: 'Notes',
+  journal: 'Journal entries',
+  document: 'Documents',
+  notebook: 'Journal notebooks',
+  template: 'Journal templates',
+  tracker: 'Journal trackers',
+};
+
+// How many validation problems to list before summing up the rest
+const MAX_LISTED_ISSUES = 5;
+
+export default function RestoreBackupDialog({ backup, onClose }: RestoreBackupDialogProps) {
+  const { updateUserProfile } = useUser();
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<RestoreSummary[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!backup) return;
+    setMode('merge');
+    previewRestore(backup)
+      .then(setSummary)
+      .catch(error => console.error('Error previewing backup:', error));
+  }, [backup]);
+
+  const toImport = summary.reduce(
+    (total, row) => total + (mode === 'merge' ? row.total - row.existing : row.total),
+    0
+  );
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      const result = await restoreBackup(backup, mode);
+      if (mode === 'replace' && backup.profile) {
+        await updateUserProfile(backup.profile);
+      }
+
+      toast({
+        title: 'Backup restored',
+        description: [
+          `${result.imported} ${result.imported === 1 ? 'item' : 'items'} imported`,
+          result.skipped > 0 && `${result.skipped} already here`,
+          result.trashed > 0 && `${result.trashed} moved to the trash`,
+        ].filter(Boolean).join(', ') + '.',
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to restore the backup. Anything already imported has been kept.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => !open && !isRestoring && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Restore from backup</DialogTitle>
+          <DialogDescription>
+            {backup && `Backup made on ${format(backup.createdAt, 'MMM d, yyyy \'at\' h:mm a')}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium py-1"></th>
+              <th className="font-medium py-1 text-right">In backup</th>
+              <th className="font-medium py-1 text-right">Already here</th>
+              <th className="font-medium py-1 text-right">Invalid</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.map(row => (
+              <tr key={row.entity} className="border-t">
+                <td className="py-1">{ENTITY_LABELS[row.entity]}</td>
+                <td className="py-1 text-right">{row.total}</td>
+                <td className="py-1 text-right">{row.existing}</td>
+                <td className={`py-1 text-right ${row.invalid > 0 ? 'text-red-600' : ''}`}>{row.invalid}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {backup && backup.invalid.length > 0 && (
+          <div className="text-xs text-red-600 space-y-1">
+            <p>These items don't pass validation and will be left out:</p>
+            <ul className="list-disc pl-4">
+              {backup.invalid.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                <li key={index}>
+                  {ENTITY_LABELS[issue.entity]}{issue.id ? ` ${issue.id}` : ''}: {issue.message}
+                </li>
+              ))}
+            </ul>
+            {backup.invalid.length > MAX_LISTED_ISSUES && (
+              <p>…and {backup.invalid.length - MAX_LISTED_ISSUES} more.</p>
+            )}
+          </div>
+        )}
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+            <Label htmlFor="restore-merge" className="font-normal">
+              <span className="font-medium">Merge</span>
+              <span className="block text-gray-500">Add what's missing and keep everything on this device.</span>
+            </Label>
+          </div>
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+            <Label htmlFor="restore-replace" className="font-normal">
+              <span className="font-medium">Replace</span>
+              <span className="block text-gray-500">
+                Move everything on this device to the trash, then import the whole backup and its profile.
+              </span>
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isRestoring}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={isRestoring || toImport === 0}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+          >
+            {isRestoring ? 'Restoring...' : `Restore ${toImport} ${toImport === 1 ? 'item' : 'items'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -55,7 +55,7 @@ export function DeleteButton({
         onClose={handleClose}
         onConfirm={handleConfirm}
         title={`Delete ${itemName}`}
-        description={`Are you sure you want to delete this ${itemName}? This action cannot be undone.`}
+        description={`Are you sure you want to delete this ${itemName}? You can restore it from the trash.`}
         confirmText="Delete"
         cancelText="Cancel"
       />
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNetworkStatus } from '@/context/network-status-context';
+import { useUser } from '@/context/new-user-context';
 import { getSyncQueue, QueuedAction } from '@/lib/offline-storage';
 import { processQueue } from '@/lib/sync-service';
 import { Button } from '@/components/ui/button';
@@ -19,12 +20,15 @@ export default function OfflineIndicator() {
   const [syncing, setSyncing] = useState<boolean>(false);
   const [syncResult, setSyncResult] = useState<{ synced: number, failed: number } | null>(null);
   const { toast } = useToast();
+  const { user } = useUser();
+  // Every local write is queued, but only signed-in accounts have a server to sync to
+  const isSignedIn = !!user && user.id > 0;
 
   useEffect(() => {
     // Check for pending items in sync queue
     const checkSyncQueue = async () => {
       try {
-        const queue = await getSyncQueue();
+        const queue = isSignedIn ? await getSyncQueue() : [];
         setPendingItems(queue.length);
       } catch (error) {
         console.error('Error checking sync queue:', error);
@@ -36,14 +40,14 @@ export default function OfflineIndicator() {
     // Set up periodic checking
     const intervalId = setInterval(checkSyncQueue, 10000);
     return () => clearInterval(intervalId);
-  }, []);
+  }, [isSignedIn]);
 
   // Try to sync when coming back online
   useEffect(() => {
     if (hasConnectivity && pendingItems > 0 && !syncing) {
       handleSync();
     }
-  }, [hasConnectivity, pendingItems, syncing]);
+  }, [hasConnectivity]);
 
   const handleSync = async () => {
     if (!hasConnectivity) {
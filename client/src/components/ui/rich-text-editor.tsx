@@ -3,6 +3,8 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { FaBold, FaItalic, FaUnderline, FaLink, FaPaperclip, FaImage, FaVideo, FaCopy, FaHistory, FaSmile, FaTimes } from 'react-icons/fa';
 import { getDraft, saveDraft, clearDraft } from '@/lib/draft-utils';
+import { getAttachmentHtml } from '@/lib/markdown';
+import { storeMedia, toMediaReferences } from '@/lib/media-store';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import EmojiPicker, { EmojiClickData, Theme } from 'emoji-picker-react';
 
@@ -45,6 +47,9 @@ export default function RichTextEditor({
   const [hasDraft, setHasDraft] = useState(false);
   const [showDraftAlert, setShowDraftAlert] = useState(false);
 
+  // Attached media shows as object URLs in the editor; hand the references back instead
+  const emitChange = (html: string) => onChange(toMediaReferences(html));
+
   // Simple function to save cursor position
   const saveCaretPosition = () => {
     const selection = window.getSelection();
@@ -148,7 +153,7 @@ export default function RichTextEditor({
   const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
     if (editorRef.current) {
       const newContent = editorRef.current.innerHTML || '';
-      onChange(newContent);
+      emitChange(newContent);
     }
   };
   
@@ -156,7 +161,7 @@ export default function RichTextEditor({
     setTimeout(() => {
       if (editorRef.current) {
         const newContent = editorRef.current.innerHTML || '';
-        onChange(newContent);
+        emitChange(newContent);
       }
     }, 0);
   };
@@ -171,7 +176,7 @@ export default function RichTextEditor({
     
     // Update the model
     if (editorRef.current) {
-      onChange(editorRef.current.innerHTML);
+      emitChange(editorRef.current.innerHTML);
     }
     
     // Restore cursor position with slight delay to ensure UI update completes
@@ -218,82 +223,69 @@ export default function RichTextEditor({
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        // Save cursor position
-        const selection = saveCaretPosition();
+    // Files go to the media store; the content only holds a reference to them
+    storeMedia(file).then(mediaUrl => {
+      // Save cursor position
+      const selection = saveCaretPosition();
+      
+      if (type === 'image') {
+        // Create a more controlled image insertion with styling
+        const imageUrl = mediaUrl;
+        const imageHtml = `<img src="${imageUrl}" alt="Embedded image" style="max-width: 100%; margin: 8px 0; display: block;" />`;
         
-        if (type === 'image') {
-          // Create a more controlled image insertion with styling
-          const imageUrl = event.target.result.toString();
-          const imageHtml = `<img src="${imageUrl}" alt="Embedded image" style="max-width: 100%; margin: 8px 0; display: block;" />`;
-          
-          // Insert at cursor position
-          document.execCommand('insertHTML', false, imageHtml);
-          
-          // Manual update to ensure image is properly saved
-          if (editorRef.current) {
-            onChange(editorRef.current.innerHTML);
-          }
-        } else if (type === 'video') {
-          // Create a more controlled video element with styling
-          const videoUrl = event.target.result.toString();
-          const videoHtml = `<video controls src="${videoUrl}" style="max-width: 100%; margin: 8px 0; display: block;"></video>`;
-          
-          // Insert at cursor position
-          document.execCommand('insertHTML', false, videoHtml);
-          
-          // Manual update to ensure video is properly saved
-          if (editorRef.current) {
-            onChange(editorRef.current.innerHTML);
-          }
-        } else {
-          // For regular files, insert a styled link
-          const fileName = file.name;
-          const fileUrl = event.target.result.toString();
-          const fileHtml = `<div style="margin: 8px 0;">
-            <a href="${fileUrl}" download="${fileName}" 
-              style="display: inline-flex; align-items: center; padding: 6px 12px; background: #f1f5f9; border-radius: 4px; text-decoration: none; color: #0f172a;">
-              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" 
-                stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="margin-right: 8px;">
-                <path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"></path>
-                <polyline points="13 2 13 9 20 9"></polyline>
-              </svg>
-              ${fileName}
-            </a>
-          </div>`;
-          
-          // Insert at cursor position
-          document.execCommand('insertHTML', false, fileHtml);
-          
-          // Manual update to ensure file link is properly saved
-          if (editorRef.current) {
-            onChange(editorRef.current.innerHTML);
-          }
+        // Insert at cursor position
+        document.execCommand('insertHTML', false, imageHtml);
+        
+        // Manual update to ensure image is properly saved
+        if (editorRef.current) {
+          emitChange(editorRef.current.innerHTML);
         }
+      } else if (type === 'video') {
+        // Create a more controlled video element with styling
+        const videoUrl = mediaUrl;
+        const videoHtml = `<video controls src="${videoUrl}" style="max-width: 100%; margin: 8px 0; display: block;"></video>`;
         
-        // Restore cursor position after insertion
-        setTimeout(() => {
-          // Put cursor after the inserted element
-          if (selection) {
-            try {
-              const newSelection = window.getSelection();
-              if (newSelection) {
-                const range = document.createRange();
-                range.setStartAfter(editorRef.current!.lastChild!);
-                range.collapse(true);
-                newSelection.removeAllRanges();
-                newSelection.addRange(range);
-              }
-            } catch (e) {
-              console.log('Error positioning cursor after insertion:', e);
+        // Insert at cursor position
+        document.execCommand('insertHTML', false, videoHtml);
+        
+        // Manual update to ensure video is properly saved
+        if (editorRef.current) {
+          emitChange(editorRef.current.innerHTML);
+        }
+      } else {
+        // For regular files, insert a styled link
+        const fileName = file.name;
+        const fileUrl = mediaUrl;
+        const fileHtml = getAttachmentHtml(fileUrl, fileName);
+        
+        // Insert at cursor position
+        document.execCommand('insertHTML', false, fileHtml);
+        
+        // Manual update to ensure file link is properly saved
+        if (editorRef.current) {
+          emitChange(editorRef.current.innerHTML);
+        }
+      }
+      
+      // Restore cursor position after insertion
+      setTimeout(() => {
+        // Put cursor after the inserted element
+        if (selection) {
+          try {
+            const newSelection = window.getSelection();
+            if (newSelection) {
+              const range = document.createRange();
+              range.setStartAfter(editorRef.current!.lastChild!);
+              range.collapse(true);
+              newSelection.removeAllRanges();
+              newSelection.addRange(range);
             }
+          } catch (e) {
+            console.error('Error positioning cursor after insertion:', e);
           }
-        }, 10);
-      }
-    };
-    reader.readAsDataURL(file);
+        }
+      }, 10);
+    }).catch(error => console.error('Error storing attachment:', error));
     e.target.value = '';
   };
 
@@ -316,7 +308,7 @@ export default function RichTextEditor({
     
     // Update the model
     if (editorRef.current) {
-      onChange(editorRef.current.innerHTML);
+      emitChange(editorRef.current.innerHTML);
     }
     
     // Restore cursor position (after the inserted emoji)
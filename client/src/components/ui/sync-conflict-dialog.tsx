@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { useSyncContext } from '@/context/sync-context';
+import { threeWayMerge, MergeResult } from '@/lib/merge-utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { GitMerge, Laptop, Smartphone, AlertTriangle } from 'lucide-react';
+
+const entityLabels: Record<string, string> = {
+  note: 'note',
+  journal: 'journal entry',
+  document: 'document',
+  post: 'post',
+};
+
+const getHtml = (item: any): string => item?.formattedContent?.html || item?.content || '';
+
+export function SyncConflictDialog() {
+  const { conflicts, resolveConflict } = useSyncContext();
+  const [merged, setMerged] = useState<MergeResult | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const { toast } = useToast();
+
+  // Conflicts are resolved one at a time, oldest first
+  const conflict = conflicts[0];
+
+  useEffect(() => {
+    setMerged(null);
+  }, [conflict?.id]);
+
+  if (!conflict) return null;
+
+  const localHtml = getHtml(conflict.local);
+  const remoteHtml = getHtml(conflict.remote);
+  const label = entityLabels[conflict.entity] || 'item';
+  const title = conflict.remote?.title || conflict.local?.title;
+
+  const handleResolve = async (html: string) => {
+    setIsResolving(true);
+    try {
+      await resolveConflict(conflict, html);
+      toast({
+        title: 'Conflict resolved',
+        description: `Your choice for this ${label} will be synced to your other devices.`,
+      });
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to resolve the conflict. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleMerge = () => {
+    // Without a common ancestor every difference counts as a conflict, so both sides are kept
+    setMerged(threeWayMerge(conflict.baseHtml ?? '', localHtml, remoteHtml));
+  };
+
+  return (
+    <Dialog open={true}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            This {label} was edited on two devices{title ? `: ${title}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Choose which version to keep, or merge them into one.
+            {conflicts.length > 1 && ` ${conflicts.length - 1} more conflict${conflicts.length > 2 ? 's' : ''} waiting.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {merged ? (
+          <div className="flex-1 overflow-hidden flex flex-col gap-3">
+            {merged.hasConflicts && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Some passages were changed on both devices. Both versions of those passages were kept, so you may want to tidy them up after saving.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="flex-1 overflow-y-auto border rounded-md p-3 prose prose-sm max-w-none">
+              <div dangerouslySetInnerHTML={{ __html: merged.html }} />
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center gap-1.5 text-sm font-medium mb-2">
+                <Laptop className="h-4 w-4" />
+                This device
+              </div>
+              <div className="flex-1 overflow-y-auto border rounded-md p-3 prose prose-sm max-w-none">
+                <div dangerouslySetInnerHTML={{ __html: localHtml }} />
+              </div>
+            </div>
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center gap-1.5 text-sm font-medium mb-2">
+                <Smartphone className="h-4 w-4" />
+                Other device
+              </div>
+              <div className="flex-1 overflow-y-auto border rounded-md p-3 prose prose-sm max-w-none">
+                <div dangerouslySetInnerHTML={{ __html: remoteHtml }} />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {merged ? (
+            <>
+              <Button variant="outline" onClick={() => setMerged(null)} disabled={isResolving}>
+                Back
+              </Button>
+              <Button onClick={() => handleResolve(merged.html)} disabled={isResolving}>
+                Save merged version
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleMerge} disabled={isResolving}>
+                <GitMerge className="h-4 w-4 mr-1" />
+                Merge
+              </Button>
+              <Button variant="outline" onClick={() => handleResolve(remoteHtml)} disabled={isResolving}>
+                Keep other device
+              </Button>
+              <Button onClick={() => handleResolve(localHtml)} disabled={isResolving}>
+                Keep this device
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
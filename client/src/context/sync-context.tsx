@@ -1,6 +1,11 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { synchronizeDevices, getDeviceId } from '@/lib/device-sync';
+import { resolveConflict as resolveSyncConflict } from '@/lib/sync-service';
+import { getConflicts, SyncConflict } from '@/lib/offline-storage';
+import { getEncryptionStatus } from '@/lib/encryption';
+import { purgeExpiredTrash } from '@/lib/trash';
+import { collectMediaGarbage } from '@/lib/media-store';
 import { useNetworkStatus } from './network-status-context';
 
 interface SyncContextType {
@@ -10,6 +15,8 @@ interface SyncContextType {
   deviceId: string | null;
   syncNow: () => Promise<void>;
   timeSinceLastSync: number;
+  conflicts: SyncConflict[];
+  resolveConflict: (conflict: SyncConflict, html: string) => Promise<void>;
 }
 
 const defaultContextValue: SyncContextType = {
@@ -19,6 +26,8 @@ const defaultContextValue: SyncContextType = {
   deviceId: null,
   syncNow: async () => {},
   timeSinceLastSync: 0,
+  conflicts: [],
+  resolveConflict: async () => {},
 };
 
 const SyncContext = createContext<SyncContextType>(defaultContextValue);
@@ -29,6 +38,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
   const [lastSyncTimestamp, setLastSyncTimestamp] = useState<number | null>(null);
   const [deviceId, setDeviceId] = useState<string | null>(null);
   const [timeSinceLastSync, setTimeSinceLastSync] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
 
   const { toast } = useToast();
   const { isOnline, hasConnectivity } = useNetworkStatus();
@@ -39,6 +49,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
       try {
         const id = await getDeviceId();
         setDeviceId(id);
+        setConflicts(await getConflicts());
       } catch (error) {
         console.error('Error initializing device ID:', error);
       } finally {
@@ -49,6 +60,15 @@ export function SyncProvider({ children }: { children: ReactNode }) {
     initialize();
   }, []);
 
+  // Empty out items left in the trash past the retention period; the purges sync like deletes.
+  // Then drop the attached files nothing refers to any more.
+  useEffect(() => {
+    purgeExpiredTrash()
+      .catch(error => console.error('Error purging expired trash:', error))
+      .then(() => collectMediaGarbage())
+      .catch(error => console.error('Error collecting unused media:', error));
+  }, []);
+
   // Sync when the app comes online
   useEffect(() => {
     if (hasConnectivity && !isInitializing && !isSyncing) {
@@ -97,6 +117,11 @@ export function SyncProvider({ children }: { children: ReactNode }) {
       
       if (result.success) {
         // Sync was successful, but don't show a notification to avoid too many toasts
+      } else if (await getEncryptionStatus() === 'locked') {
+        toast({
+          title: 'Encryption Locked',
+          description: 'Enter your encryption passphrase on the Profile page to sync this device.',
+        });
       } else {
         // Only show error notification if something went wrong
         toast({
@@ -114,9 +139,17 @@ export function SyncProvider({ children }: { children: ReactNode }) {
       });
     } finally {
       setIsSyncing(false);
+      setConflicts(await getConflicts());
     }
   };
 
+  // Keep the chosen version and push it on the next sync
+  const resolveConflict = async (conflict: SyncConflict, html: string) => {
+    await resolveSyncConflict(conflict, html);
+    setConflicts(await getConflicts());
+    await syncNow();
+  };
+
   return (
     <SyncContext.Provider
       value={{
@@ -126,6 +159,8 @@ export function SyncProvider({ children }: { children: ReactNode }) {
         deviceId,
         syncNow,
         timeSinceLastSync,
+        conflicts,
+        resolveConflict,
       }}
     >
       {children}
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { type EntityId } from '@shared/ids';
+
+// Query parameter naming the item a page should open, e.g. /notes?open=<id>
+export const OPEN_PARAM = 'open';
+
+/**
+ * Build the link that opens an item in its page's editor
+ */
+export function getOpenPath(path: string, id: EntityId): string {
+  return `${path}?${OPEN_PARAM}=${encodeURIComponent(String(id))}`;
+}
+
+/**
+ * Hook for pages reached through getOpenPath. Once the page's items have loaded, opens
+ * the one named in the URL and drops the parameter so it doesn't open again.
+ * @param items The items the page has loaded
+ * @param open Opens an item, usually the page's edit handler
+ */
+export function useOpenParam<T extends { id: EntityId }>(items: T[], open: (item: T) => void) {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+
+  useEffect(() => {
+    const id = new URLSearchParams(search).get(OPEN_PARAM);
+    if (!id) return;
+
+    const item = items.find(candidate => String(candidate.id) === id);
+    if (item) {
+      open(item);
+      navigate(location, { replace: true });
+    }
+  }, [items, search]);
+}
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react';
+import { checkAspectRatio, validatePost, type PostContent, type ValidationIssue } from '@shared/platform-rules';
+import { isMediaReference, resolveMediaUrl } from '@/lib/media-store';
+
+// Image sizes, cached across editors so attachments are only measured once
+const imageSizes = new Map<string, { width: number; height: number }>();
+
+const measureImage = (url: string): Promise<{ width: number; height: number } | null> => {
+  const cached = imageSizes.get(url);
+  if (cached) return Promise.resolve(cached);
+
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => {
+      const size = { width: image.naturalWidth, height: image.naturalHeight };
+      imageSizes.set(url, size);
+      resolve(size);
+    };
+    image.onerror = () => resolve(null);
+    resolveMediaUrl(url)
+      .then(src => {
+        image.src = src;
+      })
+      .catch(() => resolve(null));
+  });
+};
+
+// Attachments in the media store are images unless they fail to load as one
+const isImage = (url: string) => url.startsWith('data:image/') || isMediaReference(url) || /\.(png|jpe?g|gif|webp)(\?|$)/i.test(url);
+
+/**
+ * Hook to check a post against its platform's rules while it is being written.
+ * Returns every issue found, including image shapes, which can only be measured in the browser.
+ */
+export function usePlatformValidation(post: PostContent) {
+  const [aspectIssues, setAspectIssues] = useState<ValidationIssue[]>([]);
+  const mediaKey = (post.mediaUrls || []).join('\n');
+
+  const issues = useMemo(
+    () => validatePost(post),
+    [post.platform, post.content, mediaKey, post.status, post.formattedContent?.videoUrl, post.formattedContent?.title, post.thread]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const images = (post.mediaUrls || []).filter(isImage);
+
+    Promise.all(images.map(measureImage)).then(sizes => {
+      if (cancelled) return;
+      setAspectIssues(sizes
+        .map(size => size && checkAspectRatio(post.platform, size.width, size.height))
+        .filter((issue): issue is ValidationIssue => !!issue));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [post.platform, mediaKey]);
+
+  const allIssues = [...issues, ...aspectIssues];
+  return {
+    issues: allIssues,
+    hasErrors: allIssues.some(issue => issue.severity === 'error'),
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { getSmartFilters, subscribeToSmartFilters, type SmartFilter } from '@/lib/smart-filters';
+import { countMatches, subscribeToSearchIndex } from '@/lib/search-index';
+
+/**
+ * Hook returning the saved smart filters and how many items each one matches. Counts
+ * follow every change to the data and to the filters.
+ */
+export function useSmartFilters() {
+  const [filters, setFilters] = useState<SmartFilter[]>(getSmartFilters);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => subscribeToSmartFilters(() => setFilters(getSmartFilters())), []);
+
+  useEffect(() => {
+    if (filters.length === 0) {
+      setCounts({});
+      return;
+    }
+
+    let cancelled = false;
+    const updateCounts = async () => {
+      const entries = await Promise.all(filters.map(async filter => [filter.id, await countMatches(filter.query)] as const));
+      if (!cancelled) setCounts(Object.fromEntries(entries));
+    };
+
+    updateCounts().catch(error => console.error('Error counting smart filter matches:', error));
+    const unsubscribe = subscribeToSearchIndex(updateCounts);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [filters]);
+
+  return { filters, counts };
+}
@@ -17,7 +17,7 @@ export function useSyncData({ entityType, autoSync = true }: UseSyncDataOptions)
   /**
    * Record a create operation for synchronization
    */
-  const recordCreate = useCallback(async (id: number, data: any) => {
+  const recordCreate = useCallback(async (id: string, data: any) => {
     await recordSyncOperation(entityType, id, 'create', data);
     if (autoSync) {
       await syncNow();
@@ -27,7 +27,7 @@ export function useSyncData({ entityType, autoSync = true }: UseSyncDataOptions)
   /**
    * Record an update operation for synchronization
    */
-  const recordUpdate = useCallback(async (id: number, data: any) => {
+  const recordUpdate = useCallback(async (id: string, data: any) => {
     await recordSyncOperation(entityType, id, 'update', data);
     if (autoSync) {
       await syncNow();
@@ -37,7 +37,7 @@ export function useSyncData({ entityType, autoSync = true }: UseSyncDataOptions)
   /**
    * Record a delete operation for synchronization
    */
-  const recordDelete = useCallback(async (id: number) => {
+  const recordDelete = useCallback(async (id: string) => {
     await recordSyncOperation(entityType, id, 'delete', { id });
     if (autoSync) {
       await syncNow();
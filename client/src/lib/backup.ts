@@ -0,0 +1,607 @@
+/**
+ * Account backup and restore. A backup is a zip holding manifest.json, with the profile and
+ * every post, note, journal entry and document (trashed ones included), and a media folder
+ * with the files they refer to from the media store and the ones embedded as data URLs.
+ * Restoring puts all of them in the media store. The user's journal notebooks, templates and
+ * trackers come along in the manifest too.
+ */
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import {
+  insertUserSchema,
+  postFieldsSchema,
+  insertNoteSchema,
+  insertJournalEntrySchema,
+  insertDocumentSchema,
+  insertNotebookSchema,
+  type User,
+  type Post,
+  type Note,
+  type JournalEntry,
+  type Notebook,
+  type Document,
+  type EntityId
+} from '@shared/schema';
+import { postRepository, noteRepository, journalRepository, notebookRepository, documentRepository, type Repository } from './repository';
+import { getUser } from './storage';
+import { MEDIA_SCHEME, getMedia, getMediaReferences, storeMedia } from './media-store';
+import { loadCustomTemplates, importTemplates, journalTemplateSchema, type JournalTemplate } from './journal-templates';
+import { loadJournalTrackers, importTrackers, journalTrackerSchema, type JournalTracker } from './journal-trackers';
+
+export const BACKUP_FORMAT = 'social-hub-backup';
+// Bump when the manifest changes shape; older backups must keep restoring
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const MEDIA_FOLDER = 'media';
+// What a data URL is replaced with in the manifest, followed by the file's path in the zip
+const MEDIA_REFERENCE_PREFIX = 'archive:';
+const DATA_URL_PATTERN = /data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)/g;
+const MEDIA_REFERENCE_PATTERN = new RegExp(`${MEDIA_REFERENCE_PREFIX}(${MEDIA_FOLDER}/[\\w.-]+)`, 'g');
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'application/pdf': 'pdf'
+};
+
+export type BackupEntity = 'post' | 'note' | 'journal' | 'document';
+// Notebooks can't be trashed, and journal templates and trackers are settings rather than
+// items, but all are restored alongside them
+export type BackupKind = BackupEntity | 'notebook' | 'template' | 'tracker';
+
+type BackupItem = Post | Note | JournalEntry | Document;
+
+// Omit over each member of a union rather than over the keys they share
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+// The account's email and sign-in details stay with the account
+export type BackupProfile = Pick<User, 'username' | 'displayName' | 'designation' | 'profilePicture'>;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  profile: BackupProfile | null;
+  // Keyed by platform, master drafts included
+  posts: Record<string, Post[]>;
+  notes: Note[];
+  journalEntries: JournalEntry[];
+  documents: Document[];
+  // Missing from backups made before notebooks existed
+  journalNotebooks?: Notebook[];
+  // The user's own templates; missing from backups made before templates existed
+  journalTemplates?: JournalTemplate[];
+  // Missing from backups made before trackers existed
+  journalTrackers?: JournalTracker[];
+  // Files in the media folder; `hash` is set for the ones items refer to as media://<hash>
+  media: Array<{ path: string; type: string; hash?: string }>;
+}
+
+// An item from a backup that passed validation, ready to be created under a new ID
+interface BackupRecord {
+  entity: BackupEntity;
+  // The ID it had when it was backed up
+  id: EntityId;
+  item: WithoutId<BackupItem>;
+}
+
+// A notebook from a backup that passed validation. Like items, it's created under a new ID
+// unless it's already on this device.
+interface BackupNotebook {
+  id: EntityId;
+  item: Omit<Notebook, 'id'>;
+}
+
+export interface BackupIssue {
+  entity: BackupKind;
+  id?: string;
+  message: string;
+}
+
+export interface Backup {
+  createdAt: Date;
+  profile: BackupProfile | null;
+  records: BackupRecord[];
+  notebooks: BackupNotebook[];
+  templates: JournalTemplate[];
+  trackers: JournalTracker[];
+  // Items that failed validation; they're left out of the restore
+  invalid: BackupIssue[];
+}
+
+export interface RestoreSummary {
+  entity: BackupKind;
+  total: number;
+  // Already on this device; skipped when merging
+  existing: number;
+  invalid: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  imported: number;
+  skipped: number;
+  // Items moved to the trash to make way for the backup
+  trashed: number;
+}
+
+const repositories: Record<BackupEntity, Repository<BackupItem>> = {
+  post: postRepository,
+  note: noteRepository,
+  journal: journalRepository,
+  document: documentRepository
+};
+
+const itemListSchema = z.array(z.record(z.unknown()));
+
+const manifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  createdAt: z.coerce.date(),
+  profile: z.record(z.unknown()).nullable(),
+  posts: z.record(itemListSchema),
+  notes: itemListSchema,
+  journalEntries: itemListSchema,
+  documents: itemListSchema,
+  journalNotebooks: itemListSchema.optional(),
+  journalTemplates: itemListSchema.optional(),
+  journalTrackers: itemListSchema.optional(),
+  media: z.array(z.object({ path: z.string(), type: z.string(), hash: z.string().optional() }))
+});
+
+const profileSchema = insertUserSchema.pick({
+  username: true,
+  displayName: true,
+  profilePicture: true,
+  designation: true
+}).partial();
+
+// Columns the insert schemas leave to the server
+const timestampsSchema = z.object({
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional()
+});
+
+/**
+ * Build the backup archive of everything on this device
+ */
+export const createBackup = async (): Promise<Blob> => {
+  const zip = new JSZip();
+  const media: BackupManifest['media'] = [];
+  const mediaPaths = new Map<string, string>();
+
+  // Move a data URL into the media folder, once however many times it's used
+  const extractMedia = (dataUrl: string, type: string, base64: string): string => {
+    let path = mediaPaths.get(dataUrl);
+    if (!path) {
+      path = `${MEDIA_FOLDER}/${String(media.length + 1).padStart(4, '0')}.${MEDIA_EXTENSIONS[type] || 'bin'}`;
+      zip.file(path, base64, { base64: true });
+      media.push({ path, type });
+      mediaPaths.set(dataUrl, path);
+    }
+    return `${MEDIA_REFERENCE_PREFIX}${path}`;
+  };
+
+  const extractAll = <T>(value: T): T => JSON.parse(
+    JSON.stringify(value),
+    (_key, field) => typeof field === 'string'
+      ? field.replace(DATA_URL_PATTERN, (dataUrl, type: string, base64: string) => extractMedia(dataUrl, type, base64))
+      : field
+  );
+
+  const posts: Record<string, Post[]> = {};
+  for (const post of await postRepository.getAll()) {
+    (posts[post.platform] ||= []).push(extractAll(post));
+  }
+
+  const user = await getUser();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    profile: extractAll({
+      username: user.username,
+      displayName: user.displayName,
+      designation: user.designation,
+      profilePicture: user.profilePicture
+    }),
+    posts,
+    notes: (await noteRepository.getAll()).map(extractAll),
+    journalEntries: (await journalRepository.getAll()).map(extractAll),
+    documents: (await documentRepository.getAll()).map(extractAll),
+    journalNotebooks: await notebookRepository.getAll(),
+    journalTemplates: await loadCustomTemplates(),
+    journalTrackers: await loadJournalTrackers(),
+    media
+  };
+
+  for (const hash of Array.from(getMediaReferences(manifest))) {
+    const record = await getMedia(`${MEDIA_SCHEME}${hash}`);
+    if (!record) continue;
+    const path = `${MEDIA_FOLDER}/${hash}.${MEDIA_EXTENSIONS[record.type] || 'bin'}`;
+    zip.file(path, record.blob);
+    media.push({ path, type: record.type, hash });
+  }
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Build the backup archive and download it
+ */
+export const downloadBackup = async (): Promise<void> => {
+  saveAs(await createBackup(), `social-hub-backup-${format(new Date(), 'yyyy-MM-dd')}.zip`);
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message).join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Check one item against its insert schema and turn it back into a full item
+const toRecord = (entity: BackupEntity, raw: Record<string, unknown>, userId: number): BackupRecord => {
+  const id = String(raw.id ?? '');
+  const { createdAt = new Date(), updatedAt = createdAt } = timestampsSchema.parse(raw);
+  const input = { ...raw, userId, encryptedPayload: null };
+  const base = { encryptedPayload: null, version: 1, createdAt };
+
+  switch (entity) {
+    case 'post': {
+      // Backed-up posts are restored as they were, even ones the platform rules would now refuse
+      const post = postFieldsSchema.parse(input);
+      return {
+        entity,
+        id,
+        item: {
+          ...base,
+          userId,
+          platform: post.platform,
+          content: post.content,
+          formattedContent: (post.formattedContent ?? null) as Post['formattedContent'],
+          mediaUrls: post.mediaUrls ?? null,
+          tags: post.tags ?? null,
+          thread: post.thread ?? null,
+          masterId: post.masterId ?? null,
+          variantBase: post.variantBase ?? null,
+          status: post.status || 'published',
+          scheduledFor: post.scheduledFor ?? null,
+          deletedAt: post.deletedAt ?? null
+        }
+      };
+    }
+    case 'note': {
+      const note = insertNoteSchema.parse(input);
+      return {
+        entity,
+        id,
+        item: {
+          ...base,
+          userId,
+          title: note.title,
+          content: note.content,
+          formattedContent: (note.formattedContent ?? null) as Note['formattedContent'],
+          tags: note.tags ?? null,
+          color: note.color ?? null,
+          deletedAt: note.deletedAt ?? null,
+          updatedAt
+        }
+      };
+    }
+    case 'journal': {
+      const entry = insertJournalEntrySchema.parse(input);
+      return {
+        entity,
+        id,
+        item: {
+          ...base,
+          userId,
+          notebookId: entry.notebookId ?? null,
+          title: entry.title,
+          content: entry.content,
+          formattedContent: (entry.formattedContent ?? null) as JournalEntry['formattedContent'],
+          date: entry.date || createdAt,
+          mood: entry.mood ?? null,
+          weather: entry.weather ?? null,
+          location: entry.location ?? null,
+          tags: entry.tags ?? null,
+          templateId: entry.templateId ?? null,
+          sections: entry.sections ?? null,
+          trackers: entry.trackers ?? null,
+          deletedAt: entry.deletedAt ?? null,
+          updatedAt
+        }
+      };
+    }
+    case 'document': {
+      const doc = insertDocumentSchema.parse(input);
+      return {
+        entity,
+        id,
+        item: {
+          ...base,
+          userId,
+          title: doc.title,
+          content: doc.content,
+          formattedContent: (doc.formattedContent ?? null) as Document['formattedContent'],
+          category: doc.category ?? null,
+          tags: doc.tags ?? null,
+          deletedAt: doc.deletedAt ?? null,
+          updatedAt
+        }
+      };
+    }
+  }
+};
+
+const toNotebook = (raw: Record<string, unknown>, userId: number): BackupNotebook => {
+  const { createdAt = new Date(), updatedAt = createdAt } = timestampsSchema.parse(raw);
+  const notebook = insertNotebookSchema.parse({ ...raw, userId, encryptedPayload: null });
+  if (!notebook.name.trim()) throw new Error('A notebook needs a name');
+  return {
+    id: String(raw.id ?? ''),
+    item: {
+      userId,
+      name: notebook.name,
+      color: notebook.color ?? null,
+      defaultTemplateId: notebook.defaultTemplateId ?? null,
+      isPrivate: notebook.isPrivate ?? false,
+      encryptedPayload: null,
+      version: 1,
+      createdAt,
+      updatedAt
+    }
+  };
+};
+
+/**
+ * Read and validate a backup archive. Items that don't pass their insert schema are listed
+ * in `invalid` rather than failing the whole backup.
+ * @param userId The user the items will belong to once restored
+ * @throws If the file isn't a backup or was made by a newer version of the app
+ */
+export const readBackup = async (file: Blob, userId: number): Promise<Backup> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a zip archive.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error('This archive is not a backup; it has no manifest.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error('The backup manifest is not valid JSON.');
+  }
+
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`The backup manifest is not valid: ${describeError(parsed.error)}`);
+  }
+  const manifest = parsed.data;
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update to restore it.');
+  }
+
+  // Put the files in the media store, and the ones that were data URLs back as references to it
+  const mediaUrls = new Map<string, string>();
+  for (const { path, type } of manifest.media) {
+    const mediaFile = zip.file(path);
+    if (mediaFile) {
+      mediaUrls.set(path, await storeMedia(new Blob([await mediaFile.async('arraybuffer')], { type })));
+    }
+  }
+  const restoreMedia = <T>(value: T): T => JSON.parse(
+    JSON.stringify(value),
+    (_key, field) => typeof field === 'string'
+      ? field.replace(MEDIA_REFERENCE_PATTERN, (reference, path: string) => mediaUrls.get(path) ?? reference)
+      : field
+  );
+
+  const records: BackupRecord[] = [];
+  const invalid: BackupIssue[] = [];
+  const addItems = (entity: BackupEntity, items: Array<Record<string, unknown>>) => {
+    for (const item of items) {
+      try {
+        records.push(toRecord(entity, restoreMedia(item), userId));
+      } catch (error) {
+        invalid.push({ entity, id: typeof item.id === 'string' ? item.id : undefined, message: describeError(error) });
+      }
+    }
+  };
+
+  for (const [platform, posts] of Object.entries(manifest.posts)) {
+    addItems('post', posts.map(post => ({ ...post, platform })));
+  }
+  addItems('note', manifest.notes);
+  addItems('journal', manifest.journalEntries);
+  addItems('document', manifest.documents);
+
+  const notebooks: BackupNotebook[] = [];
+  for (const notebook of manifest.journalNotebooks || []) {
+    try {
+      notebooks.push(toNotebook(notebook, userId));
+    } catch (error) {
+      invalid.push({ entity: 'notebook', id: typeof notebook.id === 'string' ? notebook.id : undefined, message: describeError(error) });
+    }
+  }
+
+  const templates: JournalTemplate[] = [];
+  for (const template of manifest.journalTemplates || []) {
+    const parsedTemplate = journalTemplateSchema.safeParse(template);
+    if (parsedTemplate.success) templates.push(parsedTemplate.data);
+    else invalid.push({ entity: 'template', id: typeof template.id === 'string' ? template.id : undefined, message: describeError(parsedTemplate.error) });
+  }
+
+  const trackers: JournalTracker[] = [];
+  for (const tracker of manifest.journalTrackers || []) {
+    const parsedTracker = journalTrackerSchema.safeParse(tracker);
+    if (parsedTracker.success) trackers.push(parsedTracker.data);
+    else invalid.push({ entity: 'tracker', id: typeof tracker.id === 'string' ? tracker.id : undefined, message: describeError(parsedTracker.error) });
+  }
+
+  let profile: BackupProfile | null = null;
+  if (manifest.profile) {
+    const parsedProfile = profileSchema.safeParse(restoreMedia(manifest.profile));
+    if (parsedProfile.success) {
+      const { username, displayName, designation, profilePicture } = parsedProfile.data;
+      profile = {
+        username: username || '',
+        displayName: displayName ?? null,
+        designation: designation ?? null,
+        profilePicture: profilePicture ?? null
+      };
+    }
+  }
+
+  return { createdAt: manifest.createdAt, profile, records, notebooks, templates, trackers, invalid };
+};
+
+const getLocalIds = async (): Promise<Record<BackupEntity, Set<EntityId>>> => {
+  const ids = {} as Record<BackupEntity, Set<EntityId>>;
+  for (const entity of Object.keys(repositories) as BackupEntity[]) {
+    ids[entity] = new Set((await repositories[entity].getAll()).map(item => item.id));
+  }
+  return ids;
+};
+
+/**
+ * Count what a backup holds, and how much of it is already on this device
+ */
+export const previewRestore = async (backup: Backup): Promise<RestoreSummary[]> => {
+  const localIds = await getLocalIds();
+  const notebookIds = new Set((await notebookRepository.getAll()).map(notebook => notebook.id));
+  const templateIds = new Set((await loadCustomTemplates()).map(template => template.id));
+  const trackerIds = new Set((await loadJournalTrackers()).map(tracker => tracker.id));
+  return [
+    ...(Object.keys(repositories) as BackupEntity[]).map(entity => {
+      const records = backup.records.filter(record => record.entity === entity);
+      return {
+        entity,
+        total: records.length,
+        existing: records.filter(record => localIds[entity].has(record.id)).length,
+        invalid: backup.invalid.filter(issue => issue.entity === entity).length
+      };
+    }),
+    {
+      entity: 'notebook' as const,
+      total: backup.notebooks.length,
+      existing: backup.notebooks.filter(notebook => notebookIds.has(notebook.id)).length,
+      invalid: backup.invalid.filter(issue => issue.entity === 'notebook').length
+    },
+    {
+      entity: 'template' as const,
+      total: backup.templates.length,
+      existing: backup.templates.filter(template => templateIds.has(template.id)).length,
+      invalid: backup.invalid.filter(issue => issue.entity === 'template').length
+    },
+    {
+      entity: 'tracker' as const,
+      total: backup.trackers.length,
+      existing: backup.trackers.filter(tracker => trackerIds.has(tracker.id)).length,
+      invalid: backup.invalid.filter(issue => issue.entity === 'tracker').length
+    }
+  ];
+};
+
+/**
+ * Restore a backup. Every item is created under a new ID, with references between posts
+ * and their master drafts, and from entries to their notebooks, remapped. Merging skips items
+ * that are already on this device; replacing moves everything on it to the trash first.
+ * Notebooks can't be trashed, so replacing overwrites the settings of the ones already here
+ * instead. Journal templates and trackers keep their IDs, and replacing overwrites the ones
+ * with the same ID.
+ */
+export const restoreBackup = async (backup: Backup, mode: RestoreMode): Promise<RestoreResult> => {
+  const localIds = await getLocalIds();
+  const result: RestoreResult = { imported: 0, skipped: 0, trashed: 0 };
+
+  if (mode === 'replace') {
+    const deletedAt = new Date();
+    for (const entity of Object.keys(repositories) as BackupEntity[]) {
+      for (const item of await repositories[entity].getAll()) {
+        if (!item.deletedAt && await repositories[entity].update(item.id, { deletedAt })) result.trashed++;
+      }
+    }
+  }
+
+  // Notebooks go before their entries, which are pointed at the new IDs
+  const notebookIds = new Map<EntityId, EntityId>();
+  const localNotebookIds = new Set((await notebookRepository.getAll()).map(notebook => notebook.id));
+  for (const notebook of backup.notebooks) {
+    if (localNotebookIds.has(notebook.id)) {
+      notebookIds.set(notebook.id, notebook.id);
+      if (mode === 'merge') {
+        result.skipped++;
+        continue;
+      }
+      const { name, color, defaultTemplateId, isPrivate } = notebook.item;
+      await notebookRepository.update(notebook.id, { name, color, defaultTemplateId, isPrivate, updatedAt: new Date() });
+    } else {
+      notebookIds.set(notebook.id, (await notebookRepository.create(notebook.item)).id);
+    }
+    result.imported++;
+  }
+
+  // Master drafts go first so their variants can point at the new IDs
+  const records = [...backup.records].sort((a, b) =>
+    Number(a.entity === 'post' && !!(a.item as Post).masterId) - Number(b.entity === 'post' && !!(b.item as Post).masterId)
+  );
+  const newIds = new Map<EntityId, EntityId>();
+
+  for (const record of records) {
+    if (mode === 'merge' && localIds[record.entity].has(record.id)) {
+      result.skipped++;
+      continue;
+    }
+
+    let item = record.item;
+    if (record.entity === 'post') {
+      const masterId = (item as Post).masterId;
+      if (masterId) {
+        // A master that was skipped is already here under its old ID
+        const remapped = newIds.get(masterId) ?? (mode === 'merge' && localIds.post.has(masterId) ? masterId : null);
+        item = { ...item, masterId: remapped } as Omit<Post, 'id'>;
+      }
+    } else if (record.entity === 'journal') {
+      const notebookId = (item as JournalEntry).notebookId;
+      if (notebookId) {
+        // Entries from notebooks that weren't backed up, or are gone, go in the default one
+        const remapped = notebookIds.get(notebookId) ?? (localNotebookIds.has(notebookId) ? notebookId : null);
+        item = { ...item, notebookId: remapped } as Omit<JournalEntry, 'id'>;
+      }
+    }
+
+    const created = await repositories[record.entity].create(item);
+    if (record.id) newIds.set(record.id, created.id);
+    result.imported++;
+  }
+
+  const templateIds = new Set((await loadCustomTemplates()).map(template => template.id));
+  const templates = mode === 'merge' ? backup.templates.filter(template => !templateIds.has(template.id)) : backup.templates;
+  result.skipped += backup.templates.length - templates.length;
+  result.imported += (await importTemplates(templates)).length;
+
+  const trackerIds = new Set((await loadJournalTrackers()).map(tracker => tracker.id));
+  const trackers = mode === 'merge' ? backup.trackers.filter(tracker => !trackerIds.has(tracker.id)) : backup.trackers;
+  result.skipped += backup.trackers.length - trackers.length;
+  result.imported += (await importTrackers(trackers)).length;
+
+  return result;
+};
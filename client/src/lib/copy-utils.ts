@@ -1,6 +1,7 @@
 /**
  * Utility functions for copying content and exporting to different formats.
  */
+import { inlineMediaInHtml } from './media-store';
 
 /**
  * Copy text to clipboard
@@ -94,8 +95,8 @@ export function extractImagesFromHtml(html: string): string[] {
  */
 export async function copyHtmlToClipboard(html: string): Promise<boolean> {
   try {
-    // Enhanced HTML formatting to preserve styles
-    const enhancedHtml = html.trim();
+    // Enhanced HTML formatting to preserve styles, with attachments as data URLs
+    const enhancedHtml = (await inlineMediaInHtml(html)).trim();
     
     if (navigator.clipboard && navigator.clipboard.write) {
       // Create HTML blob with complete HTML structure to ensure formatting is preserved
@@ -371,6 +372,9 @@ export async function copyPostMediaOnly(post: any): Promise<boolean> {
 export async function copyFormattedContent(formattedContent: string | null, fallbackText: string = ''): Promise<boolean> {
   try {
     if (formattedContent) {
+      // Other apps can't read the media store, so attachments go along as data URLs
+      formattedContent = await inlineMediaInHtml(formattedContent);
+
       // Create a temporary element to handle HTML content
       const el = document.createElement('div');
       el.innerHTML = formattedContent;
@@ -0,0 +1,153 @@
+/**
+ * Utility functions for master drafts: one draft written once and cross-posted as a
+ * variant on each platform. Master drafts are posts on the "master" platform; each
+ * variant is a regular post on its platform, linked back with `masterId`.
+ */
+import { type Post } from '@shared/schema';
+import { toPlainText } from '@shared/platform-rules';
+import { getPosts, createPost, updatePost } from './storage';
+import { extractImagesFromHtml } from './copy-utils';
+import { splitIntoThread, threadToHtml, threadToText } from './thread-utils';
+
+export const MASTER_PLATFORM = 'master';
+
+// Platforms a master draft can be cross-posted to
+export const VARIANT_PLATFORMS = [
+  { id: 'twitter', label: 'Twitter' },
+  { id: 'linkedin', label: 'LinkedIn' },
+  { id: 'facebook', label: 'Facebook' },
+  { id: 'instagram', label: 'Instagram' },
+  { id: 'whatsapp', label: 'WhatsApp' },
+];
+
+// synced: matches the master. outdated: the master changed but the variant wasn't edited,
+// so it can be updated safely. diverged: the variant was edited on its own.
+export type VariantState = 'synced' | 'outdated' | 'diverged';
+
+type VariantContent = Pick<Post, 'content' | 'formattedContent' | 'mediaUrls' | 'thread'>;
+
+const imageTags = (urls: string[]) =>
+  urls.map(url => `<img src="${url}" alt="Post image" style="max-width: 100%; margin-bottom: 10px;" />`).join('');
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// WhatsApp formats with *bold*, _italic_ and ~strikethrough~ instead of markup
+const toWhatsAppText = (html: string): string => {
+  return toPlainText(html
+    .replace(/<(b|strong)>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<(i|em)>([\s\S]*?)<\/\1>/gi, '_$2_')
+    .replace(/<(s|strike|del)>([\s\S]*?)<\/\1>/gi, '~$2~')
+    .replace(/<a[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)'));
+};
+
+/**
+ * Generate a platform's variant of a master draft
+ * @param master The master draft
+ * @param platform The platform to generate for
+ */
+export const deriveVariant = (master: Post, platform: string): VariantContent => {
+  const html = master.formattedContent?.html || master.content;
+  const images = extractImagesFromHtml(html);
+  const textHtml = html.replace(/<img[^>]*>/gi, '');
+
+  switch (platform) {
+    case 'twitter': {
+      // Too long for one tweet: cross-post as a thread
+      const thread = splitIntoThread(html);
+      if (thread.length > 1) {
+        return {
+          content: threadToText(thread),
+          formattedContent: { html: threadToHtml(thread) },
+          mediaUrls: thread.flatMap(segment => segment.mediaUrls),
+          thread,
+        };
+      }
+      return { content: textHtml, formattedContent: { html: imageTags(images) + textHtml }, mediaUrls: images, thread: null };
+    }
+    case 'instagram': {
+      // Instagram captions are plain text with the images attached
+      const caption = toPlainText(textHtml);
+      return {
+        content: caption,
+        formattedContent: { html: `<div>${images.map(url => `<img src="${url}" alt="Post image" />`).join('')}<p>${escapeHtml(caption)}</p></div>` },
+        mediaUrls: images,
+        thread: null,
+      };
+    }
+    case 'whatsapp':
+      return { content: toWhatsAppText(textHtml), formattedContent: { html: textHtml }, mediaUrls: images, thread: null };
+    default:
+      return { content: textHtml, formattedContent: { html: imageTags(images) + textHtml }, mediaUrls: images, thread: null };
+  }
+};
+
+/**
+ * Work out whether a variant still matches its master
+ */
+export const getVariantState = (master: Post, variant: Post): VariantState => {
+  if ((variant.formattedContent?.html || '') !== (variant.variantBase || '')) {
+    return 'diverged';
+  }
+  return deriveVariant(master, variant.platform).formattedContent?.html === variant.variantBase ? 'synced' : 'outdated';
+};
+
+/**
+ * Get all master drafts, most recent first
+ */
+export const getMasterDrafts = async (): Promise<Post[]> => {
+  return getPosts(MASTER_PLATFORM);
+};
+
+/**
+ * Get the variants of a master draft, one per platform at most
+ */
+export const getVariants = async (masterId: string): Promise<Post[]> => {
+  const posts = await Promise.all(VARIANT_PLATFORMS.map(platform => getPosts(platform.id)));
+  return posts.flat().filter(post => post.masterId === masterId);
+};
+
+/**
+ * Create variants of a master draft as drafts on each platform
+ * @param master The master draft
+ * @param platforms The platforms to create variants for
+ */
+export const createVariants = async (master: Post, platforms: string[]): Promise<Post[]> => {
+  const variants: Post[] = [];
+  for (const platform of platforms) {
+    const derived = deriveVariant(master, platform);
+    variants.push(await createPost(platform, {
+      ...derived,
+      userId: master.userId,
+      platform,
+      formattedContent: { ...master.formattedContent, ...derived.formattedContent },
+      tags: master.tags,
+      status: 'draft',
+      masterId: master.id,
+      variantBase: derived.formattedContent?.html || null,
+    }));
+  }
+  return variants;
+};
+
+/**
+ * Replace a variant's content with a fresh copy of its master, discarding edits made
+ * to the variant
+ */
+export const updateVariantFromMaster = async (master: Post, variant: Post): Promise<Post | null> => {
+  const derived = deriveVariant(master, variant.platform);
+  return updatePost(variant.platform, variant.id, {
+    ...derived,
+    formattedContent: { ...variant.formattedContent, ...derived.formattedContent },
+    variantBase: derived.formattedContent?.html || null,
+  });
+};
+
+/**
+ * Unlink variants from a master draft that is being deleted. The variants stay on
+ * their platforms as ordinary posts.
+ */
+export const detachVariants = async (masterId: string): Promise<void> => {
+  for (const variant of await getVariants(masterId)) {
+    await updatePost(variant.platform, variant.id, { masterId: null, variantBase: null });
+  }
+};
@@ -1,43 +1,91 @@
-import { createStore, get, set, del } from 'idb-keyval';
 import { processQueue } from './sync-service';
 import { 
   cacheUserData, 
   getCachedUserData, 
-  stores 
+  saveConflict,
+  SyncConflict,
+  notifyStoreChange,
+  stores,
+  type StoreType
 } from './offline-storage';
 import { queryClient } from './queryClient';
-import { apiRequest } from './queryClient';
-
-// Create a special store for device sync data
-const syncMetadataStore = createStore('socialHub', 'deviceSync');
+import { apiRequest, parseApiError } from './queryClient';
+import type { EntityId } from '@shared/ids';
+import { decryptFromSync, refreshKeyring, getEncryptionStatus } from './encryption';
+import { uploadPendingMedia } from './media-store';
 
 // Type definitions
 interface DeviceSyncMetadata {
   deviceId: string;
   userId: number;
   lastSyncTimestamp: number;
+  lastCursor: number;
   syncVersion: number;
 }
 
-interface SyncRecord {
+// Shape of a page returned by GET /api/sync/changes
+interface SyncChangesPage {
+  changes: ServerSyncChange[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+// A change as stored in the server's change log
+interface ServerSyncChange {
+  seq: number;
+  changeId: string;
+  entityType: string;
+  entityId: EntityId;
+  operation: 'create' | 'update' | 'delete';
+  data?: any;
+  deviceId: string;
+  clientTimestamp: string;
+}
+
+// Number of changes requested per page when pulling
+const PULL_PAGE_SIZE = 200;
+
+export interface SyncRecord {
   id: string;
   entityType: string;
-  entityId: number;
+  entityId: EntityId;
   operation: 'create' | 'update' | 'delete';
   timestamp: number;
   data?: any;
   deviceId: string;
+  // For updates, the server version this device's copy is on when the change is pushed
+  baseVersion?: number;
+}
+
+// An update the server turned down because another device's edit got there first
+interface PushConflict {
+  changeId: string;
+  entityType: SyncConflict['entity'];
+  entityId: EntityId;
+  current: any;
 }
 
+// Map entity types to store names
+const entityStores: Record<string, StoreType> = {
+  'note': 'notes',
+  'journal': 'journals',
+  'notebook': 'notebooks',
+  'template': 'templates',
+  'tracker': 'trackers',
+  'document': 'documents',
+  'post': 'posts',
+  'revision': 'revisions'
+};
+
 // Generate or retrieve the unique device ID
 export async function getDeviceId(): Promise<string> {
   try {
-    let deviceId = await get('deviceId', syncMetadataStore);
+    let deviceId = await stores.deviceSync.getItem<string>('deviceId');
     
     if (!deviceId) {
       // Generate a new device ID if one doesn't exist
       deviceId = 'device_' + Date.now() + '_' + Math.random().toString(36).substring(2, 10);
-      await set('deviceId', deviceId, syncMetadataStore);
+      await stores.deviceSync.setItem('deviceId', deviceId);
     }
     
     return deviceId;
@@ -51,7 +99,7 @@ export async function getDeviceId(): Promise<string> {
 // Get the last sync timestamp for this device
 export async function getLastSyncTimestamp(): Promise<number> {
   try {
-    const metadata = await get<DeviceSyncMetadata>('syncMetadata', syncMetadataStore);
+    const metadata = await stores.deviceSync.getItem<DeviceSyncMetadata>('syncMetadata');
     return metadata?.lastSyncTimestamp || 0;
   } catch (error) {
     console.error('Error getting last sync timestamp:', error);
@@ -59,15 +107,22 @@ export async function getLastSyncTimestamp(): Promise<number> {
   }
 }
 
+// Read the device's sync metadata, creating defaults if none exist yet
+async function getSyncMetadata(): Promise<DeviceSyncMetadata> {
+  const metadata = await stores.deviceSync.getItem<DeviceSyncMetadata>('syncMetadata');
+  return {
+    deviceId: metadata?.deviceId || await getDeviceId(),
+    userId: metadata?.userId || 0,
+    lastSyncTimestamp: metadata?.lastSyncTimestamp || 0,
+    lastCursor: metadata?.lastCursor || 0,
+    syncVersion: metadata?.syncVersion || 1
+  };
+}
+
 // Update the last sync timestamp
 export async function updateLastSyncTimestamp(timestamp: number = Date.now()): Promise<void> {
   try {
-    const metadata = await get<DeviceSyncMetadata>('syncMetadata', syncMetadataStore) || {
-      deviceId: await getDeviceId(),
-      userId: 0,
-      lastSyncTimestamp: 0,
-      syncVersion: 1
-    };
+    const metadata = await getSyncMetadata();
     
     metadata.lastSyncTimestamp = timestamp;
     
@@ -77,47 +132,63 @@ export async function updateLastSyncTimestamp(timestamp: number = Date.now()): P
       metadata.userId = userData.id;
     }
     
-    await set('syncMetadata', metadata, syncMetadataStore);
+    await stores.deviceSync.setItem('syncMetadata', metadata);
   } catch (error) {
     console.error('Error updating sync timestamp:', error);
   }
 }
 
+// Get the server cursor up to which this device has applied changes
+export async function getSyncCursor(): Promise<number> {
+  try {
+    const metadata = await stores.deviceSync.getItem<DeviceSyncMetadata>('syncMetadata');
+    return metadata?.lastCursor || 0;
+  } catch (error) {
+    console.error('Error getting sync cursor:', error);
+    return 0;
+  }
+}
+
+// Update the server cursor after applying a page of changes
+async function updateSyncCursor(cursor: number): Promise<void> {
+  const metadata = await getSyncMetadata();
+  metadata.lastCursor = cursor;
+  await stores.deviceSync.setItem('syncMetadata', metadata);
+}
+
+// Build a sync log record for a local change
+export async function createSyncRecord(
+  entityType: string,
+  entityId: EntityId,
+  operation: 'create' | 'update' | 'delete',
+  data?: any
+): Promise<SyncRecord> {
+  const deviceId = await getDeviceId();
+  const timestamp = Date.now();
+  
+  return {
+    id: `${deviceId}_${entityType}_${entityId}_${operation}_${timestamp}`,
+    entityType,
+    entityId,
+    operation,
+    timestamp,
+    data,
+    deviceId
+  };
+}
+
 // Record a sync operation
 export async function recordSyncOperation(
   entityType: string,
-  entityId: number,
+  entityId: EntityId,
   operation: 'create' | 'update' | 'delete',
   data?: any
 ): Promise<void> {
   try {
-    const deviceId = await getDeviceId();
-    const timestamp = Date.now();
-    
-    const syncRecord: SyncRecord = {
-      id: `${entityType}_${entityId}_${operation}_${timestamp}`,
-      entityType,
-      entityId,
-      operation,
-      timestamp,
-      data,
-      deviceId
-    };
-    
-    // Store the record in the sync log
-    const syncLog = await get<SyncRecord[]>('syncLog', syncMetadataStore) || [];
-    syncLog.push(syncRecord);
+    const syncRecord = await createSyncRecord(entityType, entityId, operation, data);
     
-    // Keep only the last 1000 records to prevent excessive storage usage
-    if (syncLog.length > 1000) {
-      syncLog.sort((a, b) => b.timestamp - a.timestamp);
-      syncLog.length = 1000;
-    }
-    
-    await set('syncLog', syncLog, syncMetadataStore);
-    
-    // Update the last sync timestamp
-    await updateLastSyncTimestamp(timestamp);
+    // Store the record in the sync log until it has been pushed
+    await stores.syncLog.setItem(syncRecord.id, syncRecord);
   } catch (error) {
     console.error('Error recording sync operation:', error);
   }
@@ -126,40 +197,51 @@ export async function recordSyncOperation(
 // Pull changes from the server
 export async function pullChangesFromServer(): Promise<boolean> {
   try {
-    const lastSyncTimestamp = await getLastSyncTimestamp();
     const deviceId = await getDeviceId();
+    let cursor = await getSyncCursor();
+    let hasMore = true;
+    const appliedChanges: ServerSyncChange[] = [];
     
-    // Get changes from the server since our last sync
-    const response = await apiRequest(
-      'GET', 
-      `/api/sync/changes?since=${lastSyncTimestamp}&deviceId=${deviceId}`
-    );
-    
-    if (!response.ok) {
-      throw new Error('Failed to pull changes from server');
-    }
-    
-    const changes = await response.json();
-    
-    // Apply each change locally
-    for (const change of changes) {
-      // Skip changes made by this device to avoid duplication
-      if (change.deviceId === deviceId) {
-        continue;
+    // Page through the server's change log starting after our cursor
+    while (hasMore) {
+      let page: SyncChangesPage;
+      
+      try {
+        const response = await apiRequest(
+          'GET', 
+          `/api/sync/changes?cursor=${cursor}&deviceId=${encodeURIComponent(deviceId)}&limit=${PULL_PAGE_SIZE}`
+        );
+        page = await response.json();
+      } catch (error) {
+        // The history we'd need has been compacted away - fall back to a full resync
+        const resyncCursor = getResyncCursor(error);
+        if (resyncCursor !== null) {
+          await resyncFromServer(resyncCursor);
+          return true;
+        }
+        throw error;
       }
       
-      // Apply the change to local storage
-      await applyChangeLocally(change);
+      // Apply each change locally
+      for (const change of page.changes) {
+        // Skip changes made by this device to avoid duplication
+        if (change.deviceId === deviceId) {
+          continue;
+        }
+        
+        await applyChangeLocally(change);
+        appliedChanges.push(change);
+      }
+      
+      // Only advance the cursor once the whole page has been applied
+      cursor = page.cursor;
+      hasMore = page.hasMore;
+      await updateSyncCursor(cursor);
     }
     
-    // Update the last sync timestamp if there were any changes
-    if (changes.length > 0) {
-      // Find the most recent timestamp from the changes
-      const latestTimestamp = Math.max(...changes.map((c: SyncRecord) => c.timestamp));
-      await updateLastSyncTimestamp(latestTimestamp);
-      
+    if (appliedChanges.length > 0) {
       // Invalidate the react-query cache to trigger refetching of affected data
-      await invalidateRelevantQueries(changes);
+      await invalidateRelevantQueries(appliedChanges.map(change => change.entityType));
     }
     
     return true;
@@ -169,40 +251,144 @@ export async function pullChangesFromServer(): Promise<boolean> {
   }
 }
 
+// If the error is the server's "cursor too old" response, return the cursor to resume from
+function getResyncCursor(error: unknown): number | null {
+  const apiError = parseApiError(error);
+  if (!apiError || apiError.status !== 410 || !apiError.body?.resync) {
+    return null;
+  }
+  
+  return Number(apiError.body.cursor) || 0;
+}
+
+// Replace local copies with the server's current data and resume from the given cursor
+async function resyncFromServer(cursor: number): Promise<void> {
+  const userData = await getCachedUserData();
+  if (!userData || !userData.id) {
+    throw new Error('Cannot resync without a signed-in user');
+  }
+  
+  // Map store names to the endpoints that list a user's entities
+  const endpointMap: Record<string, string> = {
+    'notes': `/api/notes/user/${userData.id}`,
+    'journals': `/api/journal/user/${userData.id}`,
+    'notebooks': `/api/notebooks/user/${userData.id}`,
+    'templates': `/api/journal-templates/user/${userData.id}`,
+    'trackers': `/api/journal-trackers/user/${userData.id}`,
+    'documents': `/api/documents/user/${userData.id}`,
+    'posts': `/api/posts/user/${userData.id}`,
+    'revisions': `/api/revisions/user/${userData.id}`
+  };
+  
+  const entityTypeMap: Record<string, SyncConflict['entity']> = {
+    'notes': 'note',
+    'journals': 'journal',
+    'notebooks': 'notebook',
+    'templates': 'template',
+    'trackers': 'tracker',
+    'documents': 'document',
+    'posts': 'post',
+    'revisions': 'revision'
+  };
+  
+  for (const [storeName, endpoint] of Object.entries(endpointMap)) {
+    const response = await apiRequest('GET', endpoint);
+    const items: any[] = await response.json();
+    const store = stores[storeName as keyof typeof stores];
+    
+    // Drop everything except local edits that haven't reached the server yet
+    const staleKeys: string[] = [];
+    await store.iterate((value: any, key: string) => {
+      if (!value?._offline) {
+        staleKeys.push(key);
+      }
+    });
+    for (const key of staleKeys) {
+      await store.removeItem(key);
+      notifyStoreChange(storeName as StoreType, key, null);
+    }
+    
+    for (const serverItem of items) {
+      const existing = await store.getItem<any>(String(serverItem.id));
+      if (existing?._offline) continue;
+      
+      const item = await decryptFromSync(entityTypeMap[storeName], serverItem);
+      const synced = await store.setItem(String(item.id), {
+        ...item,
+        _synced: true,
+        _syncedAt: Date.now()
+      });
+      notifyStoreChange(storeName as StoreType, String(item.id), synced);
+    }
+  }
+  
+  await updateSyncCursor(cursor);
+  await invalidateRelevantQueries(['note', 'journal', 'notebook', 'template', 'tracker', 'document', 'post', 'revision']);
+}
+
 // Push local changes to the server
 export async function pushLocalChangesToServer(): Promise<boolean> {
   try {
-    // First, process the local queue of pending changes
+    // Files go up first, so other devices can show them once the items referring to them arrive
+    await uploadPendingMedia().catch(error => console.error('Error uploading media:', error));
+    
+    // Then process the local queue of pending changes
     const queueResult = await processQueue();
     
     if (!queueResult.success) {
       console.warn('Some items failed to sync:', queueResult.errors);
     }
     
-    // Get the sync log of changes since the last successful sync
-    const syncLog = await get<SyncRecord[]>('syncLog', syncMetadataStore) || [];
-    const lastSyncTimestamp = await getLastSyncTimestamp();
-    
-    // Filter for changes that haven't been synced yet
-    const changesToPush = syncLog.filter(record => record.timestamp > lastSyncTimestamp);
+    // Everything still in the sync log hasn't reached the server yet
+    const changesToPush: SyncRecord[] = [];
+    await stores.syncLog.iterate((record: SyncRecord) => {
+      changesToPush.push(record);
+    });
+    changesToPush.sort((a, b) => a.timestamp - b.timestamp);
     
-    if (changesToPush.length === 0) {
-      return true; // Nothing to push
+    // The queue has just run, so a local copy still on an older version than the server's
+    // lost to another device's edit; the server hands such updates back as conflicts
+    for (const record of changesToPush) {
+      const storeName = entityStores[record.entityType];
+      if (record.operation === 'update' && storeName) {
+        const stored = await stores[storeName].getItem<any>(String(record.entityId));
+        record.baseVersion = stored?.version;
+      }
     }
     
-    // Push changes to the server
-    const response = await apiRequest('POST', '/api/sync/changes', {
-      changes: changesToPush,
-      deviceId: await getDeviceId()
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to push changes to server');
+    if (changesToPush.length > 0) {
+      // Push changes to the server
+      const response = await apiRequest('POST', '/api/sync/changes', {
+        changes: changesToPush,
+        deviceId: await getDeviceId()
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to push changes to server');
+      }
+      
+      const { conflicts = [] } = await response.json() as { conflicts?: PushConflict[] };
+      for (const conflict of conflicts) {
+        const stored = await stores[entityStores[conflict.entityType]].getItem<any>(String(conflict.entityId));
+        // Deleted here since, so there's nothing left to keep
+        if (!stored) continue;
+        await saveConflict({
+          entity: conflict.entityType,
+          entityId: conflict.entityId,
+          local: stored,
+          remote: await decryptFromSync(conflict.entityType, conflict.current),
+          baseHtml: stored?._baseHtml ?? null
+        });
+      }
+      
+      // The server log is durable, so pushed records can be dropped locally
+      for (const record of changesToPush) {
+        await stores.syncLog.removeItem(record.id);
+      }
     }
     
     // Update the last sync timestamp
-    const currentTime = Date.now();
-    await updateLastSyncTimestamp(currentTime);
+    await updateLastSyncTimestamp(Date.now());
     
     return true;
   } catch (error) {
@@ -212,18 +398,9 @@ export async function pushLocalChangesToServer(): Promise<boolean> {
 }
 
 // Apply a change from another device to the local storage
-async function applyChangeLocally(change: SyncRecord): Promise<void> {
-  const { entityType, entityId, operation, data } = change;
-  
-  // Map entity types to store names
-  const storeMap: Record<string, keyof typeof stores> = {
-    'note': 'notes',
-    'journal': 'journals',
-    'document': 'documents',
-    'post': 'posts'
-  };
-  
-  const storeName = storeMap[entityType];
+async function applyChangeLocally(change: ServerSyncChange): Promise<void> {
+  const { entityType, entityId, operation } = change;
+  const storeName = entityStores[entityType];
   
   if (!storeName) {
     console.error(`Unknown entity type: ${entityType}`);
@@ -232,23 +409,39 @@ async function applyChangeLocally(change: SyncRecord): Promise<void> {
   
   try {
     const store = stores[storeName];
+    const data = change.data && await decryptFromSync(entityType as SyncConflict['entity'], change.data);
     
     switch (operation) {
       case 'create':
       case 'update':
         if (data) {
+          // Don't overwrite local edits that haven't reached the server yet
+          const existing = await store.getItem<any>(String(entityId));
+          if (existing?._offline && hasDiverged(existing, data)) {
+            await saveConflict({
+              entity: entityType as SyncConflict['entity'],
+              entityId,
+              local: existing,
+              remote: data,
+              baseHtml: existing._baseHtml ?? null
+            });
+            break;
+          }
+          
           // Update with the received data
-          await store.setItem(String(entityId), {
+          const synced = await store.setItem(String(entityId), {
             ...data,
             _synced: true,
             _syncedAt: Date.now()
           });
+          notifyStoreChange(storeName, String(entityId), synced);
         }
         break;
         
       case 'delete':
         // Remove the item
         await store.removeItem(String(entityId));
+        notifyStoreChange(storeName, String(entityId), null);
         break;
     }
   } catch (error) {
@@ -256,17 +449,28 @@ async function applyChangeLocally(change: SyncRecord): Promise<void> {
   }
 }
 
+// Whether a remote copy differs from local unsynced edits in a way that needs the user
+function hasDiverged(local: any, remote: any): boolean {
+  const localHtml = local.formattedContent?.html ?? local.content;
+  const remoteHtml = remote.formattedContent?.html ?? remote.content;
+  return localHtml !== remoteHtml;
+}
+
 // Invalidate relevant React Query caches to trigger UI refreshes
-async function invalidateRelevantQueries(changes: SyncRecord[]): Promise<void> {
+async function invalidateRelevantQueries(entityTypes: string[]): Promise<void> {
   // Determine which entity types were affected - use an array instead of a Set
-  const affectedEntities = Array.from(new Set(changes.map(change => change.entityType)));
+  const affectedEntities = Array.from(new Set(entityTypes));
   
   // Map entity types to query keys
   const queryKeyMap: Record<string, string[]> = {
     'note': ['/api/notes'],
     'journal': ['/api/journal'],
+    'notebook': ['/api/notebooks'],
+    'template': ['/api/journal-templates'],
+    'tracker': ['/api/journal-trackers'],
     'document': ['/api/documents'],
-    'post': ['/api/posts']
+    'post': ['/api/posts'],
+    'revision': ['/api/revisions']
   };
   
   // Invalidate the relevant query caches
@@ -288,6 +492,17 @@ export async function synchronizeDevices(): Promise<{
   lastSyncTimestamp: number;
 }> {
   try {
+    // Nothing can be read or sealed until the passphrase is entered on this device
+    const encryptionStatus = await refreshKeyring().catch(() => getEncryptionStatus());
+    if (encryptionStatus === 'locked') {
+      return {
+        success: false,
+        pullSuccess: false,
+        pushSuccess: false,
+        lastSyncTimestamp: await getLastSyncTimestamp()
+      };
+    }
+    
     // Pull changes from server first
     const pullSuccess = await pullChangesFromServer();
     
@@ -0,0 +1,457 @@
+import { stores, type QueuedAction } from './offline-storage';
+import { apiRequest, parseApiError } from './queryClient';
+
+/**
+ * Opt-in end-to-end encryption for everything that is synced to the server.
+ *
+ * A random account key is sealed under a key derived from the user's passphrase and, separately,
+ * under one derived from a recovery code. The account key in turn seals the data keys that
+ * encrypt entities. Only the sealed keyring is stored on the server, so it never sees a key
+ * or a plaintext field it could read.
+ */
+
+export type EncryptionStatus = 'disabled' | 'locked' | 'unlocked';
+
+type EntityType = QueuedAction['entity'];
+
+// AES-GCM ciphertext and its IV, base64 encoded
+interface SealedBox {
+  iv: string;
+  data: string;
+}
+
+// A box sealed with a key derived (PBKDF2) from a passphrase or recovery code
+interface DerivedBox extends SealedBox {
+  salt: string;
+  iterations: number;
+}
+
+// What the server stores for an encrypted account
+export interface Keyring {
+  format: 1;
+  passphrase: DerivedBox;
+  recovery: DerivedBox;
+  dataKeys: SealedBox;
+}
+
+// Plaintext of Keyring.dataKeys. Rotated-out keys are kept so older ciphertext stays readable.
+interface DataKeySet {
+  currentKeyId: number;
+  keys: Record<string, string>;
+}
+
+interface StoredKeyring {
+  keyring: Keyring;
+  revision: number;
+}
+
+interface DataKeys {
+  revision: number;
+  currentKeyId: number;
+  keys: Map<number, CryptoKey>;
+}
+
+const PASSPHRASE_ITERATIONS = 600_000;
+// Recovery codes are random, so they need far less stretching than a passphrase
+const RECOVERY_ITERATIONS = 100_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Keys in the deviceSync store
+const KEYRING_KEY = 'encryptionKeyring';
+const ACCOUNT_KEY_KEY = 'encryptionAccountKey';
+
+const PAYLOAD_PREFIX = 'e2ee1';
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const LOCKED_MESSAGE = 'Encryption is locked on this device. Enter your passphrase on the Profile page to continue.';
+
+// Fields the server needs to list, order and trash entities; everything else is encrypted
+const METADATA_FIELDS = ['id', 'userId', 'platform', 'date', 'version', 'createdAt', 'updatedAt', 'entityType', 'entityId', 'deletedAt'];
+
+// Sent in place of the encrypted columns so the server copy holds no plaintext
+const ENCRYPTED_COLUMNS: Record<EntityType, Record<string, unknown>> = {
+  post: { content: '', formattedContent: null, mediaUrls: null, tags: null, thread: null, masterId: null, variantBase: null },
+  note: { title: '', content: '', formattedContent: null, tags: null, color: null },
+  journal: { notebookId: null, title: '', content: '', formattedContent: null, mood: null, weather: null, location: null, tags: null, templateId: null, sections: null, trackers: null },
+  notebook: { name: '', color: null, defaultTemplateId: null, isPrivate: false },
+  template: { name: '', description: '', icon: 'ri-file-list-3-line', sections: [] },
+  tracker: { name: '', kind: 'counter', icon: 'ri-checkbox-circle-line', min: null, max: null, step: null, unit: null, position: 0 },
+  document: { title: '', content: '', formattedContent: null, category: null, tags: null },
+  revision: { title: '', content: '', formattedContent: null }
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// The unlocked account key. Kept in IndexedDB as a non-extractable key so the device stays
+// unlocked across reloads; the in-memory copy covers drivers that can't store CryptoKeys.
+let accountKey: CryptoKey | null = null;
+let dataKeyCache: DataKeys | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function deriveKey(secret: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// `context` is bound to the ciphertext as additional data, so a box can't be swapped for another
+async function seal(key: CryptoKey, plaintext: Uint8Array, context: string): Promise<SealedBox> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    plaintext
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function open(key: CryptoKey, box: SealedBox, context: string): Promise<Uint8Array> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(box.iv), additionalData: encoder.encode(context) },
+    key,
+    fromBase64(box.data)
+  );
+  return new Uint8Array(data);
+}
+
+async function sealWithSecret(secret: string, plaintext: Uint8Array, iterations: number): Promise<DerivedBox> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(secret, salt, iterations);
+  return { ...await seal(key, plaintext, 'account-key'), salt: toBase64(salt), iterations };
+}
+
+async function openWithSecret(secret: string, box: DerivedBox): Promise<Uint8Array> {
+  const key = await deriveKey(secret, fromBase64(box.salt), box.iterations);
+  return open(key, box, 'account-key');
+}
+
+// 24 random Crockford base32 characters (120 bits), grouped for writing down
+function createRecoveryCode(): string {
+  const bytes = randomBytes(24);
+  let code = '';
+  for (let i = 0; i < bytes.length; i++) {
+    code += RECOVERY_ALPHABET[bytes[i] % 32];
+  }
+  return code.match(/.{4}/g)!.join('-');
+}
+
+// Accept recovery codes typed in lower case, without dashes or with look-alike letters
+function normalizeRecoveryCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+async function getStoredKeyring(): Promise<StoredKeyring | null> {
+  return stores.deviceSync.getItem<StoredKeyring>(KEYRING_KEY);
+}
+
+async function getAccountKey(): Promise<CryptoKey | null> {
+  if (!accountKey) {
+    accountKey = await stores.deviceSync.getItem<CryptoKey>(ACCOUNT_KEY_KEY);
+  }
+  return accountKey;
+}
+
+async function rememberAccountKey(key: CryptoKey): Promise<void> {
+  accountKey = key;
+  try {
+    await stores.deviceSync.setItem(ACCOUNT_KEY_KEY, key);
+  } catch (error) {
+    console.warn('Could not keep the encryption key on this device; it will be needed again after a reload:', error);
+  }
+}
+
+// Remove the keyring and unlocked key from this device. Data keys already in memory are
+// kept until reload so changes sealed under them can still be read.
+async function forgetDeviceKeys(): Promise<void> {
+  accountKey = null;
+  await stores.deviceSync.removeItem(ACCOUNT_KEY_KEY);
+  await stores.deviceSync.removeItem(KEYRING_KEY);
+}
+
+async function openDataKeySet(stored: StoredKeyring): Promise<DataKeySet> {
+  const key = await getAccountKey();
+  if (!key) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+  return JSON.parse(decoder.decode(await open(key, stored.keyring.dataKeys, 'data-keys')));
+}
+
+async function getDataKeys(): Promise<DataKeys> {
+  const stored = await getStoredKeyring();
+  if (dataKeyCache && (!stored || dataKeyCache.revision === stored.revision)) {
+    return dataKeyCache;
+  }
+  if (!stored) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+
+  const keySet = await openDataKeySet(stored);
+  const keys = new Map<number, CryptoKey>();
+  for (const [id, raw] of Object.entries(keySet.keys)) {
+    keys.set(Number(id), await importAesKey(fromBase64(raw)));
+  }
+
+  dataKeyCache = { revision: stored.revision, currentKeyId: keySet.currentKeyId, keys };
+  return dataKeyCache;
+}
+
+async function saveKeyring(keyring: Keyring, baseRevision?: number): Promise<void> {
+  try {
+    const response = await apiRequest('PUT', '/api/encryption/keyring', { keyring, baseRevision });
+    await stores.deviceSync.setItem(KEYRING_KEY, await response.json());
+  } catch (error) {
+    if (parseApiError(error)?.status === 409) {
+      await refreshKeyring();
+      throw new Error('Encryption settings were changed on another device. Please try again.');
+    }
+    throw error;
+  }
+}
+
+// Whether encryption is on for this account and, if so, whether this device can use it
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  if (!await getStoredKeyring()) return 'disabled';
+  return await getAccountKey() ? 'unlocked' : 'locked';
+}
+
+/**
+ * Fetch the keyring from the server so passphrase changes, key rotations and encryption
+ * being turned off on other devices are picked up
+ * @returns The encryption status after refreshing
+ */
+export async function refreshKeyring(): Promise<EncryptionStatus> {
+  try {
+    const response = await apiRequest('GET', '/api/encryption/keyring');
+    await stores.deviceSync.setItem(KEYRING_KEY, await response.json());
+  } catch (error) {
+    if (parseApiError(error)?.status !== 404) throw error;
+    await forgetDeviceKeys();
+  }
+  return getEncryptionStatus();
+}
+
+/**
+ * Turn on end-to-end encryption for the signed-in account
+ * @param passphrase The passphrase that unlocks encryption on each device
+ * @returns A recovery code to show the user once
+ */
+export async function enableEncryption(passphrase: string): Promise<string> {
+  const accountKeyRaw = randomBytes(32);
+  const key = await importAesKey(accountKeyRaw);
+  const recoveryCode = createRecoveryCode();
+  const keySet: DataKeySet = { currentKeyId: 1, keys: { 1: toBase64(randomBytes(32)) } };
+
+  await saveKeyring({
+    format: 1,
+    passphrase: await sealWithSecret(passphrase, accountKeyRaw, PASSPHRASE_ITERATIONS),
+    recovery: await sealWithSecret(normalizeRecoveryCode(recoveryCode), accountKeyRaw, RECOVERY_ITERATIONS),
+    dataKeys: await seal(key, encoder.encode(JSON.stringify(keySet)), 'data-keys')
+  });
+  await rememberAccountKey(key);
+  return recoveryCode;
+}
+
+/**
+ * Unlock encryption on this device
+ * @param passphrase The account's encryption passphrase
+ */
+export async function unlockEncryption(passphrase: string): Promise<void> {
+  await refreshKeyring();
+  const stored = await getStoredKeyring();
+  if (!stored) {
+    throw new Error('End-to-end encryption is not turned on for this account');
+  }
+
+  let accountKeyRaw: Uint8Array;
+  try {
+    accountKeyRaw = await openWithSecret(passphrase, stored.keyring.passphrase);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+  await rememberAccountKey(await importAesKey(accountKeyRaw));
+}
+
+/**
+ * Unlock encryption with the recovery code and choose a new passphrase. The code is
+ * used up: a new one is issued.
+ * @param recoveryCode The code shown when encryption was turned on or last recovered
+ * @param newPassphrase The passphrase to use from now on
+ * @returns The new recovery code
+ */
+export async function recoverEncryption(recoveryCode: string, newPassphrase: string): Promise<string> {
+  await refreshKeyring();
+  const stored = await getStoredKeyring();
+  if (!stored) {
+    throw new Error('End-to-end encryption is not turned on for this account');
+  }
+
+  let accountKeyRaw: Uint8Array;
+  try {
+    accountKeyRaw = await openWithSecret(normalizeRecoveryCode(recoveryCode), stored.keyring.recovery);
+  } catch {
+    throw new Error('Incorrect recovery code');
+  }
+
+  const nextRecoveryCode = createRecoveryCode();
+  await saveKeyring({
+    ...stored.keyring,
+    passphrase: await sealWithSecret(newPassphrase, accountKeyRaw, PASSPHRASE_ITERATIONS),
+    recovery: await sealWithSecret(normalizeRecoveryCode(nextRecoveryCode), accountKeyRaw, RECOVERY_ITERATIONS)
+  }, stored.revision);
+  await rememberAccountKey(await importAesKey(accountKeyRaw));
+  return nextRecoveryCode;
+}
+
+/**
+ * Change the encryption passphrase. Data keys are unaffected, so nothing is re-encrypted.
+ */
+export async function changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  await refreshKeyring();
+  const stored = await getStoredKeyring();
+  if (!stored) {
+    throw new Error('End-to-end encryption is not turned on for this account');
+  }
+
+  let accountKeyRaw: Uint8Array;
+  try {
+    accountKeyRaw = await openWithSecret(currentPassphrase, stored.keyring.passphrase);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+
+  await saveKeyring({
+    ...stored.keyring,
+    passphrase: await sealWithSecret(newPassphrase, accountKeyRaw, PASSPHRASE_ITERATIONS)
+  }, stored.revision);
+}
+
+/**
+ * Start encrypting with a new data key. Older keys stay in the keyring so existing
+ * ciphertext can still be read until everything has been re-uploaded.
+ */
+export async function rotateEncryptionKey(): Promise<void> {
+  await refreshKeyring();
+  const stored = await getStoredKeyring();
+  if (!stored) {
+    throw new Error('End-to-end encryption is not turned on for this account');
+  }
+
+  const keySet = await openDataKeySet(stored);
+  const nextKeyId = Math.max(...Object.keys(keySet.keys).map(Number)) + 1;
+  keySet.keys[nextKeyId] = toBase64(randomBytes(32));
+  keySet.currentKeyId = nextKeyId;
+
+  await saveKeyring({
+    ...stored.keyring,
+    dataKeys: await seal((await getAccountKey())!, encoder.encode(JSON.stringify(keySet)), 'data-keys')
+  }, stored.revision);
+}
+
+// Forget the unlocked key on this device; the passphrase is needed again to sync
+export async function lockEncryption(): Promise<void> {
+  accountKey = null;
+  dataKeyCache = null;
+  await stores.deviceSync.removeItem(ACCOUNT_KEY_KEY);
+}
+
+/**
+ * Turn end-to-end encryption off for the account. The data keys stay in memory so changes
+ * already sealed can be decrypted before everything is re-uploaded in plaintext.
+ */
+export async function disableEncryption(): Promise<void> {
+  await getDataKeys();
+  await apiRequest('DELETE', '/api/encryption/keyring');
+  await forgetDeviceKeys();
+}
+
+/**
+ * Encrypt an entity before it leaves the device. Only the fields needed to list and order
+ * entities stay readable. Returns the entity unchanged when encryption is off.
+ * @param entityType The kind of entity, bound to the ciphertext with its ID
+ * @param item The plaintext entity
+ */
+export async function encryptForSync<T extends Record<string, any>>(entityType: EntityType, item: T): Promise<T> {
+  if (!await getStoredKeyring()) return item;
+
+  const { currentKeyId, keys } = await getDataKeys();
+  const metadata: Record<string, unknown> = {};
+  const fields: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(item)) {
+    if (field === 'encryptedPayload' || field.startsWith('_')) continue;
+    if (METADATA_FIELDS.includes(field)) {
+      metadata[field] = value;
+    } else {
+      fields[field] = value;
+    }
+  }
+
+  const box = await seal(keys.get(currentKeyId)!, encoder.encode(JSON.stringify(fields)), `${entityType}:${item.id}`);
+  return {
+    ...metadata,
+    ...ENCRYPTED_COLUMNS[entityType],
+    encryptedPayload: [PAYLOAD_PREFIX, currentKeyId, box.iv, box.data].join('.')
+  } as unknown as T;
+}
+
+/**
+ * Decrypt an entity received from the server or read back from the sync queue. Plaintext
+ * entities are returned unchanged.
+ * @param entityType The kind of entity
+ * @param item The entity as stored on the server
+ */
+export async function decryptFromSync<T extends Record<string, any>>(entityType: EntityType, item: T): Promise<T> {
+  if (!item?.encryptedPayload) return item;
+
+  const [prefix, keyId, iv, data] = String(item.encryptedPayload).split('.');
+  if (prefix !== PAYLOAD_PREFIX) {
+    throw new Error('Unsupported encrypted payload');
+  }
+
+  let dataKeys = await getDataKeys();
+  if (!dataKeys.keys.has(Number(keyId))) {
+    // Sealed with a key rotated in on another device
+    await refreshKeyring();
+    dataKeys = await getDataKeys();
+  }
+
+  const key = dataKeys.keys.get(Number(keyId));
+  if (!key) {
+    throw new Error(`Missing encryption key ${keyId}`);
+  }
+
+  const fields = JSON.parse(decoder.decode(await open(key, { iv, data }, `${entityType}:${item.id}`)));
+  return { ...item, ...fields, encryptedPayload: null };
+}
@@ -2,9 +2,13 @@ import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import { Document as DocxDocument, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
 import { saveAs } from 'file-saver';
+import JSZip from 'jszip';
 import { extractImagesFromHtml, extractTextFromHtml } from './copy-utils';
+import { htmlToMarkdown, withFrontMatter, type FrontMatter } from './markdown';
+import { inlineMediaInHtml } from './media-store';
+import { getEntryDay } from './journal-calendar';
 import { Document, JournalEntry, Note } from '@shared/schema';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 
 /**
  * Generate and download a PDF file from content
@@ -17,6 +21,9 @@ export async function downloadAsPdf(
   content: string, 
   fileName: string = 'document'
 ): Promise<void> {
+  // Attachments from the media store go into the file itself
+  content = await inlineMediaInHtml(content);
+
   // Create PDF document
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -82,6 +89,8 @@ export async function downloadAsWord(
   content: string, 
   fileName: string = 'document'
 ): Promise<void> {
+  content = await inlineMediaInHtml(content);
+
   // Create an array of paragraphs
   const paragraphs = [];
   
@@ -141,23 +150,68 @@ export async function downloadAsWord(
   });
 }
 
+// Plain text is turned into HTML first so line breaks survive and stray characters
+// aren't read as tags
+const toMarkdown = (content: string): string => {
+  if (content.includes('<') && content.includes('>')) {
+    return htmlToMarkdown(content);
+  }
+  const escaped = content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return htmlToMarkdown(escaped.split(/\n{2,}/).map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`).join(''));
+};
+
+/**
+ * The front matter a document is exported with
+ * @param doc Document object
+ */
+export function getDocumentFrontMatter(doc: Document): FrontMatter {
+  return {
+    category: doc.category,
+    tags: doc.tags,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    updatedAt: new Date(doc.updatedAt).toISOString()
+  };
+}
+
+const toMarkdownFile = (title: string, content: string, frontMatter: FrontMatter = {}): string =>
+  `${withFrontMatter({ title, ...frontMatter }, toMarkdown(content))}\n`;
+
+/**
+ * Generate and download a Markdown file from content, with the title in its front matter
+ * @param title Document title
+ * @param content HTML or plain text content
+ * @param fileName Output file name without extension
+ * @param frontMatter Other fields for the front matter
+ */
+export async function downloadAsMarkdown(
+  title: string,
+  content: string,
+  fileName: string = 'document',
+  frontMatter: FrontMatter = {}
+): Promise<void> {
+  const markdown = toMarkdownFile(title, await inlineMediaInHtml(content), frontMatter);
+  saveAs(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), `${fileName}.md`);
+}
+
 /**
  * Export content to the specified format and download it
  * @param title Document title
  * @param content HTML or plain text content
- * @param format Export format ('pdf' or 'docx')
+ * @param format Export format ('pdf', 'docx' or 'md')
  * @param fileName Output file name without extension
  */
 export async function exportContent(
   title: string,
   content: string,
-  format: 'pdf' | 'docx',
+  format: 'pdf' | 'docx' | 'md',
   fileName: string = 'document'
 ): Promise<void> {
   if (format === 'pdf') {
     await downloadAsPdf(title, content, fileName);
   } else if (format === 'docx') {
     await downloadAsWord(title, content, fileName);
+  } else if (format === 'md') {
+    await downloadAsMarkdown(title, content, fileName);
   }
 }
 
@@ -181,13 +235,37 @@ export async function exportDocumentToDocx(doc: Document): Promise<void> {
   await downloadAsWord(doc.title, content, fileName);
 }
 
+/**
+ * Export documents as a zip of Markdown files, one per document with its category, tags
+ * and timestamps in the front matter
+ * @param docs Documents to export
+ * @param fileName Output file name without extension
+ */
+export async function exportDocumentsToMarkdownZip(docs: Document[], fileName: string = 'documents'): Promise<void> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const doc of docs) {
+    const baseName = doc.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}-${suffix}`;
+    }
+    usedNames.add(name);
+    const content = await inlineMediaInHtml(doc.formattedContent?.html || doc.content);
+    zip.file(`${name}.md`, toMarkdownFile(doc.title, content, getDocumentFrontMatter(doc)));
+  }
+
+  saveAs(await zip.generateAsync({ type: 'blob' }), `${fileName}.zip`);
+}
+
 /**
  * Export a journal entry to PDF format
  * @param entry Journal entry object
  */
 export async function exportJournalToPdf(entry: JournalEntry): Promise<void> {
-  const fileName = `journal_${format(new Date(entry.date), 'yyyy_MM_dd')}`;
-  const content = entry.formattedContent?.html || entry.content;
+  const fileName = `journal_${format(parseISO(getEntryDay(entry)), 'yyyy_MM_dd')}`;
+  const content = await inlineMediaInHtml(entry.formattedContent?.html || entry.content);
   
   // Create PDF document
   const doc = new jsPDF({
@@ -203,7 +281,7 @@ export async function exportJournalToPdf(entry: JournalEntry): Promise<void> {
   // Add date
   doc.setFontSize(12);
   doc.setTextColor(100, 100, 100);
-  doc.text(format(new Date(entry.date), 'EEEE, MMMM d, yyyy'), 20, 30);
+  doc.text(format(parseISO(getEntryDay(entry)), 'EEEE, MMMM d, yyyy'), 20, 30);
   
   // Add mood and weather if available
   let yPos = 40;
@@ -251,8 +329,8 @@ export async function exportJournalToPdf(entry: JournalEntry): Promise<void> {
  * @param entry Journal entry object
  */
 export async function exportJournalToDocx(entry: JournalEntry): Promise<void> {
-  const fileName = `journal_${format(new Date(entry.date), 'yyyy_MM_dd')}`;
-  const content = entry.formattedContent?.html || entry.content;
+  const fileName = `journal_${format(parseISO(getEntryDay(entry)), 'yyyy_MM_dd')}`;
+  const content = await inlineMediaInHtml(entry.formattedContent?.html || entry.content);
   
   // Create an array of paragraphs
   const paragraphs = [];
@@ -270,7 +348,7 @@ export async function exportJournalToDocx(entry: JournalEntry): Promise<void> {
     new Paragraph({
       children: [
         new TextRun({
-          text: format(new Date(entry.date), 'EEEE, MMMM d, yyyy'),
+          text: format(parseISO(getEntryDay(entry)), 'EEEE, MMMM d, yyyy'),
           color: '666666',
         })
       ]
@@ -0,0 +1,97 @@
+/**
+ * Days, writing streaks and "on this day" for the journal calendar. An entry belongs to
+ * the day of its `date` field in the user's timezone, whenever it was actually written.
+ */
+import { JournalEntry } from '@shared/schema';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { getClosestMood, getMood, type MoodOption } from './journal-moods';
+
+// Days are keyed as yyyy-MM-dd
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+export interface StreakSummary {
+  // Days in a row with an entry, up to today, or up to yesterday while today is unwritten
+  current: number;
+  longest: number;
+}
+
+export interface OnThisDayEntry {
+  yearsAgo: number;
+  entry: JournalEntry;
+}
+
+export const getDayKey = (date: Date): string => format(date, DAY_FORMAT);
+
+/**
+ * The day an entry is for, in the user's timezone
+ */
+export const getEntryDay = (entry: Pick<JournalEntry, 'date'>): string => {
+  const date = new Date(entry.date);
+  // The editor used to store the picked day as UTC midnight, which falls on the day before
+  // west of UTC. Those are read back as the day that was picked.
+  if (date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0 && date.getUTCMilliseconds() === 0) {
+    return date.toISOString().slice(0, DAY_FORMAT.length);
+  }
+  return getDayKey(date);
+};
+
+/**
+ * The `date` to store for an entry on a day. Noon, so it stays on that day when seen
+ * from a timezone a few hours away.
+ */
+export const toEntryDate = (day: string): Date => {
+  const date = parseISO(day);
+  date.setHours(12);
+  return date;
+};
+
+export const groupEntriesByDay = (entries: JournalEntry[]): Map<string, JournalEntry[]> => {
+  const days = new Map<string, JournalEntry[]>();
+  for (const entry of entries) {
+    const day = getEntryDay(entry);
+    days.set(day, [...(days.get(day) || []), entry]);
+  }
+  return days;
+};
+
+/**
+ * The mood of a day: the one closest to the average of its entries' moods
+ */
+export const getDayMood = (entries: JournalEntry[]): MoodOption | undefined => {
+  const scores = entries.map(entry => getMood(entry.mood)?.score).filter((score): score is number => score !== undefined);
+  if (scores.length === 0) return undefined;
+  return getClosestMood(scores.reduce((total, score) => total + score, 0) / scores.length);
+};
+
+export const getStreaks = (days: Iterable<string>, today: Date = new Date()): StreakSummary => {
+  const written = new Set(days);
+  const sorted = Array.from(written).sort();
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, index) => {
+    run = index > 0 && differenceInCalendarDays(parseISO(day), parseISO(sorted[index - 1])) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  let current = 0;
+  let day = written.has(getDayKey(today)) ? today : subDays(today, 1);
+  while (written.has(getDayKey(day))) {
+    current++;
+    day = subDays(day, 1);
+  }
+
+  return { current, longest };
+};
+
+/**
+ * Entries for today's date in earlier years, most recent year first
+ */
+export const getOnThisDay = (entries: JournalEntry[], today: Date = new Date()): OnThisDayEntry[] => {
+  const todayKey = getDayKey(today);
+  return entries
+    .map(entry => ({ entry, day: getEntryDay(entry) }))
+    .filter(({ day }) => day.slice(4) === todayKey.slice(4) && day < todayKey)
+    .map(({ entry, day }) => ({ yearsAgo: today.getFullYear() - Number(day.slice(0, 4)), entry }))
+    .sort((a, b) => a.yearsAgo - b.yearsAgo);
+};
@@ -0,0 +1,246 @@
+/**
+ * Mood and writing statistics for the journal insights page. Everything is worked out on
+ * this device from the entries themselves; nothing is sent anywhere.
+ */
+import { JournalEntry } from '@shared/schema';
+import { htmlToText } from '@shared/search';
+import { getEntryDay } from './journal-calendar';
+import { MOODS, WEATHER_LABELS, getMood, type MoodOption } from './journal-moods';
+import { getTrackerValue, type JournalTracker } from './journal-trackers';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays
+} from 'date-fns';
+
+// How far back the insights look, in days; 0 is all time
+export const INSIGHTS_RANGES: Array<{ days: number; label: string }> = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 365, label: 'Last year' },
+  { days: 0, label: 'All time' },
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const TOP_TAG_COUNT = 5;
+
+type BucketUnit = 'day' | 'week' | 'month';
+
+// One point of the mood and writing charts: a day, week or month
+export interface InsightsBucket {
+  label: string;
+  // Average mood score of the entries with a mood, or null when none had one
+  mood: number | null;
+  entries: number;
+  words: number;
+}
+
+// Entries written on a weekday, counted per mood value
+export type WeekdayMoods = { weekday: string } & Record<string, number | string>;
+
+export interface WeatherMood {
+  weather: string;
+  label: string;
+  mood: number;
+  entries: number;
+}
+
+export interface MoodTags {
+  mood: MoodOption;
+  tags: Array<{ tag: string; count: number }>;
+}
+
+// One point of a tracker's trend chart
+export interface TrackerBucket {
+  label: string;
+  // Average of the values recorded, or for yes/no trackers the percentage that were yes;
+  // null when nothing was recorded
+  value: number | null;
+  entries: number;
+}
+
+export interface TrackerTrend {
+  unit: BucketUnit;
+  // Over the whole range, worked out like each bucket's value
+  average: number | null;
+  entries: number;
+  timeline: TrackerBucket[];
+}
+
+export interface JournalInsights {
+  entries: number;
+  words: number;
+  // Average over the entries with a mood, or null when none had one
+  averageMood: number | null;
+  unit: BucketUnit;
+  timeline: InsightsBucket[];
+  weekdays: WeekdayMoods[];
+  weather: WeatherMood[];
+  tagsByMood: MoodTags[];
+}
+
+export const countWords = (entry: JournalEntry): number =>
+  htmlToText(entry.formattedContent?.html || entry.content).split(/\s+/).filter(Boolean).length;
+
+// Rounded to one decimal, as it's shown
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((total, value) => total + value, 0) / values.length * 10) / 10 : null;
+
+// Days for short ranges, weeks up to a year, months beyond that
+const getBucketUnit = (days: number): BucketUnit => days <= 31 ? 'day' : days <= 366 ? 'week' : 'month';
+
+const startOfBucket = (date: Date, unit: BucketUnit): Date => {
+  if (unit === 'day') return startOfDay(date);
+  if (unit === 'week') return startOfWeek(date, { weekStartsOn: 1 });
+  return startOfMonth(date);
+};
+
+const nextBucket = (date: Date, unit: BucketUnit): Date => {
+  if (unit === 'day') return addDays(date, 1);
+  if (unit === 'week') return addWeeks(date, 1);
+  return addMonths(date, 1);
+};
+
+const formatBucket = (date: Date, unit: BucketUnit): string =>
+  format(date, unit === 'month' ? 'MMM yyyy' : 'MMM d');
+
+interface InsightsRange {
+  unit: BucketUnit;
+  // Start of each bucket, in order
+  buckets: Date[];
+  // The entries dated in the range, with the day they're for
+  entries: Array<{ entry: JournalEntry; date: Date }>;
+}
+
+// The last `days` days, or everything from the earliest entry when `days` is 0
+const getInsightsRange = (allEntries: JournalEntry[], days: number, now: Date): InsightsRange => {
+  const end = startOfDay(now);
+  const dated = allEntries.map(entry => ({ entry, date: parseISO(getEntryDay(entry)) }));
+  const earliest = dated.reduce((min, { date }) => date < min ? date : min, end);
+  const start = days > 0 ? subDays(end, days - 1) : startOfDay(earliest);
+
+  const unit = getBucketUnit(differenceInCalendarDays(end, start) + 1);
+  const buckets: Date[] = [];
+  for (let bucket = startOfBucket(start, unit); bucket <= end; bucket = nextBucket(bucket, unit)) {
+    buckets.push(bucket);
+  }
+
+  return { unit, buckets, entries: dated.filter(({ date }) => date >= start && date < addDays(end, 1)) };
+};
+
+/**
+ * Work out the insights for the entries dated in the last `days` days, or for all of
+ * them when `days` is 0
+ */
+export const getJournalInsights = (allEntries: JournalEntry[], days: number, now: Date = new Date()): JournalInsights => {
+  const { unit, buckets: bucketStarts, entries: inRange } = getInsightsRange(allEntries, days, now);
+  const buckets = new Map<number, { label: string; moods: number[]; entries: number; words: number }>();
+  for (const bucket of bucketStarts) {
+    buckets.set(bucket.getTime(), { label: formatBucket(bucket, unit), moods: [], entries: 0, words: 0 });
+  }
+
+  const weekdays: WeekdayMoods[] = WEEKDAYS.map(weekday => ({
+    weekday,
+    ...Object.fromEntries(MOODS.map(mood => [mood.value, 0]))
+  }));
+  const weatherMoods = new Map<string, number[]>();
+  const moodTags = new Map<string, Map<string, number>>();
+  const moodScores: number[] = [];
+  let words = 0;
+
+  for (const { entry, date } of inRange) {
+    const mood = getMood(entry.mood);
+    const entryWords = countWords(entry);
+    words += entryWords;
+
+    const bucket = buckets.get(startOfBucket(date, unit).getTime());
+    if (bucket) {
+      bucket.entries++;
+      bucket.words += entryWords;
+      if (mood) bucket.moods.push(mood.score);
+    }
+    if (!mood) continue;
+
+    moodScores.push(mood.score);
+    // getDay() counts from Sunday
+    const weekday = weekdays[(date.getDay() + 6) % 7];
+    weekday[mood.value] = (weekday[mood.value] as number) + 1;
+
+    if (entry.weather) {
+      weatherMoods.set(entry.weather, [...(weatherMoods.get(entry.weather) || []), mood.score]);
+    }
+
+    const tags = moodTags.get(mood.value) || new Map<string, number>();
+    for (const tag of entry.tags || []) {
+      tags.set(tag, (tags.get(tag) || 0) + 1);
+    }
+    moodTags.set(mood.value, tags);
+  }
+
+  const weatherOrder = Object.keys(WEATHER_LABELS);
+  const weather = Array.from(weatherMoods, ([value, scores]) => ({
+    weather: value,
+    label: WEATHER_LABELS[value] || value,
+    mood: average(scores) as number,
+    entries: scores.length
+  })).sort((a, b) => weatherOrder.indexOf(a.weather) - weatherOrder.indexOf(b.weather));
+
+  const tagsByMood = MOODS
+    .map(mood => ({
+      mood,
+      tags: Array.from(moodTags.get(mood.value) || [], ([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+        .slice(0, TOP_TAG_COUNT)
+    }))
+    .filter(({ tags }) => tags.length > 0);
+
+  return {
+    entries: inRange.length,
+    words,
+    averageMood: average(moodScores),
+    unit,
+    timeline: Array.from(buckets.values(), ({ label, moods, entries, words }) => ({
+      label,
+      mood: average(moods),
+      entries,
+      words
+    })),
+    weekdays,
+    weather,
+    tagsByMood
+  };
+};
+
+// Yes/no values count as 100 and 0, so their average is the percentage that were yes
+const toTrendValue = (value: number | boolean): number => typeof value === 'boolean' ? (value ? 100 : 0) : value;
+
+/**
+ * Work out a tracker's trend over the entries dated in the last `days` days, or over all
+ * of them when `days` is 0
+ */
+export const getTrackerTrend = (allEntries: JournalEntry[], tracker: JournalTracker, days: number, now: Date = new Date()): TrackerTrend => {
+  const { unit, buckets: bucketStarts, entries: inRange } = getInsightsRange(allEntries, days, now);
+  const buckets = new Map(bucketStarts.map(bucket => [bucket.getTime(), { label: formatBucket(bucket, unit), values: [] as number[] }]));
+  const values: number[] = [];
+
+  for (const { entry, date } of inRange) {
+    const value = getTrackerValue(entry, tracker);
+    if (value === undefined) continue;
+    values.push(toTrendValue(value));
+    buckets.get(startOfBucket(date, unit).getTime())?.values.push(toTrendValue(value));
+  }
+
+  return {
+    unit,
+    average: average(values),
+    entries: values.length,
+    timeline: Array.from(buckets.values(), ({ label, values }) => ({ label, value: average(values), entries: values.length }))
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * The moods and weather a journal entry can be tagged with, and how moods are scored and
+ * colored wherever they're charted
+ */
+export interface MoodOption {
+  value: string;
+  label: string;
+  icon: string;
+  // From -2 (low) to 2 (good), so moods can be averaged and charted
+  score: number;
+  color: string;
+}
+
+// The moods JournalEditor offers
+export const MOODS: MoodOption[] = [
+  { value: 'excited', label: 'Excited', icon: 'ri-emotion-laugh-line', score: 2, color: '#f97316' },
+  { value: 'happy', label: 'Happy', icon: 'ri-emotion-happy-line', score: 2, color: '#eab308' },
+  { value: 'calm', label: 'Calm', icon: 'ri-emotion-normal-line', score: 1, color: '#0ea5e9' },
+  { value: 'tired', label: 'Tired', icon: 'ri-emotion-line', score: -1, color: '#a8a29e' },
+  { value: 'sad', label: 'Sad', icon: 'ri-emotion-sad-line', score: -2, color: '#6366f1' },
+  { value: 'angry', label: 'Angry', icon: 'ri-emotion-unhappy-line', score: -2, color: '#ef4444' },
+];
+
+// The weather JournalEditor offers, in the order it lists them
+export const WEATHER_LABELS: Record<string, string> = {
+  sunny: 'Sunny',
+  cloudy: 'Cloudy',
+  rainy: 'Rainy',
+  stormy: 'Stormy',
+  snowy: 'Snowy',
+  foggy: 'Foggy',
+};
+
+export const getMood = (value: string | null | undefined): MoodOption | undefined =>
+  MOODS.find(mood => mood.value === value);
+
+/**
+ * The mood whose score is closest to an average, to put a name to it
+ */
+export const getClosestMood = (score: number): MoodOption =>
+  MOODS.reduce((closest, mood) => Math.abs(mood.score - score) < Math.abs(closest.score - score) ? mood : closest);
@@ -0,0 +1,69 @@
+/**
+ * Journal notebooks: named journals such as "Therapy" or "Travel", each with a cover color,
+ * a template new entries start from and a privacy setting. Notebooks sync like entries
+ * (see storage.ts). Entries without one are in the default notebook, which isn't stored and
+ * has no settings. Which notebook is open is remembered per device.
+ */
+import type { JournalEntry, Notebook } from '@shared/schema';
+
+const CURRENT_NOTEBOOK_KEY = 'social_hub_journal_notebook';
+
+export const DEFAULT_NOTEBOOK_NAME = 'Journal';
+export const DEFAULT_NOTEBOOK_COLOR = '#eab308';
+
+export const NOTEBOOK_COLORS = [
+  '#eab308',
+  '#f97316',
+  '#ef4444',
+  '#ec4899',
+  '#8b5cf6',
+  '#3b82f6',
+  '#14b8a6',
+  '#22c55e',
+  '#64748b',
+];
+
+/**
+ * The notebook last open on this device, or null for the default one
+ */
+export const getCurrentNotebookId = (): string | null => {
+  try {
+    return localStorage.getItem(CURRENT_NOTEBOOK_KEY);
+  } catch (error) {
+    console.error('Error reading the current notebook from localStorage:', error);
+    return null;
+  }
+};
+
+export const setCurrentNotebookId = (id: string | null): void => {
+  try {
+    if (id) {
+      localStorage.setItem(CURRENT_NOTEBOOK_KEY, id);
+    } else {
+      localStorage.removeItem(CURRENT_NOTEBOOK_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving the current notebook to localStorage:', error);
+  }
+};
+
+/**
+ * The notebook an entry is in, or null for the default one. Entries whose notebook was
+ * deleted on another device before they were moved out of it count as in the default one.
+ */
+export const getEntryNotebookId = (entry: Pick<JournalEntry, 'notebookId'>, notebooks: Notebook[]): string | null => {
+  const { notebookId } = entry;
+  return notebookId && notebooks.some(notebook => notebook.id === notebookId) ? notebookId : null;
+};
+
+/**
+ * Entries that aren't in a private notebook, for views that look across notebooks
+ */
+export const withoutPrivateEntries = <T extends Pick<JournalEntry, 'notebookId'>>(entries: T[], notebooks: Notebook[]): T[] => {
+  const privateIds = new Set(notebooks.filter(notebook => notebook.isPrivate).map(notebook => notebook.id));
+  return privateIds.size === 0 ? entries : entries.filter(entry => !entry.notebookId || !privateIds.has(entry.notebookId));
+};
+
+export const getNotebookName = (notebook: Notebook | undefined): string => notebook?.name || DEFAULT_NOTEBOOK_NAME;
+
+export const getNotebookColor = (notebook: Notebook | undefined): string => notebook?.color || DEFAULT_NOTEBOOK_COLOR;
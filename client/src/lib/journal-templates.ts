@@ -0,0 +1,295 @@
+/**
+ * Guided journal templates and daily writing prompts. A templated entry keeps its answers
+ * as structured sections, and renders them into its content so it reads like any other
+ * entry. Built-in templates ship with the app; the ones users write sync between devices
+ * like notebooks, and can be shared as template files.
+ */
+import { saveAs } from 'file-saver';
+import { differenceInCalendarDays } from 'date-fns';
+import { z } from 'zod';
+import { createId, isEntityId } from '@shared/ids';
+import type { JournalSection, TemplateSection } from '@shared/schema';
+import { createLocalSetting, listOf } from './local-setting';
+import { createStoreView } from './store-view';
+import { templateRepository } from './repository';
+
+// Where templates were kept before they synced; moved into the templates store on first use
+const LEGACY_TEMPLATES_KEY = 'social_hub_journal_templates';
+const LEGACY_TEMPLATES_EVENT = 'social_hub_journal_templates_changed';
+
+export const TEMPLATE_FILE_FORMAT = 'social-hub-journal-template';
+
+export type { TemplateSection };
+
+export interface JournalTemplate {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  sections: TemplateSection[];
+  // Ships with the app and can't be changed or deleted
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: JournalTemplate[] = [
+  {
+    id: 'gratitude',
+    name: 'Gratitude',
+    description: 'Three good things, and why they happened',
+    icon: 'ri-heart-line',
+    builtIn: true,
+    sections: [
+      { id: 'grateful', label: "Three things I'm grateful for", prompt: 'Big or small, what went well today?' },
+      { id: 'why', label: 'Why they happened', prompt: 'What did you, or someone else, do to make them happen?' },
+      { id: 'looking-forward', label: "Something I'm looking forward to", prompt: 'Tomorrow, this week, or some day.' }
+    ]
+  },
+  {
+    id: 'thought-record',
+    name: 'CBT thought record',
+    description: 'Untangle a difficult moment, one step at a time',
+    icon: 'ri-brain-line',
+    builtIn: true,
+    sections: [
+      { id: 'situation', label: 'Situation', prompt: 'Where were you, who were you with, and what happened?' },
+      { id: 'emotions', label: 'Emotions', prompt: 'What did you feel, and how strongly, from 0 to 100%?' },
+      { id: 'automatic-thoughts', label: 'Automatic thoughts', prompt: 'What went through your mind? Which thought hit hardest?' },
+      { id: 'evidence-for', label: 'Evidence for the thought', prompt: 'What facts support it?' },
+      { id: 'evidence-against', label: 'Evidence against the thought', prompt: "What facts don't fit it? What would you tell a friend who thought this?" },
+      { id: 'balanced-thought', label: 'Balanced thought', prompt: 'Taking all the evidence in, what is a fairer way to see it?' },
+      { id: 'outcome', label: 'Outcome', prompt: 'How do you feel now, and how strongly?' }
+    ]
+  },
+  {
+    id: 'morning-pages',
+    name: 'Morning pages',
+    description: 'Stream of consciousness writing, first thing in the morning',
+    icon: 'ri-quill-pen-line',
+    builtIn: true,
+    sections: [
+      { id: 'pages', label: 'Morning pages', prompt: 'Write whatever comes to mind without stopping or editing, for about three pages.' }
+    ]
+  },
+  {
+    id: 'weekly-review',
+    name: 'Weekly review',
+    description: 'Look back on the week and plan the next one',
+    icon: 'ri-calendar-check-line',
+    builtIn: true,
+    sections: [
+      { id: 'wins', label: 'Wins', prompt: 'What went well this week, and what are you proud of?' },
+      { id: 'challenges', label: 'Challenges', prompt: 'What was hard, and how did you handle it?' },
+      { id: 'lessons', label: 'What I learned', prompt: 'About your work, the people around you, or yourself.' },
+      { id: 'next-week', label: 'Focus for next week', prompt: 'The one to three things that matter most.' },
+      { id: 'self-care', label: 'Taking care of myself', prompt: 'Sleep, movement, rest, people. What will you make time for?' }
+    ]
+  }
+];
+
+// Rotated through one a day; see getDailyPrompt
+export const JOURNAL_PROMPTS: string[] = [
+  'What made you smile today?',
+  'What is taking up most of your headspace right now?',
+  'Describe a small moment from today in as much detail as you can.',
+  'What would you like to let go of?',
+  'Who did you feel close to today, and why?',
+  'What are you avoiding, and what is one small step towards it?',
+  'What did you learn today?',
+  'If today had a title, what would it be?',
+  'What is something you are looking forward to?',
+  'What drained your energy today, and what gave it back?',
+  'Write a letter to yourself from a year ago.',
+  'What would make tomorrow a good day?',
+  'What are you proud of that nobody else noticed?',
+  'What is a worry you keep coming back to? How likely is it, really?',
+  'Describe a place where you feel at ease.',
+  'What have you been putting off saying to someone?',
+  'What did your body need today? Did it get it?',
+  'What is one thing you would do differently if you lived today again?',
+  'Who taught you something important, and what was it?',
+  'What does rest look like for you at the moment?',
+  'What are three things you can hear, see and feel right now?',
+  'What habit would you like to build, and why does it matter to you?',
+  'What surprised you this week?',
+  'When did you last feel completely absorbed in something?',
+  'What would you tell a friend who was going through what you are?',
+  'What is something kind you did, or someone did for you?',
+  'What story do you keep telling yourself? Is it true?',
+  'What are you curious about lately?',
+  'Describe your ideal ordinary day.',
+  'What is enough, today?'
+];
+
+// A fixed day to count from, so the prompt of the day is the same on every device
+const PROMPT_EPOCH = new Date(2024, 0, 1);
+
+/**
+ * The prompt for a day. Each day gets the next prompt in the library.
+ * @param offset How many prompts to skip past the day's, for a different one
+ */
+export const getDailyPrompt = (date: Date = new Date(), offset = 0): string => {
+  const index = differenceInCalendarDays(date, PROMPT_EPOCH) + offset;
+  return JOURNAL_PROMPTS[((index % JOURNAL_PROMPTS.length) + JOURNAL_PROMPTS.length) % JOURNAL_PROMPTS.length];
+};
+
+// Checks templates coming from storage, backups and template files
+export const journalTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'A template needs a name'),
+  description: z.string().default(''),
+  icon: z.string().regex(/^ri-[\w-]+$/).catch('ri-file-list-3-line'),
+  sections: z.array(z.object({
+    id: z.string().min(1),
+    label: z.string().trim().min(1, 'Every section needs a label'),
+    prompt: z.string().default('')
+  })).min(1, 'A template needs at least one section')
+});
+
+const templateFileSchema = z.object({
+  format: z.literal(TEMPLATE_FILE_FORMAT),
+  template: journalTemplateSchema
+});
+
+const legacyTemplates = createLocalSetting(LEGACY_TEMPLATES_KEY, LEGACY_TEMPLATES_EVENT, listOf(journalTemplateSchema), []);
+
+const migrateLegacyTemplates = async (): Promise<void> => {
+  const templates = legacyTemplates.get();
+  if (templates.length > 0) {
+    await importTemplates(templates);
+  }
+  legacyTemplates.remove();
+};
+
+const templatesView = createStoreView<JournalTemplate>(
+  'templates',
+  value => {
+    // Stored templates that aren't valid, such as ones that couldn't be decrypted, are left out
+    const parsed = journalTemplateSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  },
+  // IDs sort by when they were made
+  (a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  migrateLegacyTemplates
+);
+
+/**
+ * Get the templates this user wrote, in the order they were created. Empty until they've
+ * been loaded; subscribeToTemplates loads them.
+ */
+export const getCustomTemplates = (): JournalTemplate[] => templatesView.get();
+
+export const loadCustomTemplates = (): Promise<JournalTemplate[]> => templatesView.load();
+
+// Add a template, or replace the one with the same ID
+const putCustomTemplate = async (template: JournalTemplate): Promise<void> => {
+  const { id, builtIn, ...fields } = template;
+  if (await templateRepository.getById(id)) {
+    await templateRepository.update(id, fields);
+  } else {
+    await templateRepository.create(fields, id);
+  }
+};
+
+/**
+ * Every template to pick from: the built-in ones, then the user's own
+ */
+export const getJournalTemplates = (): JournalTemplate[] => [...BUILT_IN_TEMPLATES, ...getCustomTemplates()];
+
+export const getJournalTemplate = (id: string | null | undefined): JournalTemplate | undefined =>
+  id ? getJournalTemplates().find(template => template.id === id) : undefined;
+
+/**
+ * Save one of the user's templates, adding it when it's new
+ * @returns The template as saved
+ */
+export const saveCustomTemplate = async (template: Omit<JournalTemplate, 'id' | 'builtIn'> & { id?: string }): Promise<JournalTemplate> => {
+  const saved: JournalTemplate = {
+    id: template.id || createId(),
+    name: template.name.trim(),
+    description: template.description.trim(),
+    icon: template.icon,
+    sections: template.sections.map(section => ({ ...section, label: section.label.trim(), prompt: section.prompt.trim() }))
+  };
+  await putCustomTemplate(saved);
+  return saved;
+};
+
+export const deleteCustomTemplate = async (id: string): Promise<void> => {
+  await templateRepository.delete(id);
+};
+
+/**
+ * Add templates from a backup or a template file, replacing the user's own ones with the
+ * same ID. Ones whose ID can't sync, such as a built-in template's, get a new one.
+ * @returns The templates as added
+ */
+export const importTemplates = async (templates: Array<z.infer<typeof journalTemplateSchema>>): Promise<JournalTemplate[]> => {
+  const imported = templates.map(template => ({ ...template, id: isEntityId(template.id) ? template.id : createId() }));
+  for (const template of imported) {
+    await putCustomTemplate(template);
+  }
+  return imported;
+};
+
+/**
+ * Download a template as a file to share with others
+ */
+export const exportTemplate = (template: JournalTemplate): void => {
+  const { builtIn, ...shared } = template;
+  const file = JSON.stringify({ format: TEMPLATE_FILE_FORMAT, template: shared }, null, 2);
+  const name = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+  saveAs(new Blob([file], { type: 'application/json' }), `${name}.journal-template.json`);
+};
+
+/**
+ * Read a template file and add its template to the user's own
+ * @throws If the file isn't a template file
+ */
+export const importTemplateFile = async (file: Blob): Promise<JournalTemplate> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  const parsed = templateFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`This is not a journal template file: ${parsed.error.errors[0].message}`);
+  }
+  // Shared files come from other people, whose own copy already has the template's ID
+  return (await importTemplates([{ ...parsed.data.template, id: createId() }]))[0];
+};
+
+/**
+ * Be told when templates are added, changed or removed, here or on another device. Starts
+ * loading them.
+ * @returns A function that stops listening
+ */
+export const subscribeToTemplates = templatesView.subscribe;
+
+/**
+ * The sections of a template with whatever was already written in them. Answers are
+ * matched by section ID, so switching templates keeps what fits.
+ */
+export const toSections = (template: JournalTemplate, answers: JournalSection[] = []): JournalSection[] =>
+  template.sections.map(section => ({
+    id: section.id,
+    label: section.label,
+    text: answers.find(answer => answer.id === section.id)?.text || ''
+  }));
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Render answered sections as the entry's HTML: a heading and paragraphs for each
+ * section that has been written in
+ */
+export const renderSections = (sections: JournalSection[]): string =>
+  sections
+    .filter(section => section.text.trim())
+    .map(section => {
+      const paragraphs = section.text.trim().split(/\n\s*\n/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`);
+      return `<h3>${escapeHtml(section.label)}</h3>${paragraphs.join('')}`;
+    })
+    .join('');
@@ -0,0 +1,253 @@
+/**
+ * The user's own journal trackers: scales, yes/no questions and counters recorded with each
+ * entry, such as energy, "exercised" or glasses of water. Trackers are set up once and sync
+ * between devices like journal templates, and come along in backups; the values live on
+ * the entries, keyed by tracker ID.
+ */
+import { saveAs } from 'file-saver';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { createId, isEntityId } from '@shared/ids';
+import type { JournalEntry, TrackerValue } from '@shared/schema';
+import { getEntryDay } from './journal-calendar';
+import { createLocalSetting, listOf } from './local-setting';
+import { createStoreView } from './store-view';
+import { trackerRepository } from './repository';
+
+// Where trackers were kept before they synced; moved into the trackers store on first use
+const LEGACY_TRACKERS_KEY = 'social_hub_journal_trackers';
+const LEGACY_TRACKERS_EVENT = 'social_hub_journal_trackers_changed';
+
+export type TrackerKind = 'scale' | 'boolean' | 'counter';
+
+export const TRACKER_KINDS: Array<{ value: TrackerKind; label: string }> = [
+  { value: 'scale', label: 'Scale' },
+  { value: 'boolean', label: 'Yes or no' },
+  { value: 'counter', label: 'Counter' },
+];
+
+export interface JournalTracker {
+  id: string;
+  name: string;
+  kind: TrackerKind;
+  icon: string;
+  // Scales go from min to max
+  min?: number;
+  max?: number;
+  // Counters go up and down by step, and are shown with their unit
+  step?: number;
+  unit?: string;
+  // Where it's listed, lowest first; trackers from before they synced have none
+  position?: number;
+}
+
+// A tracker as stored and synced. Fields that aren't set are null, so clearing one syncs too.
+export interface JournalTrackerRecord extends Pick<JournalTracker, 'id' | 'name' | 'kind' | 'icon'> {
+  min: number | null;
+  max: number | null;
+  step: number | null;
+  unit: string | null;
+  position: number;
+}
+
+// Common trackers offered when setting them up
+export const TRACKER_PRESETS: Array<Omit<JournalTracker, 'id'>> = [
+  { name: 'Hours slept', kind: 'counter', icon: 'ri-moon-line', step: 0.5, unit: 'hours' },
+  { name: 'Energy', kind: 'scale', icon: 'ri-flashlight-line', min: 1, max: 5 },
+  { name: 'Stress', kind: 'scale', icon: 'ri-pulse-line', min: 1, max: 5 },
+  { name: 'Exercised', kind: 'boolean', icon: 'ri-run-line' },
+  { name: 'Glasses of water', kind: 'counter', icon: 'ri-cup-line', step: 1, unit: 'glasses' },
+];
+
+// Stored trackers have null where backups leave a field out
+const unset = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+// Checks trackers coming from storage and backups
+export const journalTrackerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'A tracker needs a name'),
+  kind: z.enum(['scale', 'boolean', 'counter']),
+  icon: z.string().regex(/^ri-[\w-]+$/).catch('ri-checkbox-circle-line'),
+  min: unset(z.number().int()),
+  max: unset(z.number().int()),
+  step: unset(z.number().positive()),
+  unit: unset(z.string()),
+  position: unset(z.number().int())
+}).refine(
+  tracker => tracker.kind !== 'scale' || (tracker.min ?? 1) < (tracker.max ?? 5),
+  { message: 'A scale must go up from its lowest value', path: ['max'] }
+);
+
+export const getScaleRange = (tracker: Pick<JournalTracker, 'min' | 'max'>): { min: number; max: number } => ({
+  min: tracker.min ?? 1,
+  max: tracker.max ?? 5
+});
+
+const legacyTrackers = createLocalSetting(LEGACY_TRACKERS_KEY, LEGACY_TRACKERS_EVENT, listOf(journalTrackerSchema), []);
+
+// IDs a backup or an older version of the app wrote by hand can't sync, so they get a new one
+const syncableId = (id: string): string => (isEntityId(id) ? id : createId());
+
+const migrateLegacyTrackers = async (): Promise<void> => {
+  // They were kept in the order they're listed
+  const trackers = legacyTrackers.get();
+  for (let position = 0; position < trackers.length; position++) {
+    await putJournalTracker({ ...trackers[position], id: syncableId(trackers[position].id), position });
+  }
+  legacyTrackers.remove();
+};
+
+const trackersView = createStoreView<JournalTracker>(
+  'trackers',
+  value => {
+    // Stored trackers that aren't valid, such as ones that couldn't be decrypted, are left out
+    const parsed = journalTrackerSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  },
+  // Then by ID, which sorts by when they were made
+  (a, b) => (a.position ?? 0) - (b.position ?? 0) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  migrateLegacyTrackers
+);
+
+/**
+ * Get the trackers the user set up, in the order they're listed. Empty until they've been
+ * loaded; subscribeToTrackers loads them.
+ */
+export const getJournalTrackers = (): JournalTracker[] => trackersView.get();
+
+export const loadJournalTrackers = (): Promise<JournalTracker[]> => trackersView.load();
+
+// Add a tracker, or replace the one with the same ID
+const putJournalTracker = async (tracker: JournalTracker & { position: number }): Promise<void> => {
+  const { id, ...fields } = tracker;
+  const record: Omit<JournalTrackerRecord, 'id'> = {
+    name: fields.name,
+    kind: fields.kind,
+    icon: fields.icon,
+    min: fields.min ?? null,
+    max: fields.max ?? null,
+    step: fields.step ?? null,
+    unit: fields.unit ?? null,
+    position: fields.position
+  };
+  if (await trackerRepository.getById(id)) {
+    await trackerRepository.update(id, record);
+  } else {
+    await trackerRepository.create(record, id);
+  }
+};
+
+// Where a new tracker goes: after the others
+const nextPosition = (trackers: JournalTracker[]): number =>
+  trackers.reduce((last, tracker) => Math.max(last, (tracker.position ?? 0) + 1), 0);
+
+/**
+ * Save a tracker, adding it at the end of the list when it's new
+ * @returns The tracker as saved
+ */
+export const saveJournalTracker = async (tracker: Omit<JournalTracker, 'id'> & { id?: string }): Promise<JournalTracker> => {
+  const trackers = await loadJournalTrackers();
+  const existing = trackers.find(other => other.id === tracker.id);
+  const saved = {
+    ...tracker,
+    id: tracker.id || createId(),
+    name: tracker.name.trim(),
+    position: existing?.position ?? nextPosition(trackers)
+  };
+  await putJournalTracker(saved);
+  return saved;
+};
+
+/**
+ * Stop tracking something. Values already recorded stay on the entries, and come back
+ * if the tracker is restored from a backup.
+ */
+export const deleteJournalTracker = async (id: string): Promise<void> => {
+  await trackerRepository.delete(id);
+};
+
+export const moveJournalTracker = async (id: string, direction: 1 | -1): Promise<void> => {
+  const trackers = [...await loadJournalTrackers()];
+  const index = trackers.findIndex(tracker => tracker.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= trackers.length) return;
+  [trackers[index], trackers[target]] = [trackers[target], trackers[index]];
+  // Numbered afresh, since trackers from before they synced all share a position
+  for (let position = 0; position < trackers.length; position++) {
+    if (trackers[position].position !== position) {
+      await putJournalTracker({ ...trackers[position], position });
+    }
+  }
+};
+
+/**
+ * Add trackers from a backup, replacing the ones with the same ID. Ones given a new ID
+ * leave the values entries recorded for them behind.
+ * @returns The trackers as added
+ */
+export const importTrackers = async (trackers: JournalTracker[]): Promise<JournalTracker[]> => {
+  let position = nextPosition(await loadJournalTrackers());
+  const imported = trackers.map(tracker => ({
+    ...tracker,
+    id: syncableId(tracker.id),
+    position: tracker.position ?? position++
+  }));
+  for (const tracker of imported) {
+    await putJournalTracker(tracker);
+  }
+  return imported;
+};
+
+/**
+ * Be told when trackers are added, changed or removed, here or on another device. Starts
+ * loading them.
+ * @returns A function that stops listening
+ */
+export const subscribeToTrackers = trackersView.subscribe;
+
+/**
+ * The value an entry recorded for a tracker, if it's of the tracker's kind
+ */
+export const getTrackerValue = (entry: Pick<JournalEntry, 'trackers'>, tracker: JournalTracker): TrackerValue | undefined => {
+  const value = entry.trackers?.[tracker.id];
+  if (tracker.kind === 'boolean') return typeof value === 'boolean' ? value : undefined;
+  return typeof value === 'number' ? value : undefined;
+};
+
+export const formatTrackerValue = (tracker: JournalTracker, value: TrackerValue): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (tracker.kind === 'scale') return `${value}/${getScaleRange(tracker).max}`;
+  return tracker.unit ? `${value} ${tracker.unit}` : String(value);
+};
+
+// Cells that start like a formula are prefixed with ' so spreadsheets show them as text
+const escapeCsv = (value: string): string => {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * A CSV of every entry that recorded a tracker, oldest first: its day, title and value
+ */
+export const getTrackerCsv = (tracker: JournalTracker, entries: JournalEntry[]): string => {
+  const header = tracker.unit ? `${tracker.name} (${tracker.unit})` : tracker.name;
+  const rows = entries
+    .map(entry => ({ day: getEntryDay(entry), title: entry.title, value: getTrackerValue(entry, tracker) }))
+    .filter((row): row is { day: string; title: string; value: TrackerValue } => row.value !== undefined)
+    .sort((a, b) => a.day.localeCompare(b.day));
+  return [
+    ['Date', 'Entry', header],
+    ...rows.map(row => [row.day, row.title, String(row.value)])
+  ].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+/**
+ * Download a tracker's values as a CSV file
+ */
+export const downloadTrackerCsv = (tracker: JournalTracker, entries: JournalEntry[]): void => {
+  const name = tracker.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tracker';
+  saveAs(
+    new Blob([getTrackerCsv(tracker, entries)], { type: 'text/csv;charset=utf-8' }),
+    `${name}-${format(new Date(), 'yyyy-MM-dd')}.csv`
+  );
+};
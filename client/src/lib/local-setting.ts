@@ -0,0 +1,79 @@
+/**
+ * Settings kept in localStorage, so each device has its own. Stored values are checked
+ * against a schema when read, since they may have been written by an older version of the
+ * app, and every change is announced to this tab and the others.
+ */
+import { z } from 'zod';
+
+export interface LocalSetting<T> {
+  get: () => T;
+  set: (value: T) => void;
+  // Forget the stored value, going back to the fallback
+  remove: () => void;
+  /**
+   * Be told when the value changes, in this tab or another
+   * @returns A function that stops listening
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * @param key The localStorage key the value is kept under, as JSON
+ * @param event Fired on window when this tab changes the value; other tabs get a storage event
+ * @param schema Checks the stored value
+ * @param fallback Used when nothing is stored or the stored value doesn't pass the schema
+ */
+export const createLocalSetting = <T>(
+  key: string,
+  event: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  fallback: T
+): LocalSetting<T> => ({
+  get: () => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return fallback;
+      const parsed = schema.safeParse(JSON.parse(stored));
+      return parsed.success ? parsed.data : fallback;
+    } catch (error) {
+      console.error(`Error reading ${key} from localStorage:`, error);
+      return fallback;
+    }
+  },
+  set: (value) => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+      window.dispatchEvent(new Event(event));
+    } catch (error) {
+      console.error(`Error saving ${key} to localStorage:`, error);
+    }
+  },
+  remove: () => {
+    try {
+      localStorage.removeItem(key);
+      window.dispatchEvent(new Event(event));
+    } catch (error) {
+      console.error(`Error removing ${key} from localStorage:`, error);
+    }
+  },
+  subscribe: (listener) => {
+    const handleStorage = (storageEvent: StorageEvent) => {
+      if (storageEvent.key === key) listener();
+    };
+    window.addEventListener(event, listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(event, listener);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }
+});
+
+/**
+ * A schema for a stored list that drops the items that don't pass, keeping the rest
+ */
+export const listOf = <T>(item: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+  z.array(z.unknown()).transform(items => items.flatMap(value => {
+    const parsed = item.safeParse(value);
+    return parsed.success ? [parsed.data] : [];
+  }));
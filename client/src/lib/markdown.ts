@@ -0,0 +1,691 @@
+/**
+ * Utility functions for converting between the editor's HTML and Markdown. Covers what
+ * RichTextEditor produces (bold, italic, underline, links, images, videos and file
+ * attachments) plus headings, lists, quotes and code. Markdown has no underline, video
+ * or download link, so those are written as inline HTML that the importer reads back.
+ */
+import YAML from 'yaml';
+import JSZip from 'jszip';
+
+export type FrontMatter = Record<string, unknown>;
+
+export interface ParsedMarkdown {
+  data: FrontMatter;
+  body: string;
+}
+
+// Styles the editor puts on inserted media, so imported content looks the same
+const IMAGE_STYLE = 'max-width: 100%; margin: 8px 0; display: block;';
+const ATTACHMENT_STYLE = 'display: inline-flex; align-items: center; padding: 6px 12px; background: #f1f5f9; border-radius: 4px; text-decoration: none; color: #0f172a;';
+const ATTACHMENT_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="margin-right: 8px;"><path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"></path><polyline points="13 2 13 9 20 9"></polyline></svg>';
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'PRE', 'BLOCKQUOTE',
+  'HR', 'VIDEO', 'TABLE', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'FIGURE'
+]);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Links and media only keep URLs that can't run script
+const safeUrl = (url: string): string => (/^\s*(javascript|vbscript):/i.test(url) ? '#' : url.trim());
+
+/**
+ * The markup the editor inserts for an attached file
+ */
+export const getAttachmentHtml = (fileUrl: string, fileName: string): string =>
+  `<div style="margin: 8px 0;"><a href="${escapeHtml(fileUrl)}" download="${escapeHtml(fileName)}" style="${ATTACHMENT_STYLE}">${ATTACHMENT_ICON}${escapeHtml(fileName)}</a></div>`;
+
+// ---------------------------------------------------------------------------
+// HTML to Markdown
+// ---------------------------------------------------------------------------
+
+// Underscores inside words are left alone, since they can't start emphasis there
+const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/[\\`*[\]~]|<(?=[a-zA-Z/!?])/g, '\\$&')
+    .replace(/_/g, (underscore, offset: number, whole: string) =>
+      /\w/.test(whole[offset - 1] || '') && /\w/.test(whole[offset + 1] || '') ? underscore : '\\_');
+
+// Characters that would start a block when they open a line
+const escapeLineStart = (line: string): string =>
+  line
+    .replace(/^(\s*)([#>+=-])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/, '$1\\$2');
+
+const formatUrl = (url: string): string => (/[\s()]/.test(url) ? `<${url}>` : url);
+
+// Wrap inline content in a delimiter, keeping surrounding spaces outside it so the
+// Markdown stays valid
+const wrap = (content: string, open: string, close = open): string => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : content;
+};
+
+const isAttachmentLink = (element: Element): boolean =>
+  element.tagName === 'A' && element.hasAttribute('download');
+
+const renderInline = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const children = () => Array.from(element.childNodes).map(renderInline).join('');
+
+  switch (element.tagName) {
+    case 'BR':
+      return '\\\n';
+    case 'B':
+    case 'STRONG':
+      return wrap(children(), '**');
+    case 'I':
+    case 'EM':
+      return wrap(children(), '*');
+    case 'U':
+      return wrap(children(), '<u>', '</u>');
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      return wrap(children(), '~~');
+    case 'CODE': {
+      const code = element.textContent || '';
+      const fence = '`'.repeat((code.match(/`+/g) || []).reduce((longest, run) => Math.max(longest, run.length), 0) + 1);
+      return code.startsWith('`') || code.endsWith('`') ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+    }
+    case 'IMG': {
+      const src = element.getAttribute('src') || '';
+      return src ? `![${escapeMarkdown(element.getAttribute('alt') || '')}](${formatUrl(src)})` : '';
+    }
+    case 'A': {
+      const href = element.getAttribute('href') || '';
+      if (isAttachmentLink(element)) {
+        const fileName = element.getAttribute('download') || element.textContent?.trim() || 'attachment';
+        return `<a href="${escapeHtml(href)}" download="${escapeHtml(fileName)}">${escapeHtml(fileName)}</a>`;
+      }
+      const text = children().trim();
+      return href ? `[${text || escapeMarkdown(href)}](${formatUrl(href)})` : text;
+    }
+    case 'VIDEO': {
+      const src = element.getAttribute('src') || element.querySelector('source')?.getAttribute('src') || '';
+      return src ? `<video controls src="${escapeHtml(src)}"></video>` : '';
+    }
+    case 'SCRIPT':
+    case 'STYLE':
+    case 'svg':
+      return '';
+    default:
+      return children();
+  }
+};
+
+// Render a run of inline nodes as one paragraph, or nothing if it's only whitespace
+const renderParagraph = (nodes: Node[]): string | null => {
+  const text = nodes.map(renderInline).join('')
+    .replace(/ *\\\n */g, '\\\n')
+    .replace(/(\\\n)+$/, '')
+    .trim();
+  if (!text.replace(/\\\n/g, '').trim()) return null;
+  return text.split('\n').map(escapeLineStart).join('\n');
+};
+
+const indent = (text: string, prefix: string): string =>
+  text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+
+const renderList = (list: Element): string => {
+  const ordered = list.tagName === 'OL';
+  const start = Number(list.getAttribute('start')) || 1;
+  const items: string[] = [];
+  let marker = '';
+
+  for (const child of Array.from(list.children)) {
+    if (child.tagName === 'LI') {
+      marker = ordered ? `${start + items.length}. ` : '- ';
+      const [first, ...rest] = indent(renderItem(child), ' '.repeat(marker.length)).split('\n');
+      items.push([marker + (first || '').trimStart(), ...rest].join('\n'));
+    } else if ((child.tagName === 'UL' || child.tagName === 'OL') && items.length > 0) {
+      // Indenting in the editor nests the list straight inside the parent list
+      items[items.length - 1] += `\n${indent(renderList(child), ' '.repeat(marker.length))}`;
+    }
+  }
+
+  return items.join('\n');
+};
+
+// Blocks in a list item are separated by blank lines, apart from nested lists which
+// follow straight on so the list stays tight
+const renderItem = (item: Element): string =>
+  renderBlocks(item).reduce((content, block, index) => {
+    if (index === 0) return block;
+    return content + (/^(- |\d+\. )/.test(block) ? '\n' : '\n\n') + block;
+  }, '');
+
+const renderBlock = (element: Element): string[] => {
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = renderParagraph(Array.from(element.childNodes));
+      return text ? [`${'#'.repeat(Number(element.tagName[1]))} ${text.replace(/\\\n/g, ' ')}`] : [];
+    }
+    case 'UL':
+    case 'OL':
+      return [renderList(element)];
+    case 'PRE': {
+      const code = (element.textContent || '').replace(/\n$/, '');
+      const fence = '`'.repeat(Math.max(3, ...(code.match(/`{3,}/g) || []).map(run => run.length + 1)));
+      const language = element.querySelector('code')?.className.match(/language-(\S+)/)?.[1] || '';
+      return [`${fence}${language}\n${code}\n${fence}`];
+    }
+    case 'BLOCKQUOTE': {
+      const content = renderBlocks(element).join('\n\n');
+      return content ? [content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+    }
+    case 'HR':
+      return ['---'];
+    case 'VIDEO': {
+      const video = renderInline(element);
+      return video ? [video] : [];
+    }
+    default:
+      return renderBlocks(element);
+  }
+};
+
+// Render the children of a container, grouping inline runs into paragraphs
+const renderBlocks = (container: Element): string[] => {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+
+  const flush = () => {
+    const paragraph = renderParagraph(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = [];
+  };
+
+  for (const child of Array.from(container.childNodes)) {
+    const element = child.nodeType === Node.ELEMENT_NODE ? child as Element : null;
+    if (element && BLOCK_TAGS.has(element.tagName)) {
+      flush();
+      blocks.push(...renderBlock(element));
+    } else {
+      inline.push(child);
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+/**
+ * Convert editor HTML to Markdown
+ */
+export const htmlToMarkdown = (html: string): string => {
+  const body = new DOMParser().parseFromString(html || '', 'text/html').body;
+  return renderBlocks(body).join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// Markdown to HTML
+// ---------------------------------------------------------------------------
+
+// Find where a delimiter closes, skipping escaped characters, code spans and emphasis
+// nested inside it. The closer can't follow whitespace.
+const findCloser = (text: string, from: number, delimiter: string): number => {
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      i = end !== -1 ? end + run.length - 1 : i + run.length - 1;
+      continue;
+    }
+    if (char !== '*' && char !== '_' && char !== '~') continue;
+
+    const run = text.slice(i).match(/^(\*+|_+|~+)/)![0];
+    const before = text[i - 1] || ' ';
+    const after = text[i + run.length] || ' ';
+    const canClose = i > from && !/\s/.test(before) && !(char === '_' && /\w/.test(after));
+    if (char === delimiter[0] && canClose && run.length >= delimiter.length) {
+      return i;
+    }
+
+    // Emphasis opened in here closes in here too, so its closer isn't mistaken for ours
+    const canOpen = !/\s/.test(after) && !(char === '_' && /\w/.test(before)) && (char !== '~' || run.length === 2);
+    if (canOpen && run.length <= 3) {
+      const nested = findCloser(text, i + run.length, run);
+      if (nested !== -1) {
+        i = nested + run.length - 1;
+        continue;
+      }
+    }
+    i += run.length - 1;
+  }
+  return -1;
+};
+
+// Find the `]` matching the `[` just before `from`
+const findBracketEnd = (text: string, from: number): number => {
+  let depth = 1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Parse `(url "title")` at `from`, returning the URL and where it ends
+const parseDestination = (text: string, from: number): { url: string; end: number } | null => {
+  if (text[from] !== '(') return null;
+  const match = text.slice(from).match(/^\(\s*(?:<([^>]*)>|((?:[^\s()\\]|\\.|\([^\s()]*\))*))(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/);
+  if (!match) return null;
+  return { url: (match[1] ?? match[2]).replace(/\\(.)/g, '$1'), end: from + match[0].length };
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([a-z-]+)\s*=\s*"([^"]*)"/gi))) {
+    attributes[match[1].toLowerCase()] = match[2]
+      .replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  }
+  return attributes;
+};
+
+const EMPHASIS: Array<{ delimiter: string; tag: string }> = [
+  { delimiter: '**', tag: 'b' },
+  { delimiter: '__', tag: 'b' },
+  { delimiter: '~~', tag: 's' },
+  { delimiter: '*', tag: 'i' },
+  { delimiter: '_', tag: 'i' }
+];
+
+const parseInline = (text: string): string => {
+  let html = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    if (char === '\\' && text[i + 1] === '\n') {
+      html += '<br>';
+      i += 2;
+      continue;
+    }
+    if (char === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] || '')) {
+      html += escapeHtml(text[i + 1]);
+      i += 2;
+      continue;
+    }
+    if (char === '\n') {
+      // Two trailing spaces also make a hard line break
+      html = / {2,}$/.test(html) ? `${html.replace(/ +$/, '')}<br>` : `${html.replace(/ +$/, '')} `;
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        html += `<code>${escapeHtml(code)}</code>`;
+        i = end + run.length;
+        continue;
+      }
+      html += run;
+      i += run.length;
+      continue;
+    }
+
+    if (rest.startsWith('![')) {
+      const close = findBracketEnd(text, i + 2);
+      const destination = close !== -1 ? parseDestination(text, close + 1) : null;
+      if (destination) {
+        const alt = text.slice(i + 2, close).replace(/\\(.)/g, '$1');
+        html += `<img src="${escapeHtml(safeUrl(destination.url))}" alt="${escapeHtml(alt)}" style="${IMAGE_STYLE}" />`;
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const close = findBracketEnd(text, i + 1);
+      const destination = close !== -1 ? parseDestination(text, close + 1) : null;
+      if (destination) {
+        html += `<a href="${escapeHtml(safeUrl(destination.url))}">${parseInline(text.slice(i + 1, close))}</a>`;
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = rest.match(/^<((?:https?|mailto):[^\s<>]+)>/i);
+      if (autolink) {
+        html += `<a href="${escapeHtml(autolink[1])}">${escapeHtml(autolink[1])}</a>`;
+        i += autolink[0].length;
+        continue;
+      }
+
+      const underline = rest.match(/^<u>/i);
+      const underlineEnd = underline ? text.toLowerCase().indexOf('</u>', i + 3) : -1;
+      if (underlineEnd !== -1) {
+        html += `<u>${parseInline(text.slice(i + 3, underlineEnd))}</u>`;
+        i = underlineEnd + 4;
+        continue;
+      }
+
+      const attachment = rest.match(/^<a\s[^>]*\bdownload\b[^>]*>([\s\S]*?)<\/a>/i);
+      if (attachment) {
+        const attributes = parseAttributes(attachment[0].slice(0, attachment[0].indexOf('>')));
+        html += getAttachmentHtml(safeUrl(attributes.href || ''), attributes.download || 'attachment');
+        i += attachment[0].length;
+        continue;
+      }
+
+      const lineBreak = rest.match(/^<br\s*\/?>/i);
+      if (lineBreak) {
+        html += '<br>';
+        i += lineBreak[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(({ delimiter }) => rest.startsWith(delimiter));
+    if (
+      emphasis &&
+      !/\s/.test(text[i + emphasis.delimiter.length] || ' ') &&
+      !(emphasis.delimiter[0] === '_' && /\w/.test(text[i - 1] || ''))
+    ) {
+      const end = findCloser(text, i + emphasis.delimiter.length, emphasis.delimiter);
+      if (end !== -1) {
+        const inner = parseInline(text.slice(i + emphasis.delimiter.length, end));
+        html += `<${emphasis.tag}>${inner}</${emphasis.tag}>`;
+        i = end + emphasis.delimiter.length;
+        continue;
+      }
+    }
+
+    html += escapeHtml(char);
+    i++;
+  }
+
+  return html;
+};
+
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const VIDEO = /^\s*<video\b[^>]*>\s*(?:<\/video>)?\s*$/i;
+
+const isBlockStart = (line: string): boolean =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || /^ {0,3}>/.test(line) ||
+  VIDEO.test(line) || (LIST_ITEM.test(line) && !!line.match(LIST_ITEM)![4].trim());
+
+const parseBlocks = (lines: string[]): string => {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${parseInline(heading[2] || '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (VIDEO.test(line)) {
+      const src = parseAttributes(line).src;
+      if (src) {
+        html.push(`<video controls src="${escapeHtml(safeUrl(src))}" style="${IMAGE_STYLE}"></video>`);
+      }
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (/^ {0,3}>/.test(lines[i]) || !isBlockStart(lines[i]))) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${parseBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      const items: string[][] = [];
+      let loose = false;
+
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (!current || /\d/.test(current[2]) !== ordered || current[1].length > item[1].length + 1) break;
+
+        const contentIndent = current[1].length + current[2].length + Math.max(1, Math.min(current[3].length, 4));
+        const content = [current[4]];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line continues the item only if indented content follows
+            const following = lines.slice(i + 1).find(candidate => candidate.trim());
+            if (following !== undefined && following.search(/\S/) >= contentIndent) {
+              content.push('');
+              loose = true;
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (next.search(/\S/) >= contentIndent) {
+            content.push(next.slice(contentIndent));
+          } else if (!isBlockStart(next) && content[content.length - 1] !== '') {
+            content.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(content);
+
+        // Items separated by a blank line make the list loose
+        if (i < lines.length && !lines[i].trim()) {
+          const following = lines.slice(i).findIndex(candidate => candidate.trim());
+          const nextItem = following === -1 ? null : lines[i + following].match(LIST_ITEM);
+          if (!nextItem || /\d/.test(nextItem[2]) !== ordered) break;
+          loose = true;
+          i += following;
+        }
+      }
+
+      const tag = ordered ? 'ol' : 'ul';
+      const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+      const listItems = items.map(content => {
+        const inner = parseBlocks(content);
+        // Tight lists keep their text directly in the item
+        return `<li>${loose ? inner : inner.replace(/^<p>([\s\S]*?)<\/p>/, '$1')}</li>`;
+      });
+      html.push(`<${tag}${startAttribute}>${listItems.join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i].replace(/^\s+/, ''));
+      i++;
+    }
+    const inline = parseInline(paragraph.join('\n'));
+    // An attachment on its own keeps the editor's block markup rather than sitting in a <p>
+    html.push(/^<div[^>]*><a [^>]*download[\s\S]*<\/div>$/.test(inline) ? inline : `<p>${inline}</p>`);
+  }
+
+  return html.join('');
+};
+
+/**
+ * Convert Markdown to HTML the editor can work with. Raw HTML isn't passed through,
+ * except for the underline, video and attachment markup that htmlToMarkdown writes.
+ */
+export const markdownToHtml = (markdown: string): string =>
+  parseBlocks((markdown || '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+// ---------------------------------------------------------------------------
+// Front matter
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a Markdown file into its YAML front matter and body
+ */
+export const parseFrontMatter = (text: string): ParsedMarkdown => {
+  const match = text.replace(/^\uFEFF/, '').match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  try {
+    const data = YAML.parse(match[1]);
+    return {
+      data: data && typeof data === 'object' && !Array.isArray(data) ? data : {},
+      body: text.slice(match[0].length).replace(/^\s*\n/, '')
+    };
+  } catch (error) {
+    console.error('Error parsing Markdown front matter:', error);
+    return { data: {}, body: text };
+  }
+};
+
+/**
+ * Put YAML front matter on top of a Markdown body. Empty values are left out.
+ */
+export const withFrontMatter = (data: FrontMatter, body: string): string => {
+  const entries = Object.entries(data).filter(([, value]) =>
+    value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+  );
+  if (entries.length === 0) return body;
+  return `---\n${YAML.stringify(Object.fromEntries(entries))}---\n\n${body}`;
+};
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+export interface ImportedMarkdown {
+  fileName: string;
+  title: string;
+  html: string;
+  category?: string;
+  tags?: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+const toDate = (value: unknown): Date | undefined => {
+  if (!value || !(typeof value === 'string' || typeof value === 'number' || value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toTags = (value: unknown): string[] | undefined => {
+  if (Array.isArray(value)) return value.map(String).map(tag => tag.trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(tag => tag.trim()).filter(Boolean);
+  return undefined;
+};
+
+/**
+ * Turn the text of a Markdown file into editor content. The title comes from the
+ * front matter, then a leading `# heading`, then the file name.
+ */
+export const parseMarkdownFile = (fileName: string, text: string): ImportedMarkdown => {
+  const { data, body } = parseFrontMatter(text);
+  let markdown = body;
+  let title = typeof data.title === 'string' ? data.title.trim() : '';
+
+  if (!title) {
+    const heading = markdown.match(/^\s*# +(.+?)\s*#*\s*(?:\n|$)/);
+    if (heading) {
+      title = heading[1].replace(/\\(.)/g, '$1');
+      markdown = markdown.slice(heading[0].length);
+    }
+  }
+
+  return {
+    fileName,
+    title: title || fileName.replace(/^.*\//, '').replace(MARKDOWN_EXTENSION, ''),
+    html: markdownToHtml(markdown),
+    category: typeof data.category === 'string' ? data.category : undefined,
+    tags: toTags(data.tags),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  };
+};
+
+/**
+ * Read Markdown files picked by the user. Zip archives are opened and every Markdown
+ * file inside is read.
+ */
+export const readMarkdownFiles = async (files: File[]): Promise<ImportedMarkdown[]> => {
+  const imported: ImportedMarkdown[] = [];
+
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const archive = await JSZip.loadAsync(file);
+      const entries = Object.values(archive.files)
+        .filter(entry => !entry.dir && MARKDOWN_EXTENSION.test(entry.name) && !entry.name.startsWith('__MACOSX/'))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        imported.push(parseMarkdownFile(entry.name, await entry.async('string')));
+      }
+    } else {
+      imported.push(parseMarkdownFile(file.name, await file.text()));
+    }
+  }
+
+  return imported;
+};
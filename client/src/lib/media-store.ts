@@ -0,0 +1,273 @@
+/**
+ * Content-addressed store for the images, videos and files attached to posts, notes,
+ * journal entries and documents. Each file is kept once in IndexedDB under the SHA-256 of
+ * its bytes and referred to from HTML and mediaUrls as media://<hash>, so the items
+ * themselves stay small. References are swapped for object URLs when they're shown, and
+ * files nothing refers to any more are garbage-collected. Synced accounts upload new files
+ * so their other devices can show them too.
+ */
+import { stores, type StoreType } from './offline-storage';
+import { getEncryptionStatus } from './encryption';
+
+export const MEDIA_SCHEME = 'media://';
+
+const MEDIA_REFERENCE_PATTERN = /media:\/\/([0-9a-f]{64})/g;
+// Where the server serves uploaded files from, for synced accounts
+const SERVER_MEDIA_PATH = '/api/media/';
+const SERVER_UPLOAD_PATH = '/api/media';
+// Answers to an upload that won't change on a retry: over the quota or the size limit, or
+// a type the server doesn't take
+const REFUSED_UPLOAD_STATUSES = [413, 415];
+const SERVER_MEDIA_URL_PATTERN = /(?:https?:\/\/[^/"'\s]+)?\/api\/media\/([0-9a-f]{64})/g;
+// Files this new are kept even when nothing refers to them, since the editor they were
+// added in may not have been saved yet
+const GC_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+// Stores whose items may refer to media; revisions keep old versions restorable
+const REFERENCING_STORES: StoreType[] = ['posts', 'notes', 'journals', 'documents', 'revisions', 'queue', 'conflicts'];
+// Attributes the resolver swaps references in
+const MEDIA_ATTRIBUTES = ['src', 'href', 'poster'];
+const MEDIA_ELEMENT_SELECTOR = MEDIA_ATTRIBUTES.map(attribute => `[${attribute}^="${MEDIA_SCHEME}"]`).join(',');
+
+export interface MediaRecord {
+  hash: string;
+  blob: Blob;
+  type: string;
+  // File name it was added with, for attachments
+  name: string | null;
+  size: number;
+  createdAt: number;
+  // Whether the server has a copy. Files it refused, say for being over the quota, are kept
+  // on this device only; unset until the file has been uploaded.
+  upload?: 'uploaded' | 'local-only';
+}
+
+// Object URLs handed out this session, both ways, so HTML read back out of the page can
+// be turned back into references
+const objectUrls = new Map<string, string>();
+const objectUrlHashes = new Map<string, string>();
+
+export const isMediaReference = (url: string): boolean => url.startsWith(MEDIA_SCHEME);
+
+const getHash = (reference: string): string => reference.slice(MEDIA_SCHEME.length);
+
+/**
+ * Get every media hash referred to anywhere in a value
+ */
+export const getMediaReferences = (value: unknown): Set<string> => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+  return new Set(Array.from(text.matchAll(MEDIA_REFERENCE_PATTERN), match => match[1]));
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Add a file to the store. Adding the same bytes again gives the same reference and
+ * keeps a single copy.
+ * @returns The media://<hash> reference to put in HTML or mediaUrls
+ */
+export const storeMedia = async (blob: Blob, name: string | null = blob instanceof File ? blob.name : null): Promise<string> => {
+  const hash = await hashBlob(blob);
+  if (!(await stores.media.getItem(hash))) {
+    const record: MediaRecord = {
+      hash,
+      blob,
+      type: blob.type || 'application/octet-stream',
+      name,
+      size: blob.size,
+      createdAt: Date.now()
+    };
+    await stores.media.setItem(hash, record);
+  }
+  return `${MEDIA_SCHEME}${hash}`;
+};
+
+/**
+ * Add a file given as a data URL to the store
+ * @returns Its media://<hash> reference
+ */
+export const storeDataUrl = async (dataUrl: string, name: string | null = null): Promise<string> => {
+  return storeMedia(await (await fetch(dataUrl)).blob(), name);
+};
+
+export const getMedia = async (reference: string): Promise<MediaRecord | null> => {
+  return stores.media.getItem<MediaRecord>(getHash(reference));
+};
+
+/**
+ * Turn a media reference into an object URL that can be shown. References to files that
+ * aren't on this device point at the server's copy instead. Anything else comes back as
+ * it was.
+ */
+export const resolveMediaUrl = async (url: string): Promise<string> => {
+  if (!isMediaReference(url)) return url;
+
+  const hash = getHash(url);
+  const cached = objectUrls.get(hash);
+  if (cached) return cached;
+
+  const record = await stores.media.getItem<MediaRecord>(hash);
+  if (!record) return `${SERVER_MEDIA_PATH}${hash}`;
+
+  const objectUrl = URL.createObjectURL(record.blob);
+  objectUrls.set(hash, objectUrl);
+  objectUrlHashes.set(objectUrl, hash);
+  return objectUrl;
+};
+
+const replaceReferences = async (html: string, replace: (reference: string) => Promise<string>): Promise<string> => {
+  const references = Array.from(getMediaReferences(html), hash => `${MEDIA_SCHEME}${hash}`);
+  const replacements = new Map(await Promise.all(
+    references.map(async reference => [reference, await replace(reference)] as const)
+  ));
+  return html.replace(MEDIA_REFERENCE_PATTERN, reference => replacements.get(reference) ?? reference);
+};
+
+/**
+ * Swap the media references in HTML for object URLs, to show it in the page
+ */
+export const resolveMediaInHtml = (html: string): Promise<string> => replaceReferences(html, resolveMediaUrl);
+
+const toDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Swap the media references in HTML for data URLs, for HTML that leaves the app through
+ * the clipboard or an export
+ */
+export const inlineMediaInHtml = (html: string): Promise<string> => replaceReferences(html, async reference => {
+  const record = await getMedia(reference);
+  if (record) return toDataUrl(record.blob);
+  const response = await fetch(`${SERVER_MEDIA_PATH}${getHash(reference)}`).catch(() => null);
+  return response?.ok ? toDataUrl(await response.blob()) : reference;
+});
+
+/**
+ * Swap the object URLs handed out by the resolver back for the references they stand
+ * for, in HTML read out of the page such as an editor's content
+ */
+export const toMediaReferences = (html: string): string => {
+  const withServerUrls = html.replace(SERVER_MEDIA_URL_PATTERN, (_url, hash: string) => `${MEDIA_SCHEME}${hash}`);
+  if (objectUrlHashes.size === 0) return withServerUrls;
+  return withServerUrls.replace(/blob:[^"'\s)<>]+/g, url => {
+    const hash = objectUrlHashes.get(url);
+    return hash ? `${MEDIA_SCHEME}${hash}` : url;
+  });
+};
+
+const resolveElement = (element: Element): void => {
+  for (const attribute of MEDIA_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (!value || !isMediaReference(value)) continue;
+
+    resolveMediaUrl(value)
+      .then(url => {
+        // Leave it alone if it changed while the file was being read
+        if (url !== value && element.getAttribute(attribute) === value) element.setAttribute(attribute, url);
+      })
+      .catch(error => console.error('Error resolving media:', error));
+  }
+};
+
+const resolveTree = (root: Element): void => {
+  if (root.matches(MEDIA_ELEMENT_SELECTOR)) resolveElement(root);
+  root.querySelectorAll(MEDIA_ELEMENT_SELECTOR).forEach(resolveElement);
+};
+
+/**
+ * Keep swapping media references for object URLs in everything rendered under `root`,
+ * including HTML set with dangerouslySetInnerHTML and editors' content
+ * @returns A function that stops watching
+ */
+export const startMediaResolver = (root: Element = document.body): (() => void) => {
+  resolveTree(root);
+
+  const observer = new MutationObserver(mutations => {
+    for (const mutation of mutations) {
+      if (mutation.type === 'attributes') {
+        resolveElement(mutation.target as Element);
+      } else {
+        mutation.addedNodes.forEach(node => {
+          if (node instanceof Element) resolveTree(node);
+        });
+      }
+    }
+  });
+  observer.observe(root, { childList: true, subtree: true, attributes: true, attributeFilter: MEDIA_ATTRIBUTES });
+
+  return () => observer.disconnect();
+};
+
+/**
+ * Upload the files the server doesn't have yet. Files are stored under the hash of their
+ * bytes, which encrypting them would change, so nothing is uploaded while end-to-end
+ * encryption is on: the files wait on this device until it's turned off.
+ * @returns How many files were uploaded
+ */
+export const uploadPendingMedia = async (): Promise<number> => {
+  if (await getEncryptionStatus() !== 'disabled') return 0;
+
+  const pending: MediaRecord[] = [];
+  await stores.media.iterate((record: MediaRecord) => {
+    if (!record.upload) pending.push(record);
+  });
+
+  let uploaded = 0;
+  for (const record of pending) {
+    const form = new FormData();
+    form.append('file', new Blob([record.blob], { type: record.type }), record.name ?? undefined);
+    const response = await fetch(SERVER_UPLOAD_PATH, { method: 'POST', body: form, credentials: 'include' });
+    if (response.ok) {
+      await stores.media.setItem(record.hash, { ...record, upload: 'uploaded' });
+      uploaded++;
+    } else if (REFUSED_UPLOAD_STATUSES.includes(response.status)) {
+      await stores.media.setItem(record.hash, { ...record, upload: 'local-only' });
+    } else {
+      throw new Error(`Failed to upload media: ${response.status} ${response.statusText}`);
+    }
+  }
+  return uploaded;
+};
+
+/**
+ * Delete the files nothing refers to any more: no item, revision, pending change or
+ * draft. Files added in the last day are kept, as they may be in an unsaved editor.
+ * @returns How many files were deleted
+ */
+export const collectMediaGarbage = async (): Promise<number> => {
+  const referenced = new Set<string>();
+  for (const storeType of REFERENCING_STORES) {
+    await stores[storeType].iterate(value => {
+      getMediaReferences(value).forEach(hash => referenced.add(hash));
+    });
+  }
+  // Drafts are kept in localStorage
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const value = key ? localStorage.getItem(key) : null;
+    if (value) getMediaReferences(value).forEach(hash => referenced.add(hash));
+  }
+
+  const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+  const unreferenced: string[] = [];
+  await stores.media.iterate((record: MediaRecord, hash) => {
+    if (!referenced.has(hash) && record.createdAt < cutoff) unreferenced.push(hash);
+  });
+
+  for (const hash of unreferenced) {
+    await stores.media.removeItem(hash);
+    const objectUrl = objectUrls.get(hash);
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      objectUrls.delete(hash);
+      objectUrlHashes.delete(objectUrl);
+    }
+  }
+  return unreferenced.length;
+};
@@ -0,0 +1,241 @@
+/**
+ * Utility functions for diffing and merging rich text (HTML) content
+ */
+
+// Above this many cells the LCS table gets too large to build in the browser,
+// so the changed middle section is treated as a single replaced block instead
+const MAX_LCS_CELLS = 4_000_000;
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  tokens: string[];
+}
+
+export interface MergeResult {
+  html: string;
+  hasConflicts: boolean;
+}
+
+/**
+ * Split HTML into tags, words and runs of whitespace so diffs happen at word level
+ * without ever cutting through a tag
+ * @param html The HTML to tokenize
+ * @returns The list of tokens, which join back into the original string
+ */
+export const tokenizeHtml = (html: string): string[] => {
+  return html.match(/<[^>]*>|[^<\s]+|\s+/g) || [];
+};
+
+/**
+ * Find the longest common subsequence between two token lists
+ * @returns For each index in `a`, the matching index in `b` or -1
+ */
+const matchTokens = (a: string[], b: string[]): number[] => {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  // Match the common prefix and suffix directly, they're usually most of the document
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows === 0 || cols === 0 || (rows + 1) * (cols + 1) > MAX_LCS_CELLS) {
+    return matches;
+  }
+
+  // Classic dynamic programming table over the changed middle section
+  const width = cols + 1;
+  const table = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i * width + j] = a[start + i] === b[start + j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Compute a token-level diff between two token lists
+ * @param a The original tokens
+ * @param b The changed tokens
+ * @returns Consecutive runs of equal, deleted and inserted tokens
+ */
+export const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+  const matches = matchTokens(a, b);
+  const parts: DiffPart[] = [];
+
+  const push = (op: DiffOp, token: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.tokens.push(token);
+    } else {
+      parts.push({ op, tokens: [token] });
+    }
+  };
+
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] === -1) {
+      push('delete', a[i]);
+      continue;
+    }
+    while (j < matches[i]) {
+      push('insert', b[j++]);
+    }
+    push('equal', a[i]);
+    j++;
+  }
+  while (j < b.length) {
+    push('insert', b[j++]);
+  }
+
+  return parts;
+};
+
+const sameTokens = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((token, index) => token === b[index]);
+};
+
+/**
+ * Merge two edited versions of the same HTML against their common ancestor (diff3).
+ * Regions changed on only one side are taken from that side. Regions changed
+ * differently on both sides are kept twice, local first, and flagged as conflicts.
+ * @param base The last version both sides agreed on
+ * @param local The version edited on this device
+ * @param remote The version edited on another device
+ * @returns The merged HTML and whether any region needed both versions kept
+ */
+export const threeWayMerge = (base: string, local: string, remote: string): MergeResult => {
+  const o = tokenizeHtml(base);
+  const a = tokenizeHtml(local);
+  const b = tokenizeHtml(remote);
+  const matchA = matchTokens(o, a);
+  const matchB = matchTokens(o, b);
+
+  const merged: string[] = [];
+  let hasConflicts = false;
+
+  const resolve = (chunkO: string[], chunkA: string[], chunkB: string[]) => {
+    if (sameTokens(chunkA, chunkO)) {
+      merged.push(...chunkB);
+    } else if (sameTokens(chunkB, chunkO) || sameTokens(chunkA, chunkB)) {
+      merged.push(...chunkA);
+    } else {
+      merged.push(...chunkA, ...chunkB);
+      hasConflicts = true;
+    }
+  };
+
+  let i = 0;
+  let ia = 0;
+  let ib = 0;
+  while (i < o.length || ia < a.length || ib < b.length) {
+    // Copy the run of base tokens that both sides kept in place
+    let stable = 0;
+    while (
+      i + stable < o.length &&
+      matchA[i + stable] === ia + stable &&
+      matchB[i + stable] === ib + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      merged.push(...o.slice(i, i + stable));
+      i += stable;
+      ia += stable;
+      ib += stable;
+      continue;
+    }
+
+    // Find the next base token that both sides still have
+    let next = i;
+    while (next < o.length && (matchA[next] === -1 || matchB[next] === -1)) {
+      next++;
+    }
+
+    if (next === o.length) {
+      resolve(o.slice(i), a.slice(ia), b.slice(ib));
+      break;
+    }
+
+    resolve(o.slice(i, next), a.slice(ia, matchA[next]), b.slice(ib, matchB[next]));
+    i = next;
+    ia = matchA[next];
+    ib = matchB[next];
+  }
+
+  return { html: merged.join(''), hasConflicts };
+};
+
+// Wrap the text in a run of changed tokens in one element, keeping or dropping its tags
+const markChange = (tag: 'ins' | 'del', tokens: string[], keepTags: boolean): string => {
+  let html = '';
+  let text = '';
+  const flush = () => {
+    html += text.trim() ? `<${tag}>${text}</${tag}>` : text;
+    text = '';
+  };
+
+  for (const token of tokens) {
+    if (token.startsWith('<')) {
+      flush();
+      if (keepTags) html += token;
+    } else {
+      text += token;
+    }
+  }
+  flush();
+  return html;
+};
+
+/**
+ * Mark up the word-level differences between two versions of some HTML
+ * @param before The older HTML
+ * @param after The newer HTML
+ * @returns The newer HTML with added words in <ins> and removed words in <del>. Removed
+ * tags are left out so the markup stays well formed.
+ */
+export const diffHtml = (before: string, after: string): string => {
+  return diffTokens(tokenizeHtml(before), tokenizeHtml(after))
+    .map(part => {
+      switch (part.op) {
+        case 'insert':
+          return markChange('ins', part.tokens, true);
+        case 'delete':
+          return markChange('del', part.tokens, false);
+        default:
+          return part.tokens.join('');
+      }
+    })
+    .join('');
+};
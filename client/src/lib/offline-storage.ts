@@ -1,4 +1,5 @@
 import localForage from 'localforage';
+import { createId, type EntityId } from '@shared/ids';
 
 // Set up indexedDB stores
 const stores = {
@@ -10,6 +11,18 @@ const stores = {
     name: 'socialHub',
     storeName: 'journals'
   }),
+  notebooks: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'notebooks'
+  }),
+  templates: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'templates'
+  }),
+  trackers: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'trackers'
+  }),
   documents: localForage.createInstance({
     name: 'socialHub',
     storeName: 'documents'
@@ -25,19 +38,50 @@ const stores = {
   userCache: localForage.createInstance({
     name: 'socialHub',
     storeName: 'userCache'
+  }),
+  conflicts: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'conflicts'
+  }),
+  syncLog: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'syncLog'
+  }),
+  deviceSync: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'deviceSync'
+  }),
+  revisions: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'revisions'
+  }),
+  // Attached files by content hash, see media-store.ts
+  media: localForage.createInstance({
+    name: 'socialHub',
+    storeName: 'media'
   })
 };
 
+type StoreType = keyof typeof stores;
+
+// A single put or delete to be committed together with others
+export interface StoreWrite {
+  store: StoreType;
+  key: string;
+  value?: any;
+  remove?: boolean;
+}
+
 // General type for all data items with a unique ID
 interface OfflineItem {
-  id?: number;
+  id?: EntityId;
   [key: string]: any;
 }
 
 // Interface for queued actions
 export interface QueuedAction {
   id: string;
-  entity: 'note' | 'journal' | 'document' | 'post';
+  entity: 'note' | 'journal' | 'notebook' | 'template' | 'tracker' | 'document' | 'post' | 'revision';
   action: 'create' | 'update' | 'delete';
   timestamp: number;
   data: any;
@@ -45,39 +89,153 @@ export interface QueuedAction {
   attempts: number;
 }
 
+// Two diverging copies of the same entity waiting for the user to pick or merge
+export interface SyncConflict {
+  id: string;
+  entity: QueuedAction['entity'];
+  entityId: EntityId;
+  local: any;
+  remote: any;
+  // HTML of the last version both copies shared, if known, for three-way merging
+  baseHtml: string | null;
+  detectedAt: number;
+}
+
+// Told about every item written to or removed from a store, so in-memory views of the
+// data (such as the search index) can follow along without rereading everything
+type StoreChangeListener = (store: StoreType, key: string, value: any | null) => void;
+
+const storeChangeListeners = new Set<StoreChangeListener>();
+
+export function onStoreChange(listener: StoreChangeListener): () => void {
+  storeChangeListeners.add(listener);
+  return () => {
+    storeChangeListeners.delete(listener);
+  };
+}
+
+// Report a write that has landed. Called by every function here that writes, and by
+// the sync code that writes server copies straight into the stores.
+export function notifyStoreChange(store: StoreType, key: string, value: any | null): void {
+  storeChangeListeners.forEach(listener => {
+    try {
+      listener(store, key, value);
+    } catch (error) {
+      console.error('Error in store change listener:', error);
+    }
+  });
+}
+
+// Fields added to stored items to track their local sync state
+const OFFLINE_META_FIELDS = ['_offline', '_baseHtml', '_lastModified', '_synced', '_syncedAt'];
+
+// Wrap an item as a pending local change, keeping track of the last server copy
+export function toOfflineRecord<T extends OfflineItem>(item: T, existing: any | null): T {
+  // Remember the last copy we got from the server so conflicting edits can be merged
+  const baseHtml = existing && !existing._offline
+    ? existing.formattedContent?.html ?? existing.content ?? null
+    : existing?._baseHtml ?? null;
+  
+  return {
+    ...item,
+    _offline: true,
+    _baseHtml: baseHtml,
+    _lastModified: Date.now()
+  };
+}
+
+// Remove the sync bookkeeping fields from a stored item
+export function stripOfflineMeta<T>(item: T): T {
+  const clean: any = { ...item };
+  for (const field of OFFLINE_META_FIELDS) {
+    delete clean[field];
+  }
+  return clean;
+}
+
+// Commit writes to several stores in a single IndexedDB transaction, so either all of
+// them land or none do
+export async function commitWrites(writes: StoreWrite[]): Promise<void> {
+  if (writes.length === 0) return;
+  
+  const storeTypes = Array.from(new Set(writes.map(write => write.store)));
+  
+  // Make sure localforage has created every object store we're about to touch
+  await Promise.all(storeTypes.map(type => stores[type].ready()));
+  
+  // Other drivers (localStorage, WebSQL) can't span stores, so write one at a time
+  if (stores[storeTypes[0]].driver() !== localForage.INDEXEDDB) {
+    for (const write of writes) {
+      if (write.remove) {
+        await stores[write.store].removeItem(write.key);
+      } else {
+        await stores[write.store].setItem(write.key, write.value);
+      }
+    }
+    writes.forEach(write => notifyStoreChange(write.store, write.key, write.remove ? null : write.value));
+    return;
+  }
+  
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(stores[storeTypes[0]].config().name as string);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const objectStoreName = (type: StoreType) => stores[type].config().storeName as string;
+      const transaction = db.transaction(storeTypes.map(objectStoreName), 'readwrite');
+      
+      for (const write of writes) {
+        const objectStore = transaction.objectStore(objectStoreName(write.store));
+        if (write.remove) {
+          objectStore.delete(write.key);
+        } else {
+          objectStore.put(write.value, write.key);
+        }
+      }
+      
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+  writes.forEach(write => notifyStoreChange(write.store, write.key, write.remove ? null : write.value));
+}
+
 // Save item to offline storage
 export async function saveOfflineItem<T extends OfflineItem>(
-  storeType: keyof typeof stores, 
+  storeType: StoreType, 
   item: T
 ): Promise<T> {
   if (!item.id) {
-    // For new items without an ID, generate a temporary one
-    // Real ID will be assigned when synced
-    item.id = Date.now();
+    // IDs are generated here and kept by the server, so they never need remapping
+    item.id = createId();
   }
   
   // Mark item as being stored offline
-  const offlineItem = {
-    ...item,
-    _offline: true,
-    _lastModified: Date.now()
-  };
+  const existing = await stores[storeType].getItem<any>(String(item.id));
+  const offlineItem = toOfflineRecord(item, existing);
   
   await stores[storeType].setItem(String(item.id), offlineItem);
+  notifyStoreChange(storeType, String(item.id), offlineItem);
   return offlineItem as T;
 }
 
 // Get item from offline storage
 export async function getOfflineItem<T>(
-  storeType: keyof typeof stores,
-  id: number | string
+  storeType: StoreType,
+  id: EntityId
 ): Promise<T | null> {
   return stores[storeType].getItem(String(id));
 }
 
 // Get all items from a specific store
 export async function getAllOfflineItems<T>(
-  storeType: keyof typeof stores
+  storeType: StoreType
 ): Promise<T[]> {
   const items: T[] = [];
   
@@ -90,22 +248,28 @@ export async function getAllOfflineItems<T>(
 
 // Delete item from offline storage
 export async function deleteOfflineItem(
-  storeType: keyof typeof stores,
-  id: number | string
+  storeType: StoreType,
+  id: EntityId
 ): Promise<boolean> {
   await stores[storeType].removeItem(String(id));
+  notifyStoreChange(storeType, String(id), null);
   return true;
 }
 
-// Add action to sync queue
-export async function addToSyncQueue(action: Omit<QueuedAction, 'id' | 'timestamp' | 'synced' | 'attempts'>): Promise<QueuedAction> {
-  const queueItem: QueuedAction = {
+// Build a sync queue entry for an action
+export function createQueuedAction(action: Omit<QueuedAction, 'id' | 'timestamp' | 'synced' | 'attempts'>): QueuedAction {
+  return {
     id: `${action.entity}_${action.action}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
     timestamp: Date.now(),
     synced: false,
     attempts: 0,
     ...action
   };
+}
+
+// Add action to sync queue
+export async function addToSyncQueue(action: Omit<QueuedAction, 'id' | 'timestamp' | 'synced' | 'attempts'>): Promise<QueuedAction> {
+  const queueItem = createQueuedAction(action);
   
   await stores.queue.setItem(queueItem.id, queueItem);
   return queueItem;
@@ -154,6 +318,34 @@ export async function clearSyncedQueueItems(olderThanMs: number = 7 * 24 * 60 *
   });
 }
 
+// Record a conflict, replacing any earlier unresolved one for the same entity
+export async function saveConflict(conflict: Omit<SyncConflict, 'id' | 'detectedAt'>): Promise<SyncConflict> {
+  const item: SyncConflict = {
+    ...conflict,
+    id: `${conflict.entity}_${conflict.entityId}`,
+    detectedAt: Date.now()
+  };
+  
+  await stores.conflicts.setItem(item.id, item);
+  return item;
+}
+
+// Get all unresolved conflicts, oldest first
+export async function getConflicts(): Promise<SyncConflict[]> {
+  const conflicts: SyncConflict[] = [];
+  
+  await stores.conflicts.iterate((value: SyncConflict) => {
+    conflicts.push(value);
+  });
+  
+  return conflicts.sort((a, b) => a.detectedAt - b.detectedAt);
+}
+
+// Remove a conflict once it has been resolved
+export async function removeConflict(id: string): Promise<void> {
+  await stores.conflicts.removeItem(id);
+}
+
 // Cache user data for offline access
 export async function cacheUserData(userData: any): Promise<void> {
   await stores.userCache.setItem('currentUser', {
@@ -173,4 +365,5 @@ export async function clearCachedUserData(): Promise<void> {
 }
 
 // Export the stores for direct access if needed
-export { stores };
\ No newline at end of file
+export { stores };
+export type { StoreType };
\ No newline at end of file
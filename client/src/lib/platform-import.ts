@@ -0,0 +1,411 @@
+/**
+ * Importers for the data exports the platforms themselves offer: the X (Twitter) archive's
+ * tweets.js, LinkedIn's Shares.csv and WhatsApp's "Export chat" .txt. Each is read into
+ * posts under the right platform key with its original date, and importing the same
+ * export again only adds what isn't here yet.
+ */
+import JSZip from 'jszip';
+import { type Post, type User } from '@shared/schema';
+import { postRepository } from './repository';
+import { createPost } from './storage';
+import { storeMedia, getMedia, isMediaReference } from './media-store';
+
+export type ImportPlatform = 'twitter' | 'linkedin' | 'whatsapp';
+
+export interface ImportedPost {
+  text: string;
+  createdAt: Date;
+  // Images and videos, as media store references when the export included the files
+  mediaUrls: string[];
+  // Who sent it, for chats; everything else in an export is the user's own
+  author?: string;
+}
+
+interface ExportFile {
+  name: string;
+  read(): Promise<string>;
+  // Add the file to the media store, giving its reference
+  storeMedia(): Promise<string>;
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  '3gp': 'video/3gpp',
+  webm: 'video/webm'
+};
+
+const getMediaType = (name: string): string | undefined =>
+  MEDIA_TYPES[name.split('.').pop()?.toLowerCase() || ''];
+
+const baseName = (path: string): string => path.split('/').pop() || path;
+
+// Files picked on their own or unpacked from the zips they came in
+const listExportFiles = async (files: File[]): Promise<ExportFile[]> => {
+  const listed: ExportFile[] = [];
+
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const archive = await JSZip.loadAsync(file);
+      for (const entry of Object.values(archive.files)) {
+        if (entry.dir || entry.name.startsWith('__MACOSX/')) continue;
+        listed.push({
+          name: entry.name,
+          read: () => entry.async('string'),
+          storeMedia: async () => storeMedia(
+            new Blob([await entry.async('arraybuffer')], { type: getMediaType(entry.name) || 'application/octet-stream' }),
+            baseName(entry.name)
+          )
+        });
+      }
+    } else {
+      listed.push({
+        name: file.name,
+        read: () => file.text(),
+        storeMedia: () => storeMedia(file)
+      });
+    }
+  }
+
+  return listed;
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "Wed Oct 10 20:19:24 +0000 2018"
+const parseTwitterDate = (value: string): Date | null => {
+  const match = value.match(/^\w{3} (\w{3}) (\d{1,2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2}) (\d{4})$/);
+  if (!match) return null;
+  const [, month, day, hours, minutes, seconds, sign, offsetHours, offsetMinutes, year] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex < 0) return null;
+
+  const offset = (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes));
+  return new Date(Date.UTC(Number(year), monthIndex, Number(day), Number(hours), Number(minutes) - offset, Number(seconds)));
+};
+
+/**
+ * Read the tweets out of an X archive's tweets.js (tweet.js in older archives, with
+ * tweets-part1.js and so on for big ones). Retweets are left out, t.co links are expanded
+ * and photos and videos are taken from the archive's tweets_media folder when it's there.
+ */
+const parseTwitterArchive = async (files: ExportFile[]): Promise<ImportedPost[]> => {
+  const tweetFiles = files.filter(file => /(^|\/)tweets?(-part\d+)?\.js$/.test(file.name));
+  if (tweetFiles.length === 0) {
+    throw new Error('No tweets.js found. Pick it from the data folder of your X archive, or the archive zip itself.');
+  }
+  const mediaFiles = files.filter(file => /(^|\/)tweets?_media\//.test(file.name));
+  const posts: ImportedPost[] = [];
+
+  for (const file of tweetFiles) {
+    const source = await file.read();
+    // The file assigns the array to window.YTD.tweets.part0
+    let items: any[];
+    try {
+      items = JSON.parse(source.slice(source.indexOf('=') + 1));
+    } catch {
+      throw new Error(`${baseName(file.name)} is not a tweets file from an X archive.`);
+    }
+
+    for (const item of items) {
+      const tweet = item?.tweet ?? item;
+      const createdAt = typeof tweet?.created_at === 'string' ? parseTwitterDate(tweet.created_at) : null;
+      let text: string = typeof tweet?.full_text === 'string' ? tweet.full_text : tweet?.text;
+      if (!createdAt || typeof text !== 'string' || text.startsWith('RT @')) continue;
+
+      for (const url of tweet.entities?.urls ?? []) {
+        if (url?.url && url.expanded_url) text = text.split(url.url).join(url.expanded_url);
+      }
+
+      const mediaUrls: string[] = [];
+      const media: any[] = tweet.extended_entities?.media ?? tweet.entities?.media ?? [];
+      for (const entry of media) {
+        // The media's own t.co link points back at the tweet
+        if (entry?.url) text = text.split(entry.url).join('');
+      }
+
+      const archived = mediaFiles.filter(mediaFile => baseName(mediaFile.name).startsWith(`${tweet.id_str}-`));
+      if (archived.length > 0) {
+        for (const mediaFile of archived) {
+          if (getMediaType(mediaFile.name)) mediaUrls.push(await mediaFile.storeMedia());
+        }
+      } else {
+        for (const entry of media) {
+          if (entry?.type === 'photo' && entry.media_url_https) mediaUrls.push(entry.media_url_https);
+        }
+      }
+
+      posts.push({ text: decodeEntities(text).trim(), createdAt, mediaUrls });
+    }
+  }
+
+  return posts;
+};
+
+// Rows of a CSV file, with quoted fields that may hold commas, quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Read the posts out of the Shares.csv in a LinkedIn data export. Dates there are in UTC,
+ * shared links are added to the end of the text and media is kept as the links LinkedIn gives.
+ */
+const parseLinkedInShares = async (files: ExportFile[]): Promise<ImportedPost[]> => {
+  const sharesFile = files.find(file => /(^|\/)Shares\.csv$/i.test(file.name));
+  if (!sharesFile) {
+    throw new Error('No Shares.csv found. Pick it from your LinkedIn data export, or the export zip itself.');
+  }
+
+  const [header, ...rows] = parseCsv((await sharesFile.read()).replace(/^\uFEFF/, ''));
+  const column = (name: string) => header?.findIndex(cell => cell.trim().toLowerCase() === name.toLowerCase()) ?? -1;
+  const dateColumn = column('Date');
+  const textColumn = column('ShareCommentary');
+  if (dateColumn < 0 || textColumn < 0) {
+    throw new Error('Shares.csv is missing its Date or ShareCommentary column.');
+  }
+  const linkColumn = column('SharedUrl');
+  const mediaColumn = column('MediaUrl');
+
+  const posts: ImportedPost[] = [];
+  for (const row of rows) {
+    const createdAt = new Date(`${row[dateColumn]?.trim().replace(' ', 'T')}Z`);
+    if (isNaN(createdAt.getTime())) continue;
+
+    const link = linkColumn >= 0 ? row[linkColumn]?.trim() : '';
+    const mediaUrl = mediaColumn >= 0 ? row[mediaColumn]?.trim() : '';
+    const text = [row[textColumn]?.trim(), link].filter(Boolean).join('\n\n');
+    if (!text && !mediaUrl) continue;
+
+    posts.push({ text, createdAt, mediaUrls: mediaUrl ? [mediaUrl] : [] });
+  }
+
+  return posts;
+};
+
+// The line a WhatsApp message starts with, in Android's "31/12/2020, 21:15 - Name: text"
+// and iOS's "[31/12/2020, 21:15:42] Name: text" shapes. Locales change the date order,
+// separators, year length and 12 or 24 hour clock.
+const WHATSAPP_MESSAGE_LINE = /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),? (\d{1,2})[:.](\d{2})(?:[:.](\d{2}))? ?([AaPp])?\.? ?(?:[Mm]\.?)?\]?(?: [-–])? (.*)$/;
+
+// Stand-ins for media that wasn't exported, and messages with nothing left to import
+const WHATSAPP_OMITTED = /^(<Media omitted>|(image|video|audio|GIF|sticker|document|Contact card) omitted|This message was deleted\.?|You deleted this message\.?|<This message was edited>)$/i;
+
+interface WhatsAppLine {
+  parts: number[];
+  hours: number;
+  minutes: number;
+  seconds: number;
+  meridiem?: string;
+  body: string;
+}
+
+/**
+ * Read the messages out of a WhatsApp "Export chat" .txt, from Android or iOS. Exports made
+ * with media are a zip holding the chat and its files; the files a message refers to are
+ * attached to it and placeholders for media that wasn't exported are dropped.
+ */
+const parseWhatsAppChat = async (files: ExportFile[]): Promise<ImportedPost[]> => {
+  const chatFile = files.find(file => /(^|\/)_chat\.txt$/.test(file.name)) ??
+    files.find(file => /\.txt$/i.test(file.name));
+  if (!chatFile) {
+    throw new Error('No chat found. Pick the .txt (or the zip) that WhatsApp\'s "Export chat" made.');
+  }
+
+  // Direction marks and narrow spaces show up around dates and names in some locales
+  const source = (await chatFile.read()).replace(/[\u200E\u200F\uFEFF]/g, '').replace(/[\u202F\u00A0]/g, ' ');
+  const lines: WhatsAppLine[] = [];
+  for (const line of source.split(/\r?\n/)) {
+    const match = line.match(WHATSAPP_MESSAGE_LINE);
+    if (match) {
+      const [, a, b, c, hours, minutes, seconds, meridiem, body] = match;
+      lines.push({
+        parts: [a, b, c].map(Number),
+        hours: Number(hours),
+        minutes: Number(minutes),
+        seconds: Number(seconds || 0),
+        meridiem: meridiem?.toLowerCase(),
+        body
+      });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].body += `\n${line}`;
+    }
+  }
+  if (lines.length === 0) {
+    throw new Error(`${baseName(chatFile.name)} is not a WhatsApp chat export.`);
+  }
+
+  // The date order is whatever the phone's locale used; work it out from the whole chat
+  const yearFirst = lines.some(line => line.parts[0] > 31);
+  const monthFirst = !yearFirst && !lines.some(line => line.parts[0] > 12) &&
+    (lines.some(line => line.parts[1] > 12) || lines.some(line => line.meridiem));
+
+  const mediaFiles = new Map(files.map(file => [baseName(file.name), file]));
+  const posts: ImportedPost[] = [];
+
+  for (const line of lines) {
+    const separator = line.body.indexOf(': ');
+    // Lines without a sender are notices like "Messages are end-to-end encrypted"
+    if (separator < 0) continue;
+
+    const author = line.body.slice(0, separator).trim();
+    let text = line.body.slice(separator + 2).trim();
+    const mediaUrls: string[] = [];
+
+    // iOS: "<attached: 00000012-PHOTO-2020-12-31-21-15-42.jpg>"; Android: "IMG-20201231-WA0001.jpg (file attached)"
+    const attachments = [
+      ...Array.from(text.matchAll(/<attached: ([^>]+)>/g), match => match[1]),
+      ...Array.from(text.matchAll(/^(\S+\.\w{2,4}) \(file attached\)$/gm), match => match[1])
+    ];
+    text = text.replace(/<attached: [^>]+>/g, '').replace(/^\S+\.\w{2,4} \(file attached\)$/gm, '').trim();
+    for (const name of attachments) {
+      const mediaFile = mediaFiles.get(name.trim());
+      if (mediaFile && getMediaType(name)) mediaUrls.push(await mediaFile.storeMedia());
+    }
+
+    if (WHATSAPP_OMITTED.test(text)) text = '';
+    if (!text && mediaUrls.length === 0) continue;
+
+    const [first, second, third] = line.parts;
+    const [year, month, day] = yearFirst ? [first, second, third]
+      : monthFirst ? [third, first, second]
+      : [third, second, first];
+    let hours = line.hours % (line.meridiem ? 12 : 24);
+    if (line.meridiem === 'p') hours += 12;
+
+    posts.push({
+      text,
+      // Chats are exported in the phone's local time
+      createdAt: new Date(year < 100 ? 2000 + year : year, month - 1, day, hours, line.minutes, line.seconds),
+      mediaUrls,
+      author
+    });
+  }
+
+  return posts;
+};
+
+const parsers: Record<ImportPlatform, (files: ExportFile[]) => Promise<ImportedPost[]>> = {
+  twitter: parseTwitterArchive,
+  linkedin: parseLinkedInShares,
+  whatsapp: parseWhatsAppChat
+};
+
+/**
+ * Read a platform's data export, picked as the files themselves or the zip they came in
+ * @throws If the export's main file is missing or can't be read
+ */
+export const readPlatformExport = async (platform: ImportPlatform, files: File[]): Promise<ImportedPost[]> => {
+  const posts = await parsers[platform](await listExportFiles(files));
+  return posts.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+// Posts are the same when they went out at the same moment with the same text
+const getImportKey = (createdAt: Date | string, text: string): string =>
+  `${new Date(createdAt).getTime()}|${text.replace(/\s+/g, ' ').trim()}`;
+
+/**
+ * Leave out the posts that were imported before. Posts in the trash count, so importing
+ * again doesn't bring back what was deleted.
+ */
+export const findNewPosts = async (platform: ImportPlatform, posts: ImportedPost[]): Promise<ImportedPost[]> => {
+  const existing = new Set(
+    (await postRepository.getAll())
+      .filter(post => post.platform === platform)
+      .map(post => getImportKey(post.createdAt, post.content))
+  );
+
+  return posts.filter(post => {
+    const key = getImportKey(post.createdAt, post.text);
+    if (existing.has(key)) return false;
+    existing.add(key);
+    return true;
+  });
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isVideo = async (url: string): Promise<boolean> => isMediaReference(url)
+  ? !!(await getMedia(url))?.type.startsWith('video/')
+  : /\.(mp4|mov|webm)$/i.test(url);
+
+const toPostHtml = async (post: ImportedPost): Promise<string> => {
+  let media = '';
+  for (const url of post.mediaUrls) {
+    media += await isVideo(url)
+      ? `<video controls src="${escapeHtml(url)}" style="max-width: 100%; margin-bottom: 10px;"></video>`
+      : `<img src="${escapeHtml(url)}" alt="Post image" style="max-width: 100%; margin-bottom: 10px;" />`;
+  }
+  const text = post.text ? `<p>${escapeHtml(post.text).replace(/\n/g, '<br>')}</p>` : '';
+  return `${media}${text}`;
+};
+
+/**
+ * Add imported posts to a platform, skipping the ones already there
+ * @returns The posts that were added
+ */
+export const importPosts = async (platform: ImportPlatform, posts: ImportedPost[], user: User): Promise<Post[]> => {
+  const created: Post[] = [];
+  for (const post of await findNewPosts(platform, posts)) {
+    created.push(await createPost(platform, {
+      userId: user.id,
+      platform,
+      content: post.text,
+      formattedContent: {
+        html: await toPostHtml(post),
+        userName: user.displayName || user.username || '',
+        userDesignation: user.designation || '',
+        userProfilePic: user.profilePicture || ''
+      },
+      mediaUrls: post.mediaUrls,
+      tags: [],
+      createdAt: post.createdAt
+    }));
+  }
+  return created;
+};
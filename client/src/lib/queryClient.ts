@@ -8,17 +8,39 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recover the status code and JSON body from an error thrown by throwIfResNotOk
+export function parseApiError(error: unknown): { status: number; body: any } | null {
+  if (!(error instanceof Error)) return null;
+  
+  const match = error.message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return null;
+  
+  let body: any = match[2];
+  try {
+    body = JSON.parse(match[2]);
+  } catch {
+    // Not JSON, keep the raw text
+  }
+  
+  return { status: parseInt(match[1]), body };
+}
+
 // Determine if we're online based on navigator.onLine
 function isNavigatorOnline(): boolean {
   return typeof navigator !== 'undefined' && navigator.onLine;
 }
 
 // Function to extract entity type from URL
-function getEntityTypeFromUrl(url: string): 'note' | 'journal' | 'document' | 'post' | null {
+function getEntityTypeFromUrl(url: string): 'note' | 'journal' | 'notebook' | 'template' | 'tracker' | 'document' | 'post' | 'revision' | null {
   if (url.includes('/api/notes')) return 'note';
+  // Before journal entries, whose prefix they share
+  if (url.includes('/api/journal-templates')) return 'template';
+  if (url.includes('/api/journal-trackers')) return 'tracker';
   if (url.includes('/api/journal')) return 'journal';
+  if (url.includes('/api/notebooks')) return 'notebook';
   if (url.includes('/api/documents')) return 'document';
   if (url.includes('/api/posts')) return 'post';
+  if (url.includes('/api/revisions')) return 'revision';
   return null;
 }
 
@@ -27,8 +49,12 @@ function getStoreTypeFromEntity(entity: string): string {
   switch (entity) {
     case 'note': return 'notes';
     case 'journal': return 'journals';
+    case 'notebook': return 'notebooks';
+    case 'template': return 'templates';
+    case 'tracker': return 'trackers';
     case 'document': return 'documents';
     case 'post': return 'posts';
+    case 'revision': return 'revisions';
     default: return '';
   }
 }
@@ -140,7 +166,7 @@ export const getQueryFn: <T>(options: {
           
           // If it's a single item endpoint (/api/notes/:id), 
           // extract the ID and return that specific item
-          else if (url.match(/\/api\/\w+\/\d+$/)) {
+          else if (url.match(/\/api\/\w+\/[\w-]+$/)) {
             const id = url.split('/').pop();
             const item = await getAllOfflineItems(storeType as any);
             return item.find((i: any) => String(i.id) === id) || null;
@@ -187,7 +213,7 @@ export const getQueryFn: <T>(options: {
           
           // If it's a single item endpoint (/api/notes/:id), 
           // extract the ID and return that specific item
-          else if (url.match(/\/api\/\w+\/\d+$/)) {
+          else if (url.match(/\/api\/\w+\/[\w-]+$/)) {
             const id = url.split('/').pop();
             const item = await getAllOfflineItems(storeType as any);
             return item.find((i: any) => String(i.id) === id) || null;
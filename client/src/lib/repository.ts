@@ -0,0 +1,306 @@
+import localforage from 'localforage';
+import { type Post, type Note, type JournalEntry, type Document, type Revision, type Notebook } from '@shared/schema';
+import { createId, type EntityId } from '@shared/ids';
+import {
+  stores,
+  commitWrites,
+  createQueuedAction,
+  toOfflineRecord,
+  stripOfflineMeta,
+  type QueuedAction,
+  type StoreType,
+  type StoreWrite
+} from './offline-storage';
+import { createSyncRecord, type SyncRecord } from './device-sync';
+import { encryptForSync, decryptFromSync } from './encryption';
+import type { JournalTemplate } from './journal-templates';
+import type { JournalTrackerRecord } from './journal-trackers';
+
+type EntityType = QueuedAction['entity'];
+
+interface Entity {
+  id: EntityId;
+}
+
+// Typed access to one kind of entity. Every write lands in local storage, the sync
+// queue and the device sync log in one transaction.
+export interface Repository<T extends Entity> {
+  getAll(): Promise<T[]>;
+  getById(id: EntityId): Promise<T | null>;
+  // Items get a new ID unless given one, for items other data refers to by ID
+  create(data: Omit<T, 'id'>, id?: EntityId): Promise<T>;
+  update(id: EntityId, updates: Partial<T>): Promise<T | null>;
+  delete(id: EntityId): Promise<boolean>;
+}
+
+// Key in the deviceSync store marking that the pre-repository databases were migrated
+const LEGACY_MIGRATION_FLAG = 'legacyStorageMigrated';
+// Key in the deviceSync store marking that numeric IDs were replaced with entity IDs
+const ENTITY_ID_MIGRATION_FLAG = 'entityIdsMigrated';
+
+const entityStores: Array<{ entity: EntityType; storeType: StoreType }> = [
+  { entity: 'post', storeType: 'posts' },
+  { entity: 'note', storeType: 'notes' },
+  { entity: 'journal', storeType: 'journals' },
+  { entity: 'notebook', storeType: 'notebooks' },
+  { entity: 'template', storeType: 'templates' },
+  { entity: 'tracker', storeType: 'trackers' },
+  { entity: 'document', storeType: 'documents' },
+  { entity: 'revision', storeType: 'revisions' }
+];
+
+// Build the writes that queue a change for the server and log it for other devices.
+// Anything that leaves the device is encrypted first when end-to-end encryption is on.
+async function changeWrites(entity: EntityType, action: QueuedAction['action'], data: any): Promise<StoreWrite[]> {
+  const payload = await encryptForSync(entity, data);
+  const queued = createQueuedAction({ entity, action, data: payload });
+  const record = await createSyncRecord(entity, data.id, action, payload);
+
+  return [
+    { store: 'queue', key: queued.id, value: queued },
+    { store: 'syncLog', key: record.id, value: record }
+  ];
+}
+
+function createRepository<T extends Entity>(entity: EntityType, storeType: StoreType): Repository<T> {
+  const store = stores[storeType];
+
+  const getById = async (id: EntityId): Promise<T | null> => {
+    await migrateLegacyStorage();
+    const item = await store.getItem<T>(String(id));
+    return item ? stripOfflineMeta(item) : null;
+  };
+
+  return {
+    async getAll() {
+      await migrateLegacyStorage();
+      const items: T[] = [];
+      await store.iterate((value: T) => {
+        items.push(stripOfflineMeta(value));
+      });
+      return items;
+    },
+
+    getById,
+
+    async create(data, id = createId()) {
+      await migrateLegacyStorage();
+      const item = { ...data, id } as T;
+
+      await commitWrites([
+        { store: storeType, key: String(item.id), value: toOfflineRecord(item, null) },
+        ...await changeWrites(entity, 'create', item)
+      ]);
+      return item;
+    },
+
+    async update(id, updates) {
+      await migrateLegacyStorage();
+      const existing = await store.getItem<T>(String(id));
+      if (!existing) return null;
+
+      const item = { ...stripOfflineMeta(existing), ...updates, id };
+      await commitWrites([
+        { store: storeType, key: String(id), value: toOfflineRecord(item, existing) },
+        ...await changeWrites(entity, 'update', item)
+      ]);
+      return item;
+    },
+
+    async delete(id) {
+      const existing = await getById(id);
+      if (!existing) return false;
+
+      await commitWrites([
+        { store: storeType, key: String(id), remove: true },
+        ...await changeWrites(entity, 'delete', existing)
+      ]);
+      return true;
+    }
+  };
+}
+
+export const postRepository = createRepository<Post>('post', 'posts');
+export const noteRepository = createRepository<Note>('note', 'notes');
+export const journalRepository = createRepository<JournalEntry>('journal', 'journals');
+export const notebookRepository = createRepository<Notebook>('notebook', 'notebooks');
+export const templateRepository = createRepository<JournalTemplate>('template', 'templates');
+export const trackerRepository = createRepository<JournalTrackerRecord>('tracker', 'trackers');
+export const documentRepository = createRepository<Document>('document', 'documents');
+export const revisionRepository = createRepository<Revision>('revision', 'revisions');
+
+// Queue every entity for upload again and reseal changes still waiting to be pushed.
+// Used after end-to-end encryption is turned on or off, or its key is rotated.
+export async function reuploadAll(): Promise<void> {
+  await migrateLegacyStorage();
+  const writes: StoreWrite[] = [];
+
+  const pending: QueuedAction[] = [];
+  await stores.queue.iterate((action: QueuedAction) => {
+    if (!action.synced) pending.push(action);
+  });
+  for (const action of pending) {
+    const data = await encryptForSync(action.entity, await decryptFromSync(action.entity, action.data));
+    writes.push({ store: 'queue', key: action.id, value: { ...action, data } });
+  }
+
+  const records: SyncRecord[] = [];
+  await stores.syncLog.iterate((record: SyncRecord) => {
+    if (record.data) records.push(record);
+  });
+  for (const record of records) {
+    const entity = record.entityType as EntityType;
+    const data = await encryptForSync(entity, await decryptFromSync(entity, record.data));
+    writes.push({ store: 'syncLog', key: record.id, value: { ...record, data } });
+  }
+
+  for (const { entity, storeType } of entityStores) {
+    const stored: any[] = [];
+    await stores[storeType].iterate((value: any) => {
+      stored.push(value);
+    });
+
+    for (const existing of stored) {
+      const item = stripOfflineMeta(existing);
+      writes.push(
+        { store: storeType, key: String(item.id), value: toOfflineRecord(item, existing) },
+        ...await changeWrites(entity, 'update', item)
+      );
+    }
+  }
+
+  await commitWrites(writes);
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+// Move data out of the localforage databases used before the repository layer existed,
+// then replace numeric IDs with entity IDs. Runs once per device; repositories wait for
+// it before touching their stores.
+export function migrateLegacyStorage(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = runLegacyMigration().then(runEntityIdMigration).catch(error => {
+      console.error('Error migrating legacy storage:', error);
+      // Try again on the next access rather than losing the old data
+      legacyMigration = null;
+    });
+  }
+  return legacyMigration;
+}
+
+async function runLegacyMigration(): Promise<void> {
+  if (await stores.deviceSync.getItem(LEGACY_MIGRATION_FLAG)) return;
+
+  const legacy = {
+    users: localforage.createInstance({ name: 'users' }),
+    posts: localforage.createInstance({ name: 'posts' }),
+    notes: localforage.createInstance({ name: 'notes' }),
+    journals: localforage.createInstance({ name: 'journals' }),
+    documents: localforage.createInstance({ name: 'documents' })
+  };
+
+  // Posts were stored as one array per platform key
+  const legacyPosts: Post[] = [];
+  await legacy.posts.iterate((platformPosts: Post[]) => {
+    if (Array.isArray(platformPosts)) {
+      legacyPosts.push(...platformPosts);
+    }
+  });
+
+  const legacyItems: Array<{ entity: EntityType; storeType: StoreType; items: Entity[] }> = [
+    { entity: 'post', storeType: 'posts', items: legacyPosts },
+    { entity: 'note', storeType: 'notes', items: await legacy.notes.getItem<Note[]>('notes') || [] },
+    { entity: 'journal', storeType: 'journals', items: await legacy.journals.getItem<JournalEntry[]>('entries') || [] },
+    { entity: 'document', storeType: 'documents', items: await legacy.documents.getItem<Document[]>('documents') || [] }
+  ];
+
+  const writes: StoreWrite[] = [];
+
+  for (const { entity, storeType, items } of legacyItems) {
+    // Legacy items never reached the server, so they all get fresh IDs
+    for (const legacyItem of items) {
+      const item = { ...legacyItem, id: createId() };
+      writes.push(
+        { store: storeType, key: item.id, value: toOfflineRecord(item, null) },
+        ...await changeWrites(entity, 'create', item)
+      );
+    }
+  }
+
+  // The device sync log used to be a single array in the deviceSync store
+  const legacySyncLog = await stores.deviceSync.getItem<SyncRecord[]>('syncLog');
+  if (legacySyncLog) {
+    for (const record of legacySyncLog) {
+      writes.push({ store: 'syncLog', key: record.id, value: record });
+    }
+    writes.push({ store: 'deviceSync', key: 'syncLog', remove: true });
+  }
+
+  const localProfile = await legacy.users.getItem('currentUser');
+  if (localProfile) {
+    writes.push({ store: 'userCache', key: 'localProfile', value: localProfile });
+  }
+
+  writes.push({ store: 'deviceSync', key: LEGACY_MIGRATION_FLAG, value: Date.now() });
+  await commitWrites(writes);
+
+  // Everything has been copied, so the old databases can go
+  for (const name of Object.keys(legacy)) {
+    await localforage.dropInstance({ name }).catch(error => {
+      console.warn(`Could not remove legacy database ${name}:`, error);
+    });
+  }
+}
+
+// Items stored before IDs were generated on the client have numeric IDs. Copies that
+// came from the server keep their number as a string, since the server migrated its
+// rows the same way. Local-only items get a fresh ID, along with their pending changes.
+async function runEntityIdMigration(): Promise<void> {
+  if (await stores.deviceSync.getItem(ENTITY_ID_MIGRATION_FLAG)) return;
+
+  const writes: StoreWrite[] = [];
+  const renamed = new Map<string, EntityId>();
+
+  for (const { entity, storeType } of entityStores) {
+    const items: any[] = [];
+    await stores[storeType].iterate((value: any) => {
+      if (typeof value?.id === 'number') items.push(value);
+    });
+
+    for (const item of items) {
+      const id = item._synced ? String(item.id) : createId();
+      if (id !== String(item.id)) {
+        renamed.set(`${entity}:${item.id}`, id);
+        writes.push({ store: storeType, key: String(item.id), remove: true });
+      }
+      writes.push({ store: storeType, key: id, value: { ...item, id } });
+    }
+  }
+
+  const renameId = (entity: string, id: unknown): EntityId =>
+    renamed.get(`${entity}:${id}`) ?? String(id);
+
+  await stores.queue.iterate((action: QueuedAction, key: string) => {
+    if (typeof action.data?.id === 'number') {
+      writes.push({
+        store: 'queue',
+        key,
+        value: { ...action, data: { ...action.data, id: renameId(action.entity, action.data.id) } }
+      });
+    }
+  });
+
+  await stores.syncLog.iterate((record: SyncRecord, key: string) => {
+    if (typeof record.entityId === 'number') {
+      const entityId = renameId(record.entityType, record.entityId);
+      writes.push({
+        store: 'syncLog',
+        key,
+        value: { ...record, entityId, data: record.data && { ...record.data, id: entityId } }
+      });
+    }
+  });
+
+  writes.push({ store: 'deviceSync', key: ENTITY_ID_MIGRATION_FLAG, value: Date.now() });
+  await commitWrites(writes);
+}
@@ -0,0 +1,120 @@
+/**
+ * Utility functions for revision history: earlier versions of notes and documents, kept
+ * as they're saved over. Revisions sync like any other entity and are never edited.
+ */
+import { type Note, type Document, type Revision, type RevisionEntityType, type EntityId } from '@shared/schema';
+import { noteRepository, documentRepository, revisionRepository, type Repository } from './repository';
+import { tokenizeHtml, diffTokens } from './merge-utils';
+
+// Saves closer together than this share one revision, so frequent saving doesn't bury
+// the history
+const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+// A save that removes at least this share of the words always gets a revision of its own
+const LARGE_DELETION_RATIO = 0.3;
+// Revisions kept per note or document; older ones are dropped
+const MAX_REVISIONS = 100;
+
+type VersionedEntity = Note | Document;
+
+const repositories: Record<RevisionEntityType, Repository<VersionedEntity>> = {
+  note: noteRepository,
+  document: documentRepository
+};
+
+export const getRevisionHtml = (item: Pick<VersionedEntity, 'content' | 'formattedContent'>): string =>
+  item.formattedContent?.html || item.content || '';
+
+const countWords = (tokens: string[]) => tokens.filter(token => !token.startsWith('<') && token.trim()).length;
+
+// Whether going from one version to the next throws away a large part of it
+const isLargeDeletion = (before: string, after: string): boolean => {
+  const beforeTokens = tokenizeHtml(before);
+  const total = countWords(beforeTokens);
+  if (total === 0) return false;
+
+  const deleted = diffTokens(beforeTokens, tokenizeHtml(after))
+    .filter(part => part.op === 'delete')
+    .reduce((count, part) => count + countWords(part.tokens), 0);
+  return deleted / total >= LARGE_DELETION_RATIO;
+};
+
+/**
+ * Get the revisions of a note or document, newest first
+ */
+export const getRevisions = async (entityType: RevisionEntityType, entityId: EntityId): Promise<Revision[]> => {
+  const revisions = (await revisionRepository.getAll())
+    .filter(revision => revision.entityType === entityType && revision.entityId === entityId);
+  return revisions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+/**
+ * Keep the current version of a note or document before it's saved over. Saves within a
+ * few minutes of the last revision are coalesced into it, unless they delete a large
+ * part of the content.
+ * @param entityType 'note' or 'document'
+ * @param existing The version about to be replaced
+ * @param updates The changes being saved
+ * @param force Keep a revision even if one was taken recently
+ */
+export const recordRevision = async (
+  entityType: RevisionEntityType,
+  existing: VersionedEntity,
+  updates: Partial<VersionedEntity>,
+  force = false
+): Promise<void> => {
+  const previousHtml = getRevisionHtml(existing);
+  const nextHtml = updates.formattedContent?.html ?? updates.content ?? previousHtml;
+  const nextTitle = updates.title ?? existing.title;
+  if (nextHtml === previousHtml && nextTitle === existing.title) return;
+
+  const revisions = await getRevisions(entityType, existing.id);
+  const latest = revisions[0];
+  if (latest && getRevisionHtml(latest) === previousHtml && latest.title === existing.title) return;
+
+  const isDue = !latest || Date.now() - new Date(latest.createdAt).getTime() >= REVISION_INTERVAL_MS;
+  if (!force && !isDue && !isLargeDeletion(previousHtml, nextHtml)) return;
+
+  await revisionRepository.create({
+    userId: existing.userId,
+    entityType,
+    entityId: existing.id,
+    title: existing.title,
+    content: existing.content,
+    formattedContent: { html: previousHtml },
+    encryptedPayload: null,
+    createdAt: new Date(existing.updatedAt)
+  });
+
+  for (const revision of revisions.slice(MAX_REVISIONS - 1)) {
+    await revisionRepository.delete(revision.id);
+  }
+};
+
+/**
+ * Put a note or document back the way it was in a revision. The version it replaces is
+ * kept as a revision first, so restoring can be undone.
+ * @returns The restored note or document, or null if it no longer exists
+ */
+export const restoreRevision = async (revision: Revision): Promise<VersionedEntity | null> => {
+  const repository = repositories[revision.entityType as RevisionEntityType];
+  const current = await repository?.getById(revision.entityId);
+  if (!current) return null;
+
+  const updates: Partial<VersionedEntity> = {
+    title: revision.title,
+    content: revision.content,
+    formattedContent: { ...current.formattedContent, html: getRevisionHtml(revision) },
+    updatedAt: new Date()
+  };
+  await recordRevision(revision.entityType as RevisionEntityType, current, updates, true);
+  return repository.update(current.id, updates);
+};
+
+/**
+ * Remove every revision of a note or document, once it has been deleted
+ */
+export const deleteRevisions = async (entityType: RevisionEntityType, entityId: EntityId): Promise<void> => {
+  for (const revision of await getRevisions(entityType, entityId)) {
+    await revisionRepository.delete(revision.id);
+  }
+};
@@ -0,0 +1,85 @@
+/**
+ * Utility functions for the content calendar and scheduled post reminders
+ */
+import { z } from 'zod';
+import { type Post } from '@shared/schema';
+import { getPosts } from './storage';
+import { createLocalSetting, listOf } from './local-setting';
+
+// Platforms shown on the content calendar, with the colors used in the tab bar
+export const CALENDAR_PLATFORMS = [
+  { id: 'twitter', label: 'Twitter', color: '#000000', path: '/twitter' },
+  { id: 'linkedin', label: 'LinkedIn', color: '#0A66C2', path: '/linkedin' },
+  { id: 'instagram', label: 'Instagram', color: '#E4405F', path: '/instagram' },
+  { id: 'facebook', label: 'Facebook', color: '#1877F2', path: '/facebook' },
+];
+
+/**
+ * Look up a calendar platform by ID
+ */
+export const getCalendarPlatform = (platformId: string) => {
+  return CALENDAR_PLATFORMS.find(platform => platform.id === platformId);
+};
+
+// Reminders already shown, so a due post is only announced once per scheduled time
+const REMINDED_KEY = 'social_hub_reminded_posts';
+const REMINDED_EVENT = 'social_hub_reminded_posts_changed';
+
+const remindedSetting = createLocalSetting(REMINDED_KEY, REMINDED_EVENT, listOf(z.string()), []);
+
+/**
+ * Get the posts of every calendar platform
+ * @returns All posts, in no particular order
+ */
+export const getCalendarPosts = async (): Promise<Post[]> => {
+  const posts = await Promise.all(CALENDAR_PLATFORMS.map(platform => getPosts(platform.id)));
+  return posts.flat();
+};
+
+/**
+ * The time a post sits at on the calendar: its scheduled time if it has one,
+ * otherwise the time it was created
+ */
+export const getPostDate = (post: Post): Date => {
+  return new Date(post.scheduledFor || post.createdAt);
+};
+
+/**
+ * Combine the day of one date with the time of day of another
+ * @param day The date to take the day from
+ * @param time The date to take the hours and minutes from
+ */
+export const withTimeOf = (day: Date, time: Date): Date => {
+  const result = new Date(day);
+  result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return result;
+};
+
+const reminderKey = (post: Post): string => `${post.id}@${getPostDate(post).toISOString()}`;
+
+/**
+ * Find scheduled posts whose time has come and that haven't been announced yet
+ * @param posts The posts to check
+ * @param now The current time
+ */
+export const getDuePosts = (posts: Post[], now: Date = new Date()): Post[] => {
+  const reminded = new Set(remindedSetting.get());
+  return posts.filter(post =>
+    post.status === 'scheduled' &&
+    post.scheduledFor &&
+    getPostDate(post) <= now &&
+    !reminded.has(reminderKey(post))
+  );
+};
+
+/**
+ * Record that reminders were shown for some posts. Only posts that are still
+ * scheduled are kept, so the list doesn't grow forever.
+ * @param posts The posts that were announced
+ * @param allPosts Every post, used to drop stale entries
+ */
+export const markReminded = (posts: Post[], allPosts: Post[]): void => {
+  const current = new Set(allPosts.filter(post => post.status === 'scheduled').map(reminderKey));
+  const reminded = remindedSetting.get().filter(key => current.has(key));
+  remindedSetting.set([...reminded, ...posts.map(reminderKey)]);
+};
@@ -0,0 +1,162 @@
+/**
+ * Full-text search across posts, notes, journal entries and documents. The index lives
+ * in memory, is built from the local stores on first use and then follows every write
+ * to them, so results never need a trip to the server. Entries in private notebooks are
+ * left out.
+ */
+import {
+  SearchIndex,
+  getSnippet,
+  highlightMatches,
+  parseSearchQuery,
+  toSearchDocument,
+  type HighlightPart,
+  type ParsedQuery,
+  type SearchDocument,
+  type SearchEntity
+} from '@shared/search';
+import { stores, onStoreChange, stripOfflineMeta, type StoreType } from './offline-storage';
+import { migrateLegacyStorage } from './repository';
+
+export type { SearchDocument, SearchEntity, ParsedQuery, HighlightPart };
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  title: HighlightPart[];
+  snippet: HighlightPart[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+const entityStores: Array<{ entity: SearchEntity; storeType: StoreType }> = [
+  { entity: 'post', storeType: 'posts' },
+  { entity: 'note', storeType: 'notes' },
+  { entity: 'journal', storeType: 'journals' },
+  { entity: 'document', storeType: 'documents' }
+];
+
+const index = new SearchIndex();
+// Notebooks whose entries are kept out of the index
+let privateNotebookIds = new Set<string>();
+let indexReady: Promise<void> | null = null;
+// Changes that arrive while the index is being built, applied once it's done
+let pendingChanges: Array<() => void> | null = null;
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const isPrivate = (entity: SearchEntity, item: any): boolean =>
+  entity === 'journal' && !!item.notebookId && privateNotebookIds.has(item.notebookId);
+
+function applyChange(storeType: StoreType, key: string, value: any | null): void {
+  const entry = entityStores.find(store => store.storeType === storeType);
+  if (!entry) return;
+
+  const document = value && !isPrivate(entry.entity, value) ? toSearchDocument(entry.entity, stripOfflineMeta(value)) : null;
+  if (document) {
+    index.add(document);
+  } else {
+    index.remove(`${entry.entity}:${key}`);
+  }
+}
+
+onStoreChange((storeType, key, value) => {
+  if (!indexReady) return;
+  // A notebook made private or public changes which entries belong in the index
+  if (storeType === 'notebooks') {
+    if (!!value?.isPrivate !== privateNotebookIds.has(key)) {
+      indexReady = indexReady.then(buildIndex);
+    }
+    return;
+  }
+  if (pendingChanges) {
+    pendingChanges.push(() => applyChange(storeType, key, value));
+    return;
+  }
+  applyChange(storeType, key, value);
+  notifyListeners();
+});
+
+async function buildIndex(): Promise<void> {
+  pendingChanges = [];
+  try {
+    await migrateLegacyStorage();
+    index.clear();
+    const notebookIds = new Set<string>();
+    await stores.notebooks.iterate((value: any, key: string) => {
+      if (value?.isPrivate) notebookIds.add(key);
+    });
+    privateNotebookIds = notebookIds;
+    for (const { entity, storeType } of entityStores) {
+      await stores[storeType].iterate((value: any) => {
+        if (isPrivate(entity, value)) return;
+        const document = toSearchDocument(entity, stripOfflineMeta(value));
+        if (document) index.add(document);
+      });
+    }
+    pendingChanges.forEach(change => change());
+  } catch (error) {
+    console.error('Error building search index:', error);
+    // Try again on the next search
+    indexReady = null;
+  } finally {
+    pendingChanges = null;
+  }
+  notifyListeners();
+}
+
+/**
+ * Build the index from the local stores if that hasn't happened yet
+ */
+export function ensureSearchIndex(): Promise<void> {
+  if (!indexReady) {
+    indexReady = buildIndex();
+  }
+  return indexReady;
+}
+
+/**
+ * Be told whenever the index changes, to refresh results on screen
+ * @returns A function that stops listening
+ */
+export function subscribeToSearchIndex(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Search everything stored on this device
+ * @param query What the user typed, in the query language described in @shared/search
+ * @param options Result limit
+ * @returns The best matches first, with highlighted titles and snippets
+ */
+export async function search(query: string | ParsedQuery, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const { limit = 20 } = options;
+  await ensureSearchIndex();
+
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  if (!parsed.ast) return [];
+
+  return index.query(parsed)
+    .slice(0, limit)
+    .map(({ document, score }) => ({
+      document,
+      score,
+      title: highlightMatches(document.title, parsed.terms),
+      snippet: highlightMatches(getSnippet(document.text, parsed.terms), parsed.terms)
+    }));
+}
+
+/**
+ * Count the items matching a query, e.g. for the totals shown on smart filter tabs
+ */
+export async function countMatches(query: string): Promise<number> {
+  await ensureSearchIndex();
+  const parsed = parseSearchQuery(query);
+  return parsed.ast ? index.count(parsed) : 0;
+}
@@ -0,0 +1,56 @@
+/**
+ * Utility functions for smart filters: saved search queries shown as tabs of their own.
+ * Filters are kept in localStorage, so each device has its own set.
+ */
+import { z } from 'zod';
+import { createId } from '@shared/ids';
+import { createLocalSetting, listOf } from './local-setting';
+
+const SMART_FILTERS_KEY = 'social_hub_smart_filters';
+const SMART_FILTERS_EVENT = 'social_hub_smart_filters_changed';
+
+export interface SmartFilter {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+}
+
+const smartFiltersSetting = createLocalSetting(
+  SMART_FILTERS_KEY,
+  SMART_FILTERS_EVENT,
+  listOf(z.object({ id: z.string(), name: z.string(), query: z.string(), createdAt: z.number() })),
+  []
+);
+
+/**
+ * Get every saved smart filter, in the order they were created
+ */
+export const getSmartFilters = (): SmartFilter[] => smartFiltersSetting.get();
+
+const saveSmartFilters = smartFiltersSetting.set;
+
+/**
+ * Save a query as a new smart filter
+ * @param name The tab label
+ * @param query The search query
+ */
+export const createSmartFilter = (name: string, query: string): SmartFilter => {
+  const filter: SmartFilter = { id: createId(), name: name.trim(), query: query.trim(), createdAt: Date.now() };
+  saveSmartFilters([...getSmartFilters(), filter]);
+  return filter;
+};
+
+export const updateSmartFilter = (id: string, updates: Partial<Pick<SmartFilter, 'name' | 'query'>>): void => {
+  saveSmartFilters(getSmartFilters().map(filter => (filter.id === id ? { ...filter, ...updates } : filter)));
+};
+
+export const deleteSmartFilter = (id: string): void => {
+  saveSmartFilters(getSmartFilters().filter(filter => filter.id !== id));
+};
+
+/**
+ * Be told when smart filters are added, changed or removed, in this tab or another
+ * @returns A function that stops listening
+ */
+export const subscribeToSmartFilters = smartFiltersSetting.subscribe;
@@ -1,15 +1,7 @@
-import localforage from 'localforage';
-import { type User, type Post, type Note, type JournalEntry, type Document } from '@shared/schema';
-
-// Initialize localForage instances for different data types
-const userStorage = localforage.createInstance({ name: 'users' });
-const postStorage = localforage.createInstance({ name: 'posts' });
-const noteStorage = localforage.createInstance({ name: 'notes' });
-const journalStorage = localforage.createInstance({ name: 'journals' });
-const documentStorage = localforage.createInstance({ name: 'documents' });
-
-// Helper function to generate unique IDs
-const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+import { type User, type Post, type Note, type JournalEntry, type Notebook, type Document, type EntityId } from '@shared/schema';
+import { stores } from './offline-storage';
+import { postRepository, noteRepository, journalRepository, notebookRepository, documentRepository, migrateLegacyStorage } from './repository';
+import { recordRevision } from './revisions';
 
 // Default user data
 const defaultUser: User = {
@@ -23,10 +15,11 @@ const defaultUser: User = {
 
 // User related functions
 export const getUser = async (): Promise<User> => {
-  let user = await userStorage.getItem<User>('currentUser');
+  await migrateLegacyStorage();
+  let user = await stores.userCache.getItem<User>('localProfile');
   if (!user) {
     // Initialize with default user if none exists
-    await userStorage.setItem('currentUser', defaultUser);
+    await stores.userCache.setItem('localProfile', defaultUser);
     user = defaultUser;
   }
   return user;
@@ -35,207 +28,188 @@ export const getUser = async (): Promise<User> => {
 export const updateUser = async (userData: Partial<User>): Promise<User> => {
   const currentUser = await getUser();
   const updatedUser = { ...currentUser, ...userData };
-  await userStorage.setItem('currentUser', updatedUser);
+  await stores.userCache.setItem('localProfile', updatedUser);
   return updatedUser;
 };
 
 // Posts related functions
 export const getPosts = async (platform: string): Promise<Post[]> => {
-  const posts = await postStorage.getItem<Post[]>(platform) || [];
+  const posts = (await postRepository.getAll()).filter(p => p.platform === platform && !p.deletedAt);
   return posts.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 };
 
-export const createPost = async (platform: string, post: Omit<Post, 'id' | 'createdAt'>): Promise<Post> => {
-  const posts = await getPosts(platform);
-  const newPost: Post = {
+// Posts are published straight away unless a status and schedule are given. The creation
+// time defaults to now; imports pass the one they came with.
+export const createPost = async (
+  platform: string,
+  post: Omit<Post, 'id' | 'createdAt' | 'version' | 'encryptedPayload' | 'deletedAt' | 'status' | 'scheduledFor' | 'thread' | 'masterId' | 'variantBase'> & Partial<Pick<Post, 'status' | 'scheduledFor' | 'thread' | 'masterId' | 'variantBase' | 'createdAt'>>
+): Promise<Post> => {
+  return postRepository.create({
     ...post,
-    id: posts.length > 0 ? Math.max(...posts.map(p => p.id)) + 1 : 1,
-    createdAt: new Date()
-  };
-  
-  const updatedPosts = [newPost, ...posts];
-  await postStorage.setItem(platform, updatedPosts);
-  return newPost;
+    platform,
+    status: post.status || 'published',
+    scheduledFor: post.scheduledFor || null,
+    thread: post.thread || null,
+    masterId: post.masterId || null,
+    variantBase: post.variantBase || null,
+    encryptedPayload: null,
+    deletedAt: null,
+    version: 1,
+    createdAt: post.createdAt || new Date()
+  });
 };
 
-export const updatePost = async (platform: string, postId: number, updates: Partial<Post>): Promise<Post | null> => {
-  const posts = await getPosts(platform);
-  const postIndex = posts.findIndex(p => p.id === postId);
-  
-  if (postIndex === -1) return null;
-  
-  const updatedPost = { ...posts[postIndex], ...updates };
-  posts[postIndex] = updatedPost;
+export const updatePost = async (platform: string, postId: EntityId, updates: Partial<Post>): Promise<Post | null> => {
+  const post = await postRepository.getById(postId);
+  if (!post || post.platform !== platform) return null;
   
-  await postStorage.setItem(platform, posts);
-  return updatedPost;
+  return postRepository.update(postId, updates);
 };
 
-export const deletePost = async (platform: string, postId: number): Promise<boolean> => {
-  const posts = await getPosts(platform);
-  const updatedPosts = posts.filter(p => p.id !== postId);
+// Deleting moves an item to the trash. The deletedAt tombstone syncs like any other
+// update, so other devices trash it too; see trash.ts for restoring and purging.
+export const deletePost = async (platform: string, postId: EntityId): Promise<boolean> => {
+  const post = await postRepository.getById(postId);
+  if (!post || post.platform !== platform) return false;
   
-  if (updatedPosts.length === posts.length) return false;
-  
-  await postStorage.setItem(platform, updatedPosts);
-  return true;
+  return (await postRepository.update(postId, { deletedAt: new Date() })) !== null;
 };
 
 // Notes related functions
 export const getNotes = async (): Promise<Note[]> => {
-  const notes = await noteStorage.getItem<Note[]>('notes') || [];
+  const notes = (await noteRepository.getAll()).filter(note => !note.deletedAt);
   return notes.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 };
 
-export const getNote = async (noteId: number): Promise<Note | null> => {
-  const notes = await getNotes();
-  return notes.find(n => n.id === noteId) || null;
+export const getNote = async (noteId: EntityId): Promise<Note | null> => {
+  return noteRepository.getById(noteId);
 };
 
-export const createNote = async (note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>): Promise<Note> => {
-  const notes = await getNotes();
+export const createNote = async (note: Omit<Note, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'encryptedPayload' | 'deletedAt'>): Promise<Note> => {
   const now = new Date();
-  const newNote: Note = {
+  return noteRepository.create({
     ...note,
-    id: notes.length > 0 ? Math.max(...notes.map(n => n.id)) + 1 : 1,
+    encryptedPayload: null,
+    deletedAt: null,
+    version: 1,
     createdAt: now,
     updatedAt: now
-  };
-  
-  const updatedNotes = [newNote, ...notes];
-  await noteStorage.setItem('notes', updatedNotes);
-  return newNote;
+  });
 };
 
-export const updateNote = async (noteId: number, updates: Partial<Note>): Promise<Note | null> => {
-  const notes = await getNotes();
-  const noteIndex = notes.findIndex(n => n.id === noteId);
-  
-  if (noteIndex === -1) return null;
+// The version being replaced is kept in the note's revision history
+export const updateNote = async (noteId: EntityId, updates: Partial<Note>): Promise<Note | null> => {
+  const existing = await noteRepository.getById(noteId);
+  if (!existing) return null;
   
-  const updatedNote = { 
-    ...notes[noteIndex], 
-    ...updates, 
-    updatedAt: new Date() 
-  };
-  notes[noteIndex] = updatedNote;
-  
-  await noteStorage.setItem('notes', notes);
-  return updatedNote;
+  await recordRevision('note', existing, updates);
+  return noteRepository.update(noteId, { ...updates, updatedAt: new Date() });
 };
 
-export const deleteNote = async (noteId: number): Promise<boolean> => {
-  const notes = await getNotes();
-  const updatedNotes = notes.filter(n => n.id !== noteId);
-  
-  if (updatedNotes.length === notes.length) return false;
-  
-  await noteStorage.setItem('notes', updatedNotes);
-  return true;
+export const deleteNote = async (noteId: EntityId): Promise<boolean> => {
+  return (await noteRepository.update(noteId, { deletedAt: new Date() })) !== null;
 };
 
 // Journal related functions
 export const getJournalEntries = async (): Promise<JournalEntry[]> => {
-  const entries = await journalStorage.getItem<JournalEntry[]>('entries') || [];
+  const entries = (await journalRepository.getAll()).filter(entry => !entry.deletedAt);
   return entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 };
 
-export const getJournalEntry = async (entryId: number): Promise<JournalEntry | null> => {
-  const entries = await getJournalEntries();
-  return entries.find(e => e.id === entryId) || null;
+export const getJournalEntry = async (entryId: EntityId): Promise<JournalEntry | null> => {
+  return journalRepository.getById(entryId);
 };
 
-export const createJournalEntry = async (entry: Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<JournalEntry> => {
-  const entries = await getJournalEntries();
+export const createJournalEntry = async (entry: Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'encryptedPayload' | 'deletedAt'>): Promise<JournalEntry> => {
   const now = new Date();
-  const newEntry: JournalEntry = {
+  return journalRepository.create({
     ...entry,
-    id: entries.length > 0 ? Math.max(...entries.map(e => e.id)) + 1 : 1,
+    encryptedPayload: null,
+    deletedAt: null,
+    version: 1,
     createdAt: now,
     updatedAt: now
-  };
-  
-  const updatedEntries = [newEntry, ...entries];
-  await journalStorage.setItem('entries', updatedEntries);
-  return newEntry;
+  });
 };
 
-export const updateJournalEntry = async (entryId: number, updates: Partial<JournalEntry>): Promise<JournalEntry | null> => {
-  const entries = await getJournalEntries();
-  const entryIndex = entries.findIndex(e => e.id === entryId);
-  
-  if (entryIndex === -1) return null;
-  
-  const updatedEntry = { 
-    ...entries[entryIndex], 
-    ...updates, 
-    updatedAt: new Date() 
-  };
-  entries[entryIndex] = updatedEntry;
-  
-  await journalStorage.setItem('entries', entries);
-  return updatedEntry;
+export const updateJournalEntry = async (entryId: EntityId, updates: Partial<JournalEntry>): Promise<JournalEntry | null> => {
+  return journalRepository.update(entryId, { ...updates, updatedAt: new Date() });
 };
 
-export const deleteJournalEntry = async (entryId: number): Promise<boolean> => {
-  const entries = await getJournalEntries();
-  const updatedEntries = entries.filter(e => e.id !== entryId);
-  
-  if (updatedEntries.length === entries.length) return false;
-  
-  await journalStorage.setItem('entries', updatedEntries);
-  return true;
+export const deleteJournalEntry = async (entryId: EntityId): Promise<boolean> => {
+  return (await journalRepository.update(entryId, { deletedAt: new Date() })) !== null;
+};
+
+// Notebook related functions. Entries without a notebook are in the default one.
+export const getNotebooks = async (): Promise<Notebook[]> => {
+  const notebooks = await notebookRepository.getAll();
+  return notebooks.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+export const createNotebook = async (notebook: Pick<Notebook, 'userId' | 'name' | 'color' | 'defaultTemplateId' | 'isPrivate'>): Promise<Notebook> => {
+  const now = new Date();
+  return notebookRepository.create({
+    ...notebook,
+    encryptedPayload: null,
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+export const updateNotebook = async (notebookId: EntityId, updates: Partial<Notebook>): Promise<Notebook | null> => {
+  return notebookRepository.update(notebookId, { ...updates, updatedAt: new Date() });
+};
+
+// Move an entry to another notebook, or to the default one with null
+export const moveJournalEntry = async (entryId: EntityId, notebookId: EntityId | null): Promise<JournalEntry | null> => {
+  return updateJournalEntry(entryId, { notebookId });
+};
+
+// Notebooks aren't trashed. Their entries, trashed ones included, move to the default
+// notebook first, so nothing is lost with them.
+export const deleteNotebook = async (notebookId: EntityId): Promise<boolean> => {
+  const entries = (await journalRepository.getAll()).filter(entry => entry.notebookId === notebookId);
+  for (const entry of entries) {
+    await moveJournalEntry(entry.id, null);
+  }
+  return notebookRepository.delete(notebookId);
 };
 
 // Document related functions
 export const getDocuments = async (): Promise<Document[]> => {
-  const documents = await documentStorage.getItem<Document[]>('documents') || [];
+  const documents = (await documentRepository.getAll()).filter(doc => !doc.deletedAt);
   return documents.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 };
 
-export const getDocument = async (docId: number): Promise<Document | null> => {
-  const documents = await getDocuments();
-  return documents.find(d => d.id === docId) || null;
+export const getDocument = async (docId: EntityId): Promise<Document | null> => {
+  return documentRepository.getById(docId);
 };
 
-export const createDocument = async (document: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Promise<Document> => {
-  const documents = await getDocuments();
+// Timestamps default to now; imports pass the ones they came with
+export const createDocument = async (
+  document: Omit<Document, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'encryptedPayload' | 'deletedAt'> & Partial<Pick<Document, 'createdAt' | 'updatedAt'>>
+): Promise<Document> => {
   const now = new Date();
-  const newDocument: Document = {
+  return documentRepository.create({
     ...document,
-    id: documents.length > 0 ? Math.max(...documents.map(d => d.id)) + 1 : 1,
-    createdAt: now,
-    updatedAt: now
-  };
-  
-  const updatedDocuments = [newDocument, ...documents];
-  await documentStorage.setItem('documents', updatedDocuments);
-  return newDocument;
+    encryptedPayload: null,
+    deletedAt: null,
+    version: 1,
+    createdAt: document.createdAt || now,
+    updatedAt: document.updatedAt || document.createdAt || now
+  });
 };
 
-export const updateDocument = async (docId: number, updates: Partial<Document>): Promise<Document | null> => {
-  const documents = await getDocuments();
-  const docIndex = documents.findIndex(d => d.id === docId);
+// The version being replaced is kept in the document's revision history
+export const updateDocument = async (docId: EntityId, updates: Partial<Document>): Promise<Document | null> => {
+  const existing = await documentRepository.getById(docId);
+  if (!existing) return null;
   
-  if (docIndex === -1) return null;
-  
-  const updatedDocument = { 
-    ...documents[docIndex], 
-    ...updates, 
-    updatedAt: new Date() 
-  };
-  documents[docIndex] = updatedDocument;
-  
-  await documentStorage.setItem('documents', documents);
-  return updatedDocument;
+  await recordRevision('document', existing, updates);
+  return documentRepository.update(docId, { ...updates, updatedAt: new Date() });
 };
 
-export const deleteDocument = async (docId: number): Promise<boolean> => {
-  const documents = await getDocuments();
-  const updatedDocuments = documents.filter(d => d.id !== docId);
-  
-  if (updatedDocuments.length === documents.length) return false;
-  
-  await documentStorage.setItem('documents', updatedDocuments);
-  return true;
+export const deleteDocument = async (docId: EntityId): Promise<boolean> => {
+  return (await documentRepository.update(docId, { deletedAt: new Date() })) !== null;
 };
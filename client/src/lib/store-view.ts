@@ -0,0 +1,90 @@
+/**
+ * An in-memory copy of everything in one store, for small sets of synced settings such as
+ * journal templates that are read while rendering. It's read on first use and then follows
+ * every write through onStoreChange, like the search index, so changes synced from other
+ * devices show up too.
+ */
+import { onStoreChange, stores, stripOfflineMeta, type StoreType } from './offline-storage';
+import { migrateLegacyStorage } from './repository';
+
+export interface StoreView<T> {
+  // The items read so far: empty until the first load finishes
+  get: () => T[];
+  // Read the store if that hasn't happened yet
+  load: () => Promise<T[]>;
+  /**
+   * Be told when items are added, changed or removed, on this device or synced from
+   * another. Starts loading.
+   * @returns A function that stops listening
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * @param storeType The store to follow
+ * @param parse Turns a stored item into a view item, or null to leave it out
+ * @param compare Orders the items
+ * @param prepare Runs once before the store is first read, to move data into it
+ */
+export function createStoreView<T extends { id: string }>(
+  storeType: StoreType,
+  parse: (value: unknown) => T | null,
+  compare: (a: T, b: T) => number,
+  prepare: () => Promise<void> = async () => {}
+): StoreView<T> {
+  let items: T[] = [];
+  let loading: Promise<T[]> | null = null;
+  const listeners = new Set<() => void>();
+
+  const notifyListeners = () => listeners.forEach(listener => listener());
+
+  const read = async (): Promise<T[]> => {
+    try {
+      await migrateLegacyStorage();
+      await prepare();
+      const loaded: T[] = [];
+      await stores[storeType].iterate((value: unknown) => {
+        const item = parse(stripOfflineMeta(value));
+        if (item) loaded.push(item);
+      });
+      items = loaded.sort(compare);
+      notifyListeners();
+    } catch (error) {
+      console.error(`Error reading ${storeType}:`, error);
+      // Try again on the next load
+      loading = null;
+    }
+    return items;
+  };
+
+  const load = (): Promise<T[]> => {
+    if (!loading) {
+      loading = read();
+    }
+    return loading;
+  };
+
+  onStoreChange((changedStore, key, value) => {
+    if (changedStore !== storeType || !loading) return;
+    // Applied after the first read, which would otherwise overwrite it
+    loading = loading.then(() => {
+      const item = value ? parse(stripOfflineMeta(value)) : null;
+      items = items.filter(existing => existing.id !== key);
+      if (item) items = [...items, item].sort(compare);
+      notifyListeners();
+      return items;
+    });
+  });
+
+  return {
+    get: () => items,
+    load,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      load();
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
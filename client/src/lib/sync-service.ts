@@ -5,9 +5,18 @@ import {
   incrementQueueItemAttempts,
   deleteOfflineItem,
   clearSyncedQueueItems,
+  getCachedUserData,
+  addToSyncQueue,
+  saveOfflineItem,
+  saveConflict,
+  removeConflict,
+  SyncConflict,
+  notifyStoreChange,
   stores
 } from './offline-storage';
-import { apiRequest } from './queryClient';
+import { apiRequest, parseApiError } from './queryClient';
+import { encryptForSync, decryptFromSync, getEncryptionStatus } from './encryption';
+import { extractTextFromHtml } from './copy-utils';
 import { Note, JournalEntry, Document, Post } from '@shared/schema';
 
 // Define valid store types
@@ -16,6 +25,25 @@ type StoreType = keyof typeof stores;
 // Maximum number of sync attempts before giving up
 const MAX_SYNC_ATTEMPTS = 5;
 
+// Map entity name to store key
+const entityStoreMap: Record<QueuedAction['entity'], StoreType> = {
+  'note': 'notes',
+  'journal': 'journals',
+  'notebook': 'notebooks',
+  'template': 'templates',
+  'tracker': 'trackers',
+  'document': 'documents',
+  'post': 'posts',
+  'revision': 'revisions'
+};
+
+// Entities that only hold settings, such as notebooks, and where they're updated
+const SETTINGS_ENDPOINTS: Partial<Record<QueuedAction['entity'], string>> = {
+  'notebook': '/api/notebooks',
+  'template': '/api/journal-templates',
+  'tracker': '/api/journal-trackers'
+};
+
 // Interface for function return value
 interface SyncResult {
   success: boolean;
@@ -33,6 +61,17 @@ export async function processQueue(): Promise<SyncResult> {
     errors: []
   };
 
+  // Local-only users keep their queue until they sign in
+  const cachedUser = await getCachedUserData();
+  if (!cachedUser?.id) {
+    return result;
+  }
+
+  // Server copies can't be read back until encryption is unlocked on this device
+  if (await getEncryptionStatus() === 'locked') {
+    return result;
+  }
+
   // Get all unsynced items from the queue
   const queue = await getSyncQueue();
   
@@ -96,34 +135,33 @@ async function handleCreate(item: QueuedAction): Promise<boolean> {
   const { entity, data } = item;
   
   try {
-    switch (entity) {
-      case 'note': {
-        const response = await apiRequest('POST', '/api/notes', data);
-        const serverItem = await response.json();
-        // If the local ID was temporary, we may need to update references
-        if (data._offline && data.id !== serverItem.id) {
-          // Here we could update any local references to the old ID
-        }
-        return response.ok;
-      }
-      case 'journal': {
-        const response = await apiRequest('POST', '/api/journal', data);
-        const serverItem = await response.json();
-        return response.ok;
-      }
-      case 'document': {
-        const response = await apiRequest('POST', '/api/documents', data);
-        const serverItem = await response.json();
-        return response.ok;
-      }
-      case 'post': {
-        const response = await apiRequest('POST', `/api/posts/${data.platform}`, data);
-        const serverItem = await response.json();
-        return response.ok;
-      }
-      default:
-        return false;
+    const endpointMap: Record<QueuedAction['entity'], string> = {
+      'note': '/api/notes',
+      'journal': '/api/journal',
+      'notebook': '/api/notebooks',
+      'template': '/api/journal-templates',
+      'tracker': '/api/journal-trackers',
+      'document': '/api/documents',
+      'post': '/api/posts',
+      'revision': '/api/revisions'
+    };
+    
+    // IDs are generated on the client, so the server keeps the one we send
+    const response = await apiRequest('POST', endpointMap[entity], data);
+    const serverItem = await decryptFromSync(entity, await response.json());
+    
+    // Mark the local copy as synced unless it has been edited since this create was queued
+    const store = stores[entityStoreMap[entity]];
+    const stored = await store.getItem<any>(String(data.id));
+    if (stored && (stored._lastModified ?? 0) <= item.timestamp) {
+      const synced = await store.setItem(String(data.id), {
+        ...serverItem,
+        _synced: true,
+        _syncedAt: Date.now()
+      });
+      notifyStoreChange(entityStoreMap[entity], String(data.id), synced);
     }
+    return response.ok;
   } catch (error) {
     console.error(`Error in handleCreate for ${entity}:`, error);
     return false;
@@ -136,27 +174,73 @@ async function handleUpdate(item: QueuedAction): Promise<boolean> {
   
   try {
     const id = data.id;
+    const store = stores[entityStoreMap[entity]];
     
-    switch (entity) {
-      case 'note': {
-        const response = await apiRequest('PATCH', `/api/notes/${id}`, data);
-        return response.ok;
-      }
-      case 'journal': {
-        const response = await apiRequest('PATCH', `/api/journal/${id}`, data);
-        return response.ok;
+    // Use the newest version we know of: an earlier queued update may already have bumped it
+    const stored = await store.getItem<any>(String(id));
+    const payload = { ...data, baseVersion: stored?.version ?? data.version };
+    
+    let response: Response;
+    try {
+      switch (entity) {
+        case 'note':
+          response = await apiRequest('PATCH', `/api/notes/${id}`, payload);
+          break;
+        case 'journal':
+          response = await apiRequest('PATCH', `/api/journal/${id}`, payload);
+          break;
+        case 'notebook':
+          response = await apiRequest('PATCH', `/api/notebooks/${id}`, payload);
+          break;
+        case 'template':
+          response = await apiRequest('PATCH', `/api/journal-templates/${id}`, payload);
+          break;
+        case 'tracker':
+          response = await apiRequest('PATCH', `/api/journal-trackers/${id}`, payload);
+          break;
+        case 'document':
+          response = await apiRequest('PATCH', `/api/documents/${id}`, payload);
+          break;
+        case 'post':
+          response = await apiRequest('PATCH', `/api/posts/${id}`, payload);
+          break;
+        default:
+          return false;
       }
-      case 'document': {
-        const response = await apiRequest('PATCH', `/api/documents/${id}`, data);
-        return response.ok;
+    } catch (error) {
+      const apiError = parseApiError(error);
+      if (apiError?.status !== 409) {
+        throw error;
       }
-      case 'post': {
-        const response = await apiRequest('PATCH', `/api/posts/${data.platform}/${id}`, data);
-        return response.ok;
+      
+      const settingsEndpoint = SETTINGS_ENDPOINTS[entity];
+      if (settingsEndpoint) {
+        // Only settings, so there's nothing to merge: the latest change wins
+        response = await apiRequest('PATCH', `${settingsEndpoint}/${id}`, { ...payload, baseVersion: apiError.body.current.version });
+      } else {
+        // Someone else changed it first: park both copies for the user to resolve
+        await saveConflict({
+          entity,
+          entityId: id,
+          local: { ...stored, ...await decryptFromSync(entity, data) },
+          remote: await decryptFromSync(entity, apiError.body.current),
+          baseHtml: stored?._baseHtml ?? null
+        });
+        return true;
       }
-      default:
-        return false;
     }
+    
+    // Keep the local copy on the server's version so the next update isn't seen as stale
+    if (response.ok) {
+      const serverItem = await decryptFromSync(entity, await response.json());
+      const synced = await store.setItem(String(id), {
+        ...serverItem,
+        _synced: true,
+        _syncedAt: Date.now()
+      });
+      notifyStoreChange(entityStoreMap[entity], String(id), synced);
+    }
+    return response.ok;
   } catch (error) {
     console.error(`Error in handleUpdate for ${entity}:`, error);
     return false;
@@ -170,15 +254,7 @@ async function handleDelete(item: QueuedAction): Promise<boolean> {
   try {
     const id = data.id;
     
-    // Map entity name to store key
-    const storeMap: Record<string, StoreType> = {
-      'note': 'notes',
-      'journal': 'journals',
-      'document': 'documents',
-      'post': 'posts'
-    };
-    
-    const storeKey = storeMap[entity];
+    const storeKey = entityStoreMap[entity];
     if (storeKey) {
       // Remove from local storage regardless of server sync success
       await deleteOfflineItem(storeKey, id);
@@ -193,12 +269,28 @@ async function handleDelete(item: QueuedAction): Promise<boolean> {
         const response = await apiRequest('DELETE', `/api/journal/${id}`);
         return response.ok;
       }
+      case 'notebook': {
+        const response = await apiRequest('DELETE', `/api/notebooks/${id}`);
+        return response.ok;
+      }
+      case 'template': {
+        const response = await apiRequest('DELETE', `/api/journal-templates/${id}`);
+        return response.ok;
+      }
+      case 'tracker': {
+        const response = await apiRequest('DELETE', `/api/journal-trackers/${id}`);
+        return response.ok;
+      }
       case 'document': {
         const response = await apiRequest('DELETE', `/api/documents/${id}`);
         return response.ok;
       }
       case 'post': {
-        const response = await apiRequest('DELETE', `/api/posts/${data.platform}/${id}`);
+        const response = await apiRequest('DELETE', `/api/posts/${id}`);
+        return response.ok;
+      }
+      case 'revision': {
+        const response = await apiRequest('DELETE', `/api/revisions/${id}`);
         return response.ok;
       }
       default:
@@ -208,4 +300,23 @@ async function handleDelete(item: QueuedAction): Promise<boolean> {
     console.error(`Error in handleDelete for ${entity}:`, error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Resolve a conflict by keeping the given HTML and queueing it as an update on top of
+// the server's copy
+export async function resolveConflict(conflict: SyncConflict, html: string): Promise<void> {
+  const { remote } = conflict;
+  const resolved = {
+    ...remote,
+    content: extractTextFromHtml(html),
+    formattedContent: { ...remote.formattedContent, html }
+  };
+  
+  await saveOfflineItem(entityStoreMap[conflict.entity], resolved);
+  await addToSyncQueue({
+    entity: conflict.entity,
+    action: 'update',
+    data: await encryptForSync(conflict.entity, resolved)
+  });
+  await removeConflict(conflict.id);
+}
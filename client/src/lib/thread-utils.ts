@@ -0,0 +1,305 @@
+/**
+ * Utility functions for splitting long drafts into Twitter/X threads
+ */
+import { type Post } from '@shared/schema';
+import { getTextLength, platformRules, type ThreadSegment } from '@shared/platform-rules';
+
+const TWEET_LENGTH = platformRules.twitter.maxLength!;
+const MAX_MEDIA_PER_TWEET = platformRules.twitter.media!.max!;
+
+const BLOCK_ELEMENTS = new Set(['P', 'DIV', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE']);
+const URL_PATTERN = /^(https?:\/\/|www\.)/i;
+// A sentence ends at terminal punctuation, optionally followed by closing quotes or brackets
+const SENTENCE_END_PATTERN = /[.!?…]["'”’)\]]*$/;
+// The " 2/5" added to numbered tweets
+const NUMBERING_PATTERN = /\s\d+\/\d+$/;
+
+export interface ThreadOptions {
+  // Add "1/5"-style numbers to the end of each tweet
+  numbered?: boolean;
+}
+
+// A run of text and the media that belong with it
+interface Sentence {
+  text: string;
+  mediaUrls: string[];
+  // Starts a new paragraph, so it's joined with a blank line instead of a space
+  newParagraph: boolean;
+}
+
+type Piece = { type: 'text'; text: string } | { type: 'break' } | { type: 'media'; url: string };
+
+// Flatten editor HTML into text, paragraph breaks and images, in document order
+const htmlToPieces = (html: string): Piece[] => {
+  const pieces: Piece[] = [];
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pieces.push({ type: 'text', text: node.textContent || '' });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    if (node.tagName === 'IMG') {
+      const src = node.getAttribute('src');
+      if (src) pieces.push({ type: 'media', url: src });
+      return;
+    }
+    if (node.tagName === 'BR') {
+      pieces.push({ type: 'break' });
+      return;
+    }
+    if (node.tagName === 'A') {
+      // Links keep their URL in the text, since a tweet can't hold anchor markup
+      const href = node.getAttribute('href') || '';
+      const text = node.textContent || '';
+      const showHref = URL_PATTERN.test(href) && text.trim() !== href;
+      pieces.push({ type: 'text', text: showHref ? `${text} ${href}` : text });
+      return;
+    }
+
+    node.childNodes.forEach(walk);
+    if (BLOCK_ELEMENTS.has(node.tagName)) {
+      pieces.push({ type: 'break' });
+    }
+  };
+
+  doc.body.childNodes.forEach(walk);
+  return pieces;
+};
+
+// Group pieces into sentences. Images attach to the sentence they appear in, or to the
+// next sentence when they sit between paragraphs.
+const piecesToSentences = (pieces: Piece[]): Sentence[] => {
+  const sentences: Sentence[] = [];
+  let current: Sentence = { text: '', mediaUrls: [], newParagraph: false };
+  let pendingMedia: string[] = [];
+  let paragraphBreak = false;
+
+  const flush = () => {
+    const text = current.text.trim();
+    if (text) {
+      sentences.push({ ...current, text });
+    } else {
+      pendingMedia.push(...current.mediaUrls);
+    }
+    current = { text: '', mediaUrls: [], newParagraph: false };
+  };
+
+  for (const piece of pieces) {
+    if (piece.type === 'media') {
+      if (current.text.trim()) {
+        current.mediaUrls.push(piece.url);
+      } else {
+        pendingMedia.push(piece.url);
+      }
+      continue;
+    }
+
+    if (piece.type === 'break') {
+      flush();
+      paragraphBreak = true;
+      continue;
+    }
+
+    for (const token of piece.text.split(/(\s+)/)) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        if (token.includes('\n')) {
+          flush();
+          paragraphBreak = true;
+        } else if (current.text) {
+          current.text += ' ';
+        }
+        continue;
+      }
+
+      if (!current.text.trim()) {
+        current.newParagraph = paragraphBreak && sentences.length > 0;
+        current.mediaUrls.push(...pendingMedia);
+        pendingMedia = [];
+        paragraphBreak = false;
+      }
+      current.text += token;
+      if (SENTENCE_END_PATTERN.test(token) && !URL_PATTERN.test(token)) {
+        flush();
+      }
+    }
+  }
+  flush();
+
+  // Images after the last sentence belong to it
+  if (pendingMedia.length > 0) {
+    if (sentences.length > 0) {
+      sentences[sentences.length - 1].mediaUrls.push(...pendingMedia);
+    } else {
+      sentences.push({ text: '', mediaUrls: pendingMedia, newParagraph: false });
+    }
+  }
+
+  return sentences;
+};
+
+const tweetLength = (text: string) => getTextLength('twitter', text);
+
+// Break text that can't fit in one tweet at word boundaries, or mid-word as a last resort
+const splitLongText = (text: string, limit: number): string[] => {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (tweetLength(candidate) <= limit) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) parts.push(current);
+    current = word;
+    while (tweetLength(current) > limit) {
+      const chars = Array.from(current);
+      let cut = chars.length;
+      while (cut > 1 && tweetLength(chars.slice(0, cut).join('')) > limit) cut--;
+      parts.push(chars.slice(0, cut).join(''));
+      current = chars.slice(cut).join('');
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Pack sentences into as few tweets as fit within the limit, keeping their order
+const packSentences = (sentences: Sentence[], limit: number): ThreadSegment[] => {
+  const tweets: ThreadSegment[] = [];
+  let current: ThreadSegment = { content: '', mediaUrls: [] };
+  // Media that didn't fit on the tweet it belongs to and moves on to the next one
+  let overflowMedia: string[] = [];
+
+  const push = () => {
+    if (current.content || current.mediaUrls.length > 0) {
+      tweets.push(current);
+    }
+    current = { content: '', mediaUrls: overflowMedia.splice(0, MAX_MEDIA_PER_TWEET) };
+  };
+
+  for (const sentence of sentences) {
+    const parts = tweetLength(sentence.text) > limit ? splitLongText(sentence.text, limit) : [sentence.text];
+
+    parts.forEach((part, index) => {
+      const separator = index === 0 && sentence.newParagraph ? '\n\n' : ' ';
+      const joined = current.content ? `${current.content}${separator}${part}` : part;
+      const media = index === 0 ? sentence.mediaUrls : [];
+      const mediaFits = current.mediaUrls.length + media.length <= MAX_MEDIA_PER_TWEET;
+
+      if (current.content && (tweetLength(joined) > limit || !mediaFits)) {
+        push();
+        current.content = part;
+      } else {
+        current.content = joined;
+      }
+
+      const room = MAX_MEDIA_PER_TWEET - current.mediaUrls.length;
+      current.mediaUrls.push(...media.slice(0, room));
+      overflowMedia.push(...media.slice(room));
+    });
+  }
+  push();
+
+  // Media left over once the text runs out gets tweets of its own
+  while (current.mediaUrls.length > 0) {
+    push();
+  }
+
+  return tweets;
+};
+
+/**
+ * Split a long draft into a thread of tweets. Splits happen at sentence boundaries where
+ * possible; links stay in the text and images stay with the sentence they appear next to.
+ * @param html The draft's HTML, as produced by the rich text editor
+ * @param options Thread options
+ * @returns The tweets in order. A draft that fits in one tweet gives a single segment.
+ */
+export const splitIntoThread = (html: string, options: ThreadOptions = {}): ThreadSegment[] => {
+  const { numbered = true } = options;
+  const sentences = piecesToSentences(htmlToPieces(html));
+  if (sentences.length === 0) return [];
+
+  // Leave room for the numbering, growing it if the thread turns out longer than expected
+  let reserve = numbered ? ' 9/9'.length : 0;
+  let tweets = packSentences(sentences, TWEET_LENGTH - reserve);
+  while (numbered && ` ${tweets.length}/${tweets.length}`.length > reserve) {
+    reserve = ` ${tweets.length}/${tweets.length}`.length;
+    tweets = packSentences(sentences, TWEET_LENGTH - reserve);
+  }
+
+  if (numbered && tweets.length > 1) {
+    tweets = tweets.map((tweet, index) => ({
+      ...tweet,
+      content: `${tweet.content} ${index + 1}/${tweets.length}`.trim(),
+    }));
+  }
+  return tweets;
+};
+
+/**
+ * Remove the "2/5"-style number from the end of a tweet
+ */
+export const stripNumbering = (text: string): string => text.replace(NUMBERING_PATTERN, '');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Render one tweet as HTML, with its images first and its links clickable
+ */
+export const segmentToHtml = (segment: ThreadSegment): string => {
+  const images = segment.mediaUrls
+    .map(url => `<img src="${escapeHtml(url)}" alt="Tweet image" style="max-width: 100%; margin-bottom: 10px;" />`)
+    .join('');
+  const text = escapeHtml(segment.content)
+    .replace(/\b(https?:\/\/[^\s<]+)/g, '<a href="$1">$1</a>')
+    .replace(/\n/g, '<br />');
+  return `${images}<p>${text}</p>`;
+};
+
+/**
+ * Render a whole thread as HTML, one tweet after another
+ */
+export const threadToHtml = (thread: ThreadSegment[]): string => {
+  return thread.map(segmentToHtml).join('<hr />');
+};
+
+/**
+ * Plain text of a whole thread, tweets separated by blank lines
+ */
+export const threadToText = (thread: ThreadSegment[]): string => {
+  return thread.map(segment => segment.content).join('\n\n');
+};
+
+/**
+ * Turn the draft HTML a thread was written from back out of its stored tweets, for editing
+ */
+export const threadToDraftHtml = (thread: ThreadSegment[]): string => {
+  return thread
+    .map(segment => segmentToHtml({ ...segment, content: stripNumbering(segment.content) }))
+    .join('');
+};
+
+/**
+ * View one tweet of a thread as a post of its own, so the usual copy, export and share
+ * actions can work on it
+ * @param post The thread's post
+ * @param index Which tweet
+ */
+export const threadSegmentAsPost = (post: Post, index: number): Post => {
+  const segment = post.thread![index];
+  return {
+    ...post,
+    content: segment.content,
+    mediaUrls: segment.mediaUrls,
+    formattedContent: { ...post.formattedContent, html: segmentToHtml(segment) },
+    thread: null,
+  };
+};
@@ -0,0 +1,141 @@
+/**
+ * Utility functions for the trash. Deleting a post, note, journal entry or document only
+ * sets its deletedAt; it stays here until it's restored, purged by hand or left longer
+ * than the retention period. Both restores and purges sync to other devices.
+ */
+import { type Post, type Note, type JournalEntry, type Document, type EntityId } from '@shared/schema';
+import { htmlToText } from '@shared/search';
+import { z } from 'zod';
+import { postRepository, noteRepository, journalRepository, documentRepository, type Repository } from './repository';
+import { deleteRevisions } from './revisions';
+import { createLocalSetting } from './local-setting';
+
+const TRASH_RETENTION_KEY = 'social_hub_trash_retention_days';
+const TRASH_RETENTION_EVENT = 'social_hub_trash_retention_changed';
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashEntity = 'post' | 'note' | 'journal' | 'document';
+
+type TrashableItem = Post | Note | JournalEntry | Document;
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: EntityId;
+  title: string;
+  // Set for posts only
+  platform?: string;
+  deletedAt: Date;
+  // When it will be purged, or null if the trash is never emptied automatically
+  purgeAt: Date | null;
+}
+
+const repositories: Record<TrashEntity, Repository<TrashableItem>> = {
+  post: postRepository,
+  note: noteRepository,
+  journal: journalRepository,
+  document: documentRepository
+};
+
+// Retention periods offered in settings, in days; 0 keeps items until they're purged by hand
+export const RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const retentionSetting = createLocalSetting(
+  TRASH_RETENTION_KEY,
+  TRASH_RETENTION_EVENT,
+  z.number().finite().nonnegative(),
+  DEFAULT_RETENTION_DAYS
+);
+
+/**
+ * Get how many days deleted items stay in the trash; 0 means forever
+ */
+export const getTrashRetentionDays = (): number => retentionSetting.get();
+
+export const setTrashRetentionDays = (days: number): void => retentionSetting.set(days);
+
+/**
+ * Be told when the retention period changes, in this tab or another
+ * @returns A function that stops listening
+ */
+export const subscribeToTrashRetention = retentionSetting.subscribe;
+
+const getTrashTitle = (entity: TrashEntity, item: TrashableItem): string => {
+  const title = 'title' in item ? item.title : '';
+  if (title) return title;
+
+  const text = htmlToText(item.formattedContent?.html || item.content || '');
+  if (text) return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  return entity === 'post' ? 'Untitled post' : `Untitled ${entity}`;
+};
+
+/**
+ * Get everything in the trash, most recently deleted first
+ */
+export const getTrash = async (): Promise<TrashItem[]> => {
+  const retentionDays = getTrashRetentionDays();
+  const items: TrashItem[] = [];
+
+  for (const entity of Object.keys(repositories) as TrashEntity[]) {
+    for (const item of await repositories[entity].getAll()) {
+      if (!item.deletedAt) continue;
+
+      const deletedAt = new Date(item.deletedAt);
+      items.push({
+        entity,
+        id: item.id,
+        title: getTrashTitle(entity, item),
+        platform: entity === 'post' ? (item as Post).platform : undefined,
+        deletedAt,
+        purgeAt: retentionDays > 0 ? new Date(deletedAt.getTime() + retentionDays * DAY_MS) : null
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+};
+
+/**
+ * Take an item out of the trash, back where it was
+ */
+export const restoreFromTrash = async (entity: TrashEntity, id: EntityId): Promise<boolean> => {
+  return (await repositories[entity].update(id, { deletedAt: null })) !== null;
+};
+
+/**
+ * Delete an item for good, along with the revision history of notes and documents
+ */
+export const purgeFromTrash = async (entity: TrashEntity, id: EntityId): Promise<boolean> => {
+  const deleted = await repositories[entity].delete(id);
+  if (deleted && (entity === 'note' || entity === 'document')) {
+    await deleteRevisions(entity, id);
+  }
+  return deleted;
+};
+
+/**
+ * Delete everything in the trash for good
+ * @returns How many items were purged
+ */
+export const emptyTrash = async (): Promise<number> => {
+  let purged = 0;
+  for (const item of await getTrash()) {
+    if (await purgeFromTrash(item.entity, item.id)) purged++;
+  }
+  return purged;
+};
+
+/**
+ * Purge items that have been in the trash longer than the retention period
+ * @returns How many items were purged
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const now = Date.now();
+  let purged = 0;
+  for (const item of await getTrash()) {
+    if (item.purgeAt && item.purgeAt.getTime() <= now && await purgeFromTrash(item.entity, item.id)) {
+      purged++;
+    }
+  }
+  return purged;
+};
@@ -1,7 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { startMediaResolver } from "./lib/media-store";
 import "./index.css";
 
+// Attachments are referenced as media://<hash> and shown through object URLs
+startMediaResolver();
+
 createRoot(document.getElementById("root")!).render(
   <App />
 );
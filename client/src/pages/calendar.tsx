@@ -0,0 +1,431 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { updatePost } from '@/lib/storage';
+import { copyPostToClipboard } from '@/lib/copy-utils';
+import { CALENDAR_PLATFORMS, getCalendarPlatform, getCalendarPosts, getPostDate, withTimeOf } from '@/lib/schedule-utils';
+import { Post, PostStatus } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Copy, Bell } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+type CalendarView = 'month' | 'week' | 'day';
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Value for a datetime-local input, in the user's timezone
+const toInputValue = (date: Date | null): string => (date ? format(date, "yyyy-MM-dd'T'HH:mm") : '');
+
+const previewText = (post: Post): string => post.content.replace(/<[^>]*>/g, '').trim() || 'Untitled post';
+
+export default function Calendar() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(new Date());
+  const [hiddenPlatforms, setHiddenPlatforms] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
+  const [editStatus, setEditStatus] = useState<PostStatus>('scheduled');
+  const [editDate, setEditDate] = useState('');
+  const [canNotify, setCanNotify] = useState(
+    'Notification' in window && Notification.permission === 'default'
+  );
+
+  useEffect(() => {
+    loadPosts();
+  }, []);
+
+  const loadPosts = async () => {
+    setIsLoading(true);
+    try {
+      setPosts(await getCalendarPosts());
+    } catch (error) {
+      console.error('Error loading calendar posts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load posts. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Days covered by the current view
+  const days = view === 'month'
+    ? eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) })
+    : view === 'week'
+      ? eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) })
+      : [cursor];
+
+  const visiblePosts = posts
+    .filter(post => !hiddenPlatforms.includes(post.platform))
+    .sort((a, b) => getPostDate(a).getTime() - getPostDate(b).getTime());
+
+  const postsOn = (day: Date, hour?: number) => visiblePosts.filter(post => {
+    const date = getPostDate(post);
+    return isSameDay(date, day) && (hour === undefined || date.getHours() === hour);
+  });
+
+  const step = (direction: 1 | -1) => {
+    if (view === 'month') setCursor(addMonths(cursor, direction));
+    else if (view === 'week') setCursor(addWeeks(cursor, direction));
+    else setCursor(addDays(cursor, direction));
+  };
+
+  const title = view === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : view === 'week'
+      ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+      : format(cursor, 'EEEE, MMMM d, yyyy');
+
+  const togglePlatform = (platformId: string) => {
+    setHiddenPlatforms(hiddenPlatforms.includes(platformId)
+      ? hiddenPlatforms.filter(id => id !== platformId)
+      : [...hiddenPlatforms, platformId]);
+  };
+
+  const savePost = async (post: Post, updates: Partial<Post>) => {
+    const updated = await updatePost(post.platform, post.id, updates);
+    if (!updated) {
+      throw new Error('Post not found');
+    }
+    setPosts(current => current.map(p => (p.id === updated.id ? updated : p)));
+    return updated;
+  };
+
+  const handleDrop = async (e: React.DragEvent, day: Date, hour?: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const post = posts.find(p => p.id === e.dataTransfer.getData('text/plain'));
+    if (!post) return;
+
+    const current = getPostDate(post);
+    const target = withTimeOf(day, current);
+    if (hour !== undefined) {
+      target.setHours(hour);
+    }
+    if (target.getTime() === current.getTime()) return;
+
+    if (post.status === 'scheduled' && target < new Date()) {
+      toast({
+        title: 'Can\'t schedule in the past',
+        description: 'Drop the post on a time that hasn\'t happened yet.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await savePost(post, { scheduledFor: target });
+      toast({
+        title: 'Post rescheduled',
+        description: `Moved to ${format(target, 'EEE, MMM d \'at\' h:mm a')}.`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling post:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to reschedule post. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const dropHandlers = (key: string, day: Date, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dropTarget !== key) setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, day, hour),
+  });
+
+  const openPost = (post: Post) => {
+    setSelectedPost(post);
+    setEditStatus(post.status as PostStatus);
+    setEditDate(toInputValue(post.scheduledFor ? new Date(post.scheduledFor) : null));
+  };
+
+  const handleSaveSelected = async () => {
+    if (!selectedPost) return;
+
+    const scheduledFor = editDate ? new Date(editDate) : null;
+    if (editStatus === 'scheduled' && (!scheduledFor || scheduledFor < new Date())) {
+      toast({
+        title: 'Pick a time',
+        description: 'Scheduled posts need a date and time in the future.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await savePost(selectedPost, { status: editStatus, scheduledFor });
+      setSelectedPost(null);
+      toast({
+        title: 'Post updated',
+        description: 'Your changes have been saved.',
+      });
+    } catch (error) {
+      console.error('Error updating post:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update post. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCopy = async (post: Post) => {
+    const success = await copyPostToClipboard(post);
+    toast(success
+      ? { title: 'Copied', description: 'Post copied to clipboard.' }
+      : { title: 'Error', description: 'Failed to copy post. Please try again.', variant: 'destructive' });
+  };
+
+  const handleEnableNotifications = async () => {
+    const permission = await Notification.requestPermission();
+    setCanNotify(false);
+    if (permission === 'granted') {
+      toast({
+        title: 'Reminders enabled',
+        description: 'You\'ll get a notification when a scheduled post is due.',
+      });
+    }
+  };
+
+  const renderPost = (post: Post, compact: boolean) => {
+    const platform = getCalendarPlatform(post.platform);
+    const canMove = post.status !== 'published';
+    return (
+      <button
+        key={post.id}
+        draggable={canMove}
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', post.id)}
+        onClick={() => openPost(post)}
+        className={`w-full text-left rounded px-1.5 py-0.5 text-xs truncate border-l-4 bg-gray-50 hover:bg-gray-100 ${
+          canMove ? 'cursor-grab' : ''
+        } ${post.status === 'archived' ? 'opacity-50 line-through' : ''} ${
+          post.status === 'draft' ? 'border-dashed' : ''
+        }`}
+        style={{ borderLeftColor: platform?.color }}
+        title={`${platform?.label}: ${previewText(post)}`}
+      >
+        <span className="font-medium mr-1">{format(getPostDate(post), 'h:mm a')}</span>
+        {!compact && <span className="text-gray-500 mr-1">{STATUS_LABELS[post.status as PostStatus]}</span>}
+        {previewText(post)}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto">
+        <div className="p-4">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} title="Previous">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} title="Next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="text-xl font-semibold text-gray-800 ml-2">{title}</h2>
+            </div>
+            <div className="flex items-center gap-2">
+              {canNotify && (
+                <Button variant="ghost" size="sm" onClick={handleEnableNotifications}>
+                  <Bell className="mr-2 h-4 w-4" />
+                  Enable reminders
+                </Button>
+              )}
+              {(['month', 'week', 'day'] as CalendarView[]).map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={view === option ? 'default' : 'outline'}
+                  onClick={() => setView(option)}
+                >
+                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {CALENDAR_PLATFORMS.map(platform => (
+              <button
+                key={platform.id}
+                onClick={() => togglePlatform(platform.id)}
+                className={`flex items-center text-xs px-2 py-1 rounded-full border ${
+                  hiddenPlatforms.includes(platform.id) ? 'opacity-40' : ''
+                }`}
+              >
+                <span className="h-2 w-2 rounded-full mr-1.5" style={{ backgroundColor: platform.color }}></span>
+                {platform.label}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : view === 'day' ? (
+            <div className="border rounded-lg divide-y">
+              {HOURS.map(hour => {
+                const key = `hour-${hour}`;
+                return (
+                  <div
+                    key={hour}
+                    className={`flex min-h-[44px] ${dropTarget === key ? 'bg-blue-50' : ''}`}
+                    {...dropHandlers(key, cursor, hour)}
+                  >
+                    <div className="w-16 shrink-0 text-xs text-gray-500 p-2 text-right">
+                      {format(new Date(2000, 0, 1, hour), 'h a')}
+                    </div>
+                    <div className="flex-1 p-1 space-y-1">
+                      {postsOn(cursor, hour).map(post => renderPost(post, false))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <div className="grid grid-cols-7 bg-gray-50 border-b">
+                {days.slice(0, 7).map(day => (
+                  <div key={day.toISOString()} className="text-xs font-medium text-gray-500 p-2 text-center">
+                    {format(day, 'EEE')}
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7">
+                {days.map(day => {
+                  const key = day.toISOString();
+                  return (
+                    <div
+                      key={key}
+                      className={`border-b border-r p-1 space-y-1 ${view === 'month' ? 'min-h-[96px]' : 'min-h-[320px]'} ${
+                        view === 'month' && !isSameMonth(day, cursor) ? 'bg-gray-50 text-gray-400' : ''
+                      } ${dropTarget === key ? 'bg-blue-50' : ''}`}
+                      {...dropHandlers(key, day)}
+                    >
+                      <button
+                        className={`text-xs px-1.5 rounded-full ${isToday(day) ? 'bg-[#022958] text-white' : 'hover:bg-gray-100'}`}
+                        onClick={() => { setCursor(day); setView('day'); }}
+                      >
+                        {format(day, 'd')}
+                      </button>
+                      {postsOn(day).map(post => renderPost(post, true))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {!isLoading && visiblePosts.length === 0 && (
+            <p className="text-center text-gray-500 mt-6">
+              No posts yet. Schedule one from any platform's composer and it will show up here.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Post details dialog */}
+      <Dialog open={!!selectedPost} onOpenChange={(open) => !open && setSelectedPost(null)}>
+        <DialogContent className="sm:max-w-md">
+          {selectedPost && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {getCalendarPlatform(selectedPost.platform)?.label} post
+                  <Badge variant="secondary">{STATUS_LABELS[selectedPost.status as PostStatus]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {format(getPostDate(selectedPost), 'EEEE, MMMM d, yyyy \'at\' h:mm a')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <p className="text-sm text-gray-700 whitespace-pre-wrap max-h-40 overflow-y-auto border rounded p-2">
+                  {previewText(selectedPost)}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={editStatus} onValueChange={(value) => setEditStatus(value as PostStatus)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(STATUS_LABELS) as PostStatus[]).map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="scheduledFor">Scheduled for</Label>
+                    <Input
+                      id="scheduledFor"
+                      type="datetime-local"
+                      value={editDate}
+                      onChange={(e) => setEditDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+              <DialogFooter className="gap-2 sm:justify-between">
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => handleCopy(selectedPost)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => navigate(getCalendarPlatform(selectedPost.platform)?.path || '/')}
+                  >
+                    Open
+                  </Button>
+                </div>
+                <Button onClick={handleSaveSelected}>Save</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
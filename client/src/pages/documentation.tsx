@@ -1,12 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useUser } from '@/context/new-user-context';
 import { useToast } from '@/hooks/use-toast';
-import { getDocuments, deleteDocument } from '@/lib/storage';
+import { getDocuments, deleteDocument, createDocument, updateDocument } from '@/lib/storage';
+import { extractTextFromHtml } from '@/lib/copy-utils';
+import { exportDocumentsToMarkdownZip } from '@/lib/export-utils';
+import { readMarkdownFiles, type ImportedMarkdown } from '@/lib/markdown';
 import { Document } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import DocumentEditor from '@/components/documents/document-editor';
 import DocumentCard from '@/components/documents/document-card';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 // Predefined categories
 const categories = [
@@ -18,7 +23,9 @@ const categories = [
 ];
 
 export default function Documentation() {
+  const { user } = useUser();
   const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -97,12 +104,15 @@ export default function Documentation() {
     setIsCreatingDocument(false);
   };
 
-  const handleDeleteDocument = async (documentId: number) => {
+  // Opened from search
+  useOpenParam(documents, handleEditDocument);
+
+  const handleDeleteDocument = async (documentId: string) => {
     try {
       await deleteDocument(documentId);
       toast({
         title: 'Document deleted',
-        description: 'Your document has been deleted successfully.',
+        description: 'Your document was moved to the trash.',
       });
       await loadDocuments(); // Refresh the documents list
     } catch (error) {
@@ -115,6 +125,90 @@ export default function Documentation() {
     }
   };
 
+  // Each Markdown file becomes a new document; zips are unpacked
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (!user) {
+      toast({
+        title: 'Not logged in',
+        description: 'Please log in to import documents.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const imported = await readMarkdownFiles(files);
+      for (const file of imported) {
+        await createDocument({
+          userId: user.id,
+          title: file.title,
+          content: extractTextFromHtml(file.html),
+          formattedContent: { html: file.html },
+          category: file.category || 'general',
+          tags: file.tags || [],
+          createdAt: file.createdAt,
+          updatedAt: file.updatedAt
+        });
+      }
+      toast({
+        title: 'Markdown imported',
+        description: imported.length === 1
+          ? `"${imported[0].title}" was added to your documents.`
+          : `${imported.length} documents were added.`,
+      });
+      await loadDocuments();
+    } catch (error) {
+      console.error('Error importing Markdown:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import Markdown. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportAll = async () => {
+    try {
+      await exportDocumentsToMarkdownZip(documents);
+    } catch (error) {
+      console.error('Error exporting documents:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Unable to export documents as Markdown',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Replace a document's content with an imported Markdown file; the old version stays in its history
+  const handleImportIntoDocument = async (document: Document, imported: ImportedMarkdown) => {
+    try {
+      await updateDocument(document.id, {
+        title: imported.title,
+        content: extractTextFromHtml(imported.html),
+        formattedContent: { ...document.formattedContent, html: imported.html },
+        category: imported.category ?? document.category,
+        tags: imported.tags ?? document.tags
+      });
+      toast({
+        title: 'Markdown imported',
+        description: `"${imported.fileName}" replaced the document. The previous version is in its history.`,
+      });
+      await loadDocuments();
+    } catch (error) {
+      console.error('Error importing Markdown:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import Markdown. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDiscard = () => {
     setIsCreatingDocument(false);
     setCurrentDocument(null);
@@ -141,6 +235,33 @@ export default function Documentation() {
               >
                 <i className={viewMode === 'grid' ? 'ri-layout-grid-line' : 'ri-list-check'}></i>
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={() => importInputRef.current?.click()}
+                title="Import Markdown (.md or .zip)"
+              >
+                <i className="ri-upload-2-line"></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={handleExportAll}
+                disabled={documents.length === 0}
+                title="Export all as Markdown (.zip)"
+              >
+                <i className="ri-download-2-line"></i>
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".md,.markdown,.zip,text/markdown"
+                multiple
+                className="hidden"
+                onChange={handleImportFiles}
+              />
               <Select
                 value={categoryFilter}
                 onValueChange={(value) => setCategoryFilter(value)}
@@ -209,6 +330,7 @@ export default function Documentation() {
                   document={document}
                   onEdit={handleEditDocument}
                   onDelete={handleDeleteDocument}
+                  onImportMarkdown={handleImportIntoDocument}
                 />
               ))}
             </div>
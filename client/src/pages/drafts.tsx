@@ -0,0 +1,435 @@
+import { useState, useEffect } from 'react';
+import { useUser } from '@/context/new-user-context';
+import { useToast } from '@/hooks/use-toast';
+import RichTextEditor from '@/components/ui/rich-text-editor';
+import TagInput from '@/components/ui/tag-input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CopyExportActions } from '@/components/common/copy-export-actions';
+import PostEditor from '@/components/posts/post-editor';
+import SimplePostEditor from '@/components/posts/simple-post-editor';
+import ThreadComposer from '@/components/posts/thread-composer';
+import PlatformValidation from '@/components/posts/platform-validation';
+import { createPost, updatePost, deletePost } from '@/lib/storage';
+import { toPlainText, validatePost } from '@shared/platform-rules';
+import {
+  MASTER_PLATFORM,
+  VARIANT_PLATFORMS,
+  type VariantState,
+  createVariants,
+  detachVariants,
+  getMasterDrafts,
+  getVariantState,
+  getVariants,
+  updateVariantFromMaster,
+} from '@/lib/cross-post';
+import { useOpenParam } from '@/hooks/use-open-param';
+import { Post } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+
+const STATE_BADGES: Record<VariantState, { label: string; className: string }> = {
+  synced: { label: 'In sync', className: 'bg-green-100 text-green-700' },
+  outdated: { label: 'Master changed', className: 'bg-amber-100 text-amber-700' },
+  diverged: { label: 'Edited separately', className: 'bg-blue-100 text-blue-700' },
+};
+
+export default function Drafts() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [masters, setMasters] = useState<Post[]>([]);
+  const [selected, setSelected] = useState<Post | null>(null);
+  const [variants, setVariants] = useState<Post[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [content, setContent] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newPlatforms, setNewPlatforms] = useState<string[]>([]);
+  const [pendingPropagation, setPendingPropagation] = useState<Post[]>([]);
+  const [resettingVariant, setResettingVariant] = useState<Post | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [editingVariant, setEditingVariant] = useState<Post | null>(null);
+
+  useEffect(() => {
+    loadMasters();
+  }, []);
+
+  const loadMasters = async () => {
+    setIsLoading(true);
+    try {
+      setMasters(await getMasterDrafts());
+    } catch (error) {
+      console.error('Error loading master drafts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load drafts. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadVariants = async (masterId: string) => {
+    setVariants(await getVariants(masterId));
+  };
+
+  const selectMaster = async (master: Post | null) => {
+    setSelected(master);
+    setContent(master?.content || '');
+    setTags(master?.tags || []);
+    setNewPlatforms([]);
+    setVariants([]);
+    if (master) {
+      await loadVariants(master.id);
+    }
+  };
+
+  // Opened from search
+  useOpenParam(masters, selectMaster);
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!content.trim()) {
+      toast({
+        title: 'Cannot save empty draft',
+        description: 'Please write something first.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        content,
+        formattedContent: {
+          html: content,
+          userName: user.displayName || user.username || '',
+          userDesignation: user.designation || '',
+          userProfilePic: user.profilePicture || ''
+        },
+        tags
+      };
+
+      let master: Post | null;
+      if (selected) {
+        master = await updatePost(MASTER_PLATFORM, selected.id, fields);
+      } else {
+        master = await createPost(MASTER_PLATFORM, {
+          ...fields,
+          userId: user.id,
+          platform: MASTER_PLATFORM,
+          mediaUrls: [],
+          status: 'draft'
+        });
+      }
+      if (!master) {
+        throw new Error('Master draft could not be saved');
+      }
+
+      setSelected(master);
+      await loadMasters();
+
+      // Offer to carry the change over to variants that weren't edited on their own
+      const currentVariants = await getVariants(master.id);
+      setVariants(currentVariants);
+      const outdated = currentVariants.filter(variant => getVariantState(master!, variant) === 'outdated');
+      if (outdated.length > 0) {
+        setPendingPropagation(outdated);
+      } else {
+        toast({ title: 'Draft saved', description: 'Your master draft has been saved.' });
+      }
+    } catch (error) {
+      console.error('Error saving master draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save draft. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePropagate = async () => {
+    if (!selected) return;
+    try {
+      for (const variant of pendingPropagation) {
+        await updateVariantFromMaster(selected, variant);
+      }
+      toast({
+        title: 'Variants updated',
+        description: `Updated ${pendingPropagation.length} ${pendingPropagation.length === 1 ? 'variant' : 'variants'} from the master draft.`,
+      });
+      await loadVariants(selected.id);
+    } catch (error) {
+      console.error('Error updating variants:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update variants. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResetVariant = async (variant: Post) => {
+    if (!selected) return;
+    try {
+      await updateVariantFromMaster(selected, variant);
+      await loadVariants(selected.id);
+    } catch (error) {
+      console.error('Error resetting variant:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to reset variant. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreateVariants = async () => {
+    if (!selected || newPlatforms.length === 0) return;
+    try {
+      await createVariants(selected, newPlatforms);
+      setNewPlatforms([]);
+      await loadVariants(selected.id);
+      toast({
+        title: 'Variants created',
+        description: 'Drafts were added to each platform. Edit them there or here.',
+      });
+    } catch (error) {
+      console.error('Error creating variants:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create variants. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await detachVariants(selected.id);
+      await deletePost(MASTER_PLATFORM, selected.id);
+      await selectMaster(null);
+      await loadMasters();
+      toast({
+        title: 'Draft deleted',
+        description: 'The master draft was moved to the trash. Its variants stay on their platforms.',
+      });
+    } catch (error) {
+      console.error('Error deleting master draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete draft. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleVariantEdited = () => {
+    if (selected) {
+      loadVariants(selected.id);
+    }
+  };
+
+  const closeVariantEditor = () => setEditingVariant(null);
+
+  const missingPlatforms = VARIANT_PLATFORMS.filter(platform => !variants.some(v => v.platform === platform.id));
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto">
+        <div className="p-4 grid gap-4 md:grid-cols-[240px_1fr]">
+          {/* Master draft list */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold text-gray-800">Drafts</h2>
+              <Button size="sm" onClick={() => selectMaster(null)}>New</Button>
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center p-6">
+                <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : masters.length === 0 ? (
+              <p className="text-sm text-gray-500">Write a draft once and cross-post it to every platform.</p>
+            ) : masters.map(master => (
+              <button
+                key={master.id}
+                onClick={() => selectMaster(master)}
+                className={`w-full text-left p-2 rounded-md border text-sm ${
+                  selected?.id === master.id ? 'border-primary bg-primary/5' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="truncate font-medium">{toPlainText(master.content) || 'Untitled draft'}</div>
+                <div className="text-xs text-gray-500">
+                  {formatDistanceToNow(new Date(master.createdAt), { addSuffix: true })}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Master editor and variants */}
+          <div className="space-y-4">
+            <div className="bg-white rounded-lg shadow p-4 space-y-3">
+              <h3 className="font-medium">{selected ? 'Master draft' : 'New master draft'}</h3>
+              <RichTextEditor
+                value={content}
+                onChange={setContent}
+                placeholder="Write once, post everywhere..."
+                minHeight="160px"
+                showSubmitButton={false}
+              />
+              <TagInput tags={tags} onChange={setTags} placeholder="Add a tag..." />
+              <div className="flex justify-between">
+                {selected ? (
+                  <Button variant="ghost" className="text-red-600" onClick={() => setConfirmDelete(true)}>
+                    Delete
+                  </Button>
+                ) : <span />}
+                <Button onClick={handleSave} disabled={isSaving || !content.trim()}>
+                  {isSaving ? 'Saving...' : 'Save draft'}
+                </Button>
+              </div>
+            </div>
+
+            {selected && (
+              <div className="space-y-3">
+                {variants.map(variant => {
+                  const state = getVariantState(selected, variant);
+                  const platform = VARIANT_PLATFORMS.find(p => p.id === variant.platform);
+                  return (
+                    <div key={variant.id} className="bg-white rounded-lg shadow p-4">
+                      <div className="flex justify-between items-center mb-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{platform?.label || variant.platform}</span>
+                          <Badge variant="outline" className={STATE_BADGES[state].className}>
+                            {STATE_BADGES[state].label}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {state === 'outdated' && (
+                            <Button size="sm" variant="outline" onClick={() => handleResetVariant(variant)}>
+                              Update from master
+                            </Button>
+                          )}
+                          {state === 'diverged' && (
+                            <Button size="sm" variant="ghost" onClick={() => setResettingVariant(variant)}>
+                              Reset to master
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => setEditingVariant(variant)}>
+                            Edit
+                          </Button>
+                          <CopyExportActions
+                            title={`${platform?.label || variant.platform} post`}
+                            content={variant.formattedContent?.html || variant.content}
+                            isHtml={true}
+                            post={variant}
+                            size="sm"
+                            iconOnly={true}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-4">
+                        {variant.thread?.length
+                          ? `${variant.thread.length}-tweet thread: ${variant.thread[0].content}`
+                          : toPlainText(variant.content)}
+                      </p>
+                      <PlatformValidation
+                        platform={variant.platform}
+                        content={variant.content}
+                        issues={validatePost({ ...variant, status: 'published' })}
+                        showCounter={!variant.thread?.length}
+                      />
+                    </div>
+                  );
+                })}
+
+                {missingPlatforms.length > 0 && (
+                  <div className="bg-white rounded-lg shadow p-4">
+                    <h4 className="text-sm font-medium mb-2">Cross-post to</h4>
+                    <div className="flex flex-wrap gap-4 mb-3">
+                      {missingPlatforms.map(platform => (
+                        <label key={platform.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={newPlatforms.includes(platform.id)}
+                            onCheckedChange={(checked) => setNewPlatforms(checked
+                              ? [...newPlatforms, platform.id]
+                              : newPlatforms.filter(id => id !== platform.id))}
+                          />
+                          {platform.label}
+                        </label>
+                      ))}
+                    </div>
+                    <Button size="sm" onClick={handleCreateVariants} disabled={newPlatforms.length === 0}>
+                      Create variants
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingPropagation.length > 0}
+        onClose={() => setPendingPropagation([])}
+        onConfirm={handlePropagate}
+        title="Update variants?"
+        description={`The ${pendingPropagation.map(v => VARIANT_PLATFORMS.find(p => p.id === v.platform)?.label || v.platform).join(', ')} ${pendingPropagation.length === 1 ? 'variant hasn\'t' : 'variants haven\'t'} been edited since they were created. Update them to match the master draft? Variants you edited separately are left alone.`}
+        confirmText="Update"
+        cancelText="Not now"
+        confirmVariant="default"
+      />
+
+      <ConfirmDialog
+        isOpen={!!resettingVariant}
+        onClose={() => setResettingVariant(null)}
+        onConfirm={() => resettingVariant && handleResetVariant(resettingVariant)}
+        title="Reset variant?"
+        description="The edits made to this variant will be replaced with a fresh copy of the master draft."
+        confirmText="Reset"
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete master draft?"
+        description="The variants already created stay on their platforms, but won't be linked to a master anymore."
+        confirmText="Delete"
+      />
+
+      {/* Variant editors, matching the ones on each platform page */}
+      {editingVariant?.thread?.length ? (
+        <ThreadComposer
+          isOpen={true}
+          onClose={closeVariantEditor}
+          onSaved={handleVariantEdited}
+          post={editingVariant}
+        />
+      ) : editingVariant?.platform === 'instagram' ? (
+        <SimplePostEditor
+          post={editingVariant}
+          platform="instagram"
+          isOpen={true}
+          onClose={closeVariantEditor}
+          onPostUpdated={handleVariantEdited}
+        />
+      ) : editingVariant ? (
+        <PostEditor
+          post={editingVariant}
+          platform={editingVariant.platform}
+          isOpen={true}
+          onClose={closeVariantEditor}
+          onPostUpdated={handleVariantEdited}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { Search } from 'lucide-react';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { MediaContent } from '@/components/common/media-content';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 // Helper function to check if HTML contains an image and extract it
 function extractImage(html: string): string | null {
@@ -36,7 +37,7 @@ export default function Facebook() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [sharingPost, setSharingPost] = useState<Post | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [confirmDeletePostId, setConfirmDeletePostId] = useState<number | null>(null);
+  const [confirmDeletePostId, setConfirmDeletePostId] = useState<string | null>(null);
 
   useEffect(() => {
     const loadPosts = async () => {
@@ -87,7 +88,7 @@ export default function Facebook() {
     }
   };
 
-  const handleDeletePostConfirm = (postId: number) => {
+  const handleDeletePostConfirm = (postId: string) => {
     setConfirmDeletePostId(postId);
   };
   
@@ -101,7 +102,7 @@ export default function Facebook() {
       setFilteredPosts(updatedPosts);
       toast({
         title: 'Post deleted',
-        description: 'Your post has been deleted successfully.',
+        description: 'Your post was moved to the trash.',
       });
       setConfirmDeletePostId(null);
     } catch (error) {
@@ -121,6 +122,9 @@ export default function Facebook() {
     setIsEditDialogOpen(true);
   };
 
+  // Opened from search
+  useOpenParam(posts, handleEditPost);
+
   // Handle post edit completed
   const handlePostUpdated = async () => {
     setIsEditDialogOpen(false);
@@ -129,12 +133,12 @@ export default function Facebook() {
   };
   
   // Share popup positioning refs
-  const [postShareRefs, setPostShareRefs] = useState<{[key: number]: React.RefObject<HTMLDivElement>}>({});
+  const [postShareRefs, setPostShareRefs] = useState<{[key: string]: React.RefObject<HTMLDivElement>}>({});
   const [sharePopupPosition, setSharePopupPosition] = useState<{top: number, left: number}>({top: 0, left: 0});
   
   // Create refs for all posts when they load
   useEffect(() => {
-    const refs: {[key: number]: React.RefObject<HTMLDivElement>} = {};
+    const refs: {[key: string]: React.RefObject<HTMLDivElement>} = {};
     posts.forEach(post => {
       refs[post.id] = React.createRef<HTMLDivElement>();
     });
@@ -517,7 +521,7 @@ export default function Facebook() {
         onClose={() => setConfirmDeletePostId(null)}
         onConfirm={handleDeletePost}
         title="Confirm Delete"
-        description="Are you sure you want to delete this post? This action cannot be undone."
+        description="Are you sure you want to delete this post? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
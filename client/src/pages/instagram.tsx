@@ -15,6 +15,7 @@ import { formatDistanceToNow } from 'date-fns';
 import { FaSearch, FaLink, FaShareAlt, FaTwitter, FaFacebook, FaWhatsapp } from 'react-icons/fa';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 export default function Instagram() {
   const { user, isLoading: userLoading } = useUser();
@@ -22,12 +23,12 @@ export default function Instagram() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [showShareOptions, setShowShareOptions] = useState<number | null>(null);
+  const [showShareOptions, setShowShareOptions] = useState<string | null>(null);
   const [editingPost, setEditingPost] = useState<Post | null>(null);
   const [sharingPost, setSharingPost] = useState<Post | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [confirmDeletePostId, setConfirmDeletePostId] = useState<number | null>(null);
+  const [confirmDeletePostId, setConfirmDeletePostId] = useState<string | null>(null);
 
   useEffect(() => {
     const loadPosts = async () => {
@@ -61,7 +62,7 @@ export default function Instagram() {
     }
   };
 
-  const handleDeletePostConfirm = (postId: number) => {
+  const handleDeletePostConfirm = (postId: string) => {
     setConfirmDeletePostId(postId);
   };
   
@@ -73,7 +74,7 @@ export default function Instagram() {
       setPosts(posts.filter(post => post.id !== confirmDeletePostId));
       toast({
         title: 'Post deleted',
-        description: 'Your post has been deleted successfully.',
+        description: 'Your post was moved to the trash.',
       });
       setConfirmDeletePostId(null);
     } catch (error) {
@@ -96,7 +97,7 @@ export default function Instagram() {
     return match ? match[1] : null;
   };
   
-  const handleShare = (postId: number) => {
+  const handleShare = (postId: string) => {
     setShowShareOptions(showShareOptions === postId ? null : postId);
   };
   
@@ -155,6 +156,9 @@ export default function Instagram() {
     setEditingPost(post);
     setIsEditDialogOpen(true);
   };
+
+  // Opened from search
+  useOpenParam(posts, handleEditPost);
   
   const handleEditDialogClose = () => {
     setIsEditDialogOpen(false);
@@ -177,12 +181,12 @@ export default function Instagram() {
   };
   
   // Share popup positioning refs
-  const [postShareRefs, setPostShareRefs] = useState<{[key: number]: React.RefObject<HTMLButtonElement>}>({});
+  const [postShareRefs, setPostShareRefs] = useState<{[key: string]: React.RefObject<HTMLButtonElement>}>({});
   const [sharePopupPosition, setSharePopupPosition] = useState<{top: number, left: number}>({top: 0, left: 0});
   
   // Create refs for all posts when they load
   useEffect(() => {
-    const refs: {[key: number]: React.RefObject<HTMLButtonElement>} = {};
+    const refs: {[key: string]: React.RefObject<HTMLButtonElement>} = {};
     posts.forEach(post => {
       refs[post.id] = React.createRef<HTMLButtonElement>();
     });
@@ -517,7 +521,7 @@ export default function Instagram() {
         onClose={() => setConfirmDeletePostId(null)}
         onConfirm={handleDeletePost}
         title="Confirm Delete"
-        description="Are you sure you want to delete this post? This action cannot be undone."
+        description="Are you sure you want to delete this post? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
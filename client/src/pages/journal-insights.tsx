@@ -0,0 +1,321 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation } from 'wouter';
+import { Bar, BarChart, CartesianGrid, Cell, ComposedChart, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { getJournalEntries, getNotebooks } from '@/lib/storage';
+import { onStoreChange } from '@/lib/offline-storage';
+import { INSIGHTS_RANGES, getJournalInsights } from '@/lib/journal-insights';
+import { MOODS, getClosestMood } from '@/lib/journal-moods';
+import { getJournalTrackers, subscribeToTrackers } from '@/lib/journal-trackers';
+import { withoutPrivateEntries } from '@/lib/journal-notebooks';
+import TrackerTrendCard from '@/components/journal/tracker-trend-card';
+import TrackerManagerDialog from '@/components/journal/tracker-manager-dialog';
+import { JournalEntry } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+
+// Names for the ends and middle of the mood scale
+const MOOD_TICKS: Record<number, string> = { [-2]: 'Low', 0: 'Okay', 2: 'Good' };
+
+const moodChartConfig = {
+  mood: { label: 'Mood', color: '#eab308' },
+} satisfies ChartConfig;
+
+const weekdayChartConfig: ChartConfig = Object.fromEntries(
+  MOODS.map(mood => [mood.value, { label: mood.label, color: mood.color }])
+);
+
+const weatherChartConfig = {
+  mood: { label: 'Average mood', color: '#0ea5e9' },
+} satisfies ChartConfig;
+
+const writingChartConfig = {
+  entries: { label: 'Entries', color: '#22c55e' },
+  words: { label: 'Words', color: '#0ea5e9' },
+} satisfies ChartConfig;
+
+const formatMood = (score: number): string => `${score > 0 ? '+' : ''}${score} (${getClosestMood(score).label})`;
+
+export default function JournalInsights() {
+  const [, navigate] = useLocation();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [days, setDays] = useState(INSIGHTS_RANGES[0].days);
+  const [trackers, setTrackers] = useState(getJournalTrackers);
+  const [showTrackerManager, setShowTrackerManager] = useState(false);
+
+  useEffect(() => subscribeToTrackers(() => setTrackers(getJournalTrackers())), []);
+
+  useEffect(() => {
+    const loadEntries = () => {
+      // Entries in private notebooks are left out
+      Promise.all([getJournalEntries(), getNotebooks()])
+        .then(([allEntries, notebooks]) => setEntries(withoutPrivateEntries(allEntries, notebooks)))
+        .catch(error => console.error('Error loading journal entries:', error))
+        .finally(() => setIsLoading(false));
+    };
+
+    loadEntries();
+    // Entries written on other devices show up as they sync
+    return onStoreChange(store => {
+      if (store === 'journals' || store === 'notebooks') loadEntries();
+    });
+  }, []);
+
+  const insights = useMemo(() => getJournalInsights(entries, days), [entries, days]);
+  const averageMood = insights.averageMood === null ? null : getClosestMood(insights.averageMood);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/journal')} title="Back to journal">
+              <i className="ri-arrow-left-line"></i>
+            </Button>
+            <h2 className="text-xl font-semibold text-gray-800">Journal insights</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowTrackerManager(true)}>
+              <i className="ri-settings-3-line mr-1"></i>
+              Trackers
+            </Button>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INSIGHTS_RANGES.map(range => (
+                  <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          <i className="ri-lock-line mr-1"></i>
+          Worked out on this device from your entries, leaving out private notebooks. Nothing here leaves it.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : insights.entries === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <i className="ri-line-chart-line text-3xl"></i>
+            <p className="text-sm mt-2">
+              No journal entries in this period. Write a few, picking a mood and the weather, and your insights will show up here.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="p-4 pb-1">
+                  <CardDescription>Entries</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 pt-0 text-2xl font-semibold">{insights.entries}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="p-4 pb-1">
+                  <CardDescription>Words written</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 pt-0 text-2xl font-semibold">{insights.words.toLocaleString()}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="p-4 pb-1">
+                  <CardDescription>Words per entry</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 pt-0 text-2xl font-semibold">
+                  {Math.round(insights.words / insights.entries).toLocaleString()}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="p-4 pb-1">
+                  <CardDescription>Average mood</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 pt-0 text-2xl font-semibold">
+                  {averageMood ? (
+                    <span style={{ color: averageMood.color }}>
+                      <i className={`${averageMood.icon} mr-1`}></i>
+                      {averageMood.label}
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Mood over time</CardTitle>
+                  <CardDescription>Average mood per {insights.unit}, from entries with a mood picked.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={moodChartConfig} className="w-full">
+                    <LineChart data={insights.timeline} margin={{ left: 8, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis
+                        domain={[-2, 2]}
+                        ticks={[-2, 0, 2]}
+                        tickFormatter={(value: number) => MOOD_TICKS[value] ?? ''}
+                        tickLine={false}
+                        axisLine={false}
+                        width={40}
+                      />
+                      <ChartTooltip
+                        content={<ChartTooltipContent formatter={(value) => formatMood(Number(value))} />}
+                      />
+                      <Line dataKey="mood" type="monotone" stroke="var(--color-mood)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Moods by weekday</CardTitle>
+                  <CardDescription>How many entries had each mood, by the day they were written.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={weekdayChartConfig} className="w-full">
+                    <BarChart data={insights.weekdays}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="weekday" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {MOODS.map(mood => (
+                        <Bar key={mood.value} dataKey={mood.value} stackId="moods" fill={`var(--color-${mood.value})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Weather and mood</CardTitle>
+                  <CardDescription>Average mood for each kind of weather, from entries that have both.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {insights.weather.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-6 text-center">
+                      Pick the weather along with a mood in your entries to see how they go together.
+                    </p>
+                  ) : (
+                    <ChartContainer config={weatherChartConfig} className="w-full">
+                      <BarChart data={insights.weather}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis
+                          domain={[-2, 2]}
+                          ticks={[-2, 0, 2]}
+                          tickFormatter={(value: number) => MOOD_TICKS[value] ?? ''}
+                          tickLine={false}
+                          axisLine={false}
+                          width={40}
+                        />
+                        <ChartTooltip
+                          content={
+                            <ChartTooltipContent
+                              formatter={(value, _name, item) => `${formatMood(Number(value))} over ${item.payload.entries} ${item.payload.entries === 1 ? 'entry' : 'entries'}`}
+                            />
+                          }
+                        />
+                        <Bar dataKey="mood" radius={4}>
+                          {insights.weather.map(weather => (
+                            <Cell key={weather.weather} fill={getClosestMood(weather.mood).color} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Writing</CardTitle>
+                  <CardDescription>Entries and words written per {insights.unit}.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={writingChartConfig} className="w-full">
+                    <ComposedChart data={insights.timeline}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis yAxisId="entries" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <YAxis yAxisId="words" orientation="right" tickLine={false} axisLine={false} width={48} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar yAxisId="entries" dataKey="entries" fill="var(--color-entries)" radius={4} />
+                      <Line yAxisId="words" dataKey="words" type="monotone" stroke="var(--color-words)" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Top tags by mood</CardTitle>
+                <CardDescription>The tags you use most when you feel each way.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {insights.tagsByMood.length === 0 ? (
+                  <p className="text-sm text-gray-500">Tag entries that have a mood to see which topics go with which feelings.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {insights.tagsByMood.map(({ mood, tags }) => (
+                      <div key={mood.value} className="flex flex-wrap items-center gap-2">
+                        <span className="w-24 text-sm font-medium" style={{ color: mood.color }}>
+                          <i className={`${mood.icon} mr-1`}></i>
+                          {mood.label}
+                        </span>
+                        {tags.map(({ tag, count }) => (
+                          <Badge key={tag} variant="secondary">
+                            #{tag}
+                            <span className="ml-1 opacity-60">{count}</span>
+                          </Badge>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <h3 className="text-base font-semibold text-gray-800 pt-2">Trackers</h3>
+            {trackers.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Set up trackers for things like sleep, energy or habits, record them with your entries, and follow them here.
+              </p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                {trackers.map(tracker => (
+                  <TrackerTrendCard key={tracker.id} tracker={tracker} entries={entries} days={days} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <TrackerManagerDialog isOpen={showTrackerManager} onClose={() => setShowTrackerManager(false)} />
+    </div>
+  );
+}
@@ -1,18 +1,35 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useUser } from '@/context/user-context';
 import { useToast } from '@/hooks/use-toast';
 import TabNavigation from '@/components/layout/tab-navigation';
 import JournalEditor from '@/components/journal/journal-editor';
 import JournalEntryComponent from '@/components/journal/journal-entry';
-import { getJournalEntries, deleteJournalEntry } from '@/lib/storage';
-import { JournalEntry } from '@shared/schema';
+import JournalCalendar from '@/components/journal/journal-calendar';
+import OnThisDay from '@/components/journal/on-this-day';
+import TemplateManagerDialog from '@/components/journal/template-manager-dialog';
+import NotebookSwitcher from '@/components/journal/notebook-switcher';
+import NotebookSettingsDialog from '@/components/journal/notebook-settings-dialog';
+import { getJournalEntries, deleteJournalEntry, getNotebooks, moveJournalEntry } from '@/lib/storage';
+import { getStreaks, groupEntriesByDay } from '@/lib/journal-calendar';
+import {
+  getCurrentNotebookId,
+  getEntryNotebookId,
+  getNotebookColor,
+  getNotebookName,
+  setCurrentNotebookId
+} from '@/lib/journal-notebooks';
+import { onStoreChange } from '@/lib/offline-storage';
+import { JournalEntry, Notebook } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { format } from 'date-fns';
+import { useOpenParam } from '@/hooks/use-open-param';
+import { useLocation } from 'wouter';
 
 export default function Journal() {
   const { user } = useUser();
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -20,9 +37,31 @@ export default function Journal() {
   const [isCreatingEntry, setIsCreatingEntry] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  // Day picked on the calendar for a new entry
+  const [newEntryDate, setNewEntryDate] = useState<string | undefined>();
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [notebookId, setNotebookId] = useState(getCurrentNotebookId);
+  // Notebook whose settings are open: null to set up a new one, undefined when closed
+  const [notebookToEdit, setNotebookToEdit] = useState<Notebook | null | undefined>();
+
+  // A notebook deleted on another device falls back to the default one
+  const currentNotebook = notebooks.find(notebook => notebook.id === notebookId);
+  const currentNotebookId = currentNotebook?.id ?? null;
+  const notebookEntries = useMemo(
+    () => entries.filter(entry => getEntryNotebookId(entry, notebooks) === currentNotebookId),
+    [entries, notebooks, currentNotebookId]
+  );
+  const streaks = useMemo(() => getStreaks(groupEntriesByDay(notebookEntries).keys()), [notebookEntries]);
+  const isEditing = isCreatingEntry || !!currentEntry;
 
   useEffect(() => {
     loadJournalEntries();
+    // Notebooks set up on other devices show up as they sync
+    return onStoreChange(store => {
+      if (store === 'notebooks') loadNotebooks();
+    });
   }, []);
 
   useEffect(() => {
@@ -30,7 +69,7 @@ export default function Journal() {
     if (searchTerm.trim()) {
       const lowercasedSearch = searchTerm.toLowerCase();
       setFilteredEntries(
-        entries.filter(
+        notebookEntries.filter(
           entry => 
             entry.title.toLowerCase().includes(lowercasedSearch) || 
             entry.content.toLowerCase().includes(lowercasedSearch) ||
@@ -41,16 +80,16 @@ export default function Journal() {
         )
       );
     } else {
-      setFilteredEntries(entries);
+      setFilteredEntries(notebookEntries);
     }
-  }, [searchTerm, entries]);
+  }, [searchTerm, notebookEntries]);
 
   const loadJournalEntries = async () => {
     setIsLoading(true);
     try {
-      const userEntries = await getJournalEntries();
+      const [userEntries, userNotebooks] = await Promise.all([getJournalEntries(), getNotebooks()]);
       setEntries(userEntries);
-      setFilteredEntries(userEntries);
+      setNotebooks(userNotebooks);
     } catch (error) {
       console.error('Error loading journal entries:', error);
       toast({
@@ -63,7 +102,55 @@ export default function Journal() {
     }
   };
 
+  const loadNotebooks = () => {
+    getNotebooks()
+      .then(setNotebooks)
+      .catch(error => console.error('Error loading notebooks:', error));
+  };
+
+  const selectNotebook = (id: string | null) => {
+    setNotebookId(id);
+    setCurrentNotebookId(id);
+  };
+
+  const handleNotebookSaved = (notebook: Notebook) => {
+    setNotebookToEdit(undefined);
+    loadNotebooks();
+    selectNotebook(notebook.id);
+  };
+
+  const handleNotebookDeleted = async () => {
+    setNotebookToEdit(undefined);
+    selectNotebook(null);
+    await loadJournalEntries();
+  };
+
+  const handleMoveEntry = async (entryId: string, targetId: string | null) => {
+    try {
+      await moveJournalEntry(entryId, targetId);
+      toast({
+        title: 'Entry moved',
+        description: `It's now in ${getNotebookName(notebooks.find(notebook => notebook.id === targetId))}.`,
+      });
+      await loadJournalEntries();
+    } catch (error) {
+      console.error('Error moving journal entry:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to move the journal entry. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleCreateNewEntry = () => {
+    setNewEntryDate(undefined);
+    setIsCreatingEntry(true);
+    setCurrentEntry(null);
+  };
+
+  const handleCreateEntryForDay = (day: string) => {
+    setNewEntryDate(day);
     setIsCreatingEntry(true);
     setCurrentEntry(null);
   };
@@ -82,17 +169,23 @@ export default function Journal() {
     }
   };
 
+  // Entries opened from search may be in another notebook, which is opened with them
   const handleEditEntry = (entry: JournalEntry) => {
+    const entryNotebookId = getEntryNotebookId(entry, notebooks);
+    if (entryNotebookId !== currentNotebookId) selectNotebook(entryNotebookId);
     setCurrentEntry(entry);
     setIsCreatingEntry(false);
   };
 
-  const handleDeleteEntry = async (entryId: number) => {
+  // Opened from search
+  useOpenParam(entries, handleEditEntry);
+
+  const handleDeleteEntry = async (entryId: string) => {
     try {
       await deleteJournalEntry(entryId);
       toast({
         title: 'Journal entry deleted',
-        description: 'Your journal entry has been deleted successfully.',
+        description: 'Your journal entry was moved to the trash.',
       });
       await loadJournalEntries(); // Refresh the entries list
     } catch (error) {
@@ -131,8 +224,43 @@ export default function Journal() {
       <div className="flex-1 overflow-auto">
         <div className="p-4">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-gray-800">My Journal</h2>
+            <div className="border-l-4 pl-1" style={{ borderColor: getNotebookColor(currentNotebook) }}>
+              <NotebookSwitcher
+                notebooks={notebooks}
+                currentId={currentNotebookId}
+                onSelect={selectNotebook}
+                onCreate={() => setNotebookToEdit(null)}
+                onEdit={setNotebookToEdit}
+              />
+            </div>
             <div className="flex space-x-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={() => setView(view === 'list' ? 'calendar' : 'list')}
+                title={view === 'list' ? 'Calendar view' : 'List view'}
+              >
+                <i className={view === 'list' ? 'ri-calendar-2-line' : 'ri-list-unordered'}></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={() => navigate('/journal/insights')}
+                title="Insights"
+              >
+                <i className="ri-line-chart-line"></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={() => setShowTemplates(true)}
+                title="Templates"
+              >
+                <i className="ri-file-list-3-line"></i>
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -154,11 +282,28 @@ export default function Journal() {
               </div>
             </div>
           </div>
+
+          {notebookEntries.length > 0 && !isEditing && (
+            <p className="text-sm text-gray-600 mb-4">
+              <i className="ri-fire-line text-orange-500 mr-1"></i>
+              {streaks.current > 0
+                ? `${streaks.current}-day writing streak`
+                : 'No current streak. Write today to start one'}
+              <span className="text-gray-400"> · Longest {streaks.longest} {streaks.longest === 1 ? 'day' : 'days'}</span>
+            </p>
+          )}
+
+          {!isEditing && !searchTerm.trim() && (
+            <OnThisDay entries={notebookEntries} onOpenEntry={handleEditEntry} />
+          )}
           
           {/* Journal Entry Editor - shown when creating a new entry or editing an existing one */}
-          {(isCreatingEntry || currentEntry) && (
+          {isEditing && (
             <JournalEditor
               entry={currentEntry || undefined}
+              initialDate={newEntryDate}
+              notebookId={currentNotebookId}
+              defaultTemplateId={currentNotebook?.defaultTemplateId}
               onSave={handleSaveEntry}
               onDiscard={handleDiscard}
             />
@@ -169,12 +314,20 @@ export default function Journal() {
             <div className="flex justify-center p-8">
               <div className="animate-spin h-8 w-8 border-4 border-secondary border-t-transparent rounded-full"></div>
             </div>
-          ) : filteredEntries.length === 0 && !isCreatingEntry && !currentEntry ? (
+          ) : view === 'calendar' ? !isEditing && (
+            <JournalCalendar
+              entries={filteredEntries}
+              onOpenEntry={handleEditEntry}
+              onCreateEntry={handleCreateEntryForDay}
+            />
+          ) : filteredEntries.length === 0 && !isEditing ? (
             <div className="bg-white rounded-lg shadow p-8 text-center">
               <div className="mb-4 text-green-500">
                 <i className="ri-book-2-line text-5xl"></i>
               </div>
-              <h3 className="text-lg font-medium text-gray-800 mb-2">No journal entries yet</h3>
+              <h3 className="text-lg font-medium text-gray-800 mb-2">
+                {currentNotebook ? `No entries in ${currentNotebook.name} yet` : 'No journal entries yet'}
+              </h3>
               <p className="text-gray-600 mb-4">
                 Start journaling to capture your thoughts and experiences!
               </p>
@@ -183,7 +336,7 @@ export default function Journal() {
                 Create Entry
               </Button>
             </div>
-          ) : !isCreatingEntry && !currentEntry && (
+          ) : !isEditing && (
             <div className="space-y-4">
               {filteredEntries.map(entry => (
                 <JournalEntryComponent
@@ -191,6 +344,8 @@ export default function Journal() {
                   entry={entry}
                   onEdit={handleEditEntry}
                   onDelete={handleDeleteEntry}
+                  notebooks={notebooks}
+                  onMove={handleMoveEntry}
                 />
               ))}
             </div>
@@ -199,7 +354,7 @@ export default function Journal() {
       </div>
       
       {/* Add New Entry button at the top of the journal entries list */}
-      {!isCreatingEntry && !currentEntry && (
+      {!isEditing && (
         <div className="fixed bottom-6 right-6">
           <Button
             className="bg-yellow-500 hover:bg-yellow-600 text-white flex items-center"
@@ -210,6 +365,15 @@ export default function Journal() {
           </Button>
         </div>
       )}
+
+      <TemplateManagerDialog isOpen={showTemplates} onClose={() => setShowTemplates(false)} />
+      <NotebookSettingsDialog
+        isOpen={notebookToEdit !== undefined}
+        notebook={notebookToEdit ?? null}
+        onClose={() => setNotebookToEdit(undefined)}
+        onSaved={handleNotebookSaved}
+        onDeleted={handleNotebookDeleted}
+      />
     </div>
   );
 }
@@ -8,12 +8,14 @@ import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import PostComposer from '@/components/posts/post-composer';
 import PostEditor from '@/components/posts/post-editor';
+import PlatformImportDialog from '@/components/posts/platform-import-dialog';
 import SocialSharePopup from '@/components/posts/social-share-popup';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { MediaContent } from '@/components/common/media-content';
 import { copyFormattedContent, extractImagesFromHtml } from '@/lib/copy-utils';
 import { getPosts, createPost, updatePost, deletePost } from '@/lib/storage';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 // Debug - log when module loads
 console.log('LinkedIn page module loading');
@@ -68,7 +70,8 @@ export default function LinkedIn() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [sharingPost, setSharingPost] = useState<Post | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [confirmDeletePostId, setConfirmDeletePostId] = useState<number | null>(null);
+  const [confirmDeletePostId, setConfirmDeletePostId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   
   // This effect runs once on mount to set initial posts
   useEffect(() => {
@@ -146,7 +149,7 @@ export default function LinkedIn() {
   };
 
   // Show the confirmation dialog when delete is requested
-  const confirmPostDelete = (postId: number) => {
+  const confirmPostDelete = (postId: string) => {
     setConfirmDeletePostId(postId);
   };
 
@@ -182,6 +185,9 @@ export default function LinkedIn() {
     setEditingPost(post);
     setIsEditDialogOpen(true);
   };
+
+  // Opened from search
+  useOpenParam(posts, handleEditPost);
   
   const handleEditDialogClose = () => {
     setIsEditDialogOpen(false);
@@ -297,6 +303,13 @@ export default function LinkedIn() {
                 >
                   <i className="ri-refresh-line text-base sm:text-xl"></i>
                 </button>
+                <button 
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors flex items-center justify-center"
+                  onClick={() => setIsImportOpen(true)}
+                  title="Import from your LinkedIn data export"
+                >
+                  <i className="ri-upload-2-line text-base sm:text-xl"></i>
+                </button>
               </div>
             </div>
           </div>
@@ -492,13 +505,20 @@ export default function LinkedIn() {
         </div>
       )}
       
+      <PlatformImportDialog
+        platform="linkedin"
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={reloadPosts}
+      />
+
       {/* Delete Confirmation Modal */}
       <ConfirmationModal
         isOpen={confirmDeletePostId !== null}
         onClose={() => setConfirmDeletePostId(null)}
         onConfirm={handleDeletePost}
         title="Confirm Delete"
-        description="Are you sure you want to delete this post? This action cannot be undone."
+        description="Are you sure you want to delete this post? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
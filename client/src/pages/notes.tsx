@@ -8,6 +8,9 @@ import { getNotes, createNote, updateNote, deleteNote } from '@/lib/storage';
 import { Note } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { useOpenParam } from '@/hooks/use-open-param';
+import { extractTextFromHtml } from '@/lib/copy-utils';
+import type { ImportedMarkdown } from '@/lib/markdown';
 
 export default function Notes() {
   const { user } = useUser();
@@ -87,13 +90,16 @@ export default function Notes() {
     setIsCreatingNote(false);
   };
 
+  // Opened from search
+  useOpenParam(notes, handleEditNote);
+
   // Direct delete handler without separate confirmation
-  const handleDeleteNote = async (noteId: number) => {
+  const handleDeleteNote = async (noteId: string) => {
     try {
       await deleteNote(noteId);
       toast({
         title: 'Note deleted',
-        description: 'Your note has been deleted successfully.',
+        description: 'Your note was moved to the trash.',
       });
       await loadNotes(); // Refresh the notes list
     } catch (error) {
@@ -142,6 +148,30 @@ export default function Notes() {
     }
   };
 
+  // Replace a note's content with an imported Markdown file; the old version stays in its history
+  const handleImportMarkdown = async (note: Note, imported: ImportedMarkdown) => {
+    try {
+      await updateNote(note.id, {
+        title: imported.title,
+        content: extractTextFromHtml(imported.html),
+        formattedContent: { ...note.formattedContent, html: imported.html },
+        tags: imported.tags ?? note.tags
+      });
+      toast({
+        title: 'Markdown imported',
+        description: `"${imported.fileName}" replaced the note. The previous version is in its history.`,
+      });
+      await loadNotes();
+    } catch (error) {
+      console.error('Error importing Markdown:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import Markdown. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDiscard = () => {
     setIsCreatingNote(false);
     setCurrentNote(null);
@@ -260,6 +290,7 @@ export default function Notes() {
                   onEdit={handleEditNote}
                   onDelete={handleDeleteNote}
                   onCopy={handleCopyNote}
+                  onImportMarkdown={handleImportMarkdown}
                 />
               ))}
             </div>
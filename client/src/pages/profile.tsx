@@ -9,7 +9,10 @@ import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
 import CheckoutButton from '@/components/checkout/checkout-button';
-import { FaCamera, FaDatabase, FaCheck, FaTrash, FaDownload } from 'react-icons/fa';
+import EncryptionSettings from '@/components/profile/encryption-settings';
+import RestoreBackupDialog from '@/components/profile/restore-backup-dialog';
+import { downloadBackup, readBackup, type Backup } from '@/lib/backup';
+import { FaCamera, FaDatabase, FaCheck, FaTrash, FaDownload, FaUpload } from 'react-icons/fa';
 
 export default function Profile() {
   const { user, updateUserProfile, isLoading: isUserLoading } = useUser();
@@ -22,7 +25,10 @@ export default function Profile() {
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [showSavedIndicator, setShowSavedIndicator] = useState(false);
   const [isDataModalOpen, setIsDataModalOpen] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Function to load profile data from localStorage
@@ -363,6 +369,43 @@ export default function Profile() {
     reader.readAsDataURL(file);
   };
 
+  const handleDownloadBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      await downloadBackup();
+      toast({
+        title: 'Backup downloaded',
+        description: 'Restore it from this page in any browser to bring your data along.',
+      });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create the backup. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleBackupSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    try {
+      setBackup(await readBackup(file, user.id));
+      setIsDataModalOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Can\'t restore this file',
+        description: error instanceof Error ? error.message : 'The backup could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleSelectProfilePicture = () => {
     fileInputRef.current?.click();
   };
@@ -514,6 +557,8 @@ export default function Profile() {
 
             </CardContent>
           </Card>
+
+          <EncryptionSettings />
         </div>
       </div>
       
@@ -550,40 +595,40 @@ export default function Profile() {
             
             <div className="flex items-center justify-between">
               <div>
-                <h4 className="font-medium">Export All Data</h4>
-                <p className="text-sm text-gray-500">Download all your data as JSON</p>
+                <h4 className="font-medium">Download Everything</h4>
+                <p className="text-sm text-gray-500">Your profile, posts, notes, journal and documents in one archive</p>
               </div>
               <Button
                 variant="outline"
                 className="flex items-center"
-                onClick={() => {
-                  // Collect all data from localStorage
-                  const data = {
-                    profile: localStorage.getItem('userProfile') ? JSON.parse(localStorage.getItem('userProfile') || '{}') : null,
-                    notes: localStorage.getItem('notes') ? JSON.parse(localStorage.getItem('notes') || '[]') : [],
-                    journals: localStorage.getItem('journals') ? JSON.parse(localStorage.getItem('journals') || '[]') : [],
-                    posts: localStorage.getItem('posts') ? JSON.parse(localStorage.getItem('posts') || '[]') : [],
-                    // Add any other data stores you have
-                  };
-                  
-                  // Create a download link
-                  const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(data, null, 2));
-                  const downloadAnchorNode = document.createElement('a');
-                  downloadAnchorNode.setAttribute("href", dataStr);
-                  downloadAnchorNode.setAttribute("download", "social_hub_data.json");
-                  document.body.appendChild(downloadAnchorNode); // Required for Firefox
-                  downloadAnchorNode.click();
-                  downloadAnchorNode.remove();
-                  
-                  toast({
-                    title: 'Data exported',
-                    description: 'Your data has been exported as JSON',
-                  });
-                }}
+                onClick={handleDownloadBackup}
+                disabled={isBackingUp}
               >
                 <FaDownload className="mr-2" size={14} />
-                Export
+                {isBackingUp ? 'Preparing...' : 'Download'}
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium">Restore From Backup</h4>
+                <p className="text-sm text-gray-500">Preview a backup, then merge it in or replace your data</p>
+              </div>
+              <Button
+                variant="outline"
+                className="flex items-center"
+                onClick={() => backupInputRef.current?.click()}
+              >
+                <FaUpload className="mr-2" size={14} />
+                Restore
               </Button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={handleBackupSelected}
+              />
             </div>
             
             <div className="flex items-center justify-between">
@@ -632,6 +677,7 @@ export default function Profile() {
         </DialogContent>
       </Dialog>
 
+      <RestoreBackupDialog backup={backup} onClose={() => setBackup(null)} />
     </div>
   );
 }
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { useLocation, useParams, useSearch } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Highlighted, ResultIcon, getResultPath } from '@/components/layout/command-palette';
+import { getOpenPath } from '@/hooks/use-open-param';
+import { search, subscribeToSearchIndex, type SearchResult } from '@/lib/search-index';
+import {
+  createSmartFilter,
+  deleteSmartFilter,
+  getSmartFilters,
+  subscribeToSmartFilters,
+  updateSmartFilter,
+  type SmartFilter,
+} from '@/lib/smart-filters';
+import { parseSearchQuery } from '@shared/search';
+import { format } from 'date-fns';
+
+const SYNTAX_EXAMPLES = [
+  { example: 'launch plan', description: 'Both words, anywhere' },
+  { example: '"launch plan"', description: 'The exact phrase' },
+  { example: 'tag:launch', description: 'Tagged "launch" (or #launch)' },
+  { example: 'platform:linkedin', description: 'Posts for one platform' },
+  { example: 'mood:happy', description: 'Journal entries with a mood' },
+  { example: 'type:note', description: 'post, note, journal or doc' },
+  { example: 'status:draft', description: 'Posts with a status' },
+  { example: 'before:2025-06-01', description: 'Dated before a day (or after:)' },
+  { example: 'has:image', description: 'has:image, has:video, has:link or has:tags' },
+  { example: '-word, a OR b, (a b)', description: 'Exclude, either, group' },
+];
+
+// Results shown at most, best first
+const RESULT_LIMIT = 200;
+
+export default function Search() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const params = useParams<{ filterId?: string }>();
+  const searchParams = useSearch();
+  const [filter, setFilter] = useState<SmartFilter | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [filterName, setFilterName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Load the smart filter or the query from the URL
+  useEffect(() => {
+    const loadFilter = () => {
+      if (params.filterId) {
+        const saved = getSmartFilters().find(candidate => candidate.id === params.filterId) || null;
+        setFilter(saved);
+        if (saved) setQuery(saved.query);
+      } else {
+        setFilter(null);
+        setQuery(new URLSearchParams(searchParams).get('q') || '');
+      }
+    };
+
+    loadFilter();
+    return subscribeToSmartFilters(loadFilter);
+  }, [params.filterId, searchParams]);
+
+  const parsed = parseSearchQuery(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    const runSearch = async () => {
+      setIsSearching(true);
+      try {
+        const found = await search(query, { limit: RESULT_LIMIT });
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    };
+
+    runSearch();
+    const unsubscribe = subscribeToSearchIndex(runSearch);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [query]);
+
+  const openSaveDialog = () => {
+    setFilterName(filter?.name || '');
+    setIsSaveDialogOpen(true);
+  };
+
+  const handleSaveFilter = () => {
+    if (!filterName.trim() || !query.trim()) return;
+
+    if (filter) {
+      updateSmartFilter(filter.id, { name: filterName.trim(), query: query.trim() });
+      toast({ title: 'Smart filter updated', description: `"${filterName.trim()}" has been saved.` });
+    } else {
+      const created = createSmartFilter(filterName, query);
+      toast({ title: 'Smart filter saved', description: `"${created.name}" now has its own tab.` });
+      navigate(`/search/${created.id}`);
+    }
+    setIsSaveDialogOpen(false);
+  };
+
+  const handleDeleteFilter = () => {
+    if (!filter) return;
+    deleteSmartFilter(filter.id);
+    toast({ title: 'Smart filter deleted', description: `"${filter.name}" has been removed.` });
+    navigate(`/search?q=${encodeURIComponent(filter.query)}`);
+  };
+
+  const isModified = !!filter && filter.query !== query.trim();
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <div className="flex justify-between items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-800 truncate">
+            {filter ? filter.name : 'Search'}
+          </h2>
+          <div className="flex gap-2 flex-shrink-0">
+            {filter && (
+              <Button variant="ghost" className="text-red-600" onClick={() => setConfirmDelete(true)}>
+                Delete
+              </Button>
+            )}
+            <Button
+              variant={filter && !isModified ? 'outline' : 'default'}
+              onClick={openSaveDialog}
+              disabled={!query.trim() || parsed.errors.length > 0}
+            >
+              {filter ? (isModified ? 'Save changes' : 'Rename') : 'Save as smart filter'}
+            </Button>
+          </div>
+        </div>
+
+        {params.filterId && !filter ? (
+          <p className="text-sm text-gray-500">This smart filter no longer exists.</p>
+        ) : (
+          <>
+            <div>
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="tag:launch platform:linkedin has:image"
+                autoFocus={!filter}
+              />
+              {parsed.errors.map((error, index) => (
+                <p key={index} className="text-xs text-red-600 mt-1">{error.message}</p>
+              ))}
+            </div>
+
+            {!query.trim() ? (
+              <div className="bg-white rounded-lg shadow p-4">
+                <h3 className="text-sm font-medium mb-2">Search syntax</h3>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {SYNTAX_EXAMPLES.map(({ example, description }) => (
+                    <div key={example} className="contents">
+                      <dt>
+                        <button className="font-mono text-primary hover:underline" onClick={() => setQuery(example)}>
+                          {example}
+                        </button>
+                      </dt>
+                      <dd className="text-gray-600">{description}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">
+                  {isSearching && results.length === 0
+                    ? 'Searching...'
+                    : `${results.length === RESULT_LIMIT ? `${RESULT_LIMIT}+` : results.length} ${results.length === 1 ? 'result' : 'results'}`}
+                </p>
+                {results.map(result => (
+                  <button
+                    key={result.document.key}
+                    onClick={() => navigate(getOpenPath(getResultPath(result.document), result.document.id))}
+                    className="w-full text-left bg-white rounded-lg shadow p-3 flex gap-3 hover:bg-gray-50"
+                  >
+                    <span className="mt-1 flex-shrink-0">
+                      <ResultIcon document={result.document} />
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      {result.title.length > 0 && (
+                        <div className="truncate font-medium">
+                          <Highlighted parts={result.title} />
+                        </div>
+                      )}
+                      <div className="line-clamp-2 text-sm text-gray-600">
+                        <Highlighted parts={result.snippet} />
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-400 flex-shrink-0">
+                      {format(new Date(result.document.date), 'MMM d, yyyy')}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{filter ? 'Save smart filter' : 'New smart filter'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input
+              value={filterName}
+              onChange={(e) => setFilterName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveFilter()}
+              placeholder="Tab name, e.g. Launch posts"
+              autoFocus
+            />
+            <p className="text-xs text-gray-500 font-mono break-all">{query.trim()}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveFilter} disabled={!filterName.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDeleteFilter}
+        title="Delete smart filter?"
+        description="The tab will be removed. Nothing it matches is deleted."
+        confirmText="Delete"
+      />
+    </div>
+  );
+}
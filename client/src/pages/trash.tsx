@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { onStoreChange } from '@/lib/offline-storage';
+import {
+  RETENTION_OPTIONS,
+  emptyTrash,
+  getTrash,
+  getTrashRetentionDays,
+  purgeFromTrash,
+  restoreFromTrash,
+  setTrashRetentionDays,
+  subscribeToTrashRetention,
+  type TrashEntity,
+  type TrashItem,
+} from '@/lib/trash';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const FILTERS: Array<{ id: TrashEntity | 'all'; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'post', label: 'Posts' },
+  { id: 'note', label: 'Notes' },
+  { id: 'journal', label: 'Journal' },
+  { id: 'document', label: 'Documents' },
+];
+
+const ENTITY_LABELS: Record<TrashEntity, string> = {
+  post: 'Post',
+  note: 'Note',
+  journal: 'Journal entry',
+  document: 'Document',
+};
+
+const PLATFORM_LABELS: Record<string, string> = {
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  whatsapp: 'WhatsApp',
+  master: 'Master draft',
+};
+
+const TRASH_STORES = ['posts', 'notes', 'journals', 'documents'];
+
+const getItemLabel = (item: TrashItem): string =>
+  item.platform ? PLATFORM_LABELS[item.platform] || item.platform : ENTITY_LABELS[item.entity];
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<TrashEntity | 'all'>('all');
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  useEffect(() => {
+    const loadTrash = () => {
+      getTrash()
+        .then(setItems)
+        .catch(error => console.error('Error loading trash:', error))
+        .finally(() => setIsLoading(false));
+    };
+
+    loadTrash();
+    // Items trashed, restored or purged on other devices show up as they sync
+    const unsubscribeStores = onStoreChange(store => {
+      if (TRASH_STORES.includes(store)) loadTrash();
+    });
+    const unsubscribeRetention = subscribeToTrashRetention(() => {
+      setRetentionDays(getTrashRetentionDays());
+      loadTrash();
+    });
+    return () => {
+      unsubscribeStores();
+      unsubscribeRetention();
+    };
+  }, []);
+
+  const visibleItems = filter === 'all' ? items : items.filter(item => item.entity === filter);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash(item.entity, item.id);
+      toast({
+        title: 'Restored',
+        description: `"${item.title}" is back where it was.`,
+      });
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to restore this item. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purging) return;
+    try {
+      await purgeFromTrash(purging.entity, purging.id);
+      toast({
+        title: 'Deleted forever',
+        description: `"${purging.title}" has been permanently deleted.`,
+      });
+    } catch (error) {
+      console.error('Error purging from trash:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete this item. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      const purged = await emptyTrash();
+      toast({
+        title: 'Trash emptied',
+        description: `${purged} ${purged === 1 ? 'item was' : 'items were'} permanently deleted.`,
+      });
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to empty the trash. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-800">Trash</h2>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500">Keep for</span>
+            <Select
+              value={String(retentionDays)}
+              onValueChange={(value) => setTrashRetentionDays(Number(value))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 0 ? 'Forever' : `${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              className="text-red-600"
+              onClick={() => setConfirmEmpty(true)}
+              disabled={items.length === 0}
+            >
+              Empty trash
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map(option => {
+            const count = option.id === 'all'
+              ? items.length
+              : items.filter(item => item.entity === option.id).length;
+            return (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={filter === option.id ? 'default' : 'outline'}
+                onClick={() => setFilter(option.id)}
+              >
+                {option.label}
+                {count > 0 && <span className="ml-1 opacity-70">{count}</span>}
+              </Button>
+            );
+          })}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <i className="ri-delete-bin-line text-3xl"></i>
+            <p className="text-sm mt-2">
+              Nothing in the trash. Deleted posts, notes, journal entries and documents wait here
+              {retentionDays > 0 ? ` for ${retentionDays} days` : ''} before they're gone for good.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {visibleItems.map(item => (
+              <li
+                key={`${item.entity}:${item.id}`}
+                className="bg-white rounded-lg shadow p-3 flex flex-col sm:flex-row sm:items-center gap-2"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{getItemLabel(item)}</Badge>
+                    <span className="truncate font-medium">{item.title}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Deleted {formatDistanceToNow(item.deletedAt, { addSuffix: true })}
+                    {item.purgeAt && ` · gone for good on ${format(item.purgeAt, 'MMM d, yyyy')}`}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => handleRestore(item)}>
+                    <i className="ri-arrow-go-back-line mr-1"></i>
+                    Restore
+                  </Button>
+                  <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setPurging(item)}>
+                    Delete forever
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!purging}
+        onClose={() => setPurging(null)}
+        onConfirm={handlePurge}
+        title="Delete forever"
+        description={`"${purging?.title}" will be permanently deleted on all your devices. This action cannot be undone.`}
+        confirmText="Delete forever"
+      />
+
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        onClose={() => setConfirmEmpty(false)}
+        onConfirm={handleEmpty}
+        title="Empty trash"
+        description={`All ${items.length} items in the trash will be permanently deleted on all your devices. This action cannot be undone.`}
+        confirmText="Empty trash"
+      />
+    </div>
+  );
+}
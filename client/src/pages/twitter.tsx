@@ -3,6 +3,8 @@ import { useUser } from '@/context/new-user-context';
 import { useToast } from '@/hooks/use-toast';
 import PostComposer from '@/components/posts/post-composer';
 import PostEditor from '@/components/posts/post-editor';
+import ThreadComposer from '@/components/posts/thread-composer';
+import PlatformImportDialog from '@/components/posts/platform-import-dialog';
 import SocialSharePopup from '@/components/posts/social-share-popup';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
@@ -12,11 +14,13 @@ import { CopyExportActions } from '@/components/common/copy-export-actions';
 import { CopyButton } from '@/components/common/copy-button';
 import { MediaContent } from '@/components/common/media-content';
 import { copyFormattedContent, extractImagesFromHtml } from '@/lib/copy-utils';
+import { threadSegmentAsPost } from '@/lib/thread-utils';
 import { Post } from '@shared/schema';
 import { formatDistanceToNow } from 'date-fns';
 import { SearchBar } from '@/components/ui/search-bar';
 import TabNavigation from '@/components/layout/tab-navigation';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 export default function Twitter() {
   const { user } = useUser();
@@ -28,7 +32,10 @@ export default function Twitter() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [sharingPost, setSharingPost] = useState<Post | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [confirmDeletePostId, setConfirmDeletePostId] = useState<number | null>(null);
+  const [confirmDeletePostId, setConfirmDeletePostId] = useState<string | null>(null);
+  const [isThreadComposerOpen, setIsThreadComposerOpen] = useState(false);
+  const [editingThread, setEditingThread] = useState<Post | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   useEffect(() => {
     const loadPosts = async () => {
@@ -77,7 +84,7 @@ export default function Twitter() {
     }
   };
 
-  const handleDeletePost = async (postId: number) => {
+  const handleDeletePost = async (postId: string) => {
     try {
       await deletePost('twitter', postId);
       const updatedPosts = posts.filter(post => post.id !== postId);
@@ -85,7 +92,7 @@ export default function Twitter() {
       setFilteredPosts(updatedPosts);
       toast({
         title: 'Tweet deleted',
-        description: 'Your tweet has been deleted successfully.',
+        description: 'Your tweet was moved to the trash.',
       });
     } catch (error) {
       console.error('Error deleting tweet:', error);
@@ -98,9 +105,23 @@ export default function Twitter() {
   };
   
   const handleEditPost = (post: Post) => {
+    // Threads are edited as one draft and split again
+    if (post.thread?.length) {
+      setEditingThread(post);
+      setIsThreadComposerOpen(true);
+      return;
+    }
     setEditingPost(post);
     setIsEditDialogOpen(true);
   };
+
+  // Opened from search
+  useOpenParam(posts, handleEditPost);
+  
+  const handleThreadComposerClose = () => {
+    setIsThreadComposerOpen(false);
+    setEditingThread(null);
+  };
   
   // Handle copying post with formatted content preserved
   const handleCopy = async (post: Post) => {
@@ -145,12 +166,12 @@ export default function Twitter() {
   };
   
   // Share popup positioning refs
-  const [postShareRefs, setPostShareRefs] = useState<{[key: number]: React.RefObject<HTMLDivElement>}>({});
+  const [postShareRefs, setPostShareRefs] = useState<{[key: string]: React.RefObject<HTMLDivElement>}>({});
   const [sharePopupPosition, setSharePopupPosition] = useState<{top: number, left: number}>({top: 0, left: 0});
   
   // Create refs for all posts when they load
   useEffect(() => {
-    const refs: {[key: number]: React.RefObject<HTMLDivElement>} = {};
+    const refs: {[key: string]: React.RefObject<HTMLDivElement>} = {};
     posts.forEach(post => {
       refs[post.id] = React.createRef<HTMLDivElement>();
     });
@@ -215,6 +236,22 @@ export default function Twitter() {
             buttonText="Tweet"
             buttonColor="#1DA1F2"
           />
+          <div className="flex justify-end gap-4 -mt-2">
+            <button
+              className="text-sm text-blue-500 hover:text-blue-600 flex items-center"
+              onClick={() => setIsImportOpen(true)}
+            >
+              <i className="ri-upload-2-line mr-1"></i>
+              Import from your X archive
+            </button>
+            <button
+              className="text-sm text-blue-500 hover:text-blue-600 flex items-center"
+              onClick={() => setIsThreadComposerOpen(true)}
+            >
+              <i className="ri-chat-thread-line mr-1"></i>
+              Too long for one tweet? Write a thread
+            </button>
+          </div>
 
           {isLoading ? (
             <div className="flex justify-center p-8">
@@ -284,8 +321,41 @@ export default function Twitter() {
                 </div>
 
                 <div className="mt-3">
-                  {/* Check if there are images in the HTML content */}
-                  {post.formattedContent?.html && extractImagesFromHtml(post.formattedContent.html).length > 0 ? (
+                  {/* Threads show each tweet as a reply to the one before */}
+                  {post.thread?.length ? (
+                    <div>
+                      {post.thread.map((segment, index) => (
+                        <div key={index} className="flex space-x-3">
+                          <div className="flex flex-col items-center w-2">
+                            <div className="w-2 h-2 rounded-full bg-blue-400 mt-1.5"></div>
+                            {index < post.thread!.length - 1 && <div className="w-0.5 flex-1 bg-gray-200"></div>}
+                          </div>
+                          <div className="flex-1 pb-3 min-w-0">
+                            <p className="whitespace-pre-wrap break-words">{segment.content}</p>
+                            {segment.mediaUrls.map((url, mediaIndex) => (
+                              <MediaContent
+                                key={mediaIndex}
+                                src={url}
+                                alt={`Tweet ${index + 1} image ${mediaIndex + 1}`}
+                                mediaType="image"
+                                className="max-h-64 rounded-lg mt-2"
+                                content={segment.content}
+                                formattedContent={null}
+                              />
+                            ))}
+                            <div className="flex gap-3 mt-1 text-xs text-gray-500">
+                              <button className="hover:text-blue-500" onClick={() => handleCopy(threadSegmentAsPost(post, index))}>
+                                <i className="ri-file-copy-line mr-1"></i>Copy tweet
+                              </button>
+                              <button className="hover:text-blue-500" onClick={() => handleSharePost(threadSegmentAsPost(post, index))}>
+                                <i className="ri-share-line mr-1"></i>Share tweet
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : post.formattedContent?.html && extractImagesFromHtml(post.formattedContent.html).length > 0 ? (
                     <div className="mb-2">
                       {extractImagesFromHtml(post.formattedContent.html).map((img, index) => (
                         <MediaContent 
@@ -349,6 +419,13 @@ export default function Twitter() {
         </div>
       </div>
       
+      <ThreadComposer
+        isOpen={isThreadComposerOpen}
+        onClose={handleThreadComposerClose}
+        onSaved={handlePostCreated}
+        post={editingThread}
+      />
+      
       {editingPost && (
         <PostEditor
           post={editingPost}
@@ -372,6 +449,13 @@ export default function Twitter() {
         </div>
       )}
       
+      <PlatformImportDialog
+        platform="twitter"
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={handlePostCreated}
+      />
+
       {/* Confirmation Modal for Delete */}
       <ConfirmationModal
         isOpen={confirmDeletePostId !== null}
@@ -383,7 +467,7 @@ export default function Twitter() {
           }
         }}
         title="Confirm Delete"
-        description="Are you sure you want to delete this tweet? This action cannot be undone."
+        description="Are you sure you want to delete this tweet? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
@@ -12,8 +12,11 @@ import { MdSend, MdEmail, MdClose, MdMoreVert, MdRefresh } from 'react-icons/md'
 import EmojiPicker, { Theme, EmojiClickData } from 'emoji-picker-react';
 import RichTextEditor from '@/components/ui/rich-text-editor';
 import { clearDraft } from '@/lib/draft-utils';
+import { storeMedia } from '@/lib/media-store';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
 import SocialSharePopup from '@/components/posts/social-share-popup';
+import PlatformImportDialog from '@/components/posts/platform-import-dialog';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 export default function WhatsApp() {
   const { user } = useUser();
@@ -23,11 +26,12 @@ export default function WhatsApp() {
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [showShareOptions, setShowShareOptions] = useState<number | null>(null);
+  const [showShareOptions, setShowShareOptions] = useState<string | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [mediaFiles, setMediaFiles] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [confirmDeleteMessageId, setConfirmDeleteMessageId] = useState<number | null>(null);
+  const [confirmDeleteMessageId, setConfirmDeleteMessageId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   useEffect(() => {
     loadMessages();
@@ -118,7 +122,7 @@ export default function WhatsApp() {
     }
   };
 
-  const handleDeleteMessageConfirm = (messageId: number) => {
+  const handleDeleteMessageConfirm = (messageId: string) => {
     setConfirmDeleteMessageId(messageId);
   };
   
@@ -141,7 +145,7 @@ export default function WhatsApp() {
     }
   };
 
-  const handleShare = (messageId: number) => {
+  const handleShare = (messageId: string) => {
     setShowShareOptions(showShareOptions === messageId ? null : messageId);
   };
 
@@ -197,6 +201,14 @@ export default function WhatsApp() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Opened from search: show the message instead of the end of the chat
+  useOpenParam(messages, (message: Post) => {
+    setSearchQuery('');
+    requestAnimationFrame(() => {
+      document.getElementById(`message-${message.id}`)?.scrollIntoView({ block: 'center' });
+    });
+  });
+
   const handleAddLink = () => {
     const url = prompt('Enter the URL:');
     if (url) {
@@ -272,32 +284,26 @@ export default function WhatsApp() {
       return;
     }
     
-    // Convert file to data URL
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      if (result) {
-        // For demonstration purposes, we'll just store the data URL
-        setMediaFiles([...mediaFiles, result]);
-        
-        // If it's an image, add it to the message
-        if (validImageTypes.includes(file.type)) {
-          const imgTag = `<img src="${result}" alt="Attached image" style="max-width: 100%; max-height: 200px; border-radius: 8px; margin: 5px 0;" />`;
-          setNewMessage((prev) => prev + ' ' + imgTag);
-        } else {
-          // For documents, add a link
-          const fileName = file.name;
-          const docLinkTag = `<div style="display: flex; align-items: center; margin: 5px 0; padding: 10px; background: rgba(0,0,0,0.05); border-radius: 8px;">
-            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
-            <span style="margin-left: 8px;">${fileName}</span>
-          </div>`;
-          setNewMessage((prev) => prev + ' ' + docLinkTag);
-        }
-        
-        // File attached successfully, no need for toast notification
+    // Keep the file in the media store and attach a reference to it
+    storeMedia(file).then(result => {
+      setMediaFiles([...mediaFiles, result]);
+      
+      // If it's an image, add it to the message
+      if (validImageTypes.includes(file.type)) {
+        const imgTag = `<img src="${result}" alt="Attached image" style="max-width: 100%; max-height: 200px; border-radius: 8px; margin: 5px 0;" />`;
+        setNewMessage((prev) => prev + ' ' + imgTag);
+      } else {
+        // For documents, add a link
+        const fileName = file.name;
+        const docLinkTag = `<div style="display: flex; align-items: center; margin: 5px 0; padding: 10px; background: rgba(0,0,0,0.05); border-radius: 8px;">
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
+          <span style="margin-left: 8px;">${fileName}</span>
+        </div>`;
+        setNewMessage((prev) => prev + ' ' + docLinkTag);
       }
-    };
-    reader.readAsDataURL(file);
+      
+      // File attached successfully, no need for toast notification
+    }).catch(error => console.error('Error storing attachment:', error));
     
     // Reset the input value so the same file can be selected again
     if (fileInputRef.current) {
@@ -340,6 +346,16 @@ export default function WhatsApp() {
             onChange={(e) => setSearchQuery(e.target.value)}
           />
         </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-2 text-green-600"
+          onClick={() => setIsImportOpen(true)}
+          title="Import an exported WhatsApp chat"
+        >
+          <FaDownload className="mr-1" size={14} />
+          Import chat
+        </Button>
       </div>
       
       {/* Messages */}
@@ -375,6 +391,7 @@ export default function WhatsApp() {
               return (
                 <div 
                   key={message.id} 
+                  id={`message-${message.id}`}
                   className={`flex items-end mb-4 ${isMyMessage ? 'justify-end' : 'justify-start'}`}
                 >
                   {!isMyMessage && showAvatar && (
@@ -562,13 +579,20 @@ export default function WhatsApp() {
         </div>
       </div>
       
+      <PlatformImportDialog
+        platform="whatsapp"
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={loadMessages}
+      />
+
       {/* Delete Confirmation Modal */}
       <ConfirmationModal
         isOpen={confirmDeleteMessageId !== null}
         onClose={() => setConfirmDeleteMessageId(null)}
         onConfirm={handleDeleteMessage}
         title="Confirm Delete"
-        description="Are you sure you want to delete this message? This action cannot be undone."
+        description="Are you sure you want to delete this message? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
@@ -5,6 +5,7 @@ import { getPosts, createPost, deletePost } from '@/lib/storage';
 import { copyFormattedContent } from '@/lib/copy-utils';
 import { MediaContent } from '@/components/common/media-content';
 import { Post } from '@shared/schema';
+import { validatePost } from '@shared/platform-rules';
 import PostTags from '@/components/posts/post-tags';
 import { formatDistanceToNow } from 'date-fns';
 import { FaYoutube, FaSearch, FaLink, FaShareAlt, FaDownload, FaTrash, FaWhatsapp, FaFacebook } from 'react-icons/fa';
@@ -19,6 +20,7 @@ import SocialSharePopup from '@/components/posts/social-share-popup';
 import ConfirmationModal from '@/components/ui/confirmation-modal';
 import { getDraft, saveDraft, clearDraft } from '@/lib/draft-utils';
 import { CopyExportActions } from '@/components/common/copy-export-actions';
+import { useOpenParam } from '@/hooks/use-open-param';
 
 export default function YouTube() {
   const { user } = useUser();
@@ -31,12 +33,12 @@ export default function YouTube() {
   const [searchQuery, setSearchQuery] = useState('');
   const [videoTags, setVideoTags] = useState<string[]>([]);
   const [videoPreview, setVideoPreview] = useState<string | null>(null);
-  const [showShareOptions, setShowShareOptions] = useState<number | null>(null);
+  const [showShareOptions, setShowShareOptions] = useState<string | null>(null);
   const [editingPost, setEditingPost] = useState<Post | null>(null);
   const [sharingPost, setSharingPost] = useState<Post | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [confirmDeletePostId, setConfirmDeletePostId] = useState<number | null>(null);
+  const [confirmDeletePostId, setConfirmDeletePostId] = useState<string | null>(null);
 
   useEffect(() => {
     loadPosts();
@@ -177,6 +179,21 @@ export default function YouTube() {
       return;
     }
     
+    const ruleError = validatePost({
+      platform: 'youtube',
+      content: videoDescription || videoUrl,
+      mediaUrls: [videoUrl],
+      formattedContent: { videoUrl, title: videoTitle }
+    }).find(issue => issue.severity === 'error');
+    if (ruleError) {
+      toast({
+        title: "Can't share this video",
+        description: ruleError.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    
     try {
       // Create embed HTML
       let embedHtml = '';
@@ -235,7 +252,7 @@ export default function YouTube() {
     }
   };
 
-  const handleDeletePostConfirm = (postId: number) => {
+  const handleDeletePostConfirm = (postId: string) => {
     setConfirmDeletePostId(postId);
   };
   
@@ -248,7 +265,7 @@ export default function YouTube() {
       setConfirmDeletePostId(null);
       toast({
         title: 'Video deleted',
-        description: 'Your video has been deleted successfully.',
+        description: 'Your video was moved to the trash.',
       });
     } catch (error) {
       console.error('Error deleting video:', error);
@@ -260,7 +277,7 @@ export default function YouTube() {
     }
   };
 
-  const handleShare = (postId: number) => {
+  const handleShare = (postId: string) => {
     setShowShareOptions(showShareOptions === postId ? null : postId);
   };
 
@@ -351,6 +368,9 @@ export default function YouTube() {
     setEditingPost(post);
     setIsEditDialogOpen(true);
   };
+
+  // Opened from search
+  useOpenParam(posts, handleEditPost);
   
   const handleEditDialogClose = () => {
     setIsEditDialogOpen(false);
@@ -368,12 +388,12 @@ export default function YouTube() {
   };
   
   // Share popup positioning refs
-  const [postShareRefs, setPostShareRefs] = useState<{[key: number]: React.RefObject<HTMLButtonElement>}>({});
+  const [postShareRefs, setPostShareRefs] = useState<{[key: string]: React.RefObject<HTMLButtonElement>}>({});
   const [sharePopupPosition, setSharePopupPosition] = useState<{top: number, left: number}>({top: 0, left: 0});
   
   // Create refs for all posts when they load
   useEffect(() => {
-    const refs: {[key: number]: React.RefObject<HTMLButtonElement>} = {};
+    const refs: {[key: string]: React.RefObject<HTMLButtonElement>} = {};
     posts.forEach(post => {
       refs[post.id] = React.createRef<HTMLButtonElement>();
     });
@@ -837,7 +857,7 @@ export default function YouTube() {
         onClose={() => setConfirmDeletePostId(null)}
         onConfirm={handleDeletePost}
         title="Confirm Delete"
-        description="Are you sure you want to delete this video? This action cannot be undone."
+        description="Are you sure you want to delete this video? You can restore it from the trash."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         variant="destructive"
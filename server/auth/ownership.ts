@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isEntityId, type EntityId } from '@shared/schema';
+import { requireAuth } from './auth-routes';
+
+// Anything stored per user
+interface Owned {
+  userId: number | null;
+}
+
+interface OwnershipMessages {
+  invalid: string;
+  notFound: string;
+}
+
+// ID of the signed-in user. Only valid behind requireAuth.
+export function currentUserId(req: Request): number {
+  return (req.user as Express.User).id;
+}
+
+// Guard routes that take a user ID in the path. Other users' data is reported as
+// missing rather than forbidden, so IDs can't be probed.
+export function requireSelf(param: string = 'userId'): RequestHandler[] {
+  return [
+    requireAuth,
+    (req: Request, res: Response, next: NextFunction) => {
+      const userId = parseInt(req.params[param]);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+
+      if (userId !== currentUserId(req)) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      next();
+    }
+  ];
+}
+
+// Guard routes that act on a single entity by `:id`. The entity is loaded once and
+// left in `res.locals.entity`; entities owned by someone else get the same 404 as
+// entities that don't exist.
+export function requireOwnership<T extends Owned>(
+  load: (id: EntityId) => Promise<T | undefined>,
+  messages: OwnershipMessages
+): RequestHandler[] {
+  return [
+    requireAuth,
+    async (req: Request, res: Response, next: NextFunction) => {
+      const id = req.params.id;
+      if (!isEntityId(id)) {
+        return res.status(400).json({ message: messages.invalid });
+      }
+
+      try {
+        const entity = await load(id);
+        if (!entity || entity.userId !== currentUserId(req)) {
+          return res.status(404).json({ message: messages.notFound });
+        }
+
+        res.locals.entity = entity;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    }
+  ];
+}
@@ -0,0 +1,16 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { FOLD_CASES } from "@shared/search-fold-cases";
+
+// Needs a Postgres database that's been initialized, so it only runs where one is configured
+describe.skipIf(!process.env.DATABASE_URL)("search_fold", () => {
+  const database = import("./database");
+
+  afterAll(async () => {
+    await (await database).pool.end();
+  });
+
+  it.each(FOLD_CASES)("folds %j to %j like foldText", async (text, folded) => {
+    const result = await (await database).pool.query("SELECT search_fold($1) AS folded", [text]);
+    expect(result.rows[0].folded).toBe(folded);
+  });
+});
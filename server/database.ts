@@ -3,6 +3,8 @@ const { Pool } = pg;
 import { drizzle } from 'drizzle-orm/node-postgres';
 import * as schema from '../shared/schema';
 import { sql } from 'drizzle-orm';
+import { mediaStorage, extractDataUrls, type InlineMediaFile } from './media-storage';
+import { DIACRITICS_RANGE, LETTER_FOLDS } from '../shared/search';
 
 // Connect to PostgreSQL database
 export const pool = new Pool({
@@ -12,6 +14,34 @@ export const pool = new Pool({
 // Initialize drizzle with PostgreSQL
 export const db = drizzle(pool, { schema });
 
+// SQL for the text each table is searched by: the generated search_vector columns are
+// built from it, and search results quote from the body
+export const searchColumns: Record<string, { title: string; body: string }> = {
+  posts: {
+    title: "formatted_content->>'title'",
+    body: "coalesce(formatted_content->>'html', content)"
+  },
+  notes: {
+    title: 'title',
+    body: "coalesce(formatted_content->>'html', content)"
+  },
+  journal_entries: {
+    title: 'title',
+    body: "coalesce(formatted_content->>'html', content) || ' ' || coalesce(mood, '') || ' ' || coalesce(location, '') || ' ' || coalesce(weather, '')"
+  },
+  documents: {
+    title: 'title',
+    body: "coalesce(formatted_content->>'html', content)"
+  }
+};
+
+// Body of search_fold, which folds text the way foldText in shared/search.ts does: NFKD,
+// then accents dropped, then the same letters spelled plainly, then lowercase
+const SEARCH_FOLD_SQL = `SELECT lower(${Object.entries(LETTER_FOLDS).reduce(
+  (folded, [letter, plain]) => `replace(${folded}, '${letter}', '${plain}')`,
+  `regexp_replace(normalize(coalesce(value, ''), NFKD), '[${DIACRITICS_RANGE}]', '', 'g')`
+)})`;
+
 // Function to initialize the database
 export async function initializeDatabase() {
   try {
@@ -50,7 +80,7 @@ async function createTables() {
     // Create posts table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS posts (
-        id SERIAL PRIMARY KEY,
+        id TEXT PRIMARY KEY,
         user_id INTEGER REFERENCES users(id),
         platform VARCHAR(50) NOT NULL,
         content TEXT,
@@ -63,7 +93,7 @@ async function createTables() {
     // Create notes table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS notes (
-        id SERIAL PRIMARY KEY,
+        id TEXT PRIMARY KEY,
         user_id INTEGER REFERENCES users(id),
         title VARCHAR(255),
         content TEXT,
@@ -76,7 +106,7 @@ async function createTables() {
     // Create journal_entries table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS journal_entries (
-        id SERIAL PRIMARY KEY,
+        id TEXT PRIMARY KEY,
         user_id INTEGER REFERENCES users(id),
         title VARCHAR(255),
         content TEXT,
@@ -90,7 +120,7 @@ async function createTables() {
     // Create documents table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS documents (
-        id SERIAL PRIMARY KEY,
+        id TEXT PRIMARY KEY,
         user_id INTEGER REFERENCES users(id),
         title VARCHAR(255),
         content TEXT,
@@ -101,12 +131,299 @@ async function createTables() {
       )
     `);
     
+    // Add version columns used for conflict detection, the ciphertext column used when
+    // end-to-end encryption is on, and the time an item was moved to the trash
+    for (const table of ['posts', 'notes', 'journal_entries', 'documents']) {
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`);
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS encrypted_payload TEXT`);
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+    }
+
+    // Publishing state for scheduled posts
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'published'`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP`);
+    
+    // Tweets of a thread, stored together on one post
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS thread JSONB`);
+    
+    // Journal template an entry was written from, and its answered sections
+    await pool.query(`ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS template_id TEXT`);
+    await pool.query(`ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS sections JSONB`);
+    
+    // Values of the user's own journal trackers, keyed by tracker ID
+    await pool.query(`ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS trackers JSONB`);
+    
+    // Named notebooks, and the one each journal entry is in (none for the default notebook)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS notebooks (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        color VARCHAR(20),
+        default_template_id TEXT,
+        is_private BOOLEAN NOT NULL DEFAULT FALSE,
+        encrypted_payload TEXT,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS notebook_id TEXT`);
+    
+    // Journal templates the user wrote; entries and notebooks refer to them by ID
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS journal_templates (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        icon TEXT NOT NULL,
+        sections JSONB NOT NULL,
+        encrypted_payload TEXT,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Journal trackers the user set up; entries keep their values keyed by tracker ID
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS journal_trackers (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        min INTEGER,
+        max INTEGER,
+        step DOUBLE PRECISION,
+        unit TEXT,
+        position INTEGER NOT NULL DEFAULT 0,
+        encrypted_payload TEXT,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Links from platform variants back to their master draft
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS master_id TEXT`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS variant_base TEXT`);
+    
+    // Full-text search: a tsvector of each row's title, tags and body, weighted in that
+    // order and kept current by Postgres. Generated columns can only call immutable
+    // functions, which array_to_string isn't, so tags go through a wrapper. Text is
+    // folded by search_fold, the way the client tokenizes queries.
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION search_tags_text(tags TEXT[]) RETURNS TEXT
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE
+      AS $$ SELECT coalesce(array_to_string(tags, ' '), '') $$
+    `);
+    // Stored vectors were folded when their rows were written, so they're rebuilt when the
+    // folding changes
+    const currentFold = await pool.query(`SELECT prosrc FROM pg_proc WHERE proname = 'search_fold'`);
+    const foldChanged = currentFold.rows[0]?.prosrc.trim() !== SEARCH_FOLD_SQL;
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION search_fold(value TEXT) RETURNS TEXT
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE
+      AS $$ ${SEARCH_FOLD_SQL} $$
+    `);
+    for (const [table, { title, body }] of Object.entries(searchColumns)) {
+      if (foldChanged) {
+        // Takes the index with it
+        await pool.query(`ALTER TABLE ${table} DROP COLUMN IF EXISTS search_vector`);
+      }
+      await pool.query(`
+        ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+          setweight(to_tsvector('simple', search_fold(${title})), 'A') ||
+          setweight(to_tsvector('simple', search_fold(search_tags_text(tags))), 'B') ||
+          setweight(to_tsvector('simple', search_fold(regexp_replace(coalesce(${body}, ''), '<[^>]*>', ' ', 'g'))), 'C')
+        ) STORED
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS ${table}_search_idx ON ${table} USING GIN (search_vector)`);
+    }
+    
+    // Create revisions table (earlier versions of notes and documents)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS revisions (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        formatted_content JSONB,
+        encrypted_payload TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS revisions_user_entity_idx ON revisions (user_id, entity_type, entity_id)
+    `);
+    
+    // Create sync_changes table (append-only change log for device sync)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sync_changes (
+        seq BIGSERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id),
+        change_id VARCHAR(255) NOT NULL,
+        device_id VARCHAR(255) NOT NULL,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id TEXT NOT NULL,
+        operation VARCHAR(20) NOT NULL,
+        data JSONB,
+        client_timestamp TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS sync_changes_user_change_idx ON sync_changes (user_id, change_id)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS sync_changes_user_seq_idx ON sync_changes (user_id, seq)
+    `);
+    
+    // Create sync_compactions table (tracks how far each user's log has been pruned)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sync_compactions (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id),
+        compacted_through BIGINT NOT NULL,
+        compacted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Create encryption_keyrings table (client-sealed keys for end-to-end encryption)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS encryption_keyrings (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id),
+        keyring JSONB NOT NULL,
+        revision INTEGER NOT NULL DEFAULT 1,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Create media table (which user may read which uploaded file; the bytes themselves
+    // are kept by the media storage driver)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS media (
+        id TEXT NOT NULL,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        type VARCHAR(255) NOT NULL,
+        name TEXT,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id, user_id)
+      )
+    `);
+    
+    // Create completed_migrations table (one-time data migrations that have finished)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS completed_migrations (
+        name TEXT PRIMARY KEY,
+        completed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Older databases used serial IDs; entity IDs are now generated by clients
+    await migrateEntityIdsToText();
+    
+    // Older posts carry their media inline
+    await migrateInlineMedia();
+    
   } catch (error) {
     console.error('Error creating tables:', error);
     throw error;
   }
 }
 
+// Convert integer ID columns to text. Existing rows keep their number as a string ID,
+// which clients and routes still accept.
+async function migrateEntityIdsToText() {
+  const columns: Array<[table: string, column: string]> = [
+    ['posts', 'id'],
+    ['notes', 'id'],
+    ['journal_entries', 'id'],
+    ['documents', 'id'],
+    ['sync_changes', 'entity_id'],
+  ];
+  
+  for (const [table, column] of columns) {
+    const result = await pool.query(
+      `SELECT data_type FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+      [table, column]
+    );
+    if (result.rows[0]?.data_type !== 'integer') continue;
+    
+    console.log(`Migrating ${table}.${column} to text IDs`);
+    await withTransaction(async (client) => {
+      await client.query(`ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT`);
+      await client.query(`ALTER TABLE ${table} ALTER COLUMN ${column} TYPE TEXT USING ${column}::text`);
+    });
+  }
+}
+
+// Move the images and videos posts carry inline as data URLs into the media storage
+// driver, leaving media://<id> references in their place. Moved files don't count against
+// quotas. Rewritten posts get a new version, so a client still holding the data URLs
+// merges with the server copy rather than writing them back. Runs once; clients have
+// uploaded files instead of inlining them since.
+async function migrateInlineMedia() {
+  const done = await pool.query(`SELECT 1 FROM completed_migrations WHERE name = 'inline-media'`);
+  if (done.rows.length > 0) return;
+  
+  const result = await pool.query(`
+    SELECT id, user_id, content, formatted_content, media_urls, thread FROM posts
+    WHERE encrypted_payload IS NULL AND (
+      content LIKE '%data:%' OR
+      formatted_content::text LIKE '%data:%' OR
+      array_to_string(media_urls, ' ') LIKE '%data:%' OR
+      thread::text LIKE '%data:%'
+    )
+  `);
+  
+  let migrated = 0;
+  for (const row of result.rows) {
+    const files: InlineMediaFile[] = [];
+    const extract = (text: string): string => {
+      const extracted = extractDataUrls(text);
+      files.push(...extracted.files);
+      return extracted.text;
+    };
+    const extractJson = (value: unknown) => value == null ? value : JSON.parse(extract(JSON.stringify(value)));
+    
+    const content = extract(row.content);
+    const formattedContent = extractJson(row.formatted_content);
+    const mediaUrls = row.media_urls ? (row.media_urls as string[]).map(extract) : null;
+    const thread = extractJson(row.thread);
+    // Only data URLs of types that can't be uploaded were found
+    if (files.length === 0) continue;
+    
+    for (const file of files) {
+      if (!(await mediaStorage.has(file.id))) {
+        await mediaStorage.put(file.id, file.data);
+      }
+    }
+    await withTransaction(async (client) => {
+      for (const file of files) {
+        await client.query(
+          `INSERT INTO media (id, user_id, type, size) VALUES ($1, $2, $3, $4) ON CONFLICT (id, user_id) DO NOTHING`,
+          [file.id, row.user_id, file.type, file.data.length]
+        );
+      }
+      await client.query(
+        `UPDATE posts SET content = $2, formatted_content = $3, media_urls = $4, thread = $5, version = version + 1 WHERE id = $1`,
+        [row.id, content, formattedContent, mediaUrls, thread ? JSON.stringify(thread) : null]
+      );
+    });
+    migrated++;
+  }
+  
+  if (migrated > 0) {
+    console.log(`Moved inline media out of ${migrated} posts`);
+  }
+  await pool.query(`INSERT INTO completed_migrations (name) VALUES ('inline-media') ON CONFLICT DO NOTHING`);
+}
+
 // Helper function to run a query within a transaction
 export async function withTransaction<T>(callback: (client: any) => Promise<T>): Promise<T> {
   const client = await pool.connect();
@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Byte range of a file, both ends inclusive, as HTTP ranges are
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where uploaded media bytes are kept. Files are content-addressed: the ID is the SHA-256
+// of the bytes, so putting the same file twice keeps one copy. Who may read a file is
+// decided by the media rows in storage, not here.
+export interface MediaStorageDriver {
+  put(id: string, data: Buffer): Promise<void>;
+  has(id: string): Promise<boolean>;
+  // Read the whole file or part of it; undefined when it isn't stored
+  read(id: string, range?: ByteRange): Promise<Readable | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+// Keeps files in process memory. Used for development and alongside MemStorage.
+export class MemoryMediaStorage implements MediaStorageDriver {
+  private files = new Map<string, Buffer>();
+
+  async put(id: string, data: Buffer): Promise<void> {
+    this.files.set(id, data);
+  }
+
+  async has(id: string): Promise<boolean> {
+    return this.files.has(id);
+  }
+
+  async read(id: string, range?: ByteRange): Promise<Readable | undefined> {
+    const data = this.files.get(id);
+    if (!data) return undefined;
+    return Readable.from([range ? data.subarray(range.start, range.end + 1) : data]);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+}
+
+// Keeps files in a directory on disk, spread over subdirectories named after the first
+// two characters of their ID so no single directory grows too large
+export class LocalMediaStorage implements MediaStorageDriver {
+  constructor(private readonly root: string) {}
+
+  private pathFor(id: string): string {
+    return path.join(this.root, id.slice(0, 2), id);
+  }
+
+  async put(id: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write under a temporary name first so a half-written file is never served
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async has(id: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(id: string, range?: ByteRange): Promise<Readable | undefined> {
+    if (!(await this.has(id))) return undefined;
+    return createReadStream(this.pathFor(id), range);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+}
+
+// MEDIA_STORAGE picks the driver: "local" (the default) or "memory"
+function createMediaStorage(): MediaStorageDriver {
+  switch (process.env.MEDIA_STORAGE || 'local') {
+    case 'memory':
+      return new MemoryMediaStorage();
+    case 'local':
+      return new LocalMediaStorage(path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads/media'));
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE driver: ${process.env.MEDIA_STORAGE}`);
+  }
+}
+
+export const mediaStorage = createMediaStorage();
+
+// Largest file that can be uploaded, and how much each user can store in total
+export const MAX_MEDIA_SIZE = parseInt(process.env.MEDIA_MAX_FILE_BYTES || '') || 100 * 1024 * 1024;
+export const MEDIA_QUOTA = parseInt(process.env.MEDIA_QUOTA_BYTES || '') || 1024 * 1024 * 1024;
+
+// File types that can be uploaded: the images, videos and audio posts show, and the
+// documents chats attach. SVG and HTML are left out, since they can carry scripts.
+const ALLOWED_MEDIA_TYPES = [
+  /^image\/(png|jpeg|gif|webp|avif|heic|heif|bmp)$/,
+  /^video\/(mp4|webm|ogg|quicktime)$/,
+  /^audio\/(mpeg|mp4|ogg|wav|webm|aac)$/,
+  /^application\/pdf$/,
+  /^application\/msword$/,
+  /^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/,
+  /^text\/plain$/,
+];
+
+export function isAllowedMediaType(type: string): boolean {
+  return ALLOWED_MEDIA_TYPES.some(pattern => pattern.test(type.toLowerCase()));
+}
+
+export function hashMedia(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// A file inlined as a data URL in HTML or a mediaUrls entry
+const DATA_URL_PATTERN = /data:([\w.+-]+\/[\w.+-]+)((?:;[\w-]+=[\w.+-]+)*)(;base64)?,([^"'\s)<>]*)/gi;
+
+export interface InlineMediaFile {
+  id: string;
+  type: string;
+  data: Buffer;
+}
+
+/**
+ * Find the data URLs of allowed media types in a text and swap each for a media://<id>
+ * reference. Data URLs of other types are left where they are.
+ * @returns The text with references, and the files that were taken out of it
+ */
+export function extractDataUrls(text: string): { text: string; files: InlineMediaFile[] } {
+  const files = new Map<string, InlineMediaFile>();
+  const replaced = text.replace(DATA_URL_PATTERN, (dataUrl, type: string, _params: string, base64: string | undefined, payload: string) => {
+    if (!isAllowedMediaType(type)) return dataUrl;
+    let data: Buffer;
+    try {
+      data = base64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+    } catch {
+      // Badly escaped; leave it for the client to deal with
+      return dataUrl;
+    }
+    const id = hashMedia(data);
+    files.set(id, { id, type: type.toLowerCase(), data });
+    return `media://${id}`;
+  });
+  return { text: replaced, files: Array.from(files.values()) };
+}
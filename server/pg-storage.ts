@@ -1,12 +1,135 @@
-import { pool, withTransaction } from './database';
-import type { IStorage } from './storage';
+import { pool, withTransaction, searchColumns } from './database';
+import type { IStorage, SyncChangeQueryOptions, SearchOptions, SearchPage } from './storage';
 import { 
   User, InsertUser,
   Post, InsertPost,
   Note, InsertNote,
   JournalEntry, InsertJournalEntry,
-  Document, InsertDocument
+  Notebook, InsertNotebook,
+  StoredJournalTemplate, InsertJournalTemplate,
+  StoredJournalTracker, InsertJournalTracker,
+  Document, InsertDocument,
+  Revision, InsertRevision,
+  SyncChange, InsertSyncChange,
+  EncryptionKeyring,
+  Media, InsertMedia,
+  createId, EntityId
 } from '@shared/schema';
+import {
+  getDateBound, getSnippet, highlightMatches, htmlToText,
+  type SearchEntity, type ParsedQuery, type QueryNode
+} from '@shared/search';
+
+// Map a sync_changes row to the camelCase shape used by the API
+function toSyncChange(row: any): SyncChange {
+  return {
+    seq: Number(row.seq),
+    userId: row.user_id,
+    changeId: row.change_id,
+    deviceId: row.device_id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    operation: row.operation,
+    data: row.data,
+    clientTimestamp: row.client_timestamp,
+    createdAt: row.created_at
+  };
+}
+
+// Serialize writes to one user's sync log. Held until the transaction ends; keyed by the
+// table too, so it can't collide with other advisory locks.
+async function lockSyncLog(client: any, userId: number): Promise<void> {
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext('sync_changes'), $1)`, [userId]);
+}
+
+// Map an entity row to the camelCase shape used by the API. The search vector is only
+// used inside queries.
+function fromRow<T>(row: any): T {
+  const entity: any = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (column === 'search_vector') continue;
+    entity[column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())] = value;
+  }
+  return entity;
+}
+
+// Searched tables, with the time before: and after: compare against (see SearchDocument.date)
+const searchTables: Array<{ entity: SearchEntity; table: string; date: string }> = [
+  { entity: 'post', table: 'posts', date: 'coalesce(scheduled_for, created_at)' },
+  { entity: 'note', table: 'notes', date: 'updated_at' },
+  { entity: 'journal', table: 'journal_entries', date: 'date' },
+  { entity: 'document', table: 'documents', date: 'updated_at' }
+];
+
+// POSIX regex versions of the has: checks in @shared/search
+const IMAGE_HTML_SQL = '<img[^>]*src="';
+const IMAGE_URL_SQL = '^data:image/|^media://|\\.(png|jpe?g|gif|webp|avif|svg)(\\?|$)';
+const VIDEO_URL_SQL = '^data:video/|\\.(mp4|mov|webm|m4v)(\\?|$)|youtube\\.com|youtu\\.be|vimeo\\.com';
+const LINK_SQL = '<a\\s[^>]*href=|\\yhttps?://|\\ywww\\.';
+
+// Characters of body text read when there are no words to quote around
+const PLAIN_SNIPPET_LENGTH = 400;
+
+// tsquery text for normalized search terms. Like the client, longer terms also match
+// words they start, and in a phrase only the last word can be a prefix.
+function toTsquery(terms: string[], operator: '&' | '|' | '<->'): string {
+  return terms
+    .map((term, index) => term.length > 1 && (operator !== '<->' || index === terms.length - 1) ? `${term}:*` : term)
+    .join(` ${operator} `);
+}
+
+/**
+ * Compile a search query's syntax tree into a WHERE condition for one table
+ * @param addParam Adds a query parameter and returns its placeholder
+ */
+function compileSearchCondition(node: QueryNode, entity: SearchEntity, addParam: (value: unknown) => string): string {
+  const { table, date } = searchTables.find(candidate => candidate.entity === entity)!;
+  const html = `(${searchColumns[table].body})`;
+  // Leaves are never NULL, so NOT keeps working on rows missing a column
+  const leaf = (condition: string) => `coalesce((${condition}), false)`;
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.children.map(child => compileSearchCondition(child, entity, addParam)).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    case 'not':
+      return `NOT ${compileSearchCondition(node.child, entity, addParam)}`;
+    case 'text':
+      return leaf(`search_vector @@ to_tsquery('simple', ${addParam(toTsquery(node.terms, node.phrase ? '<->' : '&'))})`);
+    case 'field':
+      switch (node.field) {
+        case 'tag':
+          return leaf(`EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE lower(regexp_replace(tag, '^#', '')) = ${addParam(node.value)})`);
+        case 'platform':
+          return entity === 'post' ? leaf(`platform = ${addParam(node.value)}`) : 'false';
+        case 'mood':
+          return entity === 'journal' ? leaf(`lower(mood) = ${addParam(node.value)}`) : 'false';
+        case 'type':
+          return entity === node.value ? 'true' : 'false';
+        case 'status':
+          return entity === 'post' ? leaf(`coalesce(status, 'published') = ${addParam(node.value)}`) : 'false';
+      }
+      return 'false';
+    case 'date':
+      return leaf(`${date} ${node.op === 'before' ? '<' : '>='} ${addParam(new Date(getDateBound(node)))}`);
+    case 'has':
+      switch (node.value) {
+        case 'image':
+          return leaf(entity === 'post'
+            ? `${html} ~* ${addParam(IMAGE_HTML_SQL)} OR EXISTS (SELECT 1 FROM unnest(media_urls) AS url WHERE url ~* ${addParam(IMAGE_URL_SQL)})`
+            : `${html} ~* ${addParam(IMAGE_HTML_SQL)}`);
+        case 'video':
+          return entity === 'post'
+            ? leaf(`formatted_content->>'videoUrl' <> '' OR EXISTS (SELECT 1 FROM unnest(media_urls) AS url WHERE url ~* ${addParam(VIDEO_URL_SQL)})`)
+            : 'false';
+        case 'link':
+          return leaf(`${html} ~* ${addParam(LINK_SQL)}`);
+        case 'tags':
+          return leaf('array_length(tags, 1) > 0');
+      }
+      return 'false';
+  }
+}
 
 export class PgStorage implements IStorage {
   // User methods
@@ -155,7 +278,7 @@ export class PgStorage implements IStorage {
   // Post methods
   async getPostsByUser(userId: number): Promise<Post[]> {
     const result = await pool.query('SELECT * FROM posts WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-    return result.rows;
+    return result.rows.map(row => fromRow<Post>(row));
   }
 
   async getPostsByPlatform(userId: number, platform: string): Promise<Post[]> {
@@ -163,21 +286,26 @@ export class PgStorage implements IStorage {
       'SELECT * FROM posts WHERE user_id = $1 AND platform = $2 ORDER BY created_at DESC',
       [userId, platform]
     );
-    return result.rows;
+    return result.rows.map(row => fromRow<Post>(row));
+  }
+
+  async getPostById(id: EntityId): Promise<Post | undefined> {
+    const result = await pool.query('SELECT * FROM posts WHERE id = $1', [id]);
+    return result.rows[0] ? fromRow<Post>(result.rows[0]) : undefined;
   }
 
   async createPost(post: InsertPost): Promise<Post> {
-    const { userId, platform, content, formattedContent, mediaUrls } = post;
+    const { id, userId, platform, content, formattedContent, mediaUrls, thread, masterId, variantBase, status, scheduledFor, encryptedPayload, deletedAt } = post;
     const result = await pool.query(
-      `INSERT INTO posts (user_id, platform, content, formatted_content, media_urls) 
-       VALUES ($1, $2, $3, $4, $5) 
+      `INSERT INTO posts (id, user_id, platform, content, formatted_content, media_urls, thread, master_id, variant_base, status, scheduled_for, encrypted_payload, deleted_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) 
        RETURNING *`,
-      [userId, platform, content, formattedContent, mediaUrls]
+      [id || createId(), userId, platform, content, formattedContent, mediaUrls, thread ? JSON.stringify(thread) : null, masterId, variantBase, status || 'published', scheduledFor, encryptedPayload, deletedAt]
     );
-    return result.rows[0];
+    return fromRow<Post>(result.rows[0]);
   }
 
-  async updatePost(id: number, data: Partial<InsertPost>): Promise<Post | undefined> {
+  async updatePost(id: EntityId, data: Partial<InsertPost>, expectedVersion?: number): Promise<Post | undefined> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCounter = 1;
@@ -188,35 +316,48 @@ export class PgStorage implements IStorage {
       platform: 'platform',
       content: 'content',
       formattedContent: 'formatted_content',
-      mediaUrls: 'media_urls'
+      mediaUrls: 'media_urls',
+      thread: 'thread',
+      masterId: 'master_id',
+      variantBase: 'variant_base',
+      status: 'status',
+      scheduledFor: 'scheduled_for',
+      encryptedPayload: 'encrypted_payload',
+      deletedAt: 'deleted_at'
     };
 
     for (const [key, value] of Object.entries(data)) {
       if (value !== undefined && fieldMap[key]) {
         fields.push(`${fieldMap[key]} = $${paramCounter}`);
-        values.push(value);
+        // pg sends JS arrays as Postgres arrays, so the JSONB thread is serialized by hand
+        values.push(key === 'thread' && value ? JSON.stringify(value) : value);
         paramCounter++;
       }
     }
 
     if (fields.length === 0) {
       const result = await pool.query('SELECT * FROM posts WHERE id = $1', [id]);
-      return result.rows[0] || undefined;
+      return result.rows[0] ? fromRow<Post>(result.rows[0]) : undefined;
     }
 
     values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
     const query = `
       UPDATE posts 
-      SET ${fields.join(', ')}
-      WHERE id = $${paramCounter} 
+      SET ${fields.join(', ')}, version = version + 1 
+      WHERE id = $${paramCounter}${versionCheck} 
       RETURNING *
     `;
 
     const result = await pool.query(query, values);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<Post>(result.rows[0]) : undefined;
   }
 
-  async deletePost(id: number): Promise<boolean> {
+  async deletePost(id: EntityId): Promise<boolean> {
     const result = await pool.query('DELETE FROM posts WHERE id = $1 RETURNING id', [id]);
     return result.rowCount ? result.rowCount > 0 : false;
   }
@@ -224,26 +365,26 @@ export class PgStorage implements IStorage {
   // Note methods
   async getNotesByUser(userId: number): Promise<Note[]> {
     const result = await pool.query('SELECT * FROM notes WHERE user_id = $1 ORDER BY updated_at DESC', [userId]);
-    return result.rows;
+    return result.rows.map(row => fromRow<Note>(row));
   }
 
-  async getNoteById(id: number): Promise<Note | undefined> {
+  async getNoteById(id: EntityId): Promise<Note | undefined> {
     const result = await pool.query('SELECT * FROM notes WHERE id = $1', [id]);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<Note>(result.rows[0]) : undefined;
   }
 
   async createNote(note: InsertNote): Promise<Note> {
-    const { userId, title, content, formattedContent, tags, color } = note;
+    const { id, userId, title, content, formattedContent, tags, color, encryptedPayload, deletedAt } = note;
     const result = await pool.query(
-      `INSERT INTO notes (user_id, title, content, formatted_content, tags, color) 
-       VALUES ($1, $2, $3, $4, $5, $6) 
+      `INSERT INTO notes (id, user_id, title, content, formatted_content, tags, color, encrypted_payload, deleted_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
        RETURNING *`,
-      [userId, title, content, formattedContent, tags, color]
+      [id || createId(), userId, title, content, formattedContent, tags, color, encryptedPayload, deletedAt]
     );
-    return result.rows[0];
+    return fromRow<Note>(result.rows[0]);
   }
 
-  async updateNote(id: number, data: Partial<InsertNote>): Promise<Note | undefined> {
+  async updateNote(id: EntityId, data: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCounter = 1;
@@ -255,7 +396,9 @@ export class PgStorage implements IStorage {
       content: 'content',
       formattedContent: 'formatted_content',
       tags: 'tags',
-      color: 'color'
+      color: 'color',
+      encryptedPayload: 'encrypted_payload',
+      deletedAt: 'deleted_at'
     };
 
     for (const [key, value] of Object.entries(data)) {
@@ -271,18 +414,23 @@ export class PgStorage implements IStorage {
     }
 
     values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
     const query = `
       UPDATE notes 
-      SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP 
-      WHERE id = $${paramCounter} 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
       RETURNING *
     `;
 
     const result = await pool.query(query, values);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<Note>(result.rows[0]) : undefined;
   }
 
-  async deleteNote(id: number): Promise<boolean> {
+  async deleteNote(id: EntityId): Promise<boolean> {
     const result = await pool.query('DELETE FROM notes WHERE id = $1 RETURNING id', [id]);
     return result.rowCount ? result.rowCount > 0 : false;
   }
@@ -293,26 +441,26 @@ export class PgStorage implements IStorage {
       'SELECT * FROM journal_entries WHERE user_id = $1 ORDER BY created_at DESC',
       [userId]
     );
-    return result.rows;
+    return result.rows.map(row => fromRow<JournalEntry>(row));
   }
 
-  async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
+  async getJournalEntryById(id: EntityId): Promise<JournalEntry | undefined> {
     const result = await pool.query('SELECT * FROM journal_entries WHERE id = $1', [id]);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<JournalEntry>(result.rows[0]) : undefined;
   }
 
   async createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry> {
-    const { userId, title, content, formattedContent, date, mood, weather, location, tags } = entry;
+    const { id, userId, notebookId, title, content, formattedContent, date, mood, weather, location, tags, templateId, sections, trackers, encryptedPayload, deletedAt } = entry;
     const result = await pool.query(
-      `INSERT INTO journal_entries (user_id, title, content, formatted_content, date, mood, weather, location, tags) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+      `INSERT INTO journal_entries (id, user_id, notebook_id, title, content, formatted_content, date, mood, weather, location, tags, template_id, sections, trackers, encrypted_payload, deleted_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16) 
        RETURNING *`,
-      [userId, title, content, formattedContent, date, mood, weather, location, tags]
+      [id || createId(), userId, notebookId, title, content, formattedContent, date, mood, weather, location, tags, templateId, sections ? JSON.stringify(sections) : null, trackers, encryptedPayload, deletedAt]
     );
-    return result.rows[0];
+    return fromRow<JournalEntry>(result.rows[0]);
   }
 
-  async updateJournalEntry(id: number, data: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+  async updateJournalEntry(id: EntityId, data: Partial<InsertJournalEntry>, expectedVersion?: number): Promise<JournalEntry | undefined> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCounter = 1;
@@ -320,6 +468,7 @@ export class PgStorage implements IStorage {
     // Map camelCase to snake_case
     const fieldMap: Record<string, string> = {
       userId: 'user_id',
+      notebookId: 'notebook_id',
       title: 'title',
       content: 'content',
       formattedContent: 'formatted_content',
@@ -327,13 +476,19 @@ export class PgStorage implements IStorage {
       mood: 'mood',
       weather: 'weather',
       location: 'location',
-      tags: 'tags'
+      tags: 'tags',
+      templateId: 'template_id',
+      sections: 'sections',
+      trackers: 'trackers',
+      encryptedPayload: 'encrypted_payload',
+      deletedAt: 'deleted_at'
     };
 
     for (const [key, value] of Object.entries(data)) {
       if (value !== undefined && fieldMap[key]) {
         fields.push(`${fieldMap[key]} = $${paramCounter}`);
-        values.push(value);
+        // pg sends JS arrays as Postgres arrays, so the JSONB sections are serialized by hand
+        values.push(key === 'sections' && value ? JSON.stringify(value) : value);
         paramCounter++;
       }
     }
@@ -343,48 +498,279 @@ export class PgStorage implements IStorage {
     }
 
     values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
     const query = `
       UPDATE journal_entries 
-      SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP 
-      WHERE id = $${paramCounter} 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
       RETURNING *
     `;
 
     const result = await pool.query(query, values);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<JournalEntry>(result.rows[0]) : undefined;
   }
 
-  async deleteJournalEntry(id: number): Promise<boolean> {
+  async deleteJournalEntry(id: EntityId): Promise<boolean> {
     const result = await pool.query('DELETE FROM journal_entries WHERE id = $1 RETURNING id', [id]);
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  // Notebook methods
+  async getNotebooksByUser(userId: number): Promise<Notebook[]> {
+    const result = await pool.query(
+      'SELECT * FROM notebooks WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+    return result.rows.map(row => fromRow<Notebook>(row));
+  }
+
+  async getNotebookById(id: EntityId): Promise<Notebook | undefined> {
+    const result = await pool.query('SELECT * FROM notebooks WHERE id = $1', [id]);
+    return result.rows[0] ? fromRow<Notebook>(result.rows[0]) : undefined;
+  }
+
+  async createNotebook(notebook: InsertNotebook): Promise<Notebook> {
+    const { id, userId, name, color, defaultTemplateId, isPrivate, encryptedPayload } = notebook;
+    const result = await pool.query(
+      `INSERT INTO notebooks (id, user_id, name, color, default_template_id, is_private, encrypted_payload) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7) 
+       RETURNING *`,
+      [id || createId(), userId, name, color, defaultTemplateId, isPrivate ?? false, encryptedPayload]
+    );
+    return fromRow<Notebook>(result.rows[0]);
+  }
+
+  async updateNotebook(id: EntityId, data: Partial<InsertNotebook>, expectedVersion?: number): Promise<Notebook | undefined> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+    
+    // Map camelCase to snake_case
+    const fieldMap: Record<string, string> = {
+      userId: 'user_id',
+      name: 'name',
+      color: 'color',
+      defaultTemplateId: 'default_template_id',
+      isPrivate: 'is_private',
+      encryptedPayload: 'encrypted_payload'
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined && fieldMap[key]) {
+        fields.push(`${fieldMap[key]} = $${paramCounter}`);
+        values.push(value);
+        paramCounter++;
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.getNotebookById(id);
+    }
+
+    values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
+    const query = `
+      UPDATE notebooks 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows[0] ? fromRow<Notebook>(result.rows[0]) : undefined;
+  }
+
+  async deleteNotebook(id: EntityId): Promise<boolean> {
+    const result = await pool.query('DELETE FROM notebooks WHERE id = $1 RETURNING id', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Journal template methods
+  async getJournalTemplatesByUser(userId: number): Promise<StoredJournalTemplate[]> {
+    const result = await pool.query(
+      'SELECT * FROM journal_templates WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+    return result.rows.map(row => fromRow<StoredJournalTemplate>(row));
+  }
+
+  async getJournalTemplateById(id: EntityId): Promise<StoredJournalTemplate | undefined> {
+    const result = await pool.query('SELECT * FROM journal_templates WHERE id = $1', [id]);
+    return result.rows[0] ? fromRow<StoredJournalTemplate>(result.rows[0]) : undefined;
+  }
+
+  async createJournalTemplate(template: InsertJournalTemplate): Promise<StoredJournalTemplate> {
+    const { id, userId, name, description, icon, sections, encryptedPayload } = template;
+    const result = await pool.query(
+      `INSERT INTO journal_templates (id, user_id, name, description, icon, sections, encrypted_payload) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7) 
+       RETURNING *`,
+      [id || createId(), userId, name, description ?? '', icon, JSON.stringify(sections), encryptedPayload]
+    );
+    return fromRow<StoredJournalTemplate>(result.rows[0]);
+  }
+
+  async updateJournalTemplate(id: EntityId, data: Partial<InsertJournalTemplate>, expectedVersion?: number): Promise<StoredJournalTemplate | undefined> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+    
+    // Map camelCase to snake_case
+    const fieldMap: Record<string, string> = {
+      userId: 'user_id',
+      name: 'name',
+      description: 'description',
+      icon: 'icon',
+      sections: 'sections',
+      encryptedPayload: 'encrypted_payload'
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined && fieldMap[key]) {
+        fields.push(`${fieldMap[key]} = $${paramCounter}`);
+        values.push(key === 'sections' ? JSON.stringify(value) : value);
+        paramCounter++;
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.getJournalTemplateById(id);
+    }
+
+    values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
+    const query = `
+      UPDATE journal_templates 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows[0] ? fromRow<StoredJournalTemplate>(result.rows[0]) : undefined;
+  }
+
+  async deleteJournalTemplate(id: EntityId): Promise<boolean> {
+    const result = await pool.query('DELETE FROM journal_templates WHERE id = $1 RETURNING id', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Journal tracker methods
+  async getJournalTrackersByUser(userId: number): Promise<StoredJournalTracker[]> {
+    const result = await pool.query(
+      'SELECT * FROM journal_trackers WHERE user_id = $1 ORDER BY position ASC, created_at ASC',
+      [userId]
+    );
+    return result.rows.map(row => fromRow<StoredJournalTracker>(row));
+  }
+
+  async getJournalTrackerById(id: EntityId): Promise<StoredJournalTracker | undefined> {
+    const result = await pool.query('SELECT * FROM journal_trackers WHERE id = $1', [id]);
+    return result.rows[0] ? fromRow<StoredJournalTracker>(result.rows[0]) : undefined;
+  }
+
+  async createJournalTracker(tracker: InsertJournalTracker): Promise<StoredJournalTracker> {
+    const { id, userId, name, kind, icon, min, max, step, unit, position, encryptedPayload } = tracker;
+    const result = await pool.query(
+      `INSERT INTO journal_trackers (id, user_id, name, kind, icon, min, max, step, unit, position, encrypted_payload) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) 
+       RETURNING *`,
+      [id || createId(), userId, name, kind, icon, min ?? null, max ?? null, step ?? null, unit ?? null, position ?? 0, encryptedPayload]
+    );
+    return fromRow<StoredJournalTracker>(result.rows[0]);
+  }
+
+  async updateJournalTracker(id: EntityId, data: Partial<InsertJournalTracker>, expectedVersion?: number): Promise<StoredJournalTracker | undefined> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+    
+    // Map camelCase to snake_case
+    const fieldMap: Record<string, string> = {
+      userId: 'user_id',
+      name: 'name',
+      kind: 'kind',
+      icon: 'icon',
+      min: 'min',
+      max: 'max',
+      step: 'step',
+      unit: 'unit',
+      position: 'position',
+      encryptedPayload: 'encrypted_payload'
+    };
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined && fieldMap[key]) {
+        fields.push(`${fieldMap[key]} = $${paramCounter}`);
+        values.push(value);
+        paramCounter++;
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.getJournalTrackerById(id);
+    }
+
+    values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
+    const query = `
+      UPDATE journal_trackers 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
+      RETURNING *
+    `;
+
+    const result = await pool.query(query, values);
+    return result.rows[0] ? fromRow<StoredJournalTracker>(result.rows[0]) : undefined;
+  }
+
+  async deleteJournalTracker(id: EntityId): Promise<boolean> {
+    const result = await pool.query('DELETE FROM journal_trackers WHERE id = $1 RETURNING id', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   // Document methods
   async getDocumentsByUser(userId: number): Promise<Document[]> {
     const result = await pool.query(
       'SELECT * FROM documents WHERE user_id = $1 ORDER BY updated_at DESC',
       [userId]
     );
-    return result.rows;
+    return result.rows.map(row => fromRow<Document>(row));
   }
 
-  async getDocumentById(id: number): Promise<Document | undefined> {
+  async getDocumentById(id: EntityId): Promise<Document | undefined> {
     const result = await pool.query('SELECT * FROM documents WHERE id = $1', [id]);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<Document>(result.rows[0]) : undefined;
   }
 
   async createDocument(document: InsertDocument): Promise<Document> {
-    const { userId, title, content, formattedContent, category } = document;
+    const { id, userId, title, content, formattedContent, category, encryptedPayload, deletedAt } = document;
     const result = await pool.query(
-      `INSERT INTO documents (user_id, title, content, formatted_content, category) 
-       VALUES ($1, $2, $3, $4, $5) 
+      `INSERT INTO documents (id, user_id, title, content, formatted_content, category, encrypted_payload, deleted_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
        RETURNING *`,
-      [userId, title, content, formattedContent, category]
+      [id || createId(), userId, title, content, formattedContent, category, encryptedPayload, deletedAt]
     );
-    return result.rows[0];
+    return fromRow<Document>(result.rows[0]);
   }
 
-  async updateDocument(id: number, data: Partial<InsertDocument>): Promise<Document | undefined> {
+  async updateDocument(id: EntityId, data: Partial<InsertDocument>, expectedVersion?: number): Promise<Document | undefined> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCounter = 1;
@@ -395,7 +781,9 @@ export class PgStorage implements IStorage {
       title: 'title',
       content: 'content',
       formattedContent: 'formatted_content',
-      category: 'category'
+      category: 'category',
+      encryptedPayload: 'encrypted_payload',
+      deletedAt: 'deleted_at'
     };
 
     for (const [key, value] of Object.entries(data)) {
@@ -411,19 +799,296 @@ export class PgStorage implements IStorage {
     }
 
     values.push(id);
+    let versionCheck = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCheck = ` AND version = $${paramCounter + 1}`;
+    }
     const query = `
       UPDATE documents 
-      SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP 
-      WHERE id = $${paramCounter} 
+      SET ${fields.join(', ')}, version = version + 1, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = $${paramCounter}${versionCheck} 
       RETURNING *
     `;
 
     const result = await pool.query(query, values);
-    return result.rows[0] || undefined;
+    return result.rows[0] ? fromRow<Document>(result.rows[0]) : undefined;
   }
 
-  async deleteDocument(id: number): Promise<boolean> {
+  async deleteDocument(id: EntityId): Promise<boolean> {
     const result = await pool.query('DELETE FROM documents WHERE id = $1 RETURNING id', [id]);
     return result.rowCount ? result.rowCount > 0 : false;
   }
-}
\ No newline at end of file
+
+  // Revision methods
+  async getRevisionsByUser(userId: number): Promise<Revision[]> {
+    const result = await pool.query(
+      'SELECT * FROM revisions WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(row => fromRow<Revision>(row));
+  }
+
+  async getRevisionById(id: EntityId): Promise<Revision | undefined> {
+    const result = await pool.query('SELECT * FROM revisions WHERE id = $1', [id]);
+    return result.rows[0] ? fromRow<Revision>(result.rows[0]) : undefined;
+  }
+
+  async createRevision(revision: InsertRevision): Promise<Revision> {
+    const { id, userId, entityType, entityId, title, content, formattedContent, encryptedPayload, createdAt } = revision;
+    const result = await pool.query(
+      `INSERT INTO revisions (id, user_id, entity_type, entity_id, title, content, formatted_content, encrypted_payload, created_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, CURRENT_TIMESTAMP)) 
+       RETURNING *`,
+      [id || createId(), userId, entityType, entityId, title, content, formattedContent, encryptedPayload, createdAt]
+    );
+    return fromRow<Revision>(result.rows[0]);
+  }
+
+  async deleteRevision(id: EntityId): Promise<boolean> {
+    const result = await pool.query('DELETE FROM revisions WHERE id = $1 RETURNING id', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Sync change log methods
+  async appendSyncChanges(changes: InsertSyncChange[]): Promise<SyncChange[]> {
+    if (changes.length === 0) return [];
+    
+    return withTransaction(async (client) => {
+      // One push per user at a time, so a user's changes commit in seq order and readers
+      // that stop at the latest seq can't pass over one that hasn't committed yet
+      await lockSyncLog(client, changes[0].userId);
+      const appended: SyncChange[] = [];
+      
+      for (const change of changes) {
+        const { userId, changeId, deviceId, entityType, entityId, operation, data, clientTimestamp } = change;
+        // ON CONFLICT keeps retried pushes from recording the same change twice
+        const result = await client.query(
+          `INSERT INTO sync_changes (user_id, change_id, device_id, entity_type, entity_id, operation, data, client_timestamp) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
+           ON CONFLICT (user_id, change_id) DO NOTHING
+           RETURNING *`,
+          [userId, changeId, deviceId, entityType, entityId, operation, data ?? null, clientTimestamp]
+        );
+        if (result.rows[0]) {
+          appended.push(toSyncChange(result.rows[0]));
+        }
+      }
+      
+      return appended;
+    });
+  }
+
+  async getSyncChanges(userId: number, afterSeq: number, options: SyncChangeQueryOptions = {}): Promise<SyncChange[]> {
+    const conditions = ['user_id = $1', 'seq > $2'];
+    const values: any[] = [userId, afterSeq];
+    
+    if (options.upTo !== undefined) {
+      values.push(options.upTo);
+      conditions.push(`seq <= $${values.length}`);
+    }
+    
+    if (options.excludeDeviceId) {
+      values.push(options.excludeDeviceId);
+      conditions.push(`device_id <> $${values.length}`);
+    }
+    
+    let query = `SELECT * FROM sync_changes WHERE ${conditions.join(' AND ')} ORDER BY seq ASC`;
+    if (options.limit !== undefined) {
+      values.push(options.limit);
+      query += ` LIMIT $${values.length}`;
+    }
+    
+    const result = await pool.query(query, values);
+    return result.rows.map(toSyncChange);
+  }
+
+  async getLatestSyncSeq(userId: number): Promise<number> {
+    const result = await pool.query(
+      `SELECT GREATEST(
+         COALESCE((SELECT MAX(seq) FROM sync_changes WHERE user_id = $1), 0),
+         COALESCE((SELECT compacted_through FROM sync_compactions WHERE user_id = $1), 0)
+       ) AS latest`,
+      [userId]
+    );
+    return Number(result.rows[0].latest);
+  }
+
+  async getSyncCompactedThrough(userId: number): Promise<number> {
+    const result = await pool.query(
+      'SELECT compacted_through FROM sync_compactions WHERE user_id = $1',
+      [userId]
+    );
+    return result.rows[0] ? Number(result.rows[0].compacted_through) : 0;
+  }
+
+  async countSyncChanges(userId: number, deviceId?: string): Promise<number> {
+    const result = deviceId
+      ? await pool.query('SELECT COUNT(*) FROM sync_changes WHERE user_id = $1 AND device_id = $2', [userId, deviceId])
+      : await pool.query('SELECT COUNT(*) FROM sync_changes WHERE user_id = $1', [userId]);
+    return Number(result.rows[0].count);
+  }
+
+  async compactSyncChanges(userId: number, olderThan: Date): Promise<number> {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        'DELETE FROM sync_changes WHERE user_id = $1 AND created_at < $2 RETURNING seq',
+        [userId, olderThan]
+      );
+      if (!result.rowCount) return 0;
+      
+      const compactedThrough = Math.max(...result.rows.map((row: any) => Number(row.seq)));
+      await client.query(
+        `INSERT INTO sync_compactions (user_id, compacted_through, compacted_at) 
+         VALUES ($1, $2, CURRENT_TIMESTAMP)
+         ON CONFLICT (user_id) DO UPDATE 
+         SET compacted_through = GREATEST(sync_compactions.compacted_through, EXCLUDED.compacted_through),
+             compacted_at = CURRENT_TIMESTAMP`,
+        [userId, compactedThrough]
+      );
+      return result.rowCount;
+    });
+  }
+
+  async clearSyncChanges(userId: number): Promise<void> {
+    await withTransaction(async (client) => {
+      await lockSyncLog(client, userId);
+      const latest = await this.getLatestSyncSeq(userId);
+      await client.query('DELETE FROM sync_changes WHERE user_id = $1', [userId]);
+      // Mark everything as compacted so other devices know to resync
+      await client.query(
+        `INSERT INTO sync_compactions (user_id, compacted_through, compacted_at) 
+         VALUES ($1, $2, CURRENT_TIMESTAMP)
+         ON CONFLICT (user_id) DO UPDATE 
+         SET compacted_through = EXCLUDED.compacted_through, compacted_at = CURRENT_TIMESTAMP`,
+        [userId, latest]
+      );
+    });
+  }
+
+  // Encryption keyring methods
+  async getEncryptionKeyring(userId: number): Promise<EncryptionKeyring | undefined> {
+    const result = await pool.query('SELECT * FROM encryption_keyrings WHERE user_id = $1', [userId]);
+    return result.rows[0] ? fromRow<EncryptionKeyring>(result.rows[0]) : undefined;
+  }
+
+  async saveEncryptionKeyring(userId: number, keyring: Record<string, unknown>, expectedRevision?: number): Promise<EncryptionKeyring | undefined> {
+    // Without an expected revision only a first keyring can be created
+    const result = expectedRevision === undefined
+      ? await pool.query(
+          `INSERT INTO encryption_keyrings (user_id, keyring) 
+           VALUES ($1, $2) 
+           ON CONFLICT (user_id) DO NOTHING
+           RETURNING *`,
+          [userId, keyring]
+        )
+      : await pool.query(
+          `UPDATE encryption_keyrings 
+           SET keyring = $2, revision = revision + 1, updated_at = CURRENT_TIMESTAMP 
+           WHERE user_id = $1 AND revision = $3
+           RETURNING *`,
+          [userId, keyring, expectedRevision]
+        );
+    return result.rows[0] ? fromRow<EncryptionKeyring>(result.rows[0]) : undefined;
+  }
+
+  async deleteEncryptionKeyring(userId: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM encryption_keyrings WHERE user_id = $1', [userId]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Media methods
+  async getMedia(userId: number, id: string): Promise<Media | undefined> {
+    const result = await pool.query('SELECT * FROM media WHERE user_id = $1 AND id = $2', [userId, id]);
+    return result.rows[0] ? fromRow<Media>(result.rows[0]) : undefined;
+  }
+
+  async createMedia(media: InsertMedia): Promise<Media> {
+    const { id, userId, type, name, size } = media;
+    // A no-op update so the existing row comes back when the file was uploaded before
+    const result = await pool.query(
+      `INSERT INTO media (id, user_id, type, name, size) 
+       VALUES ($1, $2, $3, $4, $5) 
+       ON CONFLICT (id, user_id) DO UPDATE SET id = media.id
+       RETURNING *`,
+      [id, userId, type, name ?? null, size]
+    );
+    return fromRow<Media>(result.rows[0]);
+  }
+
+  async deleteMedia(userId: number, id: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM media WHERE user_id = $1 AND id = $2', [userId, id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async isMediaInUse(id: string): Promise<boolean> {
+    const result = await pool.query('SELECT 1 FROM media WHERE id = $1 LIMIT 1', [id]);
+    return result.rows.length > 0;
+  }
+
+  async getMediaUsage(userId: number): Promise<number> {
+    const result = await pool.query('SELECT COALESCE(SUM(size), 0) AS usage FROM media WHERE user_id = $1', [userId]);
+    return Number(result.rows[0].usage);
+  }
+
+  // Search methods. Matching uses the generated search_vector columns and their GIN
+  // indexes, ranking uses ts_rank_cd, and snippets are highlighted like MemStorage's.
+  async search(userId: number, query: ParsedQuery, options: SearchOptions): Promise<SearchPage> {
+    const params: unknown[] = [userId, options.limit, options.offset];
+    const addParam = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const rankQuery = query.terms.length > 0 ? addParam(toTsquery(query.terms, '|')) : null;
+
+    const matches = searchTables.map(({ entity, table, date }) => {
+      const { title } = searchColumns[table];
+      const condition = query.ast ? compileSearchCondition(query.ast, entity, addParam) : 'true';
+      // Entries in private notebooks are left out
+      const privacy = entity === 'journal'
+        ? ' AND (notebook_id IS NULL OR notebook_id NOT IN (SELECT id FROM notebooks WHERE is_private))'
+        : '';
+      return `
+        SELECT '${entity}'::text AS entity, id, ${title} AS title,
+          ${entity === 'post' ? 'platform' : 'NULL::text'} AS platform, ${date} AS date,
+          ${rankQuery ? `ts_rank_cd(search_vector, to_tsquery('simple', ${rankQuery}))` : '0::real'} AS score
+        FROM ${table}
+        WHERE user_id = $1 AND encrypted_payload IS NULL AND deleted_at IS NULL AND ${condition}${privacy}`;
+    });
+
+    // Body text is only read for the rows on this page. With terms to look for the whole body
+    // is needed, since the first match can be anywhere in it.
+    const snippets = searchTables.map(({ entity, table }) => {
+      const text = `regexp_replace(coalesce(${searchColumns[table].body}, ''), '<[^>]*>', ' ', 'g')`;
+      const snippet = rankQuery ? text : `left(${text}, ${PLAIN_SNIPPET_LENGTH})`;
+      return `SELECT ${snippet} AS snippet FROM ${table} WHERE page.entity = '${entity}' AND ${table}.id = page.id`;
+    });
+
+    const result = await pool.query(
+      `WITH matches AS (${matches.join(' UNION ALL ')}),
+       page AS (SELECT * FROM matches ORDER BY score DESC, date DESC, id LIMIT $2 OFFSET $3)
+       SELECT totals.total, page.*, snippets.snippet
+       FROM (SELECT count(*) AS total FROM matches) AS totals
+       LEFT JOIN page ON true
+       LEFT JOIN LATERAL (${snippets.join(' UNION ALL ')}) AS snippets ON true
+       ORDER BY page.score DESC, page.date DESC, page.id`,
+      params
+    );
+
+    return {
+      results: result.rows.filter(row => row.id).map(row => ({
+        entity: row.entity,
+        id: row.id,
+        title: row.title || '',
+        platform: row.platform,
+        date: row.date,
+        score: Number(row.score),
+        // Highlighted here rather than with ts_headline, which can't fold words the way
+        // search_fold does, so matches found through folding would go unmarked
+        snippet: highlightMatches(getSnippet(htmlToText(row.snippet || ''), query.terms), query.terms)
+      })),
+      total: Number(result.rows[0]?.total || 0)
+    };
+  }
+}
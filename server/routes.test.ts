@@ -0,0 +1,207 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createId } from "@shared/schema";
+import { createTestApp, signUp } from "./test-app";
+
+interface RouteFamily {
+  name: string;
+  path: string;
+  create: () => Record<string, unknown>;
+  // Fields to PATCH, or undefined when items can't be edited
+  update?: Record<string, unknown>;
+  // Whether there's a GET for a single item
+  getById: boolean;
+}
+
+const families: RouteFamily[] = [
+  {
+    name: 'posts',
+    path: '/api/posts',
+    create: () => ({ platform: 'twitter', content: 'Hello there' }),
+    update: { content: 'Changed' },
+    getById: false
+  },
+  {
+    name: 'notes',
+    path: '/api/notes',
+    create: () => ({ title: 'A note', content: 'Body' }),
+    update: { title: 'Changed' },
+    getById: true
+  },
+  {
+    name: 'journal',
+    path: '/api/journal',
+    create: () => ({ title: 'Today', content: 'It rained' }),
+    update: { title: 'Changed' },
+    getById: true
+  },
+  {
+    name: 'notebooks',
+    path: '/api/notebooks',
+    create: () => ({ name: 'Travel' }),
+    update: { name: 'Changed' },
+    getById: true
+  },
+  {
+    name: 'journal templates',
+    path: '/api/journal-templates',
+    create: () => ({ name: 'Evening', icon: 'ri-moon-line', sections: [{ id: 'day', label: 'My day', prompt: '' }] }),
+    update: { name: 'Changed' },
+    getById: true
+  },
+  {
+    name: 'journal trackers',
+    path: '/api/journal-trackers',
+    create: () => ({ name: 'Energy', kind: 'scale', icon: 'ri-flashlight-line', min: 1, max: 5 }),
+    update: { name: 'Changed', unit: null },
+    getById: true
+  },
+  {
+    name: 'documents',
+    path: '/api/documents',
+    create: () => ({ title: 'A document', content: 'Body' }),
+    update: { title: 'Changed' },
+    getById: true
+  },
+  {
+    name: 'revisions',
+    path: '/api/revisions',
+    create: () => ({ entityType: 'note', entityId: createId(), title: 'A note', content: 'Body' }),
+    getById: true
+  }
+];
+
+let app: Express;
+let owner: Awaited<ReturnType<typeof signUp>>;
+let other: Awaited<ReturnType<typeof signUp>>;
+
+beforeAll(async () => {
+  app = await createTestApp();
+  owner = await signUp(app);
+  other = await signUp(app);
+});
+
+describe.each(families)('$name routes', (family) => {
+  const createOwned = async () => {
+    const res = await owner.agent.post(family.path).send(family.create()).expect(201);
+    return res.body;
+  };
+
+  it('refuses requests without a session', async () => {
+    const item = await createOwned();
+    await request(app).get(`${family.path}/user/${owner.userId}`).expect(401);
+    await request(app).post(family.path).send(family.create()).expect(401);
+    if (family.getById) await request(app).get(`${family.path}/${item.id}`).expect(401);
+    if (family.update) await request(app).patch(`${family.path}/${item.id}`).send(family.update).expect(401);
+    await request(app).delete(`${family.path}/${item.id}`).expect(401);
+  });
+
+  it("reports another user's items as missing", async () => {
+    const item = await createOwned();
+    if (family.getById) await other.agent.get(`${family.path}/${item.id}`).expect(404);
+    if (family.update) await other.agent.patch(`${family.path}/${item.id}`).send(family.update).expect(404);
+    await other.agent.delete(`${family.path}/${item.id}`).expect(404);
+
+    // Still there for its owner
+    const list = await owner.agent.get(`${family.path}/user/${owner.userId}`).expect(200);
+    expect(list.body.map((listed: { id: string }) => listed.id)).toContain(item.id);
+  });
+
+  it('lets the owner change and delete their items', async () => {
+    const item = await createOwned();
+    if (family.getById) await owner.agent.get(`${family.path}/${item.id}`).expect(200);
+    if (family.update) {
+      const res = await owner.agent.patch(`${family.path}/${item.id}`).send(family.update).expect(200);
+      expect(res.body).toMatchObject(family.update);
+    }
+    await owner.agent.delete(`${family.path}/${item.id}`).expect(204);
+  });
+
+  it('takes the owner from the session, not the body', async () => {
+    const res = await other.agent.post(family.path).send({ ...family.create(), userId: owner.userId }).expect(201);
+    expect(res.body.userId).toBe(other.userId);
+
+    const list = await owner.agent.get(`${family.path}/user/${owner.userId}`).expect(200);
+    expect(list.body.map((listed: { id: string }) => listed.id)).not.toContain(res.body.id);
+  });
+
+  it("refuses to list another user's items", async () => {
+    await owner.agent.get(`${family.path}/user/${other.userId}`).expect(404);
+    await owner.agent.get(`${family.path}/user/not-a-number`).expect(400);
+  });
+
+  it('returns the existing item when a create is retried', async () => {
+    const id = createId();
+    const first = await owner.agent.post(family.path).send({ ...family.create(), id }).expect(201);
+    const retried = await owner.agent.post(family.path).send({ ...family.create(), id }).expect(200);
+    expect(retried.body).toEqual(first.body);
+  });
+
+  it("refuses an ID another user's item already has", async () => {
+    const item = await createOwned();
+    // Answered like a missing item so the ID's owner stays private
+    const res = await other.agent.post(family.path).send({ ...family.create(), id: item.id }).expect(404);
+    expect(res.body.message).toMatch(/not found/);
+  });
+});
+
+describe('user routes', () => {
+  it('refuses another user', async () => {
+    await owner.agent.get(`/api/users/${owner.userId}`).expect(200);
+    await owner.agent.get(`/api/users/${other.userId}`).expect(404);
+    await owner.agent.patch(`/api/users/${other.userId}`).send({ displayName: 'Changed' }).expect(404);
+    await request(app).get(`/api/users/${owner.userId}`).expect(401);
+  });
+});
+
+describe('PATCH with a stale baseVersion', () => {
+  it('answers 409 with the current copy', async () => {
+    const note = (await owner.agent.post('/api/notes').send({ title: 'A note', content: 'Body' }).expect(201)).body;
+    await owner.agent.patch(`/api/notes/${note.id}`).send({ title: 'First', baseVersion: note.version }).expect(200);
+
+    const res = await owner.agent.patch(`/api/notes/${note.id}`).send({ title: 'Second', baseVersion: note.version }).expect(409);
+    expect(res.body.current).toMatchObject({ title: 'First', version: note.version + 1 });
+  });
+});
+
+describe('journal entries in notebooks', () => {
+  it("refuses to file entries in another user's notebook", async () => {
+    const theirs = (await other.agent.post('/api/notebooks').send({ name: 'Theirs' }).expect(201)).body;
+    const mine = (await owner.agent.post('/api/notebooks').send({ name: 'Mine' }).expect(201)).body;
+
+    const created = await owner.agent.post('/api/journal').send({ title: 'Today', content: 'It rained', notebookId: theirs.id }).expect(404);
+    expect(created.body.message).toBe('Notebook not found');
+
+    const entry = (await owner.agent.post('/api/journal').send({ title: 'Today', content: 'It rained', notebookId: mine.id }).expect(201)).body;
+    await owner.agent.patch(`/api/journal/${entry.id}`).send({ notebookId: theirs.id }).expect(404);
+    await owner.agent.patch(`/api/journal/${entry.id}`).send({ notebookId: null }).expect(200);
+  });
+});
+
+describe('post platform rules', () => {
+  const longTweet = { platform: 'twitter', content: 'x'.repeat(300) };
+
+  it('refuses a scheduled post that breaks them', async () => {
+    const res = await owner.agent.post('/api/posts').send({ ...longTweet, status: 'scheduled', scheduledFor: new Date() }).expect(400);
+    expect(res.body.errors[0].path).toEqual(['content']);
+  });
+
+  it('stores published posts as they are, such as imports and posts from before the rules', async () => {
+    await owner.agent.post('/api/posts').send(longTweet).expect(201);
+    await owner.agent.post('/api/posts').send({ platform: 'instagram', content: 'No picture' }).expect(201);
+  });
+
+  it('lets existing posts that break them be trashed and archived', async () => {
+    const post = (await owner.agent.post('/api/posts').send({ platform: 'instagram', content: 'No picture' }).expect(201)).body;
+    // Synced updates carry the whole post, not just the changed fields
+    const trashed = await owner.agent.patch(`/api/posts/${post.id}`).send({ ...post, deletedAt: new Date(), baseVersion: post.version }).expect(200);
+    await owner.agent.patch(`/api/posts/${post.id}`).send({ status: 'archived', baseVersion: trashed.body.version }).expect(200);
+  });
+
+  it('checks edits to what a published post says', async () => {
+    const post = (await owner.agent.post('/api/posts').send({ platform: 'twitter', content: 'Short' }).expect(201)).body;
+    await owner.agent.patch(`/api/posts/${post.id}`).send({ ...post, content: longTweet.content, baseVersion: post.version }).expect(400);
+    await owner.agent.patch(`/api/posts/${post.id}`).send({ ...post, content: 'Still short', baseVersion: post.version }).expect(200);
+  });
+});
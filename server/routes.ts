@@ -2,12 +2,22 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import Razorpay from "razorpay";
-import { insertUserSchema, insertPostSchema, insertNoteSchema, insertJournalEntrySchema, insertDocumentSchema } from "@shared/schema";
+import { insertUserSchema, insertPostSchema, postFieldsSchema, insertNoteSchema, insertJournalEntrySchema, insertNotebookSchema, insertJournalTemplateSchema, insertJournalTrackerSchema, insertDocumentSchema, insertRevisionSchema } from "@shared/schema";
 import { z } from "zod";
+import { isDeepStrictEqual } from "util";
 import { authRouter, requireAuth } from "./auth/auth-routes";
+import { requireSelf, requireOwnership, currentUserId } from "./auth/ownership";
 import { configurePassport } from "./auth/passport-config";
 import { sendEmail } from "./utils/email";
 import { syncRouter } from "./routes/sync-routes";
+import { encryptionRouter } from "./routes/encryption-routes";
+import { searchRouter } from "./routes/search-routes";
+import { mediaRouter } from "./routes/media-routes";
+
+// Clients send the version they last saw as `baseVersion` so stale updates can be rejected
+const baseVersionSchema = z.object({
+  baseVersion: z.number().int().positive().optional()
+});
 
 // Initialize Razorpay with your key_id and key_secret
 const razorpay = new Razorpay({
@@ -22,12 +32,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   // Auth routes are already registered in index.ts
   // User routes
-  app.get("/api/users/:id", async (req, res) => {
-    const userId = parseInt(req.params.id);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
-    
+  app.get("/api/users/:id", ...requireSelf('id'), async (req, res) => {
+    const userId = currentUserId(req);
     const user = await storage.getUser(userId);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
@@ -52,11 +58,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/users/:id", async (req, res) => {
-    const userId = parseInt(req.params.id);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
+  app.patch("/api/users/:id", ...requireSelf('id'), async (req, res) => {
+    const userId = currentUserId(req);
     
     try {
       const updateData = insertUserSchema.partial().parse(req.body);
@@ -76,31 +79,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Single-entity routes only reach rows owned by the signed-in user
+  const ownPost = requireOwnership(id => storage.getPostById(id), { invalid: "Invalid post ID", notFound: "Post not found" });
+  const ownNote = requireOwnership(id => storage.getNoteById(id), { invalid: "Invalid note ID", notFound: "Note not found" });
+  const ownJournalEntry = requireOwnership(id => storage.getJournalEntryById(id), { invalid: "Invalid entry ID", notFound: "Journal entry not found" });
+  const ownNotebook = requireOwnership(id => storage.getNotebookById(id), { invalid: "Invalid notebook ID", notFound: "Notebook not found" });
+  const ownJournalTemplate = requireOwnership(id => storage.getJournalTemplateById(id), { invalid: "Invalid template ID", notFound: "Template not found" });
+  const ownJournalTracker = requireOwnership(id => storage.getJournalTrackerById(id), { invalid: "Invalid tracker ID", notFound: "Tracker not found" });
+  const ownDocument = requireOwnership(id => storage.getDocumentById(id), { invalid: "Invalid document ID", notFound: "Document not found" });
+  const ownRevision = requireOwnership(id => storage.getRevisionById(id), { invalid: "Invalid revision ID", notFound: "Revision not found" });
+  
+  // Entries can only be filed in the user's own notebooks; null is the default one
+  const isOwnNotebook = async (notebookId: string | null | undefined, userId: number) =>
+    !notebookId || (await storage.getNotebookById(notebookId))?.userId === userId;
+  
+  // Whether an update changes what a post says, rather than only its status, schedule or
+  // tombstone. Clients send the whole post, so unchanged fields are compared, not just present.
+  const changesPostContent = (post: Record<string, unknown>, update: Record<string, unknown>) =>
+    (['platform', 'content', 'formattedContent', 'mediaUrls', 'thread'] as const).some(field =>
+      update[field] !== undefined && !isDeepStrictEqual(update[field] ?? null, post[field] ?? null));
+  
   // Post routes
-  app.get("/api/posts/user/:userId", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
-    
-    const posts = await storage.getPostsByUser(userId);
+  app.get("/api/posts/user/:userId", ...requireSelf(), async (req, res) => {
+    const posts = await storage.getPostsByUser(currentUserId(req));
     res.json(posts);
   });
   
-  app.get("/api/posts/platform/:userId/:platform", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
-    
-    const { platform } = req.params;
-    const posts = await storage.getPostsByPlatform(userId, platform);
+  app.get("/api/posts/platform/:userId/:platform", ...requireSelf(), async (req, res) => {
+    const posts = await storage.getPostsByPlatform(currentUserId(req), req.params.platform);
     res.json(posts);
   });
   
-  app.post("/api/posts", async (req, res) => {
+  app.post("/api/posts", requireAuth, async (req, res) => {
     try {
-      const postData = insertPostSchema.parse(req.body);
+      // The owner always comes from the session, never from the request body. The platform
+      // rules hold new posts back once they're scheduled to go out; other creates include
+      // imports, restores and posts kept from before the rules, which are stored as they are.
+      const postSchema = req.body?.status === 'scheduled' ? insertPostSchema : postFieldsSchema;
+      const postData = postSchema.parse({ ...req.body, userId: currentUserId(req) });
+      // IDs come from the client, so a retried create returns the row it already made
+      if (postData.id) {
+        const existing = await storage.getPostById(postData.id);
+        if (existing) {
+          if (existing.userId !== postData.userId) {
+            return res.status(404).json({ message: "Post not found" });
+          }
+          return res.json(existing);
+        }
+      }
       const post = await storage.createPost(postData);
       res.status(201).json(post);
     } catch (error) {
@@ -111,17 +137,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/posts/:id", async (req, res) => {
-    const postId = parseInt(req.params.id);
-    if (isNaN(postId)) {
-      return res.status(400).json({ message: "Invalid post ID" });
-    }
+  app.patch("/api/posts/:id", ...ownPost, async (req, res) => {
+    const postId = req.params.id;
     
     try {
-      const updateData = insertPostSchema.partial().parse(req.body);
-      const updatedPost = await storage.updatePost(postId, updateData);
+      const updateData = postFieldsSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      // The platform rules apply to the post as it will be after the update, when the update
+      // changes what a scheduled or published post says. Trashing, archiving and the like go
+      // through, so posts stored before the rules existed can still be managed.
+      const updatedFields = { ...res.locals.entity, ...updateData };
+      if (['scheduled', 'published'].includes(updatedFields.status) && changesPostContent(res.locals.entity, updateData)) {
+        insertPostSchema.parse(updatedFields);
+      }
+      const updatedPost = await storage.updatePost(postId, updateData, baseVersion);
       
       if (!updatedPost) {
+        // The row exists but the version didn't match: send back the server copy to merge against
+        const current = await storage.getPostById(postId);
+        if (current) {
+          return res.status(409).json({ message: "Post was changed on another device", current });
+        }
         return res.status(404).json({ message: "Post not found" });
       }
       
@@ -134,13 +170,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/posts/:id", async (req, res) => {
-    const postId = parseInt(req.params.id);
-    if (isNaN(postId)) {
-      return res.status(400).json({ message: "Invalid post ID" });
-    }
-    
-    const success = await storage.deletePost(postId);
+  app.delete("/api/posts/:id", ...ownPost, async (req, res) => {
+    const success = await storage.deletePost(req.params.id);
     if (!success) {
       return res.status(404).json({ message: "Post not found" });
     }
@@ -149,33 +180,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Notes routes
-  app.get("/api/notes/user/:userId", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
-    
-    const notes = await storage.getNotesByUser(userId);
+  app.get("/api/notes/user/:userId", ...requireSelf(), async (req, res) => {
+    const notes = await storage.getNotesByUser(currentUserId(req));
     res.json(notes);
   });
   
-  app.get("/api/notes/:id", async (req, res) => {
-    const noteId = parseInt(req.params.id);
-    if (isNaN(noteId)) {
-      return res.status(400).json({ message: "Invalid note ID" });
-    }
-    
-    const note = await storage.getNoteById(noteId);
-    if (!note) {
-      return res.status(404).json({ message: "Note not found" });
-    }
-    
-    res.json(note);
+  app.get("/api/notes/:id", ...ownNote, (req, res) => {
+    res.json(res.locals.entity);
   });
   
-  app.post("/api/notes", async (req, res) => {
+  app.post("/api/notes", requireAuth, async (req, res) => {
     try {
-      const noteData = insertNoteSchema.parse(req.body);
+      const noteData = { ...insertNoteSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (noteData.id) {
+        const existing = await storage.getNoteById(noteData.id);
+        if (existing) {
+          if (existing.userId !== noteData.userId) {
+            return res.status(404).json({ message: "Note not found" });
+          }
+          return res.json(existing);
+        }
+      }
       const note = await storage.createNote(noteData);
       res.status(201).json(note);
     } catch (error) {
@@ -186,17 +211,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/notes/:id", async (req, res) => {
-    const noteId = parseInt(req.params.id);
-    if (isNaN(noteId)) {
-      return res.status(400).json({ message: "Invalid note ID" });
-    }
+  app.patch("/api/notes/:id", ...ownNote, async (req, res) => {
+    const noteId = req.params.id;
     
     try {
-      const updateData = insertNoteSchema.partial().parse(req.body);
-      const updatedNote = await storage.updateNote(noteId, updateData);
+      const updateData = insertNoteSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      const updatedNote = await storage.updateNote(noteId, updateData, baseVersion);
       
       if (!updatedNote) {
+        // The row exists but the version didn't match: send back the server copy to merge against
+        const current = await storage.getNoteById(noteId);
+        if (current) {
+          return res.status(409).json({ message: "Note was changed on another device", current });
+        }
         return res.status(404).json({ message: "Note not found" });
       }
       
@@ -209,13 +237,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/notes/:id", async (req, res) => {
-    const noteId = parseInt(req.params.id);
-    if (isNaN(noteId)) {
-      return res.status(400).json({ message: "Invalid note ID" });
-    }
-    
-    const success = await storage.deleteNote(noteId);
+  app.delete("/api/notes/:id", ...ownNote, async (req, res) => {
+    const success = await storage.deleteNote(req.params.id);
     if (!success) {
       return res.status(404).json({ message: "Note not found" });
     }
@@ -224,33 +247,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Journal routes
-  app.get("/api/journal/user/:userId", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
-    }
-    
-    const entries = await storage.getJournalEntriesByUser(userId);
+  app.get("/api/journal/user/:userId", ...requireSelf(), async (req, res) => {
+    const entries = await storage.getJournalEntriesByUser(currentUserId(req));
     res.json(entries);
   });
   
-  app.get("/api/journal/:id", async (req, res) => {
-    const entryId = parseInt(req.params.id);
-    if (isNaN(entryId)) {
-      return res.status(400).json({ message: "Invalid entry ID" });
-    }
-    
-    const entry = await storage.getJournalEntryById(entryId);
-    if (!entry) {
-      return res.status(404).json({ message: "Journal entry not found" });
-    }
-    
-    res.json(entry);
+  app.get("/api/journal/:id", ...ownJournalEntry, (req, res) => {
+    res.json(res.locals.entity);
   });
   
-  app.post("/api/journal", async (req, res) => {
+  app.post("/api/journal", requireAuth, async (req, res) => {
     try {
-      const entryData = insertJournalEntrySchema.parse(req.body);
+      const entryData = { ...insertJournalEntrySchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (entryData.id) {
+        const existing = await storage.getJournalEntryById(entryData.id);
+        if (existing) {
+          if (existing.userId !== entryData.userId) {
+            return res.status(404).json({ message: "Journal entry not found" });
+          }
+          return res.json(existing);
+        }
+      }
+      if (!(await isOwnNotebook(entryData.notebookId, entryData.userId))) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
       const entry = await storage.createJournalEntry(entryData);
       res.status(201).json(entry);
     } catch (error) {
@@ -261,17 +281,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/journal/:id", async (req, res) => {
-    const entryId = parseInt(req.params.id);
-    if (isNaN(entryId)) {
-      return res.status(400).json({ message: "Invalid entry ID" });
-    }
+  app.patch("/api/journal/:id", ...ownJournalEntry, async (req, res) => {
+    const entryId = req.params.id;
     
     try {
-      const updateData = insertJournalEntrySchema.partial().parse(req.body);
-      const updatedEntry = await storage.updateJournalEntry(entryId, updateData);
+      const updateData = insertJournalEntrySchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      if (!(await isOwnNotebook(updateData.notebookId, currentUserId(req)))) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      const updatedEntry = await storage.updateJournalEntry(entryId, updateData, baseVersion);
       
       if (!updatedEntry) {
+        // The row exists but the version didn't match: send back the server copy to merge against
+        const current = await storage.getJournalEntryById(entryId);
+        if (current) {
+          return res.status(409).json({ message: "Journal entry was changed on another device", current });
+        }
         return res.status(404).json({ message: "Journal entry not found" });
       }
       
@@ -284,48 +310,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/journal/:id", async (req, res) => {
-    const entryId = parseInt(req.params.id);
-    if (isNaN(entryId)) {
-      return res.status(400).json({ message: "Invalid entry ID" });
+  app.delete("/api/journal/:id", ...ownJournalEntry, async (req, res) => {
+    const success = await storage.deleteJournalEntry(req.params.id);
+    if (!success) {
+      return res.status(404).json({ message: "Journal entry not found" });
     }
     
-    const success = await storage.deleteJournalEntry(entryId);
+    res.status(204).end();
+  });
+  
+  // Notebook routes
+  app.get("/api/notebooks/user/:userId", ...requireSelf(), async (req, res) => {
+    const notebooks = await storage.getNotebooksByUser(currentUserId(req));
+    res.json(notebooks);
+  });
+  
+  app.get("/api/notebooks/:id", ...ownNotebook, (req, res) => {
+    res.json(res.locals.entity);
+  });
+  
+  app.post("/api/notebooks", requireAuth, async (req, res) => {
+    try {
+      const notebookData = { ...insertNotebookSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (notebookData.id) {
+        const existing = await storage.getNotebookById(notebookData.id);
+        if (existing) {
+          if (existing.userId !== notebookData.userId) {
+            return res.status(404).json({ message: "Notebook not found" });
+          }
+          return res.json(existing);
+        }
+      }
+      const notebook = await storage.createNotebook(notebookData);
+      res.status(201).json(notebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notebook data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create notebook" });
+    }
+  });
+  
+  app.patch("/api/notebooks/:id", ...ownNotebook, async (req, res) => {
+    const notebookId = req.params.id;
+    
+    try {
+      const updateData = insertNotebookSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      const updatedNotebook = await storage.updateNotebook(notebookId, updateData, baseVersion);
+      
+      if (!updatedNotebook) {
+        const current = await storage.getNotebookById(notebookId);
+        if (current) {
+          return res.status(409).json({ message: "Notebook was changed on another device", current });
+        }
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      res.json(updatedNotebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notebook" });
+    }
+  });
+  
+  // Entries in a deleted notebook are moved by the client, which queues those updates itself
+  app.delete("/api/notebooks/:id", ...ownNotebook, async (req, res) => {
+    const success = await storage.deleteNotebook(req.params.id);
     if (!success) {
-      return res.status(404).json({ message: "Journal entry not found" });
+      return res.status(404).json({ message: "Notebook not found" });
     }
     
     res.status(204).end();
   });
   
-  // Document routes
-  app.get("/api/documents/user/:userId", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    if (isNaN(userId)) {
-      return res.status(400).json({ message: "Invalid user ID" });
+  // Journal template routes, for the templates users write themselves
+  app.get("/api/journal-templates/user/:userId", ...requireSelf(), async (req, res) => {
+    const templates = await storage.getJournalTemplatesByUser(currentUserId(req));
+    res.json(templates);
+  });
+  
+  app.get("/api/journal-templates/:id", ...ownJournalTemplate, (req, res) => {
+    res.json(res.locals.entity);
+  });
+  
+  app.post("/api/journal-templates", requireAuth, async (req, res) => {
+    try {
+      const templateData = { ...insertJournalTemplateSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (templateData.id) {
+        const existing = await storage.getJournalTemplateById(templateData.id);
+        if (existing) {
+          if (existing.userId !== templateData.userId) {
+            return res.status(404).json({ message: "Template not found" });
+          }
+          return res.json(existing);
+        }
+      }
+      const template = await storage.createJournalTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create template" });
     }
+  });
+  
+  app.patch("/api/journal-templates/:id", ...ownJournalTemplate, async (req, res) => {
+    const templateId = req.params.id;
     
-    const documents = await storage.getDocumentsByUser(userId);
-    res.json(documents);
+    try {
+      const updateData = insertJournalTemplateSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      const updatedTemplate = await storage.updateJournalTemplate(templateId, updateData, baseVersion);
+      
+      if (!updatedTemplate) {
+        const current = await storage.getJournalTemplateById(templateId);
+        if (current) {
+          return res.status(409).json({ message: "Template was changed on another device", current });
+        }
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      res.json(updatedTemplate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update template" });
+    }
   });
   
-  app.get("/api/documents/:id", async (req, res) => {
-    const docId = parseInt(req.params.id);
-    if (isNaN(docId)) {
-      return res.status(400).json({ message: "Invalid document ID" });
+  // Entries and notebooks keep pointing at a deleted template; they start from a blank page
+  app.delete("/api/journal-templates/:id", ...ownJournalTemplate, async (req, res) => {
+    const success = await storage.deleteJournalTemplate(req.params.id);
+    if (!success) {
+      return res.status(404).json({ message: "Template not found" });
     }
     
-    const document = await storage.getDocumentById(docId);
-    if (!document) {
-      return res.status(404).json({ message: "Document not found" });
+    res.status(204).end();
+  });
+  
+  // Journal tracker routes
+  app.get("/api/journal-trackers/user/:userId", ...requireSelf(), async (req, res) => {
+    const trackers = await storage.getJournalTrackersByUser(currentUserId(req));
+    res.json(trackers);
+  });
+  
+  app.get("/api/journal-trackers/:id", ...ownJournalTracker, (req, res) => {
+    res.json(res.locals.entity);
+  });
+  
+  app.post("/api/journal-trackers", requireAuth, async (req, res) => {
+    try {
+      const trackerData = { ...insertJournalTrackerSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (trackerData.id) {
+        const existing = await storage.getJournalTrackerById(trackerData.id);
+        if (existing) {
+          if (existing.userId !== trackerData.userId) {
+            return res.status(404).json({ message: "Tracker not found" });
+          }
+          return res.json(existing);
+        }
+      }
+      const tracker = await storage.createJournalTracker(trackerData);
+      res.status(201).json(tracker);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tracker data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create tracker" });
     }
+  });
+  
+  app.patch("/api/journal-trackers/:id", ...ownJournalTracker, async (req, res) => {
+    const trackerId = req.params.id;
     
-    res.json(document);
+    try {
+      const updateData = insertJournalTrackerSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      const updatedTracker = await storage.updateJournalTracker(trackerId, updateData, baseVersion);
+      
+      if (!updatedTracker) {
+        const current = await storage.getJournalTrackerById(trackerId);
+        if (current) {
+          return res.status(409).json({ message: "Tracker was changed on another device", current });
+        }
+        return res.status(404).json({ message: "Tracker not found" });
+      }
+      
+      res.json(updatedTracker);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update tracker" });
+    }
+  });
+  
+  // Values the tracker recorded stay on the entries
+  app.delete("/api/journal-trackers/:id", ...ownJournalTracker, async (req, res) => {
+    const success = await storage.deleteJournalTracker(req.params.id);
+    if (!success) {
+      return res.status(404).json({ message: "Tracker not found" });
+    }
+    
+    res.status(204).end();
   });
   
-  app.post("/api/documents", async (req, res) => {
+  // Document routes
+  app.get("/api/documents/user/:userId", ...requireSelf(), async (req, res) => {
+    const documents = await storage.getDocumentsByUser(currentUserId(req));
+    res.json(documents);
+  });
+  
+  app.get("/api/documents/:id", ...ownDocument, (req, res) => {
+    res.json(res.locals.entity);
+  });
+  
+  app.post("/api/documents", requireAuth, async (req, res) => {
     try {
-      const docData = insertDocumentSchema.parse(req.body);
+      const docData = { ...insertDocumentSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (docData.id) {
+        const existing = await storage.getDocumentById(docData.id);
+        if (existing) {
+          if (existing.userId !== docData.userId) {
+            return res.status(404).json({ message: "Document not found" });
+          }
+          return res.json(existing);
+        }
+      }
       const document = await storage.createDocument(docData);
       res.status(201).json(document);
     } catch (error) {
@@ -336,17 +552,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/documents/:id", async (req, res) => {
-    const docId = parseInt(req.params.id);
-    if (isNaN(docId)) {
-      return res.status(400).json({ message: "Invalid document ID" });
-    }
+  app.patch("/api/documents/:id", ...ownDocument, async (req, res) => {
+    const docId = req.params.id;
     
     try {
-      const updateData = insertDocumentSchema.partial().parse(req.body);
-      const updatedDoc = await storage.updateDocument(docId, updateData);
+      const updateData = insertDocumentSchema.omit({ id: true, userId: true }).partial().parse(req.body);
+      const { baseVersion } = baseVersionSchema.parse(req.body);
+      const updatedDoc = await storage.updateDocument(docId, updateData, baseVersion);
       
       if (!updatedDoc) {
+        // The row exists but the version didn't match: send back the server copy to merge against
+        const current = await storage.getDocumentById(docId);
+        if (current) {
+          return res.status(409).json({ message: "Document was changed on another device", current });
+        }
         return res.status(404).json({ message: "Document not found" });
       }
       
@@ -359,15 +578,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/documents/:id", async (req, res) => {
-    const docId = parseInt(req.params.id);
-    if (isNaN(docId)) {
-      return res.status(400).json({ message: "Invalid document ID" });
+  app.delete("/api/documents/:id", ...ownDocument, async (req, res) => {
+    const success = await storage.deleteDocument(req.params.id);
+    if (!success) {
+      return res.status(404).json({ message: "Document not found" });
     }
     
-    const success = await storage.deleteDocument(docId);
+    res.status(204).end();
+  });
+  
+  // Revision routes. Revisions can't be edited, so there's no PATCH.
+  app.get("/api/revisions/user/:userId", ...requireSelf(), async (req, res) => {
+    const revisions = await storage.getRevisionsByUser(currentUserId(req));
+    res.json(revisions);
+  });
+  
+  app.get("/api/revisions/:id", ...ownRevision, (req, res) => {
+    res.json(res.locals.entity);
+  });
+  
+  app.post("/api/revisions", requireAuth, async (req, res) => {
+    try {
+      const revisionData = { ...insertRevisionSchema.omit({ userId: true }).parse(req.body), userId: currentUserId(req) };
+      if (revisionData.id) {
+        const existing = await storage.getRevisionById(revisionData.id);
+        if (existing) {
+          if (existing.userId !== revisionData.userId) {
+            return res.status(404).json({ message: "Revision not found" });
+          }
+          return res.json(existing);
+        }
+      }
+      const revision = await storage.createRevision(revisionData);
+      res.status(201).json(revision);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid revision data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create revision" });
+    }
+  });
+  
+  app.delete("/api/revisions/:id", ...ownRevision, async (req, res) => {
+    const success = await storage.deleteRevision(req.params.id);
     if (!success) {
-      return res.status(404).json({ message: "Document not found" });
+      return res.status(404).json({ message: "Revision not found" });
     }
     
     res.status(204).end();
@@ -439,7 +694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Share post via email
-  app.post("/api/share-post", async (req, res) => {
+  app.post("/api/share-post", requireAuth, async (req, res) => {
     try {
       const { recipientEmail, senderName, post, platform } = req.body;
       
@@ -512,6 +767,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Setup sync router for cross-device synchronization
   app.use('/api/sync', syncRouter);
+  
+  // Sealed keys for end-to-end encryption
+  app.use('/api/encryption', encryptionRouter);
+
+  // Search with the same query language as the client
+  app.use('/api/search', searchRouter);
+
+  // Uploaded images, videos and attachments
+  app.use('/api/media', mediaRouter);
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../auth/auth-routes';
+import { insertEncryptionKeyringSchema } from '@shared/schema';
+
+export const encryptionRouter = Router();
+
+// Clients send the revision they last saw so two devices can't overwrite each other's keys
+const baseRevisionSchema = z.object({
+  baseRevision: z.number().int().positive().optional()
+});
+
+// Get the sealed keyring. Its contents are only readable on the client.
+encryptionRouter.get('/keyring', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const keyring = await storage.getEncryptionKeyring(userId);
+    if (!keyring) {
+      return res.status(404).json({ error: 'End-to-end encryption is not enabled' });
+    }
+
+    res.json({ keyring: keyring.keyring, revision: keyring.revision });
+  } catch (error) {
+    console.error('Error fetching encryption keyring:', error);
+    res.status(500).json({ error: 'Failed to fetch encryption keyring' });
+  }
+});
+
+// Create or replace the sealed keyring
+encryptionRouter.put('/keyring', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const parsed = insertEncryptionKeyringSchema.merge(baseRevisionSchema).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid keyring', errors: parsed.error.errors });
+    }
+
+    const { keyring, baseRevision } = parsed.data;
+    const saved = await storage.saveEncryptionKeyring(userId, keyring, baseRevision);
+    if (!saved) {
+      const current = await storage.getEncryptionKeyring(userId);
+      return res.status(409).json({
+        error: 'Keyring was changed on another device',
+        current: current ? { keyring: current.keyring, revision: current.revision } : null
+      });
+    }
+
+    if (baseRevision === undefined) {
+      // Encryption was just turned on: drop the plaintext change history. Other devices
+      // are told to resync, and the client re-uploads everything encrypted.
+      await storage.clearSyncChanges(userId);
+    }
+
+    res.json({ keyring: saved.keyring, revision: saved.revision });
+  } catch (error) {
+    console.error('Error saving encryption keyring:', error);
+    res.status(500).json({ error: 'Failed to save encryption keyring' });
+  }
+});
+
+// Turn end-to-end encryption off. The client re-uploads its data in plaintext afterwards.
+encryptionRouter.delete('/keyring', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await storage.deleteEncryptionKeyring(userId);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting encryption keyring:', error);
+    res.status(500).json({ error: 'Failed to delete encryption keyring' });
+  }
+});
@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { mediaStorage, MEDIA_QUOTA } from "../media-storage";
+import { storage } from "../storage";
+import { createTestApp, signUp } from "../test-app";
+
+let app: Express;
+let owner: Awaited<ReturnType<typeof signUp>>;
+let other: Awaited<ReturnType<typeof signUp>>;
+
+beforeAll(async () => {
+  app = await createTestApp();
+  owner = await signUp(app);
+  other = await signUp(app);
+});
+
+// A file whose bytes no other test uploads
+let fileCount = 0;
+const uniqueFile = () => Buffer.from(`media file ${Date.now()} ${fileCount++}`);
+
+const upload = (agent: ReturnType<typeof request.agent>, data: Buffer) =>
+  agent.post('/api/media').attach('file', data, { filename: 'note.txt', contentType: 'text/plain' });
+
+describe('media routes', () => {
+  it('refuses requests without a session', async () => {
+    const media = (await upload(owner.agent, uniqueFile()).expect(201)).body;
+    await request(app).post('/api/media').attach('file', uniqueFile(), { filename: 'note.txt', contentType: 'text/plain' }).expect(401);
+    await request(app).get(`/api/media/${media.id}`).expect(401);
+    await request(app).delete(`/api/media/${media.id}`).expect(401);
+    await request(app).get('/api/media/usage').expect(401);
+  });
+
+  it("reports another user's files as missing", async () => {
+    const media = (await upload(owner.agent, uniqueFile()).expect(201)).body;
+    await other.agent.get(`/api/media/${media.id}`).expect(404);
+    await other.agent.delete(`/api/media/${media.id}`).expect(404);
+    await owner.agent.get(`/api/media/${media.id}`).expect(200);
+  });
+
+  it('takes the owner from the session, not the body', async () => {
+    const media = (await upload(other.agent, uniqueFile()).field('userId', String(owner.userId)).expect(201)).body;
+    expect(media.userId).toBe(other.userId);
+    await owner.agent.get(`/api/media/${media.id}`).expect(404);
+  });
+
+  it('returns the existing row when an upload is retried', async () => {
+    const data = uniqueFile();
+    const first = (await upload(owner.agent, data).expect(201)).body;
+    const retried = (await upload(owner.agent, data).expect(200)).body;
+    expect(retried).toEqual(first);
+  });
+
+  it('keeps a file another user uploaded too', async () => {
+    const data = uniqueFile();
+    const media = (await upload(owner.agent, data).expect(201)).body;
+    await upload(other.agent, data).expect(201);
+
+    await owner.agent.delete(`/api/media/${media.id}`).expect(204);
+    await owner.agent.get(`/api/media/${media.id}`).expect(404);
+    const res = await other.agent.get(`/api/media/${media.id}`).expect(200);
+    expect(res.text).toBe(data.toString());
+  });
+
+  it('keeps the bytes when one user uploads a file as another deletes it', async () => {
+    const data = uniqueFile();
+    const media = (await upload(owner.agent, data).expect(201)).body;
+
+    // Delete the owner's copy while the upload is between finding the bytes and adding its row
+    let deleted: Promise<unknown> | undefined;
+    const has = mediaStorage.has.bind(mediaStorage);
+    const hasSpy = vi.spyOn(mediaStorage, 'has').mockImplementationOnce(async (id) => {
+      const stored = await has(id);
+      deleted = owner.agent.delete(`/api/media/${media.id}`).expect(204).then();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return stored;
+    });
+    await upload(other.agent, data).expect(201);
+    await deleted;
+    hasSpy.mockRestore();
+
+    const res = await other.agent.get(`/api/media/${media.id}`).expect(200);
+    expect(res.text).toBe(data.toString());
+  });
+
+  it('counts files uploaded at the same time against the quota together', async () => {
+    const { agent, userId } = await signUp(app);
+    const files = [Buffer.from(`quota file ${Date.now()} a`), Buffer.from(`quota file ${Date.now()} b`)];
+
+    // Leave room for one of the files, and hold each check open long enough for the uploads to overlap
+    const getMediaUsage = storage.getMediaUsage.bind(storage);
+    const usageSpy = vi.spyOn(storage, 'getMediaUsage').mockImplementation(async (id) => {
+      const usage = await getMediaUsage(id);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return id === userId ? usage + MEDIA_QUOTA - 2 * files[0].length + 1 : usage;
+    });
+    const results = await Promise.all(files.map(data => upload(agent, data)));
+    usageSpy.mockRestore();
+
+    expect(results.map(res => res.status).sort()).toEqual([201, 413]);
+  });
+
+  it('serves byte ranges', async () => {
+    const data = Buffer.from('0123456789');
+    const media = (await upload(owner.agent, data)).body;
+    const res = await owner.agent.get(`/api/media/${media.id}`).set('Range', 'bytes=2-4').expect(206);
+    expect(res.text).toBe('234');
+  });
+
+  it('refuses malformed IDs', async () => {
+    await owner.agent.get('/api/media/not-a-hash').expect(400);
+    await owner.agent.delete('/api/media/not-a-hash').expect(400);
+  });
+});
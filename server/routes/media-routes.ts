@@ -0,0 +1,229 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { storage } from '../storage';
+import { requireAuth } from '../auth/auth-routes';
+import { MEDIA_ID_PATTERN, type Media } from '@shared/schema';
+import {
+  mediaStorage, hashMedia, isAllowedMediaType,
+  MAX_MEDIA_SIZE, MEDIA_QUOTA, type ByteRange
+} from '../media-storage';
+
+export const mediaRouter = Router();
+
+// Uploads are held in memory while they're hashed, so the size limit also bounds memory use
+const upload = multer({
+  storage: multer.memoryStorage(),
+  // Browsers send file names as UTF-8 without saying so
+  defParamCharset: 'utf8',
+  limits: { fileSize: MAX_MEDIA_SIZE, files: 1 }
+});
+
+// Types shown in the page; anything else is downloaded
+const INLINE_TYPE_PATTERN = /^(image|video|audio)\//;
+
+// Read the multipart "file" field, answering multer's errors the way other bad requests are
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Files can be at most ${Math.floor(MAX_MEDIA_SIZE / (1024 * 1024))} MB` });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+    if (error) return next(error);
+    next();
+  });
+}
+
+// Work on a file's bytes waits for earlier work on the same file, so a delete that finds no
+// one else has the file can't remove the bytes an upload is adding a row for
+const fileLocks = new Map<string, Promise<unknown>>();
+
+// Uploads wait for the user's earlier uploads, so files sent at the same time can't each
+// pass the quota check against usage that doesn't count the others
+const quotaLocks = new Map<number, Promise<unknown>>();
+
+// Run a task once the tasks queued before it under the same key have settled
+function withLock<K, T>(locks: Map<K, Promise<unknown>>, key: K, task: () => Promise<T>): Promise<T> {
+  const result = (locks.get(key) ?? Promise.resolve()).then(task);
+  const done = result.catch(() => {});
+  locks.set(key, done);
+  done.then(() => {
+    if (locks.get(key) === done) locks.delete(key);
+  });
+  return result;
+}
+
+// The media row, with the reference items keep and the URL the file is served from
+function toMediaResponse(media: Media) {
+  return { ...media, reference: `media://${media.id}`, url: `/api/media/${media.id}` };
+}
+
+// Upload a file. Its ID is the SHA-256 of its bytes, the same hash clients refer to it by.
+mediaRouter.post('/', requireAuth, receiveFile, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'Send the file as the "file" field of a multipart form' });
+    }
+    if (!isAllowedMediaType(file.mimetype)) {
+      return res.status(415).json({ error: `Files of type ${file.mimetype} can't be uploaded` });
+    }
+
+    const id = hashMedia(file.buffer);
+    await withLock(quotaLocks, userId, () => withLock(fileLocks, id, async () => {
+      const existing = await storage.getMedia(userId, id);
+      if (!existing) {
+        const usage = await storage.getMediaUsage(userId);
+        if (usage + file.size > MEDIA_QUOTA) {
+          return res.status(413).json({
+            error: 'Media storage quota exceeded',
+            code: 'quota_exceeded',
+            usage,
+            quota: MEDIA_QUOTA
+          });
+        }
+      }
+
+      // Stored even when the row exists, in case the bytes went missing
+      if (!(await mediaStorage.has(id))) {
+        await mediaStorage.put(id, file.buffer);
+      }
+      // Uploading the same file again, say from a retried sync, returns the row it already has
+      if (existing) {
+        return res.json(toMediaResponse(existing));
+      }
+
+      const media = await storage.createMedia({
+        id,
+        userId,
+        type: file.mimetype.toLowerCase(),
+        name: file.originalname || null,
+        size: file.size
+      });
+      res.status(201).json(toMediaResponse(media));
+    }));
+  } catch (error) {
+    console.error('Error uploading media:', error);
+    res.status(500).json({ error: 'Failed to upload media' });
+  }
+});
+
+// How much of the quota is used
+mediaRouter.get('/usage', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const usage = await storage.getMediaUsage(userId);
+    res.json({ usage, quota: MEDIA_QUOTA, maxFileSize: MAX_MEDIA_SIZE });
+  } catch (error) {
+    console.error('Error fetching media usage:', error);
+    res.status(500).json({ error: 'Failed to fetch media usage' });
+  }
+});
+
+// Serve a file, or the byte range of it asked for so videos can be streamed and seeked.
+// Other users' files are reported as missing.
+mediaRouter.get('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!MEDIA_ID_PATTERN.test(id)) {
+      return res.status(400).json({ error: 'Invalid media ID' });
+    }
+
+    const media = await storage.getMedia(userId, id);
+    if (!media) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    const disposition = INLINE_TYPE_PATTERN.test(media.type) ? 'inline' : 'attachment';
+    res.set({
+      'Content-Type': media.type,
+      'Content-Disposition': media.name ? `${disposition}; filename*=UTF-8''${encodeURIComponent(media.name)}` : disposition,
+      'Accept-Ranges': 'bytes',
+      // The ID is the hash of the bytes, so a file never changes
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      'ETag': `"${id}"`,
+      'X-Content-Type-Options': 'nosniff'
+    });
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    // A malformed Range header is ignored. Several ranges at once aren't worth a multipart
+    // response, so they get the whole file.
+    const ranges = req.range(media.size, { combine: true });
+    if (ranges === -1) {
+      res.set('Content-Range', `bytes */${media.size}`);
+      return res.status(416).end();
+    }
+    const range: ByteRange | undefined = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+      ? ranges[0]
+      : undefined;
+
+    const stream = await mediaStorage.read(id, range);
+    if (!stream) {
+      console.error(`Media ${id} has a row but no stored file`);
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    if (range) {
+      res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${media.size}`);
+    }
+    res.set('Content-Length', String(range ? range.end - range.start + 1 : media.size));
+    if (req.method === 'HEAD') {
+      stream.destroy();
+      return res.end();
+    }
+
+    stream.on('error', (error) => {
+      console.error('Error streaming media:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error serving media:', error);
+    res.status(500).json({ error: 'Failed to serve media' });
+  }
+});
+
+// Remove a file from the user's media. Its bytes are deleted once no one has it.
+mediaRouter.delete('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!MEDIA_ID_PATTERN.test(id)) {
+      return res.status(400).json({ error: 'Invalid media ID' });
+    }
+
+    await withLock(fileLocks, id, async () => {
+      if (!(await storage.deleteMedia(userId, id))) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+      if (!(await storage.isMediaInUse(id))) {
+        await mediaStorage.delete(id);
+      }
+      res.status(204).end();
+    });
+  } catch (error) {
+    console.error('Error deleting media:', error);
+    res.status(500).json({ error: 'Failed to delete media' });
+  }
+});
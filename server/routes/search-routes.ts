@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireAuth } from '../auth/auth-routes';
+import { parseSearchQuery } from '@shared/search';
+
+export const searchRouter = Router();
+
+// Result limits for GET /
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Search the user's posts, notes, journal entries and documents with the same query
+// language as the client, a page at a time. End-to-end encrypted items can't be read
+// here and are left out.
+searchRouter.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const requestedLimit = parseInt(req.query.limit as string) || DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const parsed = parseSearchQuery(query);
+    if (parsed.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid search query', errors: parsed.errors });
+    }
+    if (!parsed.ast) {
+      return res.json({ results: [], total: 0, offset, nextOffset: null });
+    }
+
+    const page = await storage.search(userId, parsed, { limit, offset });
+    const nextOffset = offset + page.results.length;
+    res.json({
+      results: page.results,
+      total: page.total,
+      offset,
+      // null on the last page
+      nextOffset: nextOffset < page.total ? nextOffset : null
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+});
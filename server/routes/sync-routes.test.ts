@@ -0,0 +1,135 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createId } from "@shared/schema";
+import { storage } from "../storage";
+import { createTestApp, signUp } from "../test-app";
+
+let app: Express;
+let owner: Awaited<ReturnType<typeof signUp>>;
+let other: Awaited<ReturnType<typeof signUp>>;
+
+beforeAll(async () => {
+  app = await createTestApp();
+  owner = await signUp(app);
+  other = await signUp(app);
+});
+
+const noteChange = (data: Record<string, unknown> = { title: 'A note' }) => ({
+  id: createId(),
+  entityType: 'note',
+  entityId: createId(),
+  operation: 'create',
+  data,
+  timestamp: Date.now()
+});
+
+describe('sync routes', () => {
+  it('refuses requests without a session', async () => {
+    await request(app).get('/api/sync/changes?deviceId=a').expect(401);
+    await request(app).post('/api/sync/changes').send({ deviceId: 'a', changes: [noteChange()] }).expect(401);
+    await request(app).get('/api/sync/status?deviceId=a').expect(401);
+  });
+
+  it("keeps each user's changes to themselves", async () => {
+    const change = noteChange();
+    await owner.agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [change] }).expect(200);
+
+    const own = await owner.agent.get('/api/sync/changes?deviceId=b').expect(200);
+    expect(own.body.changes.map((c: { changeId: string }) => c.changeId)).toContain(change.id);
+
+    const others = await other.agent.get('/api/sync/changes?deviceId=b').expect(200);
+    expect(others.body.changes.map((c: { changeId: string }) => c.changeId)).not.toContain(change.id);
+  });
+
+  it('takes the owner from the session, not the body', async () => {
+    const change = { ...noteChange(), userId: owner.userId };
+    await other.agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [change], userId: owner.userId }).expect(200);
+
+    const own = await owner.agent.get('/api/sync/changes?deviceId=b').expect(200);
+    expect(own.body.changes.map((c: { changeId: string }) => c.changeId)).not.toContain(change.id);
+
+    const others = await other.agent.get('/api/sync/changes?deviceId=b').expect(200);
+    const recorded = others.body.changes.find((c: { changeId: string }) => c.changeId === change.id);
+    expect(recorded.userId).toBe(other.userId);
+  });
+
+  it('records a retried push once', async () => {
+    const { agent } = await signUp(app);
+    const change = noteChange();
+    const first = await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [change] }).expect(200);
+    const retried = await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [change] }).expect(200);
+    expect(first.body.recordCount).toBe(1);
+    expect(retried.body.recordCount).toBe(0);
+  });
+
+  it("leaves out the asking device's own changes and pages by cursor", async () => {
+    const { agent } = await signUp(app);
+    const fromA = [noteChange(), noteChange(), noteChange()];
+    await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: fromA }).expect(200);
+
+    const seenByA = await agent.get('/api/sync/changes?deviceId=a').expect(200);
+    expect(seenByA.body.changes).toEqual([]);
+
+    const page = await agent.get('/api/sync/changes?deviceId=b&limit=2').expect(200);
+    expect(page.body.hasMore).toBe(true);
+    const rest = await agent.get(`/api/sync/changes?deviceId=b&cursor=${page.body.cursor}`).expect(200);
+    expect(rest.body.hasMore).toBe(false);
+    expect([...page.body.changes, ...rest.body.changes].map((c: { changeId: string }) => c.changeId))
+      .toEqual(fromA.map(change => change.id));
+  });
+
+  it('compacts the log now and then rather than on every push', async () => {
+    const { agent, userId } = await signUp(app);
+    const compact = vi.spyOn(storage, 'compactSyncChanges');
+    await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [noteChange()] }).expect(200);
+    await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [noteChange()] }).expect(200);
+    expect(compact.mock.calls.filter(([compactedUser]) => compactedUser === userId)).toHaveLength(1);
+    compact.mockRestore();
+  });
+
+  it('hands back updates made against an older copy as conflicts', async () => {
+    const { agent } = await signUp(app);
+    const note = (await agent.post('/api/notes').send({ title: 'A note', content: 'Body' }).expect(201)).body;
+    await agent.patch(`/api/notes/${note.id}`).send({ title: 'First', baseVersion: note.version }).expect(200);
+
+    const update = (baseVersion: number) => ({
+      ...noteChange({ ...note, title: 'Second' }),
+      entityId: note.id,
+      operation: 'update',
+      baseVersion
+    });
+    const stale = update(note.version);
+    const res = await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [stale, update(note.version + 1)] }).expect(200);
+    expect(res.body.recordCount).toBe(1);
+    expect(res.body.conflicts).toHaveLength(1);
+    expect(res.body.conflicts[0]).toMatchObject({ changeId: stale.id, entityId: note.id, current: { title: 'First' } });
+
+    const pulled = await agent.get('/api/sync/changes?deviceId=b').expect(200);
+    expect(pulled.body.changes.map((c: { changeId: string }) => c.changeId)).not.toContain(stale.id);
+  });
+
+  it('passes updates on with the version the server has, so the next device can edit on top', async () => {
+    const { agent } = await signUp(app);
+    const note = (await agent.post('/api/notes').send({ title: 'A note', content: 'Body' }).expect(201)).body;
+
+    // Device A's log record is made before its queued PATCH runs, so it holds the old version
+    const editedOnA = (await agent.patch(`/api/notes/${note.id}`).send({ title: 'From A', baseVersion: note.version }).expect(200)).body;
+    const fromA = { ...noteChange({ ...note, title: 'From A' }), entityId: note.id, operation: 'update', baseVersion: editedOnA.version };
+    await agent.post('/api/sync/changes').send({ deviceId: 'a', changes: [fromA] }).expect(200);
+
+    // Device B keeps the pulled data as its copy and edits on top of it
+    const pulled = await agent.get('/api/sync/changes?deviceId=b').expect(200);
+    const onB = pulled.body.changes.find((c: { changeId: string }) => c.changeId === fromA.id).data;
+    expect(onB.version).toBe(editedOnA.version);
+    const editedOnB = (await agent.patch(`/api/notes/${note.id}`).send({ title: 'From B', baseVersion: onB.version }).expect(200)).body;
+    const fromB = { ...noteChange({ ...onB, title: 'From B' }), entityId: note.id, operation: 'update', baseVersion: editedOnB.version };
+    const res = await agent.post('/api/sync/changes').send({ deviceId: 'b', changes: [fromB] }).expect(200);
+    expect(res.body.conflicts).toEqual([]);
+  });
+
+  it('requires a device ID', async () => {
+    await owner.agent.get('/api/sync/changes').expect(400);
+    await owner.agent.post('/api/sync/changes').send({ changes: [] }).expect(400);
+  });
+});
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { requireAuth } from '../auth/auth-routes';
+import { insertSyncChangeSchema, type InsertSyncChange, type EntityId } from '@shared/schema';
 
 // Extend Express Request type to include user
 declare global {
@@ -13,20 +14,31 @@ declare global {
 
 export const syncRouter = Router();
 
-interface SyncRecord {
-  id: string;
-  entityType: string;
-  entityId: number;
-  operation: 'create' | 'update' | 'delete';
-  timestamp: number;
-  data?: any;
-  deviceId: string;
-}
+// How long changes are kept before being compacted out of the log
+const SYNC_CHANGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// How often each user's log is compacted, at most
+const SYNC_COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+// When each user's log was last compacted by this process
+const lastCompactedAt = new Map<number, number>();
+
+// How pushed updates find the server copy they were made against. Revisions are never updated.
+const entityLookups: Partial<Record<string, (id: EntityId) => Promise<{ userId: number; version: number } | undefined>>> = {
+  note: id => storage.getNoteById(id),
+  journal: id => storage.getJournalEntryById(id),
+  notebook: id => storage.getNotebookById(id),
+  template: id => storage.getJournalTemplateById(id),
+  tracker: id => storage.getJournalTrackerById(id),
+  document: id => storage.getDocumentById(id),
+  post: id => storage.getPostById(id)
+};
 
-// In-memory store of sync records (would be in a database in production)
-const syncRecords: Record<number, SyncRecord[]> = {};
+// Page size limits for GET /changes
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
 
-// Get changes since a specified timestamp
+// Get changes after a server-assigned cursor
 syncRouter.get('/changes', requireAuth, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
@@ -35,24 +47,45 @@ syncRouter.get('/changes', requireAuth, async (req: Request, res: Response) => {
     }
 
     // Parse the query parameters
-    const since = parseInt(req.query.since as string) || 0;
+    const cursor = parseInt(req.query.cursor as string) || 0;
     const deviceId = req.query.deviceId as string;
+    const requestedLimit = parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
 
     if (!deviceId) {
       return res.status(400).json({ error: 'Device ID is required' });
     }
 
-    // Get records for this user
-    const userRecords = syncRecords[userId] || [];
-
-    // Filter for records that are newer than the specified timestamp
-    // and not from the current device
-    const changes = userRecords.filter(record => 
-      record.timestamp > since && record.deviceId !== deviceId
-    );
+    // Pin the page to the current end of the log so the returned cursor never skips
+    // changes that are appended while we're reading. Pushes are recorded one at a time per
+    // user, so every change up to it has committed.
+    const latest = await storage.getLatestSyncSeq(userId);
+
+    // If history the client hasn't seen has been compacted away, it must resync from scratch
+    const compactedThrough = await storage.getSyncCompactedThrough(userId);
+    if (cursor < compactedThrough) {
+      return res.status(410).json({
+        error: 'Sync cursor is too old, a full resync is required',
+        code: 'cursor_expired',
+        resync: true,
+        cursor: latest
+      });
+    }
 
-    // Return the filtered changes
-    res.json(changes);
+    // Fetch one extra record to find out whether there's another page
+    const page = await storage.getSyncChanges(userId, cursor, {
+      upTo: latest,
+      excludeDeviceId: deviceId,
+      limit: limit + 1
+    });
+    const hasMore = page.length > limit;
+    const changes = hasMore ? page.slice(0, limit) : page;
+
+    res.json({
+      changes,
+      cursor: hasMore ? changes[changes.length - 1].seq : Math.max(latest, cursor),
+      hasMore
+    });
   } catch (error) {
     console.error('Error fetching sync changes:', error);
     res.status(500).json({ error: 'Failed to fetch sync changes' });
@@ -73,36 +106,58 @@ syncRouter.post('/changes', requireAuth, async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'Invalid request format' });
     }
 
-    // Initialize records array for this user if it doesn't exist
-    if (!syncRecords[userId]) {
-      syncRecords[userId] = [];
-    }
-
-    // Add the new records
+    const validChanges: InsertSyncChange[] = [];
+    const conflicts: Array<{ changeId: string; entityType: string; entityId: EntityId; current: unknown }> = [];
     for (const change of changes) {
-      // Validate the change
-      if (!change.entityType || !change.entityId || !change.operation) {
+      const parsed = insertSyncChangeSchema.safeParse({
+        userId,
+        changeId: change.id,
+        deviceId,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        operation: change.operation,
+        data: change.data,
+        clientTimestamp: new Date(change.timestamp || Date.now())
+      });
+
+      if (!parsed.success) {
         continue; // Skip invalid changes
       }
 
-      // Add userId to the record for reference
-      const record: SyncRecord = {
-        ...change,
-        id: `${change.entityType}_${change.entityId}_${change.operation}_${change.timestamp}_${deviceId}`,
-        deviceId,
-      };
+      // An update made against an older copy than the server's lost to an edit from another
+      // device. Like a stale PATCH, it's handed back with the current copy instead of being
+      // passed on to the other devices.
+      if (parsed.data.operation === 'update') {
+        const current = await entityLookups[parsed.data.entityType]?.(parsed.data.entityId);
+        if (current && current.userId === userId) {
+          if (typeof change.baseVersion === 'number' && current.version !== change.baseVersion) {
+            conflicts.push({ changeId: parsed.data.changeId, entityType: parsed.data.entityType, entityId: parsed.data.entityId, current });
+            continue;
+          }
+          // The record was made before the device's PATCH bumped the version, and other devices
+          // keep its data as their copy, so it's passed on with the version the server has now
+          parsed.data.data = { ...(parsed.data.data as Record<string, unknown>), version: current.version };
+        }
+      }
 
-      // Add to the list of records
-      syncRecords[userId].push(record);
+      validChanges.push(parsed.data);
     }
 
-    // Prune old records (keep only the last 1000 per user)
-    if (syncRecords[userId].length > 1000) {
-      syncRecords[userId].sort((a, b) => b.timestamp - a.timestamp);
-      syncRecords[userId].length = 1000;
+    const recorded = await storage.appendSyncChanges(validChanges);
+
+    // Compact history older than the retention window, now and then rather than on every push
+    const now = Date.now();
+    if (now - (lastCompactedAt.get(userId) ?? 0) >= SYNC_COMPACTION_INTERVAL_MS) {
+      lastCompactedAt.set(userId, now);
+      await storage.compactSyncChanges(userId, new Date(now - SYNC_CHANGE_RETENTION_MS));
     }
 
-    res.json({ success: true, recordCount: changes.length });
+    res.json({
+      success: true,
+      recordCount: recorded.length,
+      cursor: await storage.getLatestSyncSeq(userId),
+      conflicts
+    });
   } catch (error) {
     console.error('Error recording sync changes:', error);
     res.status(500).json({ error: 'Failed to record sync changes' });
@@ -110,36 +165,42 @@ syncRouter.post('/changes', requireAuth, async (req: Request, res: Response) =>
 });
 
 // Get sync status for a device
-syncRouter.get('/status', requireAuth, (req: Request, res: Response) => {
-  const userId = req.user?.id;
-  if (!userId) {
-    return res.status(401).json({ error: 'User not authenticated' });
-  }
+syncRouter.get('/status', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
 
-  const deviceId = req.query.deviceId as string;
-  if (!deviceId) {
-    return res.status(400).json({ error: 'Device ID is required' });
-  }
+    const deviceId = req.query.deviceId as string;
+    if (!deviceId) {
+      return res.status(400).json({ error: 'Device ID is required' });
+    }
 
-  // Get the total number of sync records for this user
-  const userRecords = syncRecords[userId] || [];
-  const totalRecords = userRecords.length;
-
-  // Get the number of records from this device
-  const deviceRecords = userRecords.filter(record => record.deviceId === deviceId).length;
-
-  // Return the sync stats
-  res.json({
-    userId,
-    deviceId,
-    totalRecords,
-    deviceRecords,
-    serverTime: Date.now()
-  });
+    // Get the total number of sync records for this user
+    const totalRecords = await storage.countSyncChanges(userId);
+
+    // Get the number of records from this device
+    const deviceRecords = await storage.countSyncChanges(userId, deviceId);
+
+    // Return the sync stats
+    res.json({
+      userId,
+      deviceId,
+      totalRecords,
+      deviceRecords,
+      latestCursor: await storage.getLatestSyncSeq(userId),
+      compactedThrough: await storage.getSyncCompactedThrough(userId),
+      serverTime: Date.now()
+    });
+  } catch (error) {
+    console.error('Error fetching sync status:', error);
+    res.status(500).json({ error: 'Failed to fetch sync status' });
+  }
 });
 
 // Clear sync records for testing/debugging
-syncRouter.delete('/records', requireAuth, (req: Request, res: Response) => {
+syncRouter.delete('/records', requireAuth, async (req: Request, res: Response) => {
   const userId = req.user?.id;
   if (!userId) {
     return res.status(401).json({ error: 'User not authenticated' });
@@ -150,8 +211,8 @@ syncRouter.delete('/records', requireAuth, (req: Request, res: Response) => {
     return res.status(403).json({ error: 'This operation is only allowed in development mode' });
   }
 
-  // Clear records for this user
-  syncRecords[userId] = [];
+  // Clear records for this user; other devices will be told to resync
+  await storage.clearSyncChanges(userId);
 
   res.json({ success: true, message: 'Sync records cleared' });
-});
\ No newline at end of file
+});
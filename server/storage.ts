@@ -3,10 +3,54 @@ import {
   posts, Post, InsertPost,
   notes, Note, InsertNote,
   journalEntries, JournalEntry, InsertJournalEntry,
-  documents, Document, InsertDocument
+  Notebook, InsertNotebook,
+  StoredJournalTemplate, InsertJournalTemplate,
+  StoredJournalTracker, InsertJournalTracker,
+  documents, Document, InsertDocument,
+  Revision, InsertRevision,
+  SyncChange, InsertSyncChange,
+  EncryptionKeyring,
+  Media, InsertMedia,
+  createId, EntityId
 } from "@shared/schema";
+import {
+  SearchIndex, toSearchDocument, getSnippet, highlightMatches,
+  type SearchEntity, type ParsedQuery, type HighlightPart
+} from "@shared/search";
 
+export interface SyncChangeQueryOptions {
+  // Only return changes with seq <= upTo (used to pin a page to a snapshot of the log)
+  upTo?: number;
+  // Skip changes that originated from this device
+  excludeDeviceId?: string;
+  limit?: number;
+}
+
+export interface SearchOptions {
+  limit: number;
+  offset: number;
+}
+
+// One search result, with the part of its body that matched
+export interface SearchHit {
+  entity: SearchEntity;
+  id: EntityId;
+  title: string;
+  platform: string | null;
+  date: Date;
+  score: number;
+  snippet: HighlightPart[];
+}
 
+export interface SearchPage {
+  results: SearchHit[];
+  // Matches across all pages
+  total: number;
+}
+
+
+// Update methods take an optional expectedVersion. When it's given and doesn't match the
+// stored version the update is rejected and undefined is returned, same as a missing row.
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -19,55 +63,122 @@ export interface IStorage {
   // Post methods
   getPostsByUser(userId: number): Promise<Post[]>;
   getPostsByPlatform(userId: number, platform: string): Promise<Post[]>;
+  getPostById(id: EntityId): Promise<Post | undefined>;
   createPost(post: InsertPost): Promise<Post>;
-  updatePost(id: number, data: Partial<InsertPost>): Promise<Post | undefined>;
-  deletePost(id: number): Promise<boolean>;
+  updatePost(id: EntityId, data: Partial<InsertPost>, expectedVersion?: number): Promise<Post | undefined>;
+  deletePost(id: EntityId): Promise<boolean>;
   
   // Notes methods
   getNotesByUser(userId: number): Promise<Note[]>;
-  getNoteById(id: number): Promise<Note | undefined>;
+  getNoteById(id: EntityId): Promise<Note | undefined>;
   createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: number, data: Partial<InsertNote>): Promise<Note | undefined>;
-  deleteNote(id: number): Promise<boolean>;
+  updateNote(id: EntityId, data: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined>;
+  deleteNote(id: EntityId): Promise<boolean>;
   
   // Journal methods
   getJournalEntriesByUser(userId: number): Promise<JournalEntry[]>;
-  getJournalEntryById(id: number): Promise<JournalEntry | undefined>;
+  getJournalEntryById(id: EntityId): Promise<JournalEntry | undefined>;
   createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
-  updateJournalEntry(id: number, data: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined>;
-  deleteJournalEntry(id: number): Promise<boolean>;
+  updateJournalEntry(id: EntityId, data: Partial<InsertJournalEntry>, expectedVersion?: number): Promise<JournalEntry | undefined>;
+  deleteJournalEntry(id: EntityId): Promise<boolean>;
+  
+  // Notebook methods. Deleting a notebook leaves its entries where they are.
+  getNotebooksByUser(userId: number): Promise<Notebook[]>;
+  getNotebookById(id: EntityId): Promise<Notebook | undefined>;
+  createNotebook(notebook: InsertNotebook): Promise<Notebook>;
+  updateNotebook(id: EntityId, data: Partial<InsertNotebook>, expectedVersion?: number): Promise<Notebook | undefined>;
+  deleteNotebook(id: EntityId): Promise<boolean>;
+  
+  // Journal template methods, for the templates users write themselves
+  getJournalTemplatesByUser(userId: number): Promise<StoredJournalTemplate[]>;
+  getJournalTemplateById(id: EntityId): Promise<StoredJournalTemplate | undefined>;
+  createJournalTemplate(template: InsertJournalTemplate): Promise<StoredJournalTemplate>;
+  updateJournalTemplate(id: EntityId, data: Partial<InsertJournalTemplate>, expectedVersion?: number): Promise<StoredJournalTemplate | undefined>;
+  deleteJournalTemplate(id: EntityId): Promise<boolean>;
+  
+  // Journal tracker methods
+  getJournalTrackersByUser(userId: number): Promise<StoredJournalTracker[]>;
+  getJournalTrackerById(id: EntityId): Promise<StoredJournalTracker | undefined>;
+  createJournalTracker(tracker: InsertJournalTracker): Promise<StoredJournalTracker>;
+  updateJournalTracker(id: EntityId, data: Partial<InsertJournalTracker>, expectedVersion?: number): Promise<StoredJournalTracker | undefined>;
+  deleteJournalTracker(id: EntityId): Promise<boolean>;
   
   // Document methods
   getDocumentsByUser(userId: number): Promise<Document[]>;
-  getDocumentById(id: number): Promise<Document | undefined>;
+  getDocumentById(id: EntityId): Promise<Document | undefined>;
   createDocument(document: InsertDocument): Promise<Document>;
-  updateDocument(id: number, data: Partial<InsertDocument>): Promise<Document | undefined>;
-  deleteDocument(id: number): Promise<boolean>;
+  updateDocument(id: EntityId, data: Partial<InsertDocument>, expectedVersion?: number): Promise<Document | undefined>;
+  deleteDocument(id: EntityId): Promise<boolean>;
+
+  // Revision methods. Revisions are created and deleted, never updated.
+  getRevisionsByUser(userId: number): Promise<Revision[]>;
+  getRevisionById(id: EntityId): Promise<Revision | undefined>;
+  createRevision(revision: InsertRevision): Promise<Revision>;
+  deleteRevision(id: EntityId): Promise<boolean>;
+
+  // Sync change log methods
+  appendSyncChanges(changes: InsertSyncChange[]): Promise<SyncChange[]>;
+  getSyncChanges(userId: number, afterSeq: number, options?: SyncChangeQueryOptions): Promise<SyncChange[]>;
+  getLatestSyncSeq(userId: number): Promise<number>;
+  getSyncCompactedThrough(userId: number): Promise<number>;
+  countSyncChanges(userId: number, deviceId?: string): Promise<number>;
+  compactSyncChanges(userId: number, olderThan: Date): Promise<number>;
+  clearSyncChanges(userId: number): Promise<void>;
+
+  // Encryption keyring methods. The keyring is stored as-is; saving with an expectedRevision
+  // that doesn't match (or without one when a keyring exists) returns undefined.
+  getEncryptionKeyring(userId: number): Promise<EncryptionKeyring | undefined>;
+  saveEncryptionKeyring(userId: number, keyring: Record<string, unknown>, expectedRevision?: number): Promise<EncryptionKeyring | undefined>;
+  deleteEncryptionKeyring(userId: number): Promise<boolean>;
+
+  // Media methods. A row lets its user read a file kept by the media storage driver;
+  // creating one that already exists returns the existing row.
+  getMedia(userId: number, id: string): Promise<Media | undefined>;
+  createMedia(media: InsertMedia): Promise<Media>;
+  deleteMedia(userId: number, id: string): Promise<boolean>;
+  // Whether any user still has the file, so its bytes must be kept
+  isMediaInUse(id: string): Promise<boolean>;
+  // Bytes of media a user has stored, counted against their quota
+  getMediaUsage(userId: number): Promise<number>;
+
+  // Search a user's posts, notes, journal entries and documents, best match first.
+  // End-to-end encrypted items and entries in private notebooks are left out.
+  search(userId: number, query: ParsedQuery, options: SearchOptions): Promise<SearchPage>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
-  private posts: Map<number, Post>;
-  private notes: Map<number, Note>;
-  private journalEntries: Map<number, JournalEntry>;
-  private documents: Map<number, Document>;
+  private posts: Map<EntityId, Post>;
+  private notes: Map<EntityId, Note>;
+  private journalEntries: Map<EntityId, JournalEntry>;
+  private notebooks: Map<EntityId, Notebook>;
+  private journalTemplates: Map<EntityId, StoredJournalTemplate>;
+  private journalTrackers: Map<EntityId, StoredJournalTracker>;
+  private documents: Map<EntityId, Document>;
+  private revisions: Map<EntityId, Revision>;
+  private syncChanges: SyncChange[];
+  private syncCompactions: Map<number, number>;
+  private encryptionKeyrings: Map<number, EncryptionKeyring>;
+  private media: Map<string, Media>;
   private userIdCounter: number;
-  private postIdCounter: number;
-  private noteIdCounter: number;
-  private journalIdCounter: number;
-  private documentIdCounter: number;
+  private syncSeqCounter: number;
 
   constructor() {
     this.users = new Map();
     this.posts = new Map();
     this.notes = new Map();
     this.journalEntries = new Map();
+    this.notebooks = new Map();
+    this.journalTemplates = new Map();
+    this.journalTrackers = new Map();
     this.documents = new Map();
+    this.revisions = new Map();
+    this.syncChanges = [];
+    this.syncCompactions = new Map();
+    this.encryptionKeyrings = new Map();
+    this.media = new Map();
     this.userIdCounter = 1;
-    this.postIdCounter = 1;
-    this.noteIdCounter = 1;
-    this.journalIdCounter = 1;
-    this.documentIdCounter = 1;
+    this.syncSeqCounter = 1;
     
     // Initialize with a demo user
     this.createUser({
@@ -145,8 +256,12 @@ export class MemStorage implements IStorage {
       .filter(post => post.userId === userId && post.platform === platform);
   }
   
+  async getPostById(id: EntityId): Promise<Post | undefined> {
+    return this.posts.get(id);
+  }
+  
   async createPost(insertPost: InsertPost): Promise<Post> {
-    const id = this.postIdCounter++;
+    const id = insertPost.id || createId();
     const now = new Date();
     
     // Type assertion to fix TypeScript error
@@ -164,15 +279,24 @@ export class MemStorage implements IStorage {
       content: insertPost.content,
       formattedContent,
       mediaUrls: insertPost.mediaUrls || null,
+      thread: insertPost.thread || null,
+      masterId: insertPost.masterId || null,
+      variantBase: insertPost.variantBase || null,
+      status: insertPost.status || 'published',
+      scheduledFor: insertPost.scheduledFor || null,
+      encryptedPayload: insertPost.encryptedPayload || null,
+      deletedAt: insertPost.deletedAt || null,
+      version: 1,
       createdAt: now
     };
     this.posts.set(id, post);
     return post;
   }
   
-  async updatePost(id: number, data: Partial<InsertPost>): Promise<Post | undefined> {
+  async updatePost(id: EntityId, data: Partial<InsertPost>, expectedVersion?: number): Promise<Post | undefined> {
     const post = this.posts.get(id);
     if (!post) return undefined;
+    if (expectedVersion !== undefined && post.version !== expectedVersion) return undefined;
     
     // Process formattedContent to ensure correct types
     let processedData: Partial<Post> = { ...data };
@@ -186,12 +310,12 @@ export class MemStorage implements IStorage {
       };
     }
     
-    const updatedPost = { ...post, ...processedData };
+    const updatedPost = { ...post, ...processedData, version: post.version + 1 };
     this.posts.set(id, updatedPost);
     return updatedPost;
   }
   
-  async deletePost(id: number): Promise<boolean> {
+  async deletePost(id: EntityId): Promise<boolean> {
     return this.posts.delete(id);
   }
   
@@ -202,12 +326,12 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
   
-  async getNoteById(id: number): Promise<Note | undefined> {
+  async getNoteById(id: EntityId): Promise<Note | undefined> {
     return this.notes.get(id);
   }
   
   async createNote(insertNote: InsertNote): Promise<Note> {
-    const id = this.noteIdCounter++;
+    const id = insertNote.id || createId();
     const now = new Date();
     
     // Type assertion to fix TypeScript error
@@ -223,6 +347,9 @@ export class MemStorage implements IStorage {
       formattedContent,
       tags: insertNote.tags || null,
       color: insertNote.color || null,
+      encryptedPayload: insertNote.encryptedPayload || null,
+      deletedAt: insertNote.deletedAt || null,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
@@ -230,9 +357,10 @@ export class MemStorage implements IStorage {
     return note;
   }
   
-  async updateNote(id: number, data: Partial<InsertNote>): Promise<Note | undefined> {
+  async updateNote(id: EntityId, data: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
     const note = this.notes.get(id);
     if (!note) return undefined;
+    if (expectedVersion !== undefined && note.version !== expectedVersion) return undefined;
     
     // Process formattedContent to ensure correct types
     let processedData: Partial<Note> = { ...data };
@@ -244,12 +372,12 @@ export class MemStorage implements IStorage {
     }
     
     const now = new Date();
-    const updatedNote = { ...note, ...processedData, updatedAt: now };
+    const updatedNote = { ...note, ...processedData, version: note.version + 1, updatedAt: now };
     this.notes.set(id, updatedNote);
     return updatedNote;
   }
   
-  async deleteNote(id: number): Promise<boolean> {
+  async deleteNote(id: EntityId): Promise<boolean> {
     return this.notes.delete(id);
   }
   
@@ -260,12 +388,12 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
   
-  async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
+  async getJournalEntryById(id: EntityId): Promise<JournalEntry | undefined> {
     return this.journalEntries.get(id);
   }
   
   async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
-    const id = this.journalIdCounter++;
+    const id = insertEntry.id || createId();
     const now = new Date();
     
     // Type assertion to fix TypeScript error
@@ -276,6 +404,7 @@ export class MemStorage implements IStorage {
     const entry: JournalEntry = { 
       id,
       userId: insertEntry.userId,
+      notebookId: insertEntry.notebookId || null,
       title: insertEntry.title,
       content: insertEntry.content,
       date: insertEntry.date || now,
@@ -284,6 +413,12 @@ export class MemStorage implements IStorage {
       mood: insertEntry.mood || null,
       weather: insertEntry.weather || null,
       location: insertEntry.location || null,
+      templateId: insertEntry.templateId || null,
+      sections: insertEntry.sections || null,
+      trackers: insertEntry.trackers || null,
+      encryptedPayload: insertEntry.encryptedPayload || null,
+      deletedAt: insertEntry.deletedAt || null,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
@@ -291,9 +426,10 @@ export class MemStorage implements IStorage {
     return entry;
   }
   
-  async updateJournalEntry(id: number, data: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+  async updateJournalEntry(id: EntityId, data: Partial<InsertJournalEntry>, expectedVersion?: number): Promise<JournalEntry | undefined> {
     const entry = this.journalEntries.get(id);
     if (!entry) return undefined;
+    if (expectedVersion !== undefined && entry.version !== expectedVersion) return undefined;
     
     // Process formattedContent to ensure correct types
     let processedData: Partial<JournalEntry> = { ...data };
@@ -305,15 +441,154 @@ export class MemStorage implements IStorage {
     }
     
     const now = new Date();
-    const updatedEntry = { ...entry, ...processedData, updatedAt: now };
+    const updatedEntry = { ...entry, ...processedData, version: entry.version + 1, updatedAt: now };
     this.journalEntries.set(id, updatedEntry);
     return updatedEntry;
   }
   
-  async deleteJournalEntry(id: number): Promise<boolean> {
+  async deleteJournalEntry(id: EntityId): Promise<boolean> {
     return this.journalEntries.delete(id);
   }
   
+  // Notebook methods
+  async getNotebooksByUser(userId: number): Promise<Notebook[]> {
+    return Array.from(this.notebooks.values())
+      .filter(notebook => notebook.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async getNotebookById(id: EntityId): Promise<Notebook | undefined> {
+    return this.notebooks.get(id);
+  }
+  
+  async createNotebook(insertNotebook: InsertNotebook): Promise<Notebook> {
+    const id = insertNotebook.id || createId();
+    const now = new Date();
+    
+    const notebook: Notebook = {
+      id,
+      userId: insertNotebook.userId,
+      name: insertNotebook.name,
+      color: insertNotebook.color || null,
+      defaultTemplateId: insertNotebook.defaultTemplateId || null,
+      isPrivate: insertNotebook.isPrivate ?? false,
+      encryptedPayload: insertNotebook.encryptedPayload || null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notebooks.set(id, notebook);
+    return notebook;
+  }
+  
+  async updateNotebook(id: EntityId, data: Partial<InsertNotebook>, expectedVersion?: number): Promise<Notebook | undefined> {
+    const notebook = this.notebooks.get(id);
+    if (!notebook) return undefined;
+    if (expectedVersion !== undefined && notebook.version !== expectedVersion) return undefined;
+    
+    const updatedNotebook = { ...notebook, ...data, version: notebook.version + 1, updatedAt: new Date() };
+    this.notebooks.set(id, updatedNotebook);
+    return updatedNotebook;
+  }
+  
+  async deleteNotebook(id: EntityId): Promise<boolean> {
+    return this.notebooks.delete(id);
+  }
+  
+  // Journal template methods
+  async getJournalTemplatesByUser(userId: number): Promise<StoredJournalTemplate[]> {
+    return Array.from(this.journalTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async getJournalTemplateById(id: EntityId): Promise<StoredJournalTemplate | undefined> {
+    return this.journalTemplates.get(id);
+  }
+  
+  async createJournalTemplate(insertTemplate: InsertJournalTemplate): Promise<StoredJournalTemplate> {
+    const id = insertTemplate.id || createId();
+    const now = new Date();
+    
+    const template: StoredJournalTemplate = {
+      id,
+      userId: insertTemplate.userId,
+      name: insertTemplate.name,
+      description: insertTemplate.description ?? '',
+      icon: insertTemplate.icon,
+      sections: insertTemplate.sections,
+      encryptedPayload: insertTemplate.encryptedPayload || null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.journalTemplates.set(id, template);
+    return template;
+  }
+  
+  async updateJournalTemplate(id: EntityId, data: Partial<InsertJournalTemplate>, expectedVersion?: number): Promise<StoredJournalTemplate | undefined> {
+    const template = this.journalTemplates.get(id);
+    if (!template) return undefined;
+    if (expectedVersion !== undefined && template.version !== expectedVersion) return undefined;
+    
+    const updatedTemplate = { ...template, ...data, version: template.version + 1, updatedAt: new Date() };
+    this.journalTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteJournalTemplate(id: EntityId): Promise<boolean> {
+    return this.journalTemplates.delete(id);
+  }
+  
+  // Journal tracker methods
+  async getJournalTrackersByUser(userId: number): Promise<StoredJournalTracker[]> {
+    return Array.from(this.journalTrackers.values())
+      .filter(tracker => tracker.userId === userId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async getJournalTrackerById(id: EntityId): Promise<StoredJournalTracker | undefined> {
+    return this.journalTrackers.get(id);
+  }
+  
+  async createJournalTracker(insertTracker: InsertJournalTracker): Promise<StoredJournalTracker> {
+    const id = insertTracker.id || createId();
+    const now = new Date();
+    
+    const tracker: StoredJournalTracker = {
+      id,
+      userId: insertTracker.userId,
+      name: insertTracker.name,
+      kind: insertTracker.kind,
+      icon: insertTracker.icon,
+      min: insertTracker.min ?? null,
+      max: insertTracker.max ?? null,
+      step: insertTracker.step ?? null,
+      unit: insertTracker.unit ?? null,
+      position: insertTracker.position ?? 0,
+      encryptedPayload: insertTracker.encryptedPayload || null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.journalTrackers.set(id, tracker);
+    return tracker;
+  }
+  
+  async updateJournalTracker(id: EntityId, data: Partial<InsertJournalTracker>, expectedVersion?: number): Promise<StoredJournalTracker | undefined> {
+    const tracker = this.journalTrackers.get(id);
+    if (!tracker) return undefined;
+    if (expectedVersion !== undefined && tracker.version !== expectedVersion) return undefined;
+    
+    const updatedTracker = { ...tracker, ...data, version: tracker.version + 1, updatedAt: new Date() };
+    this.journalTrackers.set(id, updatedTracker);
+    return updatedTracker;
+  }
+  
+  async deleteJournalTracker(id: EntityId): Promise<boolean> {
+    return this.journalTrackers.delete(id);
+  }
+  
   // Document methods
   async getDocumentsByUser(userId: number): Promise<Document[]> {
     return Array.from(this.documents.values())
@@ -321,12 +596,12 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
   
-  async getDocumentById(id: number): Promise<Document | undefined> {
+  async getDocumentById(id: EntityId): Promise<Document | undefined> {
     return this.documents.get(id);
   }
   
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
-    const id = this.documentIdCounter++;
+    const id = insertDocument.id || createId();
     const now = new Date();
     
     // Type assertion to fix TypeScript error
@@ -341,6 +616,9 @@ export class MemStorage implements IStorage {
       content: insertDocument.content,
       formattedContent,
       category: insertDocument.category || null,
+      encryptedPayload: insertDocument.encryptedPayload || null,
+      deletedAt: insertDocument.deletedAt || null,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
@@ -348,9 +626,10 @@ export class MemStorage implements IStorage {
     return document;
   }
   
-  async updateDocument(id: number, data: Partial<InsertDocument>): Promise<Document | undefined> {
+  async updateDocument(id: EntityId, data: Partial<InsertDocument>, expectedVersion?: number): Promise<Document | undefined> {
     const document = this.documents.get(id);
     if (!document) return undefined;
+    if (expectedVersion !== undefined && document.version !== expectedVersion) return undefined;
     
     // Process formattedContent to ensure correct types
     let processedData: Partial<Document> = { ...data };
@@ -362,20 +641,224 @@ export class MemStorage implements IStorage {
     }
     
     const now = new Date();
-    const updatedDocument = { ...document, ...processedData, updatedAt: now };
+    const updatedDocument = { ...document, ...processedData, version: document.version + 1, updatedAt: now };
     this.documents.set(id, updatedDocument);
     return updatedDocument;
   }
   
-  async deleteDocument(id: number): Promise<boolean> {
+  async deleteDocument(id: EntityId): Promise<boolean> {
     return this.documents.delete(id);
   }
+
+  // Revision methods
+  async getRevisionsByUser(userId: number): Promise<Revision[]> {
+    return Array.from(this.revisions.values())
+      .filter(revision => revision.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getRevisionById(id: EntityId): Promise<Revision | undefined> {
+    return this.revisions.get(id);
+  }
+  
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    const id = insertRevision.id || createId();
+    
+    const revision: Revision = {
+      id,
+      userId: insertRevision.userId,
+      entityType: insertRevision.entityType,
+      entityId: insertRevision.entityId,
+      title: insertRevision.title,
+      content: insertRevision.content,
+      formattedContent: insertRevision.formattedContent ? {
+        html: insertRevision.formattedContent.html as string | undefined
+      } : null,
+      encryptedPayload: insertRevision.encryptedPayload || null,
+      createdAt: insertRevision.createdAt || new Date()
+    };
+    this.revisions.set(id, revision);
+    return revision;
+  }
+  
+  async deleteRevision(id: EntityId): Promise<boolean> {
+    return this.revisions.delete(id);
+  }
+  
+  // Sync change log methods
+  async appendSyncChanges(changes: InsertSyncChange[]): Promise<SyncChange[]> {
+    const appended: SyncChange[] = [];
+    
+    for (const change of changes) {
+      // Ignore changes we've already recorded so retried pushes are idempotent
+      const exists = this.syncChanges.some(
+        existing => existing.userId === change.userId && existing.changeId === change.changeId
+      );
+      if (exists) continue;
+      
+      const record: SyncChange = {
+        seq: this.syncSeqCounter++,
+        userId: change.userId,
+        changeId: change.changeId,
+        deviceId: change.deviceId,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        operation: change.operation,
+        data: change.data ?? null,
+        clientTimestamp: change.clientTimestamp,
+        createdAt: new Date()
+      };
+      this.syncChanges.push(record);
+      appended.push(record);
+    }
+    
+    return appended;
+  }
+  
+  async getSyncChanges(userId: number, afterSeq: number, options: SyncChangeQueryOptions = {}): Promise<SyncChange[]> {
+    const { upTo, excludeDeviceId, limit } = options;
+    const changes = this.syncChanges.filter(change =>
+      change.userId === userId &&
+      change.seq > afterSeq &&
+      (upTo === undefined || change.seq <= upTo) &&
+      change.deviceId !== excludeDeviceId
+    );
+    
+    return limit === undefined ? changes : changes.slice(0, limit);
+  }
+  
+  async getLatestSyncSeq(userId: number): Promise<number> {
+    const userChanges = this.syncChanges.filter(change => change.userId === userId);
+    const latest = userChanges.length > 0 ? userChanges[userChanges.length - 1].seq : 0;
+    return Math.max(latest, await this.getSyncCompactedThrough(userId));
+  }
+  
+  async getSyncCompactedThrough(userId: number): Promise<number> {
+    return this.syncCompactions.get(userId) || 0;
+  }
+  
+  async countSyncChanges(userId: number, deviceId?: string): Promise<number> {
+    return this.syncChanges.filter(change =>
+      change.userId === userId && (deviceId === undefined || change.deviceId === deviceId)
+    ).length;
+  }
+  
+  async compactSyncChanges(userId: number, olderThan: Date): Promise<number> {
+    const removed = this.syncChanges.filter(change =>
+      change.userId === userId && change.createdAt < olderThan
+    );
+    if (removed.length === 0) return 0;
+    
+    const compactedThrough = Math.max(...removed.map(change => change.seq));
+    this.syncChanges = this.syncChanges.filter(change => !removed.includes(change));
+    this.syncCompactions.set(userId, Math.max(compactedThrough, await this.getSyncCompactedThrough(userId)));
+    return removed.length;
+  }
+  
+  async clearSyncChanges(userId: number): Promise<void> {
+    // Mark everything as compacted so other devices know to resync
+    this.syncCompactions.set(userId, await this.getLatestSyncSeq(userId));
+    this.syncChanges = this.syncChanges.filter(change => change.userId !== userId);
+  }
+
+  // Encryption keyring methods
+  async getEncryptionKeyring(userId: number): Promise<EncryptionKeyring | undefined> {
+    return this.encryptionKeyrings.get(userId);
+  }
+  
+  async saveEncryptionKeyring(userId: number, keyring: Record<string, unknown>, expectedRevision?: number): Promise<EncryptionKeyring | undefined> {
+    const existing = this.encryptionKeyrings.get(userId);
+    if (existing ? existing.revision !== expectedRevision : expectedRevision !== undefined) {
+      return undefined;
+    }
+    
+    const saved: EncryptionKeyring = {
+      userId,
+      keyring,
+      revision: existing ? existing.revision + 1 : 1,
+      updatedAt: new Date()
+    };
+    this.encryptionKeyrings.set(userId, saved);
+    return saved;
+  }
+  
+  async deleteEncryptionKeyring(userId: number): Promise<boolean> {
+    return this.encryptionKeyrings.delete(userId);
+  }
+
+  // Media methods, keyed by user and file
+  async getMedia(userId: number, id: string): Promise<Media | undefined> {
+    return this.media.get(`${userId}:${id}`);
+  }
+
+  async createMedia(insertMedia: InsertMedia): Promise<Media> {
+    const key = `${insertMedia.userId}:${insertMedia.id}`;
+    const existing = this.media.get(key);
+    if (existing) return existing;
+
+    const media: Media = {
+      ...insertMedia,
+      name: insertMedia.name ?? null,
+      createdAt: new Date()
+    };
+    this.media.set(key, media);
+    return media;
+  }
+
+  async deleteMedia(userId: number, id: string): Promise<boolean> {
+    return this.media.delete(`${userId}:${id}`);
+  }
+
+  async isMediaInUse(id: string): Promise<boolean> {
+    return Array.from(this.media.values()).some(media => media.id === id);
+  }
+
+  async getMediaUsage(userId: number): Promise<number> {
+    return Array.from(this.media.values())
+      .filter(media => media.userId === userId)
+      .reduce((total, media) => total + media.size, 0);
+  }
+
+  // Search methods
+  async search(userId: number, query: ParsedQuery, options: SearchOptions): Promise<SearchPage> {
+    const index = new SearchIndex();
+    // Entries in private notebooks are left out
+    const privateNotebookIds = new Set(
+      Array.from(this.notebooks.values()).filter(notebook => notebook.isPrivate).map(notebook => notebook.id)
+    );
+    const sources: Array<[SearchEntity, Array<{ userId: number }>]> = [
+      ['post', Array.from(this.posts.values())],
+      ['note', Array.from(this.notes.values())],
+      ['journal', Array.from(this.journalEntries.values()).filter(entry => !entry.notebookId || !privateNotebookIds.has(entry.notebookId))],
+      ['document', Array.from(this.documents.values())]
+    ];
+    for (const [entity, items] of sources) {
+      for (const item of items) {
+        const document = item.userId === userId ? toSearchDocument(entity, item) : null;
+        if (document) index.add(document);
+      }
+    }
+
+    const matches = index.query(query);
+    return {
+      results: matches.slice(options.offset, options.offset + options.limit).map(({ document, score }) => ({
+        entity: document.entity,
+        id: document.id,
+        title: document.title,
+        platform: document.platform ?? null,
+        date: new Date(document.date),
+        score,
+        snippet: highlightMatches(getSnippet(document.text, query.terms), query.terms)
+      })),
+      total: matches.length
+    };
+  }
 }
 
 import { PgStorage } from './pg-storage';
 
-// Use PostgreSQL storage instead of in-memory storage
-export const storage = new PgStorage();
+// STORAGE picks where data is kept: "postgres" (the default) or "memory", which the tests use
+export const storage: IStorage = process.env.STORAGE === 'memory' ? new MemStorage() : new PgStorage();
 
 // Fix for type issues: Define the correct expected output for formattedContent
 type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
@@ -0,0 +1,32 @@
+import express, { type Express } from "express";
+import cookieParser from "cookie-parser";
+import request from "supertest";
+import { configurePassport } from "./auth/passport-config";
+import { authRouter } from "./auth/auth-routes";
+import { registerRoutes } from "./routes";
+
+// The app as index.ts sets it up, without the database, Vite or request logging.
+// Run with STORAGE=memory so nothing touches PostgreSQL.
+export async function createTestApp(): Promise<Express> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use(cookieParser());
+  configurePassport(app);
+  app.use('/api/auth', authRouter);
+  await registerRoutes(app);
+  return app;
+}
+
+let userCount = 0;
+
+// Register a new user. The returned agent keeps the session cookie, so it's signed in.
+export async function signUp(app: Express) {
+  const agent = request.agent(app);
+  const username = `user${Date.now()}${userCount++}`;
+  const res = await agent
+    .post('/api/auth/register')
+    .send({ username, email: `${username}@example.com`, password: 'password' })
+    .expect(201);
+  return { agent, userId: res.body.user.id as number };
+}
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// Crockford's base32 alphabet, as used by ULIDs
+const ULID_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Rows created before IDs were generated on the client keep their old serial number
+const LEGACY_ID_PATTERN = /^\d{1,18}$/;
+
+// Globally unique ID for posts, notes, journal entries and documents
+export type EntityId = string;
+
+/**
+ * Generate a ULID: a 48-bit millisecond timestamp followed by 80 random bits.
+ * IDs sort by creation time and can be created offline on any device without colliding.
+ */
+export function createId(now: number = Date.now()): EntityId {
+  let time = "";
+  for (let i = 0; i < 10; i++) {
+    time = ULID_ALPHABET[now % 32] + time;
+    now = Math.floor(now / 32);
+  }
+
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  let random = "";
+  for (let i = 0; i < 16; i++) {
+    random += ULID_ALPHABET[bytes[i] % 32];
+  }
+
+  return time + random;
+}
+
+/**
+ * Check whether a value is an entity ID: a ULID, a UUID or a legacy serial ID
+ */
+export function isEntityId(value: unknown): value is EntityId {
+  return typeof value === "string" &&
+    (ULID_PATTERN.test(value) || UUID_PATTERN.test(value) || LEGACY_ID_PATTERN.test(value));
+}
+
+export const entityIdSchema = z.string().refine(isEntityId, { message: "Invalid ID" });
@@ -0,0 +1,314 @@
+// Publishing rules for each platform, keyed by the platform strings stored on posts.
+// Used for live warnings in the post editors and to validate posts on the server.
+
+export type RuleSeverity = "error" | "warning" | "info";
+
+export interface ValidationIssue {
+  rule: "length" | "fold" | "media" | "aspectRatio" | "hashtags" | "mentions" | "video" | "title";
+  severity: RuleSeverity;
+  message: string;
+}
+
+interface CountLimit {
+  max: number;
+  severity: RuleSeverity;
+  reason?: string;
+}
+
+export interface PlatformRules {
+  label: string;
+  // Longest text the platform accepts
+  maxLength?: number;
+  // Characters shown before the post is cut off with "see more"
+  fold?: number;
+  // Count characters the way X does: URLs are shortened and most non-Latin characters count twice
+  weightedLength?: boolean;
+  media?: {
+    min?: number;
+    max?: number;
+    // Width divided by height
+    aspectRatio?: { min: number; max: number };
+  };
+  hashtags?: CountLimit;
+  mentions?: CountLimit;
+  requiresVideo?: boolean;
+  maxTitleLength?: number;
+}
+
+export const platformRules: Record<string, PlatformRules> = {
+  twitter: {
+    label: "X",
+    maxLength: 280,
+    weightedLength: true,
+    media: { max: 4 },
+    hashtags: { max: 2, severity: "warning", reason: "More than two hashtags tends to hurt engagement" },
+    mentions: { max: 10, severity: "warning", reason: "Posts with many mentions can be flagged as spam" },
+  },
+  linkedin: {
+    label: "LinkedIn",
+    maxLength: 3000,
+    fold: 210,
+    media: { max: 20 },
+    hashtags: { max: 5, severity: "warning", reason: "LinkedIn recommends three to five hashtags" },
+  },
+  instagram: {
+    label: "Instagram",
+    maxLength: 2200,
+    fold: 125,
+    media: { min: 1, max: 10, aspectRatio: { min: 4 / 5, max: 1.91 } },
+    hashtags: { max: 30, severity: "error" },
+    mentions: { max: 20, severity: "error" },
+  },
+  facebook: {
+    label: "Facebook",
+    maxLength: 63206,
+    media: { max: 10 },
+  },
+  youtube: {
+    label: "YouTube",
+    maxLength: 5000,
+    requiresVideo: true,
+    maxTitleLength: 100,
+    hashtags: { max: 60, severity: "error", reason: "YouTube ignores every hashtag on videos with more than 60" },
+  },
+  whatsapp: {
+    label: "WhatsApp",
+    maxLength: 65536,
+  },
+};
+
+// One tweet of a thread, stored in order on the thread's post
+export interface ThreadSegment {
+  content: string;
+  mediaUrls: string[];
+}
+
+// The parts of a post the rules look at
+export interface PostContent {
+  platform: string;
+  content: string;
+  mediaUrls?: string[] | null;
+  status?: string | null;
+  formattedContent?: { videoUrl?: string; title?: string } | null;
+  thread?: ThreadSegment[] | null;
+}
+
+// Length X counts every link as, whatever its real length
+const TRANSFORMED_URL_LENGTH = 23;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+// Built with RegExp because Unicode property escapes need a newer target than the tsconfig's
+const EMOJI_PATTERN = new RegExp("\\p{Extended_Pictographic}(?:\\uFE0F|[\\u{1F3FB}-\\u{1F3FF}]|\\u200D\\p{Extended_Pictographic})*", "gu");
+const HASHTAG_PATTERN = new RegExp("(?:^|[^\\p{L}\\p{N}_&])#([\\p{L}\\p{N}_]+)", "gu");
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w{1,30})/g;
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+
+/**
+ * Turn editor HTML into the plain text a platform would see
+ */
+export function toPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+// X counts code points in these ranges once and everything else twice
+function xCharacterWeight(codePoint: number): number {
+  const light =
+    codePoint <= 0x10ff ||
+    (codePoint >= 0x2000 && codePoint <= 0x200d) ||
+    (codePoint >= 0x2010 && codePoint <= 0x201f) ||
+    (codePoint >= 0x2032 && codePoint <= 0x2037);
+  return light ? 1 : 2;
+}
+
+/**
+ * Count the length of plain text for a platform. For X, links count as 23 characters,
+ * each emoji as two, and CJK and most other non-Latin characters as two.
+ */
+export function getTextLength(platform: string, text: string): number {
+  if (!platformRules[platform]?.weightedLength) {
+    return Array.from(text).length;
+  }
+
+  let length = 0;
+  const rest = text
+    .replace(URL_PATTERN, () => {
+      length += TRANSFORMED_URL_LENGTH;
+      return "";
+    })
+    .replace(EMOJI_PATTERN, () => {
+      length += 2;
+      return "";
+    });
+
+  for (const char of rest) {
+    length += xCharacterWeight(char.codePointAt(0)!);
+  }
+  return length;
+}
+
+export function extractHashtags(text: string): string[] {
+  return Array.from(text.matchAll(HASHTAG_PATTERN), match => match[1]);
+}
+
+export function extractMentions(text: string): string[] {
+  return Array.from(text.matchAll(MENTION_PATTERN), match => match[1]);
+}
+
+/**
+ * Get the 11-character video ID from a YouTube watch, short, embed or youtu.be URL
+ */
+export function getYouTubeVideoId(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.replace(/^(www\.|m\.)/, "");
+    let id: string | null = null;
+
+    if (host === "youtu.be") {
+      id = parsed.pathname.split("/")[1] || null;
+    } else if (host === "youtube.com" || host === "youtube-nocookie.com") {
+      id = parsed.searchParams.get("v") ||
+        parsed.pathname.match(/^\/(?:embed|shorts|v|live)\/([^/]+)/)?.[1] ||
+        null;
+    }
+
+    return id && YOUTUBE_ID_PATTERN.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+function checkCount(count: number, limit: CountLimit | undefined, rule: "hashtags" | "mentions", label: string): ValidationIssue[] {
+  if (!limit || count <= limit.max) return [];
+  const noun = rule === "hashtags" ? "hashtags" : "mentions";
+  return [{
+    rule,
+    severity: limit.severity,
+    message: limit.reason
+      ? `${count} ${noun}. ${limit.reason}.`
+      : `${label} allows at most ${limit.max} ${noun}; this post has ${count}.`,
+  }];
+}
+
+function validateThread(platform: string, rules: PlatformRules, thread: ThreadSegment[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  thread.forEach((segment, index) => {
+    const length = getTextLength(platform, segment.content);
+    if (rules.maxLength !== undefined && length > rules.maxLength) {
+      issues.push({
+        rule: "length",
+        severity: "error",
+        message: `Post ${index + 1} of the thread is ${length - rules.maxLength} characters over the limit of ${rules.maxLength}.`,
+      });
+    }
+    if (rules.media?.max !== undefined && segment.mediaUrls.length > rules.media.max) {
+      issues.push({
+        rule: "media",
+        severity: "error",
+        message: `Post ${index + 1} of the thread has ${segment.mediaUrls.length} attachments; ${rules.label} allows ${rules.media.max}.`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Check a post against its platform's rules. Drafts and archived posts aren't going
+ * out, so their errors are reported as warnings.
+ */
+export function validatePost(post: PostContent): ValidationIssue[] {
+  const rules = platformRules[post.platform];
+  if (!rules) return [];
+
+  const issues: ValidationIssue[] = [];
+  const text = toPlainText(post.content || "");
+  const mediaCount = post.mediaUrls?.filter(Boolean).length || 0;
+
+  const length = getTextLength(post.platform, text);
+  if (post.thread?.length) {
+    // Each tweet of a thread has to fit on its own
+    issues.push(...validateThread(post.platform, rules, post.thread));
+  } else if (rules.maxLength !== undefined && length > rules.maxLength) {
+    issues.push({
+      rule: "length",
+      severity: "error",
+      message: `${length - rules.maxLength} characters over the ${rules.label} limit of ${rules.maxLength}.`,
+    });
+  } else if (rules.fold !== undefined && length > rules.fold) {
+    issues.push({
+      rule: "fold",
+      severity: "info",
+      message: `Only the first ${rules.fold} characters show before "see more". Put the hook up front.`,
+    });
+  }
+
+  if (rules.media?.min !== undefined && mediaCount < rules.media.min) {
+    issues.push({
+      rule: "media",
+      severity: "error",
+      message: `${rules.label} posts need at least ${rules.media.min} image or video.`,
+    });
+  }
+  if (rules.media?.max !== undefined && mediaCount > rules.media.max && !post.thread?.length) {
+    issues.push({
+      rule: "media",
+      severity: "error",
+      message: `${rules.label} allows at most ${rules.media.max} attachments; this post has ${mediaCount}.`,
+    });
+  }
+
+  issues.push(...checkCount(extractHashtags(text).length, rules.hashtags, "hashtags", rules.label));
+  issues.push(...checkCount(extractMentions(text).length, rules.mentions, "mentions", rules.label));
+
+  if (rules.requiresVideo) {
+    const videoUrl = post.formattedContent?.videoUrl || post.mediaUrls?.[0] || "";
+    if (!getYouTubeVideoId(videoUrl)) {
+      issues.push({
+        rule: "video",
+        severity: "error",
+        message: "Add a valid YouTube video link.",
+      });
+    }
+  }
+
+  const title = post.formattedContent?.title;
+  if (rules.maxTitleLength !== undefined && title && title.length > rules.maxTitleLength) {
+    issues.push({
+      rule: "title",
+      severity: "error",
+      message: `Titles can be at most ${rules.maxTitleLength} characters.`,
+    });
+  }
+
+  if (post.status === "draft" || post.status === "archived") {
+    return issues.map(issue => (issue.severity === "error" ? { ...issue, severity: "warning" } : issue));
+  }
+  return issues;
+}
+
+/**
+ * Check an image's shape against the platform's accepted aspect ratios. Only possible
+ * where the image can be measured, so this runs in the editors but not on the server.
+ */
+export function checkAspectRatio(platform: string, width: number, height: number): ValidationIssue | null {
+  const range = platformRules[platform]?.media?.aspectRatio;
+  if (!range || !width || !height) return null;
+
+  const ratio = width / height;
+  if (ratio >= range.min - 0.01 && ratio <= range.max + 0.01) return null;
+
+  return {
+    rule: "aspectRatio",
+    severity: "warning",
+    message: `A ${width}×${height} image will be cropped. ${platformRules[platform].label} accepts shapes from ${+range.min.toFixed(2)}:1 to ${+range.max.toFixed(2)}:1.`,
+  };
+}
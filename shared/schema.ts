@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, bigserial, bigint, integer, doublePrecision, boolean, jsonb, timestamp, uniqueIndex, index, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { createId, entityIdSchema } from "./ids";
+import { validatePost, type ValidationIssue, type ThreadSegment } from "./platform-rules";
+
+export { createId, isEntityId, entityIdSchema, type EntityId } from "./ids";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -20,7 +24,7 @@ export const users = pgTable("users", {
 });
 
 export const posts = pgTable("posts", {
-  id: serial("id").primaryKey(),
+  id: text("id").primaryKey().$defaultFn(() => createId()), // ULID generated on the client
   userId: integer("user_id").notNull(),
   platform: text("platform").notNull(), // twitter, linkedin, facebook, etc.
   content: text("content").notNull(),
@@ -35,24 +39,100 @@ export const posts = pgTable("posts", {
   }>(), // Stores formatting and rich content info including user profile data
   mediaUrls: text("media_urls").array(),
   tags: text("tags").array(),
+  thread: jsonb("thread").$type<ThreadSegment[]>(), // the tweets of a thread, in order; null for single posts
+  masterId: text("master_id"), // master draft this post is a platform variant of
+  variantBase: text("variant_base"), // HTML the variant was last generated with, to tell if it was edited since
+  status: text("status").default("published").notNull(), // draft, scheduled, published, archived
+  scheduledFor: timestamp("scheduled_for"), // when a scheduled post should go out
+  encryptedPayload: text("encrypted_payload"), // client-side ciphertext of the fields above when end-to-end encryption is on
+  deletedAt: timestamp("deleted_at"), // when it was moved to the trash; kept as a tombstone so the delete syncs
+  version: integer("version").default(1).notNull(), // bumped on every update, used to detect conflicting edits
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const notes = pgTable("notes", {
-  id: serial("id").primaryKey(),
+  id: text("id").primaryKey().$defaultFn(() => createId()),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(),
   formattedContent: jsonb("formatted_content").$type<{ html?: string }>(),
   tags: text("tags").array(),
   color: text("color"),
+  encryptedPayload: text("encrypted_payload"),
+  deletedAt: timestamp("deleted_at"),
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Named journals the user writes in, such as "Therapy" or "Travel". Entries without a
+// notebook belong to the default one, which isn't stored.
+export const notebooks = pgTable("notebooks", {
+  id: text("id").primaryKey().$defaultFn(() => createId()),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  color: text("color"), // cover color
+  defaultTemplateId: text("default_template_id"), // journal template new entries start from
+  isPrivate: boolean("is_private").default(false).notNull(), // kept out of search and insights
+  encryptedPayload: text("encrypted_payload"),
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One section of a journal template: a heading to write under, and a nudge shown while it's empty
+export interface TemplateSection {
+  id: string;
+  label: string;
+  prompt: string;
+}
+
+// Journal templates the user wrote. The built-in ones ship with the app and aren't stored.
+export const journalTemplates = pgTable("journal_templates", {
+  id: text("id").primaryKey().$defaultFn(() => createId()),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description").default("").notNull(),
+  icon: text("icon").notNull(), // Remix Icon class
+  sections: jsonb("sections").$type<TemplateSection[]>().notNull(),
+  encryptedPayload: text("encrypted_payload"),
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Journal trackers the user set up. The values they record live on the entries.
+export const journalTrackers = pgTable("journal_trackers", {
+  id: text("id").primaryKey().$defaultFn(() => createId()),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // scale, boolean, counter
+  icon: text("icon").notNull(), // Remix Icon class
+  min: integer("min"), // scales go from min to max
+  max: integer("max"),
+  step: doublePrecision("step"), // counters go up and down by step, and are shown with their unit
+  unit: text("unit"),
+  position: integer("position").default(0).notNull(), // where it's listed, lowest first
+  encryptedPayload: text("encrypted_payload"),
+  version: integer("version").default(1).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One answered section of an entry written from a journal template
+export interface JournalSection {
+  id: string;
+  label: string;
+  text: string;
+}
+
+// What a journal tracker recorded: a number for scales and counters, a boolean for yes/no ones
+export type TrackerValue = number | boolean;
+
 export const journalEntries = pgTable("journal_entries", {
-  id: serial("id").primaryKey(),
+  id: text("id").primaryKey().$defaultFn(() => createId()),
   userId: integer("user_id").notNull(),
+  notebookId: text("notebook_id"), // notebook the entry is in; null for the default one
   title: text("title").notNull(),
   content: text("content").notNull(),
   formattedContent: jsonb("formatted_content").$type<{ html?: string }>(),
@@ -61,22 +141,101 @@ export const journalEntries = pgTable("journal_entries", {
   weather: text("weather"),
   location: text("location"),
   tags: text("tags").array(),
+  templateId: text("template_id"), // journal template the entry was written from, if any
+  sections: jsonb("sections").$type<JournalSection[]>(), // the template's sections as answered; also rendered into formattedContent
+  trackers: jsonb("trackers").$type<Record<string, TrackerValue>>(), // values of the user's trackers, keyed by tracker ID
+  encryptedPayload: text("encrypted_payload"),
+  deletedAt: timestamp("deleted_at"),
+  version: integer("version").default(1).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const documents = pgTable("documents", {
-  id: serial("id").primaryKey(),
+  id: text("id").primaryKey().$defaultFn(() => createId()),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(),
   formattedContent: jsonb("formatted_content").$type<{ html?: string }>(),
   category: text("category"),
   tags: text("tags").array(),
+  encryptedPayload: text("encrypted_payload"),
+  deletedAt: timestamp("deleted_at"),
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Earlier versions of notes and documents, kept so an edit can be looked back on or undone.
+// Rows are only ever added or deleted, never changed.
+export const revisions = pgTable("revisions", {
+  id: text("id").primaryKey().$defaultFn(() => createId()),
+  userId: integer("user_id").notNull(),
+  entityType: text("entity_type").notNull(), // note, document
+  entityId: text("entity_id").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  formattedContent: jsonb("formatted_content").$type<{ html?: string }>(),
+  encryptedPayload: text("encrypted_payload"),
+  createdAt: timestamp("created_at").defaultNow().notNull(), // when this version was saved
+}, (table) => ({
+  userEntityIdx: index("revisions_user_entity_idx").on(table.userId, table.entityType, table.entityId),
+}));
+
+// Append-only log of entity changes used for cross-device sync.
+// `seq` is assigned by the server and is the cursor clients page by.
+export const syncChanges = pgTable("sync_changes", {
+  seq: bigserial("seq", { mode: "number" }).primaryKey(),
+  userId: integer("user_id").notNull(),
+  changeId: text("change_id").notNull(), // client-generated, makes pushes idempotent
+  deviceId: text("device_id").notNull(),
+  entityType: text("entity_type").notNull(), // note, journal, notebook, template, tracker, document, post, revision
+  entityId: text("entity_id").notNull(),
+  operation: text("operation").notNull(), // create, update, delete
+  data: jsonb("data"),
+  clientTimestamp: timestamp("client_timestamp").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userChangeIdx: uniqueIndex("sync_changes_user_change_idx").on(table.userId, table.changeId),
+  userSeqIdx: index("sync_changes_user_seq_idx").on(table.userId, table.seq),
+}));
+
+// Highest `seq` removed by compaction, per user. Cursors at or below it can't be replayed.
+export const syncCompactions = pgTable("sync_compactions", {
+  userId: integer("user_id").primaryKey(),
+  compactedThrough: bigint("compacted_through", { mode: "number" }).notNull(),
+  compactedAt: timestamp("compacted_at").defaultNow().notNull(),
+});
+
+// Wrapped encryption keys for users who turned on end-to-end encryption. The keyring is
+// sealed on the client and opaque to the server; `revision` guards against lost updates.
+export const encryptionKeyrings = pgTable("encryption_keyrings", {
+  userId: integer("user_id").primaryKey(),
+  keyring: jsonb("keyring").notNull(),
+  revision: integer("revision").default(1).notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Files uploaded by synced clients. The bytes are kept by the media storage driver under
+// their SHA-256, once however many users upload them; each user's rows count towards
+// their own quota.
+export const media = pgTable("media", {
+  id: text("id").notNull(), // SHA-256 of the bytes, the hash clients refer to as media://<id>
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(),
+  name: text("name"), // file name it was uploaded with, for attachments
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.id, table.userId] }),
+}));
+
+// One-time data migrations run at startup that have finished, so later starts skip them
+export const completedMigrations = pgTable("completed_migrations", {
+  name: text("name").primaryKey(),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -93,26 +252,95 @@ export const insertUserSchema = createInsertSchema(users).pick({
   refreshToken: true,
 });
 
-export const insertPostSchema = createInsertSchema(posts).pick({
+export const postStatuses = ["draft", "scheduled", "published", "archived"] as const;
+
+export const MEDIA_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+// Attached media is either uploaded and referred to as media://<id>, or linked from the
+// web. Files inlined as data URLs would bloat every copy of the post, so they're refused.
+export const mediaUrlSchema = z.string().refine(
+  (url) => url.startsWith("media://") ? MEDIA_ID_PATTERN.test(url.slice("media://".length)) : /^(https?:\/\/|\/(?!\/))/i.test(url),
+  { message: "Media must be uploaded to /api/media or linked with an http(s) URL" }
+);
+
+// Post columns as sent by clients, before the platform rules are applied
+export const postFieldsSchema = createInsertSchema(posts, {
+  id: entityIdSchema.optional(),
+  mediaUrls: z.array(mediaUrlSchema).nullable().optional(),
+  thread: z.array(z.object({ content: z.string(), mediaUrls: z.array(mediaUrlSchema) })).nullable().optional(),
+  masterId: entityIdSchema.nullable().optional(),
+  status: z.enum(postStatuses).optional(),
+  scheduledFor: z.coerce.date().nullable().optional(),
+  deletedAt: z.coerce.date().nullable().optional(),
+}).pick({
+  id: true,
   userId: true,
   platform: true,
   content: true,
   formattedContent: true,
   mediaUrls: true,
   tags: true,
+  thread: true,
+  masterId: true,
+  variantBase: true,
+  status: true,
+  scheduledFor: true,
+  encryptedPayload: true,
+  deletedAt: true,
+});
+
+// Field each platform rule is reported against
+const postRuleFields: Record<ValidationIssue["rule"], string> = {
+  length: "content",
+  fold: "content",
+  hashtags: "content",
+  mentions: "content",
+  media: "mediaUrls",
+  aspectRatio: "mediaUrls",
+  video: "mediaUrls",
+  title: "formattedContent",
+};
+
+export const insertPostSchema = postFieldsSchema.superRefine((post, ctx) => {
+  // Encrypted posts can't be read here; the client checked them before sealing
+  if (post.encryptedPayload) return;
+
+  const issues = validatePost({
+    ...post,
+    formattedContent: post.formattedContent as { videoUrl?: string; title?: string } | null | undefined,
+  });
+  for (const issue of issues) {
+    if (issue.severity === "error") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [postRuleFields[issue.rule]], message: issue.message });
+    }
+  }
 });
 
-export const insertNoteSchema = createInsertSchema(notes).pick({
+export const insertNoteSchema = createInsertSchema(notes, {
+  id: entityIdSchema.optional(),
+  deletedAt: z.coerce.date().nullable().optional(),
+}).pick({
+  id: true,
   userId: true,
   title: true,
   content: true,
   formattedContent: true,
   tags: true,
   color: true,
+  encryptedPayload: true,
+  deletedAt: true,
 });
 
-export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
+export const insertJournalEntrySchema = createInsertSchema(journalEntries, {
+  id: entityIdSchema.optional(),
+  date: z.coerce.date().optional(),
+  sections: z.array(z.object({ id: z.string(), label: z.string(), text: z.string() })).nullable().optional(),
+  trackers: z.record(z.union([z.number().finite(), z.boolean()])).nullable().optional(),
+  deletedAt: z.coerce.date().nullable().optional(),
+}).pick({
+  id: true,
   userId: true,
+  notebookId: true,
   title: true,
   content: true,
   formattedContent: true,
@@ -121,15 +349,127 @@ export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick(
   weather: true,
   location: true,
   tags: true,
+  templateId: true,
+  sections: true,
+  trackers: true,
+  encryptedPayload: true,
+  deletedAt: true,
+});
+
+export const insertNotebookSchema = createInsertSchema(notebooks, {
+  id: entityIdSchema.optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).nullable().optional(),
+}).pick({
+  id: true,
+  userId: true,
+  name: true,
+  color: true,
+  defaultTemplateId: true,
+  isPrivate: true,
+  encryptedPayload: true,
+});
+
+// Encrypted templates are stored with an empty name and no sections, so neither is required here
+export const insertJournalTemplateSchema = createInsertSchema(journalTemplates, {
+  id: entityIdSchema.optional(),
+  icon: z.string().regex(/^ri-[\w-]+$/),
+  sections: z.array(z.object({ id: z.string(), label: z.string(), prompt: z.string() })),
+}).pick({
+  id: true,
+  userId: true,
+  name: true,
+  description: true,
+  icon: true,
+  sections: true,
+  encryptedPayload: true,
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).pick({
+export const insertJournalTrackerSchema = createInsertSchema(journalTrackers, {
+  id: entityIdSchema.optional(),
+  kind: z.enum(["scale", "boolean", "counter"]),
+  icon: z.string().regex(/^ri-[\w-]+$/),
+  min: z.number().int().nullable().optional(),
+  max: z.number().int().nullable().optional(),
+  step: z.number().positive().nullable().optional(),
+  position: z.number().int().optional(),
+}).pick({
+  id: true,
+  userId: true,
+  name: true,
+  kind: true,
+  icon: true,
+  min: true,
+  max: true,
+  step: true,
+  unit: true,
+  position: true,
+  encryptedPayload: true,
+});
+
+export const insertDocumentSchema = createInsertSchema(documents, {
+  id: entityIdSchema.optional(),
+  deletedAt: z.coerce.date().nullable().optional(),
+}).pick({
+  id: true,
   userId: true,
   title: true,
   content: true,
   formattedContent: true,
   category: true,
   tags: true,
+  encryptedPayload: true,
+  deletedAt: true,
+});
+
+export const revisionEntityTypes = ["note", "document"] as const;
+
+export const insertRevisionSchema = createInsertSchema(revisions, {
+  id: entityIdSchema.optional(),
+  entityType: z.enum(revisionEntityTypes),
+  entityId: entityIdSchema,
+  createdAt: z.coerce.date().optional(),
+}).pick({
+  id: true,
+  userId: true,
+  entityType: true,
+  entityId: true,
+  title: true,
+  content: true,
+  formattedContent: true,
+  encryptedPayload: true,
+  createdAt: true,
+});
+
+export const insertSyncChangeSchema = createInsertSchema(syncChanges, {
+  entityId: entityIdSchema,
+  entityType: z.enum(["note", "journal", "notebook", "template", "tracker", "document", "post", "revision"]),
+  operation: z.enum(["create", "update", "delete"]),
+}).pick({
+  userId: true,
+  changeId: true,
+  deviceId: true,
+  entityType: true,
+  entityId: true,
+  operation: true,
+  data: true,
+  clientTimestamp: true,
+});
+
+export const insertEncryptionKeyringSchema = createInsertSchema(encryptionKeyrings, {
+  keyring: z.record(z.unknown()),
+}).pick({
+  keyring: true,
+});
+
+export const insertMediaSchema = createInsertSchema(media, {
+  id: z.string().regex(MEDIA_ID_PATTERN),
+  size: z.number().int().nonnegative(),
+}).pick({
+  id: true,
+  userId: true,
+  type: true,
+  name: true,
+  size: true,
 });
 
 // Types
@@ -138,6 +478,7 @@ export type User = typeof users.$inferSelect;
 
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type Post = typeof posts.$inferSelect;
+export type PostStatus = typeof postStatuses[number];
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
@@ -145,5 +486,27 @@ export type Note = typeof notes.$inferSelect;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 
+export type InsertNotebook = z.infer<typeof insertNotebookSchema>;
+export type Notebook = typeof notebooks.$inferSelect;
+
+export type InsertJournalTemplate = z.infer<typeof insertJournalTemplateSchema>;
+export type StoredJournalTemplate = typeof journalTemplates.$inferSelect;
+
+export type InsertJournalTracker = z.infer<typeof insertJournalTrackerSchema>;
+export type StoredJournalTracker = typeof journalTrackers.$inferSelect;
+
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+
+export type InsertRevision = z.infer<typeof insertRevisionSchema>;
+export type Revision = typeof revisions.$inferSelect;
+export type RevisionEntityType = typeof revisionEntityTypes[number];
+
+export type InsertSyncChange = z.infer<typeof insertSyncChangeSchema>;
+export type SyncChange = typeof syncChanges.$inferSelect;
+
+export type InsertEncryptionKeyring = z.infer<typeof insertEncryptionKeyringSchema>;
+export type EncryptionKeyring = typeof encryptionKeyrings.$inferSelect;
+
+export type InsertMedia = z.infer<typeof insertMediaSchema>;
+export type Media = typeof media.$inferSelect;
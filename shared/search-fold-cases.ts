@@ -0,0 +1,17 @@
+// Text and how it's folded for search, checked against both foldText and the database's
+// search_fold so the two can't drift apart
+export const FOLD_CASES: Array<[text: string, folded: string]> = [
+  ["Crème Brûlée", "creme brulee"],
+  ["Ñandú", "nandu"],
+  ["Søren Ørsted", "soren orsted"],
+  ["Łódź", "lodz"],
+  ["Straße", "strasse"],
+  ["Ærø", "aero"],
+  ["Œuvre", "oeuvre"],
+  ["Þór", "thor"],
+  // Accents written as combining marks after the letter
+  ["cafe\u0301", "cafe"],
+  ["n\u0303o\u0308", "no"],
+  // Compatibility forms such as ligatures
+  ["ﬁle", "file"],
+];
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { foldText, highlightMatches, tokenize } from "./search";
+import { FOLD_CASES } from "./search-fold-cases";
+
+describe("foldText", () => {
+  it.each(FOLD_CASES)("folds %j to %j", (text, folded) => {
+    expect(foldText(text)).toBe(folded);
+  });
+});
+
+describe("tokenize", () => {
+  it("keeps words whole when their accents are combining marks", () => {
+    expect(tokenize("Un cafe\u0301 noir")).toEqual(["un", "cafe", "noir"]);
+  });
+
+  it("splits on punctuation", () => {
+    expect(tokenize("Søren's notes, 2024")).toEqual(["soren", "s", "notes", "2024"]);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("marks words that only match once folded, keeping their own spelling", () => {
+    expect(highlightMatches("Straße zum Café", tokenize("strasse cafe"))).toEqual([
+      { text: "Straße", match: true },
+      { text: " zum ", match: false },
+      { text: "Café", match: true }
+    ]);
+  });
+});
@@ -0,0 +1,694 @@
+// Search across posts, notes, journal entries and documents: the query language, its
+// evaluation and ranking. Shared so the client's local index and GET /api/search give
+// the same results for the same query.
+//
+//   launch plan            both words, anywhere (words match by prefix)
+//   "launch plan"          the exact phrase
+//   tag:launch #launch     tagged "launch"
+//   platform:linkedin      LinkedIn posts (x, ig, fb, li and yt work too)
+//   mood:happy             journal entries with that mood
+//   type:note              one kind of item: post, note, journal or doc
+//   status:draft           posts with that status
+//   before:2025-06-01      dated before that day; after: is dated after it
+//   has:image              has:image, has:video, has:link or has:tags
+//   -word  a OR b  (a b)   negation, alternatives and grouping
+
+export type SearchEntity = "post" | "note" | "journal" | "document";
+
+export const searchEntities: SearchEntity[] = ["post", "note", "journal", "document"];
+
+// One searchable item, with its text already pulled out of the HTML
+export interface SearchDocument {
+  key: string;
+  entity: SearchEntity;
+  id: string;
+  title: string;
+  text: string;
+  tags: string[];
+  platform?: string;
+  status?: string;
+  mood?: string;
+  // What before: and after: compare against: the entry's day for journal entries, the
+  // scheduled or creation time for posts and the last edit for notes and documents
+  date: number;
+  updatedAt: number;
+  hasImage: boolean;
+  hasVideo: boolean;
+  hasLink: boolean;
+}
+
+export type FieldName = "tag" | "platform" | "mood" | "type" | "status";
+export type HasValue = "image" | "video" | "link" | "tags";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  // Normalized words, matching anywhere in any order, or in sequence for a phrase
+  | { type: "text"; terms: string[]; phrase: boolean }
+  | { type: "field"; field: FieldName; value: string }
+  | { type: "date"; op: "before" | "after"; date: string }
+  | { type: "has"; value: HasValue };
+
+export interface QueryError {
+  message: string;
+  token: string;
+}
+
+// A run of text that either matches the query or doesn't, for rendering highlights
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface ParsedQuery {
+  // null for an empty query, which matches everything
+  ast: QueryNode | null;
+  errors: QueryError[];
+  // Words to rank and highlight results by, leaving out negated ones
+  terms: string[];
+}
+
+// Built with RegExp because Unicode property escapes need a newer target than the tsconfig's
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+// Combining accents, as written in both JavaScript and Postgres regular expressions
+export const DIACRITICS_RANGE = "\\u0300-\\u036f";
+const DIACRITICS_PATTERN = new RegExp(`[${DIACRITICS_RANGE}]`, "g");
+// Letters that NFKD leaves alone but that are searched as the plain letters they look like
+export const LETTER_FOLDS: Record<string, string> = {
+  "ø": "o", "Ø": "o",
+  "ł": "l", "Ł": "l",
+  "đ": "d", "Đ": "d",
+  "ð": "d", "Ð": "d",
+  "ħ": "h", "Ħ": "h",
+  "ı": "i",
+  "ß": "ss", "ẞ": "ss",
+  "æ": "ae", "Æ": "ae",
+  "œ": "oe", "Œ": "oe",
+  "þ": "th", "Þ": "th",
+};
+const LETTER_FOLD_PATTERN = new RegExp(`[${Object.keys(LETTER_FOLDS).join("")}]`, "g");
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+// Attachments in the client's media store (media://<hash>) are added as images
+const IMAGE_URL_PATTERN = /^data:image\/|^media:\/\/|\.(png|jpe?g|gif|webp|avif|svg)(\?|$)/i;
+const VIDEO_URL_PATTERN = /^data:video\/|\.(mp4|mov|webm|m4v)(\?|$)|youtube\.com|youtu\.be|vimeo\.com/i;
+const LINK_PATTERN = /<a\s[^>]*href=|\bhttps?:\/\/|\bwww\./i;
+
+const PLATFORM_ALIASES: Record<string, string> = {
+  x: "twitter",
+  ig: "instagram",
+  fb: "facebook",
+  li: "linkedin",
+  yt: "youtube",
+  wa: "whatsapp",
+};
+
+const TYPE_ALIASES: Record<string, SearchEntity> = {
+  post: "post",
+  posts: "post",
+  note: "note",
+  notes: "note",
+  journal: "journal",
+  entry: "journal",
+  entries: "journal",
+  doc: "document",
+  docs: "document",
+  document: "document",
+  documents: "document",
+};
+
+const HAS_ALIASES: Record<string, HasValue> = {
+  image: "image",
+  images: "image",
+  photo: "image",
+  video: "video",
+  videos: "video",
+  link: "link",
+  links: "link",
+  tag: "tags",
+  tags: "tags",
+};
+
+const FIELDS = ["tag", "platform", "mood", "type", "status", "before", "after", "has"];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS = { title: 3, tags: 2, text: 1 };
+// Matching the start of a word counts for less than matching the whole word
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Fold text the way it's searched: lowercase, without accents, and with letters such as ø
+ * and ß spelled plainly. The database's search_fold folds stored text the same way.
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(DIACRITICS_PATTERN, "")
+    .replace(LETTER_FOLD_PATTERN, letter => LETTER_FOLDS[letter])
+    .toLowerCase();
+}
+
+/**
+ * Split text into folded search terms, ignoring punctuation. Accents are dropped first, so
+ * ones written as separate combining marks don't split words.
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).match(WORD_PATTERN) || [];
+}
+
+/**
+ * Whether a word from a document matches a query term. Terms longer than one character
+ * also match words they start, so results show up while a word is still being typed.
+ */
+export function wordMatches(word: string, term: string): boolean {
+  return word === term || (term.length > 1 && word.startsWith(term));
+}
+
+/**
+ * Turn editor HTML into plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+const toTime = (value: unknown): number => (value ? new Date(value as string).getTime() || 0 : 0);
+
+/**
+ * Turn a stored post, note, journal entry or document into a search document. Items
+ * whose content is end-to-end encrypted can't be searched and give null, as do items
+ * in the trash.
+ */
+export function toSearchDocument(entity: SearchEntity, item: any): SearchDocument | null {
+  if (!item?.id || item.encryptedPayload || item.deletedAt) return null;
+
+  const html: string = item.formattedContent?.html || item.content || "";
+  const mediaUrls: string[] = (item.mediaUrls || []).filter(Boolean);
+  const imageUrls = Array.from(html.matchAll(/<img[^>]*src="([^"]+)"/gi), match => match[1]);
+  const extra = entity === "journal" ? [item.mood, item.location, item.weather] : [];
+  const updatedAt = toTime(item.updatedAt || item.createdAt);
+
+  let date = updatedAt;
+  if (entity === "journal") {
+    date = toTime(item.date) || updatedAt;
+  } else if (entity === "post") {
+    date = toTime(item.scheduledFor) || toTime(item.createdAt);
+  }
+
+  return {
+    key: `${entity}:${item.id}`,
+    entity,
+    id: String(item.id),
+    title: item.title || item.formattedContent?.title || "",
+    text: [htmlToText(html), ...extra].filter(Boolean).join("\n"),
+    tags: item.tags || [],
+    platform: entity === "post" ? item.platform : undefined,
+    status: entity === "post" ? item.status || "published" : undefined,
+    mood: entity === "journal" ? item.mood || undefined : undefined,
+    date,
+    updatedAt,
+    hasImage: imageUrls.length > 0 || mediaUrls.some(url => IMAGE_URL_PATTERN.test(url)),
+    hasVideo: !!item.formattedContent?.videoUrl || mediaUrls.some(url => VIDEO_URL_PATTERN.test(url)),
+    hasLink: LINK_PATTERN.test(html),
+  };
+}
+
+type Token =
+  | { kind: "lparen" }
+  | { kind: "rparen" }
+  | { kind: "or" }
+  | { kind: "term"; negated: boolean; raw: string; field: string | null; value: string; quoted: boolean };
+
+// Read a quoted string starting at the opening quote. Returns the text and where it ends.
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf("\"", start + 1);
+  const end = close === -1 ? query.length : close + 1;
+  return { value: query.slice(start + 1, close === -1 ? query.length : close), end };
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen" });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = char === "-" && i + 1 < query.length && !/[\s)]/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (query[i] === "\"") {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: "term", negated, raw: query.slice(start, end), field: null, value, quoted: true });
+      i = end;
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !/[\s()]/.test(query[end])) end++;
+    const word = query.slice(i, end);
+
+    if (word === "OR" && !negated) {
+      tokens.push({ kind: "or" });
+      i = end;
+      continue;
+    }
+
+    // Only known field names count, so pasted URLs and times stay plain text
+    const field = word.match(/^([a-z]+):/i)?.[1].toLowerCase();
+    if (field && FIELDS.includes(field)) {
+      const valueStart = i + field.length + 1;
+      if (query[valueStart] === "\"") {
+        const quoted = readQuoted(query, valueStart);
+        tokens.push({ kind: "term", negated, raw: query.slice(start, quoted.end), field, value: quoted.value, quoted: true });
+        i = quoted.end;
+        continue;
+      }
+      tokens.push({ kind: "term", negated, raw: query.slice(start, end), field, value: query.slice(valueStart, end), quoted: false });
+    } else {
+      tokens.push({ kind: "term", negated, raw: query.slice(start, end), field: null, value: word, quoted: false });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+// Check a YYYY-MM-DD date is real, so 2025-02-30 is rejected rather than rolled over
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]);
+}
+
+function termToNode(token: Extract<Token, { kind: "term" }>, errors: QueryError[]): QueryNode | null {
+  const value = token.value.trim();
+  const lower = value.toLowerCase();
+  const fail = (message: string) => {
+    errors.push({ message, token: token.raw });
+    return null;
+  };
+
+  if (!token.field) {
+    // #launch is shorthand for tag:launch
+    if (!token.quoted && /^#[^#\s]+$/.test(value)) {
+      return { type: "field", field: "tag", value: lower.slice(1) };
+    }
+    const terms = tokenize(value);
+    if (terms.length === 0) return null;
+    return { type: "text", terms, phrase: token.quoted && terms.length > 1 };
+  }
+
+  if (!value) return fail(`"${token.field}:" needs a value.`);
+
+  switch (token.field) {
+    case "tag":
+      return { type: "field", field: "tag", value: lower.replace(/^#/, "") };
+    case "platform":
+      return { type: "field", field: "platform", value: PLATFORM_ALIASES[lower] || lower };
+    case "mood":
+    case "status":
+      return { type: "field", field: token.field, value: lower };
+    case "type":
+      return TYPE_ALIASES[lower]
+        ? { type: "field", field: "type", value: TYPE_ALIASES[lower] }
+        : fail(`Unknown type "${value}". Use post, note, journal or doc.`);
+    case "before":
+    case "after":
+      return isValidDate(value)
+        ? { type: "date", op: token.field, date: value }
+        : fail(`"${value}" isn't a date. Write dates as YYYY-MM-DD.`);
+    case "has":
+      return HAS_ALIASES[lower]
+        ? { type: "has", value: HAS_ALIASES[lower] }
+        : fail(`Unknown "has:${value}". Use image, video, link or tags.`);
+    default:
+      return fail(`Unknown filter "${token.field}".`);
+  }
+}
+
+const combine = (type: "and" | "or", children: QueryNode[]): QueryNode | null => {
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+};
+
+/**
+ * Parse a search query into its syntax tree. Never throws: problems are reported in
+ * `errors` and the parts that could be understood are still returned.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const tokens = lex(query);
+  const errors: QueryError[] = [];
+  let position = 0;
+
+  // or := and ("OR" and)*
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (tokens[position]?.kind === "or") {
+      position++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine("or", children);
+  };
+
+  // and := unary+, ending at OR, a closing bracket or the end
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length && tokens[position].kind !== "or" && tokens[position].kind !== "rparen") {
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return combine("and", children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+    if (token.kind === "lparen") {
+      const inner = parseOr();
+      if (tokens[position]?.kind === "rparen") {
+        position++;
+      } else {
+        errors.push({ message: "Missing closing bracket.", token: "(" });
+      }
+      return inner;
+    }
+    if (token.kind !== "term") return null;
+
+    const node = termToNode(token, errors);
+    return node && token.negated ? { type: "not", child: node } : node;
+  };
+
+  const children: QueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) children.push(node);
+    if (tokens[position]?.kind === "rparen") {
+      errors.push({ message: "Unexpected closing bracket.", token: ")" });
+      position++;
+    }
+  }
+
+  const ast = combine("and", children);
+  return { ast, errors, terms: ast ? collectTerms(ast) : [] };
+}
+
+function collectTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return Array.from(new Set(node.children.flatMap(collectTerms)));
+    case "text":
+      return node.terms;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Split text into parts that do and don't match the query, for highlighting
+ * @param text The text to highlight
+ * @param queryTerms Terms from tokenize(); words starting with a term match too
+ */
+export function highlightMatches(text: string, queryTerms: string[]): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const [word] = tokenize(match[0]);
+    if (!queryTerms.some(term => wordMatches(word, term))) continue;
+
+    const start = match.index!;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+
+  return parts;
+}
+
+/**
+ * The stretch of text around the first match, trimmed to whole words
+ */
+export function getSnippet(text: string, queryTerms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const parts = highlightMatches(flat, queryTerms);
+  const firstMatch = parts.findIndex(part => part.match);
+
+  let start = 0;
+  if (firstMatch > 0) {
+    const offset = parts.slice(0, firstMatch).reduce((length, part) => length + part.text.length, 0);
+    start = Math.max(0, offset - Math.floor(SNIPPET_LENGTH / 3));
+  }
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    start = space === -1 ? start : space + 1;
+  }
+
+  let end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    end = space > start ? space : end;
+  }
+
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+// Start of a YYYY-MM-DD day in local time
+function startOfDay(date: string, offsetDays = 0): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day + offsetDays).getTime();
+}
+
+/**
+ * The instant a before: or after: filter compares against: the start of its day for
+ * before:, and the end of it for after:. Days are in the local time of whoever runs it.
+ */
+export function getDateBound(node: Extract<QueryNode, { type: "date" }>): number {
+  return node.op === "before" ? startOfDay(node.date) : startOfDay(node.date, 1);
+}
+
+// Words of each document, worked out once per document when a query needs them
+const documentWords = new WeakMap<SearchDocument, string[]>();
+
+function getWords(document: SearchDocument): string[] {
+  let words = documentWords.get(document);
+  if (!words) {
+    words = tokenize(`${document.title}\n${document.tags.join(" ")}\n${document.text}`);
+    documentWords.set(document, words);
+  }
+  return words;
+}
+
+function matchesText(document: SearchDocument, terms: string[], phrase: boolean): boolean {
+  const words = getWords(document);
+  if (!phrase) {
+    return terms.every(term => words.some(word => wordMatches(word, term)));
+  }
+
+  // The last word of a phrase may still be being typed, the others have to be whole
+  for (let start = 0; start + terms.length <= words.length; start++) {
+    const matched = terms.every((term, offset) => offset === terms.length - 1
+      ? wordMatches(words[start + offset], term)
+      : words[start + offset] === term);
+    if (matched) return true;
+  }
+  return false;
+}
+
+/**
+ * Evaluate a query's syntax tree against one document
+ */
+export function matchesQuery(node: QueryNode | null, document: SearchDocument): boolean {
+  if (!node) return true;
+
+  switch (node.type) {
+    case "and":
+      return node.children.every(child => matchesQuery(child, document));
+    case "or":
+      return node.children.some(child => matchesQuery(child, document));
+    case "not":
+      return !matchesQuery(node.child, document);
+    case "text":
+      return matchesText(document, node.terms, node.phrase);
+    case "field":
+      switch (node.field) {
+        case "tag":
+          return document.tags.some(tag => tag.toLowerCase().replace(/^#/, "") === node.value);
+        case "platform":
+          return document.platform === node.value;
+        case "mood":
+          return document.mood?.toLowerCase() === node.value;
+        case "type":
+          return document.entity === node.value;
+        case "status":
+          return document.status === node.value;
+      }
+      return false;
+    case "date":
+      return node.op === "before" ? document.date < getDateBound(node) : document.date >= getDateBound(node);
+    case "has":
+      switch (node.value) {
+        case "image":
+          return document.hasImage;
+        case "video":
+          return document.hasVideo;
+        case "link":
+          return document.hasLink;
+        case "tags":
+          return document.tags.length > 0;
+      }
+      return false;
+  }
+}
+
+// Weighted term frequencies of one document, and their total
+interface IndexedDocument {
+  document: SearchDocument;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface ScoredDocument {
+  document: SearchDocument;
+  score: number;
+}
+
+/**
+ * Inverted index over search documents, ranking matches with BM25. Documents can be
+ * added and removed one at a time as they change.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> keys of the documents containing it
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  add(document: SearchDocument): void {
+    this.remove(document.key);
+
+    const terms = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) || 0) + weight);
+      }
+    };
+    count(document.title, FIELD_WEIGHTS.title);
+    count(document.tags.join(" "), FIELD_WEIGHTS.tags);
+    count(document.text, FIELD_WEIGHTS.text);
+
+    let length = 0;
+    terms.forEach((frequency, term) => {
+      length += frequency;
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(document.key);
+    });
+
+    this.documents.set(document.key, { document, terms, length });
+    this.totalLength += length;
+  }
+
+  remove(key: string): void {
+    const existing = this.documents.get(key);
+    if (!existing) return;
+
+    existing.terms.forEach((_, term) => {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(key);
+    this.totalLength -= existing.length;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  // BM25 score of every document containing any of the terms
+  private score(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const averageLength = this.totalLength / this.documents.size;
+
+    for (const queryTerm of terms) {
+      const termScores = new Map<string, number>();
+
+      this.postings.forEach((keys, term) => {
+        if (!wordMatches(term, queryTerm)) return;
+        const weight = term === queryTerm ? 1 : PREFIX_WEIGHT;
+        const idf = Math.log(1 + (this.documents.size - keys.size + 0.5) / (keys.size + 0.5));
+
+        keys.forEach(key => {
+          const indexed = this.documents.get(key)!;
+          const frequency = indexed.terms.get(term)!;
+          const score = idf * weight * (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * indexed.length / averageLength));
+          // A term matching several words in a document counts its best match
+          termScores.set(key, Math.max(termScores.get(key) || 0, score));
+        });
+      });
+
+      termScores.forEach((score, key) => scores.set(key, (scores.get(key) || 0) + score));
+    }
+    return scores;
+  }
+
+  /**
+   * Find the documents matching a parsed query, best first. Queries without words are
+   * filters only and list their matches newest first.
+   */
+  query(parsed: ParsedQuery): ScoredDocument[] {
+    if (this.documents.size === 0) return [];
+
+    // Every document is a candidate, since words can be optional (a OR tag:b) and
+    // documents can match without containing any of them
+    const scores = parsed.terms.length > 0 ? this.score(parsed.terms) : new Map<string, number>();
+    const matches: ScoredDocument[] = [];
+    this.documents.forEach(({ document }, key) => {
+      if (matchesQuery(parsed.ast, document)) {
+        matches.push({ document, score: scores.get(key) || 0 });
+      }
+    });
+
+    return matches.sort((a, b) => b.score - a.score || b.document.date - a.document.date);
+  }
+
+  /**
+   * Count the documents matching a parsed query without ranking them
+   */
+  count(parsed: ParsedQuery): number {
+    let count = 0;
+    this.documents.forEach(({ document }) => {
+      if (matchesQuery(parsed.ast, document)) count++;
+    });
+    return count;
+  }
+}
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Keep everything in memory so the tests need no database or upload directory
+    env: {
+      STORAGE: "memory",
+      MEDIA_STORAGE: "memory",
+    },
+  },
+});